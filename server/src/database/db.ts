@@ -6,6 +6,19 @@ let db: Database | null = null;
 let isInitializing = false;
 let initPromise: Promise<Database> | null = null;
 
+// How long a write waits for another connection's transaction to finish
+const BUSY_TIMEOUT_MS = 5000;
+
+async function openConnection(): Promise<Database> {
+  const database = await open({
+    filename: join(process.cwd(), 'skillswap.db'),
+    driver: sqlite3.Database
+  });
+  await database.run('PRAGMA foreign_keys = ON');
+  await database.run(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+  return database;
+}
+
 export async function getDatabase(): Promise<Database> {
   if (db) return db;
   
@@ -16,13 +29,9 @@ export async function getDatabase(): Promise<Database> {
   isInitializing = true;
   initPromise = new Promise(async (resolve, reject) => {
     try {
-      const database = await open({
-        filename: join(process.cwd(), 'skillswap.db'),
-        driver: sqlite3.Database
-      });
+      const database = await openConnection();
 
-      // Enable foreign keys and WAL mode
-      await database.run('PRAGMA foreign_keys = ON');
+      // WAL mode lets transactions on their own connections run beside readers
       await database.run('PRAGMA journal_mode = WAL');
 
       db = database;
@@ -40,6 +49,28 @@ export async function getDatabase(): Promise<Database> {
   return initPromise;
 }
 
+// Run `work` in a transaction on a connection of its own. Every request shares
+// the connection from getDatabase, so a transaction there would also commit or
+// roll back whatever other requests ran in the meantime. `work` must only use
+// the connection it is given: a write through the shared one waits for this
+// transaction to end.
+export async function runInTransaction<T>(work: (db: Database) => Promise<T>): Promise<T> {
+  const connection = await openConnection();
+  try {
+    await connection.run('BEGIN IMMEDIATE');
+    try {
+      const result = await work(connection);
+      await connection.run('COMMIT');
+      return result;
+    } catch (error) {
+      await connection.run('ROLLBACK');
+      throw error;
+    }
+  } finally {
+    await connection.close();
+  }
+}
+
 export function closeDatabase(callback?: (err: Error | null) => void): void {
   if (db) {
     db.close()
@@ -1,4 +1,8 @@
 import { Database } from 'sqlite';
+import crypto from 'crypto';
+import { readdir, readFile, writeFile } from 'fs/promises';
+import { basename, dirname, extname, join } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
 
 export interface Migration {
   id: string;
@@ -6,102 +10,272 @@ export interface Migration {
   down?: (db: Database) => Promise<void>;
 }
 
+// A migration as found in the migrations directory
+export interface MigrationFile extends Migration {
+  file: string;
+  checksum: string;
+}
+
+// pending: not run yet. changed: the file was edited after it ran.
+// missing: recorded as run, but its file is gone.
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing';
+
+export interface MigrationStatus {
+  id: string;
+  state: MigrationState;
+  appliedAt?: string;
+}
+
+export const MIGRATIONS_DIR = join(dirname(fileURLToPath(import.meta.url)), 'migrations');
+
+// NNN_snake_case_name.ts, or .js once compiled. The number sets the order.
+const MIGRATION_FILE = /^(\d{3})_([a-z0-9_]+)\.(ts|js)$/;
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// The server won't start on a database that is missing migrations
+export class SchemaOutOfDateError extends MigrationError {
+  pending: string[];
+
+  constructor(pending: string[]) {
+    const listed = pending.length > 5 ? [...pending.slice(0, 5), `${pending.length - 5} more`] : pending;
+    super(
+      `The database schema is behind by ${pending.length} migration${pending.length === 1 ? '' : 's'} ` +
+      `(${listed.join(', ')}). Run "npm run db:migrate" to apply them.`
+    );
+    this.name = 'SchemaOutOfDateError';
+    this.pending = pending;
+  }
+}
+
+// Line endings depend on the checkout, so they don't count as a change
+export function migrationChecksum(source: string): string {
+  return crypto.createHash('sha256').update(source.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+const isMigration = (value: unknown): value is Migration =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as Migration).id === 'string' && typeof (value as Migration).up === 'function';
+
+// Every migration in the directory, in the order they apply
+export async function loadMigrations(dir = MIGRATIONS_DIR): Promise<MigrationFile[]> {
+  const files = (await readdir(dir)).filter(file => MIGRATION_FILE.test(file)).sort();
+  const migrations: MigrationFile[] = [];
+  const numbers = new Set<string>();
+
+  for (const file of files) {
+    const id = basename(file, extname(file));
+    const number = id.slice(0, 3);
+    if (numbers.has(number)) {
+      throw new MigrationError(`More than one migration is numbered ${number}; renumber ${file}`);
+    }
+    numbers.add(number);
+
+    const path = join(dir, file);
+    const exported = Object.values(await import(pathToFileURL(path).href)).filter(isMigration);
+    if (exported.length !== 1) {
+      throw new MigrationError(`${file} must export exactly one migration`);
+    }
+    if (exported[0].id !== id) {
+      throw new MigrationError(`${file} exports migration "${exported[0].id}"; its id must match the file name`);
+    }
+
+    migrations.push({ ...exported[0], file: path, checksum: migrationChecksum(await readFile(path, 'utf8')) });
+  }
+
+  return migrations;
+}
+
+// Write an empty migration numbered after the newest one; returns its path
+export async function createMigrationFile(name: string, dir = MIGRATIONS_DIR): Promise<string> {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!/^[a-z]/.test(slug)) {
+    throw new MigrationError('Migration names must start with a letter, e.g. add_user_bio');
+  }
+
+  const numbers = (await readdir(dir))
+    .map(file => MIGRATION_FILE.exec(file))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => Number(match[1]));
+  const id = `${String(Math.max(-1, ...numbers) + 1).padStart(3, '0')}_${slug}`;
+  const exportName = slug.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+
+  const path = join(dir, `${id}.ts`);
+  await writeFile(path, `import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const ${exportName}: Migration = {
+  id: '${id}',
+  up: async (db: Database) => {
+  },
+  down: async (db: Database) => {
+  }
+};
+`, { flag: 'wx' });
+  return path;
+}
+
 export class MigrationRunner {
-  private migrations: Migration[] = [];
   private db: Database;
+  private migrations: MigrationFile[];
+  private log: (message: string) => void;
 
-  constructor(db: Database) {
+  constructor(db: Database, migrations: MigrationFile[], log: (message: string) => void = console.log) {
     this.db = db;
+    this.migrations = migrations;
+    this.log = log;
   }
 
   async init() {
-    // Create migrations table if it doesn't exist
     await this.db.exec(`
       CREATE TABLE IF NOT EXISTS migrations (
         id TEXT PRIMARY KEY,
         name TEXT NOT NULL,
+        checksum TEXT,
         run_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       )
     `);
+
+    // Databases from before checksums were recorded
+    const columns = await this.db.all<{ name: string }[]>('PRAGMA table_info(migrations)');
+    if (!columns.some(column => column.name === 'checksum')) {
+      await this.db.exec('ALTER TABLE migrations ADD COLUMN checksum TEXT');
+    }
   }
 
-  addMigration(migration: Migration) {
-    this.migrations.push(migration);
+  private async getApplied() {
+    const rows = await this.db.all<{ id: string; checksum: string | null; run_at: string }[]>(
+      'SELECT id, checksum, run_at FROM migrations ORDER BY id'
+    );
+    return new Map(rows.map(row => [row.id, row]));
   }
 
-  async migrate() {
+  async status(): Promise<MigrationStatus[]> {
     await this.init();
-    
-    // Get all applied migrations
-    const appliedMigrations = await this.db.all<{id: string}[]>(
-      'SELECT id FROM migrations ORDER BY run_at ASC'
-    );
-    
-    const appliedIds = new Set(appliedMigrations.map(m => m.id));
-    const pendingMigrations = this.migrations.filter(m => !appliedIds.has(m.id));
+    const applied = await this.getApplied();
 
-    if (pendingMigrations.length === 0) {
-      console.log('No pending migrations to run');
-      return;
+    const statuses: MigrationStatus[] = this.migrations.map(({ id, checksum }) => {
+      const row = applied.get(id);
+      if (!row) {
+        return { id, state: 'pending' };
+      }
+      // Rows recorded before checksums existed can't have drifted as far as we know
+      const state = row.checksum && row.checksum !== checksum ? 'changed' : 'applied';
+      return { id, state, appliedAt: row.run_at };
+    });
+
+    for (const [id, row] of applied) {
+      if (!this.migrations.some(migration => migration.id === id)) {
+        statuses.push({ id, state: 'missing', appliedAt: row.run_at });
+      }
+    }
+    return statuses.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  // Throws unless every migration has been applied; warns about drift
+  async verify() {
+    const statuses = await this.status();
+    const pending = statuses.filter(({ state }) => state === 'pending').map(({ id }) => id);
+    if (pending.length > 0) {
+      throw new SchemaOutOfDateError(pending);
     }
 
-    console.log(`Found ${pendingMigrations.length} pending migrations`);
-    
-    for (const migration of pendingMigrations) {
-      console.log(`Running migration: ${migration.id}`);
+    for (const { id, state } of statuses) {
+      if (state === 'changed') {
+        console.warn(`⚠️  Migration ${id} was edited after it was applied`);
+      } else if (state === 'missing') {
+        console.warn(`⚠️  Migration ${id} was applied but its file is missing`);
+      }
+    }
+  }
+
+  // Apply every pending migration in order; returns their ids
+  async migrate(): Promise<string[]> {
+    const statuses = await this.status();
+
+    const changed = statuses.filter(({ state }) => state === 'changed').map(({ id }) => id);
+    if (changed.length > 0) {
+      throw new MigrationError(
+        `Applied migrations were edited since they ran: ${changed.join(', ')}. ` +
+        'Undo the edits, or roll back with "down --to" before changing a migration.'
+      );
+    }
+
+    // Record checksums for migrations applied before they were tracked
+    for (const migration of this.migrations) {
+      await this.db.run('UPDATE migrations SET checksum = ? WHERE id = ? AND checksum IS NULL', [migration.checksum, migration.id]);
+    }
+
+    const pendingIds = new Set(statuses.filter(({ state }) => state === 'pending').map(({ id }) => id));
+    const pending = this.migrations.filter(migration => pendingIds.has(migration.id));
+
+    for (const migration of pending) {
+      this.log(`Running migration: ${migration.id}`);
       await this.db.run('BEGIN TRANSACTION');
-      
+
       try {
         await migration.up(this.db);
         await this.db.run(
-          'INSERT INTO migrations (id, name) VALUES (?, ?)',
-          [migration.id, migration.id]
+          'INSERT INTO migrations (id, name, checksum) VALUES (?, ?, ?)',
+          [migration.id, migration.id.slice(4), migration.checksum]
         );
         await this.db.run('COMMIT');
-        console.log(`✅ Successfully applied migration: ${migration.id}`);
+        this.log(`✅ Successfully applied migration: ${migration.id}`);
       } catch (error) {
         await this.db.run('ROLLBACK');
         console.error(`❌ Failed to apply migration ${migration.id}:`, error);
         throw error;
       }
     }
+    return pending.map(({ id }) => id);
   }
 
-  async rollback(steps: number = 1) {
+  // Roll back the newest applied migration, or every applied migration after
+  // `to` (an id or its number, e.g. 012). Returns the ids rolled back.
+  async rollback(to?: string): Promise<string[]> {
     await this.init();
-    
-    const appliedMigrations = await this.db.all<{id: string}[]>(
-      'SELECT id FROM migrations ORDER BY run_at DESC LIMIT ?',
-      [steps]
-    );
-    
-    if (appliedMigrations.length === 0) {
-      console.log('No migrations to rollback');
-      return;
+    const appliedIds = [...(await this.getApplied()).keys()];
+
+    let ids: string[];
+    if (to === undefined) {
+      ids = appliedIds.slice(-1);
+    } else {
+      const target = this.migrations.find(({ id }) => id === to || id.startsWith(`${to}_`));
+      if (!target) {
+        throw new MigrationError(`No migration matches "${to}"`);
+      }
+      ids = appliedIds.filter(id => id > target.id);
     }
-    
-    console.log(`Rolling back ${appliedMigrations.length} migrations`);
-    
-    for (const { id } of appliedMigrations) {
+
+    // Check them all first so a rollback doesn't stop halfway
+    const steps = ids.reverse().map(id => {
       const migration = this.migrations.find(m => m.id === id);
       if (!migration?.down) {
-        console.log(`Skipping rollback for ${id} (no down migration)`);
-        continue;
+        throw new MigrationError(`Migration ${id} can't be rolled back: ${migration ? 'it has no down migration' : 'its file is missing'}`);
       }
-      
-      console.log(`Rolling back migration: ${id}`);
+      return { id, down: migration.down };
+    });
+
+    for (const { id, down } of steps) {
+      this.log(`Rolling back migration: ${id}`);
       await this.db.run('BEGIN TRANSACTION');
-      
+
       try {
-        await migration.down(this.db);
+        await down(this.db);
         await this.db.run('DELETE FROM migrations WHERE id = ?', [id]);
         await this.db.run('COMMIT');
-        console.log(`✅ Successfully rolled back migration: ${id}`);
+        this.log(`✅ Successfully rolled back migration: ${id}`);
       } catch (error) {
         await this.db.run('ROLLBACK');
         console.error(`❌ Failed to rollback migration ${id}:`, error);
         throw error;
       }
     }
+    return steps.map(({ id }) => id);
   }
 }
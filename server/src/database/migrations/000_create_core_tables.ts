@@ -0,0 +1,108 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const createCoreTables: Migration = {
+  id: '000_create_core_tables',
+  up: async (db: Database) => {
+    // The tables every later migration builds on. Databases that predate
+    // migrations already have them, hence IF NOT EXISTS throughout.
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT UNIQUE NOT NULL,
+        email TEXT UNIQUE NOT NULL,
+        password TEXT NOT NULL,
+        fullName TEXT NOT NULL,
+        bio TEXT,
+        location TEXT,
+        profilePicture TEXT,
+        rating REAL DEFAULT 0,
+        isAdmin BOOLEAN DEFAULT 0,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS skills (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        category TEXT NOT NULL,
+        proficiency TEXT CHECK(proficiency IN ('beginner', 'intermediate', 'advanced', 'expert')) NOT NULL,
+        isOffering BOOLEAN DEFAULT 1,
+        isSeeking BOOLEAN DEFAULT 0,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS swap_requests (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        requesterId INTEGER NOT NULL,
+        skillOfferedId INTEGER NOT NULL,
+        skillRequestedId INTEGER NOT NULL,
+        status TEXT CHECK(status IN ('pending', 'accepted', 'rejected', 'completed', 'cancelled')) DEFAULT 'pending',
+        message TEXT,
+        proposedTime DATETIME,
+        proposedLocation TEXT,
+        completedAt DATETIME,
+        ratingByRequester INTEGER,
+        ratingByReceiver INTEGER,
+        feedbackByRequester TEXT,
+        feedbackByReceiver TEXT,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (requesterId) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (skillOfferedId) REFERENCES skills(id) ON DELETE CASCADE,
+        FOREIGN KEY (skillRequestedId) REFERENCES skills(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS reviews (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId INTEGER NOT NULL,
+        reviewerId INTEGER NOT NULL,
+        swapId INTEGER NOT NULL,
+        rating INTEGER CHECK(rating >= 1 AND rating <= 5) NOT NULL,
+        comment TEXT,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (reviewerId) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (swapId) REFERENCES swap_requests(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Keep updatedAt current on every table that has one
+    for (const table of ['users', 'skills', 'swap_requests', 'reviews']) {
+      await db.exec(`
+        CREATE TRIGGER IF NOT EXISTS update_${table}_updatedAt
+        AFTER UPDATE ON ${table}
+        FOR EACH ROW
+        BEGIN
+          UPDATE ${table} SET updatedAt = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        END;
+      `);
+    }
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_skills_userId ON skills(userId)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_skills_category ON skills(category)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_swap_requests_requesterId ON swap_requests(requesterId)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_swap_requests_skillOfferedId ON swap_requests(skillOfferedId)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_swap_requests_skillRequestedId ON swap_requests(skillRequestedId)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_reviews_userId ON reviews(userId)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_reviews_reviewerId ON reviews(reviewerId)');
+  },
+  down: async (db: Database) => {
+    // Dropping a table drops its triggers and indexes with it
+    await db.exec('DROP TABLE IF EXISTS reviews');
+    await db.exec('DROP TABLE IF EXISTS swap_requests');
+    await db.exec('DROP TABLE IF EXISTS skills');
+    await db.exec('DROP TABLE IF EXISTS users');
+  }
+};
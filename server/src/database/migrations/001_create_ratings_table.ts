@@ -1,10 +1,5 @@
 import { Database } from 'sqlite';
-
-interface Migration {
-  id: string;
-  up: (db: Database) => Promise<void>;
-  down?: (db: Database) => Promise<void>;
-}
+import type { Migration } from '../migration.js';
 
 export const createRatingsTable: Migration = {
   id: '001_create_ratings_table',
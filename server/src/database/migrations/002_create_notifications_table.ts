@@ -0,0 +1,27 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const createNotificationsTable: Migration = {
+  id: '002_create_notifications_table',
+  up: async (db: Database) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        title TEXT NOT NULL,
+        message TEXT NOT NULL,
+        data TEXT,
+        readAt DATETIME,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_notifications_userId_createdAt ON notifications(userId, createdAt)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_notifications_userId_readAt ON notifications(userId, readAt)');
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TABLE IF EXISTS notifications');
+  }
+};
@@ -0,0 +1,28 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const createMessagesTable: Migration = {
+  id: '003_create_messages_table',
+  up: async (db: Database) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        swapId INTEGER NOT NULL,
+        senderId INTEGER NOT NULL,
+        receiverId INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        readAt DATETIME,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (swapId) REFERENCES swap_requests(id) ON DELETE CASCADE,
+        FOREIGN KEY (senderId) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (receiverId) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_messages_swapId ON messages(swapId, id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_messages_receiverId_readAt ON messages(receiverId, readAt)');
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TABLE IF EXISTS messages');
+  }
+};
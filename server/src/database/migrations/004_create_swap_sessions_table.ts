@@ -0,0 +1,35 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const createSwapSessionsTable: Migration = {
+  id: '004_create_swap_sessions_table',
+  up: async (db: Database) => {
+    // Times are stored as UTC ISO-8601 strings so they compare lexically
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS swap_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        swapId INTEGER NOT NULL,
+        proposedBy INTEGER NOT NULL,
+        startTime TEXT NOT NULL,
+        endTime TEXT NOT NULL,
+        location TEXT,
+        status TEXT NOT NULL DEFAULT 'proposed' CHECK(status IN ('proposed', 'confirmed', 'declined', 'countered', 'cancelled')),
+        counterOf INTEGER,
+        respondedBy INTEGER,
+        respondedAt DATETIME,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (swapId) REFERENCES swap_requests(id) ON DELETE CASCADE,
+        FOREIGN KEY (proposedBy) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (counterOf) REFERENCES swap_sessions(id) ON DELETE SET NULL,
+        FOREIGN KEY (respondedBy) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_swap_sessions_swapId ON swap_sessions(swapId)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_swap_sessions_status_startTime ON swap_sessions(status, startTime)');
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TABLE IF EXISTS swap_sessions');
+  }
+};
@@ -0,0 +1,20 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const addCalendarFeed: Migration = {
+  id: '005_add_calendar_feed',
+  up: async (db: Database) => {
+    // Secret for the per-user .ics feed; rotating it revokes old subscriptions
+    await db.exec('ALTER TABLE users ADD COLUMN calendarToken TEXT');
+    await db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_users_calendarToken ON users(calendarToken)');
+
+    // Sessions that were ever confirmed stay in calendars, as CANCELLED once called off
+    await db.exec('ALTER TABLE swap_sessions ADD COLUMN confirmedAt DATETIME');
+    await db.exec(`UPDATE swap_sessions SET confirmedAt = respondedAt WHERE status = 'confirmed'`);
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP INDEX IF EXISTS idx_users_calendarToken');
+    await db.exec('ALTER TABLE users DROP COLUMN calendarToken');
+    await db.exec('ALTER TABLE swap_sessions DROP COLUMN confirmedAt');
+  }
+};
@@ -0,0 +1,30 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const createAvailabilitySlots: Migration = {
+  id: '006_create_availability_slots',
+  up: async (db: Database) => {
+    // IANA zone the user's weekly slots are written in
+    await db.exec(`ALTER TABLE users ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC'`);
+
+    // Recurring weekly slots in the user's own timezone; dayOfWeek 0 is Sunday
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS availability_slots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId INTEGER NOT NULL,
+        dayOfWeek INTEGER NOT NULL CHECK(dayOfWeek BETWEEN 0 AND 6),
+        startMinute INTEGER NOT NULL CHECK(startMinute BETWEEN 0 AND 1439),
+        endMinute INTEGER NOT NULL CHECK(endMinute BETWEEN 1 AND 1440),
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE,
+        CHECK(endMinute > startMinute)
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_availability_slots_userId ON availability_slots(userId)');
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TABLE IF EXISTS availability_slots');
+    await db.exec('ALTER TABLE users DROP COLUMN timezone');
+  }
+};
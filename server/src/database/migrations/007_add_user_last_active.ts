@@ -0,0 +1,14 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const addUserLastActive: Migration = {
+  id: '007_add_user_last_active',
+  up: async (db: Database) => {
+    // Bumped on login and authenticated requests; feeds match recency scoring
+    await db.exec('ALTER TABLE users ADD COLUMN lastActiveAt DATETIME');
+    await db.exec('UPDATE users SET lastActiveAt = updatedAt');
+  },
+  down: async (db: Database) => {
+    await db.exec('ALTER TABLE users DROP COLUMN lastActiveAt');
+  }
+};
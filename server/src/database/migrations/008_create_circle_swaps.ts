@@ -0,0 +1,50 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const createCircleSwaps: Migration = {
+  id: '008_create_circle_swaps',
+  up: async (db: Database) => {
+    // Exchange ring of three or more people; it only starts once everyone accepts
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS circle_swaps (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        proposedBy INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'proposed' CHECK(status IN ('proposed', 'active', 'declined', 'cancelled', 'completed')),
+        activatedAt DATETIME,
+        completedAt DATETIME,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (proposedBy) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // The member at position n teaches teachesSkillId to the member at n + 1,
+    // wrapping around, and learns learnsSkillId from the member at n - 1
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS circle_swap_participants (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        circleId INTEGER NOT NULL,
+        userId INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        teachesSkillId INTEGER NOT NULL,
+        learnsSkillId INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'accepted', 'declined')),
+        respondedAt DATETIME,
+        completedAt DATETIME,
+        FOREIGN KEY (circleId) REFERENCES circle_swaps(id) ON DELETE CASCADE,
+        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (teachesSkillId) REFERENCES skills(id) ON DELETE CASCADE,
+        FOREIGN KEY (learnsSkillId) REFERENCES skills(id) ON DELETE CASCADE,
+        UNIQUE(circleId, userId),
+        UNIQUE(circleId, position)
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_circle_swaps_status ON circle_swaps(status)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_circle_swap_participants_userId ON circle_swap_participants(userId)');
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TABLE IF EXISTS circle_swap_participants');
+    await db.exec('DROP TABLE IF EXISTS circle_swaps');
+  }
+};
@@ -0,0 +1,43 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const createAuthSessions: Migration = {
+  id: '009_create_auth_sessions',
+  up: async (db: Database) => {
+    // One row per signed-in device; revoking it ends every token issued to it
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId INTEGER NOT NULL,
+        userAgent TEXT,
+        ipAddress TEXT,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        lastUsedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expiresAt DATETIME NOT NULL,
+        revokedAt DATETIME,
+        revokedReason TEXT,
+        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Every refresh token a session has been given, stored as a SHA-256 hash.
+    // A token is good for one rotation; presenting a used one again means it leaked.
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sessionId INTEGER NOT NULL,
+        tokenHash TEXT NOT NULL UNIQUE,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        usedAt DATETIME,
+        FOREIGN KEY (sessionId) REFERENCES auth_sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_auth_sessions_userId ON auth_sessions(userId)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_refresh_tokens_sessionId ON refresh_tokens(sessionId)');
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TABLE IF EXISTS refresh_tokens');
+    await db.exec('DROP TABLE IF EXISTS auth_sessions');
+  }
+};
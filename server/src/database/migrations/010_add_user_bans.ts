@@ -0,0 +1,19 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const addUserBans: Migration = {
+  id: '010_add_user_bans',
+  up: async (db: Database) => {
+    // A ban is in effect while isBanned is set and bannedUntil is empty or in the future
+    await db.exec('ALTER TABLE users ADD COLUMN isBanned BOOLEAN NOT NULL DEFAULT 0');
+    await db.exec('ALTER TABLE users ADD COLUMN bannedReason TEXT');
+    await db.exec('ALTER TABLE users ADD COLUMN bannedUntil DATETIME');
+    await db.exec('ALTER TABLE users ADD COLUMN bannedAt DATETIME');
+  },
+  down: async (db: Database) => {
+    await db.exec('ALTER TABLE users DROP COLUMN bannedAt');
+    await db.exec('ALTER TABLE users DROP COLUMN bannedUntil');
+    await db.exec('ALTER TABLE users DROP COLUMN bannedReason');
+    await db.exec('ALTER TABLE users DROP COLUMN isBanned');
+  }
+};
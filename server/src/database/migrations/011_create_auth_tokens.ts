@@ -0,0 +1,30 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const createAuthTokens: Migration = {
+  id: '011_create_auth_tokens',
+  up: async (db: Database) => {
+    // Set once the user follows the link in their verification email
+    await db.exec('ALTER TABLE users ADD COLUMN emailVerifiedAt DATETIME');
+
+    // Single-use links sent by email, stored as a SHA-256 hash of the token
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS auth_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId INTEGER NOT NULL,
+        purpose TEXT NOT NULL CHECK(purpose IN ('password_reset', 'email_verification')),
+        tokenHash TEXT NOT NULL UNIQUE,
+        expiresAt DATETIME NOT NULL,
+        usedAt DATETIME,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_auth_tokens_userId_purpose ON auth_tokens(userId, purpose)');
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TABLE IF EXISTS auth_tokens');
+    await db.exec('ALTER TABLE users DROP COLUMN emailVerifiedAt');
+  }
+};
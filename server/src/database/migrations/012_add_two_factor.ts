@@ -0,0 +1,37 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const addTwoFactor: Migration = {
+  id: '012_add_two_factor',
+  up: async (db: Database) => {
+    // Base32 TOTP secret; it only protects logins once totpEnabledAt is set
+    await db.exec('ALTER TABLE users ADD COLUMN totpSecret TEXT');
+    await db.exec('ALTER TABLE users ADD COLUMN totpEnabledAt DATETIME');
+    // Last 30-second step a code was accepted for, so a code can't be replayed
+    await db.exec('ALTER TABLE users ADD COLUMN totpLastUsedStep INTEGER');
+
+    // Sessions that passed a second factor; admin routes require it
+    await db.exec('ALTER TABLE auth_sessions ADD COLUMN twoFactorVerifiedAt DATETIME');
+
+    // One-time codes for when the authenticator app is lost, stored as SHA-256 hashes
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS recovery_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId INTEGER NOT NULL,
+        codeHash TEXT NOT NULL,
+        usedAt DATETIME,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_recovery_codes_userId ON recovery_codes(userId)');
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TABLE IF EXISTS recovery_codes');
+    await db.exec('ALTER TABLE auth_sessions DROP COLUMN twoFactorVerifiedAt');
+    await db.exec('ALTER TABLE users DROP COLUMN totpLastUsedStep');
+    await db.exec('ALTER TABLE users DROP COLUMN totpEnabledAt');
+    await db.exec('ALTER TABLE users DROP COLUMN totpSecret');
+  }
+};
@@ -0,0 +1,28 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const createAuditLog: Migration = {
+  id: '013_create_audit_log',
+  up: async (db: Database) => {
+    // Security-relevant events such as account lockouts. actorId is null when
+    // the event wasn't caused by a signed-in user.
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actorId INTEGER,
+        action TEXT NOT NULL,
+        targetType TEXT,
+        targetId TEXT,
+        metadata TEXT,
+        ipAddress TEXT,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (actorId) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_audit_log_action_createdAt ON audit_log(action, createdAt)');
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TABLE IF EXISTS audit_log');
+  }
+};
@@ -0,0 +1,88 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+const ROLES = [
+  ['user', 'Regular member'],
+  ['moderator', 'Handles reports and bans'],
+  ['admin', 'Runs the platform'],
+  ['superadmin', 'Admin who can also assign roles']
+];
+
+const PERMISSIONS = [
+  ['users.view', 'List and search all users'],
+  ['users.ban', 'Ban and unban users'],
+  ['reports.view', 'See reports filed by users'],
+  ['reports.resolve', 'Resolve or dismiss reports'],
+  ['swaps.view_all', 'See every swap request'],
+  ['stats.view', 'See platform statistics'],
+  ['messages.view_all', 'Read messages between users'],
+  ['messages.broadcast', 'Send platform announcements'],
+  ['roles.assign', 'Change the role of other users']
+];
+
+const GRANTS: Record<string, string[]> = {
+  moderator: ['users.view', 'users.ban', 'reports.view', 'reports.resolve'],
+  admin: [
+    'users.view', 'users.ban', 'reports.view', 'reports.resolve',
+    'swaps.view_all', 'stats.view', 'messages.view_all', 'messages.broadcast'
+  ],
+  superadmin: PERMISSIONS.map(([name]) => name)
+};
+
+export const createRoles: Migration = {
+  id: '014_create_roles',
+  up: async (db: Database) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS roles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS permissions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS role_permissions (
+        roleId INTEGER NOT NULL,
+        permissionId INTEGER NOT NULL,
+        PRIMARY KEY (roleId, permissionId),
+        FOREIGN KEY (roleId) REFERENCES roles(id) ON DELETE CASCADE,
+        FOREIGN KEY (permissionId) REFERENCES permissions(id) ON DELETE CASCADE
+      )
+    `);
+
+    for (const [name, description] of ROLES) {
+      await db.run('INSERT OR IGNORE INTO roles (name, description) VALUES (?, ?)', [name, description]);
+    }
+    for (const [name, description] of PERMISSIONS) {
+      await db.run('INSERT OR IGNORE INTO permissions (name, description) VALUES (?, ?)', [name, description]);
+    }
+    for (const [role, permissions] of Object.entries(GRANTS)) {
+      for (const permission of permissions) {
+        await db.run(
+          `INSERT OR IGNORE INTO role_permissions (roleId, permissionId)
+           SELECT r.id, p.id FROM roles r, permissions p WHERE r.name = ? AND p.name = ?`,
+          [role, permission]
+        );
+      }
+    }
+
+    // One role per user. isAdmin stays as a shorthand for admin and superadmin.
+    await db.exec("ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'user'");
+    // Existing admins keep every power they had
+    await db.exec("UPDATE users SET role = 'superadmin' WHERE isAdmin = 1");
+  },
+  down: async (db: Database) => {
+    await db.exec('ALTER TABLE users DROP COLUMN role');
+    await db.exec('DROP TABLE IF EXISTS role_permissions');
+    await db.exec('DROP TABLE IF EXISTS permissions');
+    await db.exec('DROP TABLE IF EXISTS roles');
+  }
+};
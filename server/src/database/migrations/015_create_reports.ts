@@ -0,0 +1,31 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const createReports: Migration = {
+  id: '015_create_reports',
+  up: async (db: Database) => {
+    // Users flagging other users for moderators to look at
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS reports (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        reporterId INTEGER NOT NULL,
+        reportedUserId INTEGER NOT NULL,
+        reason TEXT NOT NULL CHECK(reason IN ('spam', 'harassment', 'inappropriate', 'no_show', 'other')),
+        details TEXT,
+        status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'resolved', 'dismissed')),
+        resolution TEXT,
+        resolvedById INTEGER,
+        resolvedAt DATETIME,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (reporterId) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (reportedUserId) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (resolvedById) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_reports_status_createdAt ON reports(status, createdAt)');
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TABLE IF EXISTS reports');
+  }
+};
@@ -0,0 +1,51 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const auditLogChanges: Migration = {
+  id: '016_audit_log_changes',
+  up: async (db: Database) => {
+    // Before/after values of the fields an action changed, as JSON
+    await db.exec('ALTER TABLE audit_log ADD COLUMN changes TEXT');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_audit_log_actorId ON audit_log(actorId)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(targetType, targetId)');
+
+    // Entries can't be edited or removed. actorId is left out so deleting a
+    // user can still set it to NULL.
+    await db.exec(`
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+      BEFORE UPDATE OF id, action, targetType, targetId, metadata, changes, ipAddress, createdAt ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END
+    `);
+    await db.exec(`
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_delete
+      BEFORE DELETE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END
+    `);
+
+    await db.run(
+      'INSERT OR IGNORE INTO permissions (name, description) VALUES (?, ?)',
+      ['audit.view', 'Read the audit log']
+    );
+    await db.exec(`
+      INSERT OR IGNORE INTO role_permissions (roleId, permissionId)
+      SELECT r.id, p.id FROM roles r, permissions p
+      WHERE r.name IN ('admin', 'superadmin') AND p.name = 'audit.view'
+    `);
+  },
+  down: async (db: Database) => {
+    await db.exec(`
+      DELETE FROM role_permissions
+      WHERE permissionId IN (SELECT id FROM permissions WHERE name = 'audit.view')
+    `);
+    await db.exec("DELETE FROM permissions WHERE name = 'audit.view'");
+    await db.exec('DROP TRIGGER IF EXISTS audit_log_no_delete');
+    await db.exec('DROP TRIGGER IF EXISTS audit_log_no_update');
+    await db.exec('DROP INDEX IF EXISTS idx_audit_log_target');
+    await db.exec('DROP INDEX IF EXISTS idx_audit_log_actorId');
+    await db.exec('ALTER TABLE audit_log DROP COLUMN changes');
+  }
+};
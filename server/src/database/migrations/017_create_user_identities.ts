@@ -0,0 +1,46 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const createUserIdentities: Migration = {
+  id: '017_create_user_identities',
+  up: async (db: Database) => {
+    // Accounts at external OpenID Connect providers, keyed by the provider's
+    // stable subject identifier rather than the email address
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS user_identities (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId INTEGER NOT NULL,
+        provider TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        email TEXT,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        lastLoginAt DATETIME,
+        UNIQUE (provider, subject),
+        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_user_identities_userId ON user_identities(userId)');
+
+    // One row per sign-in through a provider. It holds the PKCE verifier and
+    // nonce until the provider redirects back, then the single-use code the
+    // client swaps for a session.
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS oidc_login_attempts (
+        state TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,
+        nonce TEXT NOT NULL,
+        codeVerifier TEXT NOT NULL,
+        userId INTEGER,
+        loginCodeHash TEXT UNIQUE,
+        expiresAt DATETIME NOT NULL,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TABLE IF EXISTS oidc_login_attempts');
+    await db.exec('DROP TABLE IF EXISTS user_identities');
+  }
+};
@@ -0,0 +1,21 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const addAccountDeletion: Migration = {
+  id: '018_add_account_deletion',
+  up: async (db: Database) => {
+    // A requested deletion waits until deletionScheduledFor so it can be
+    // called off. Deleted accounts keep their row, stripped of personal data,
+    // so the other side of their swaps and ratings still makes sense.
+    await db.exec('ALTER TABLE users ADD COLUMN deletionRequestedAt DATETIME');
+    await db.exec('ALTER TABLE users ADD COLUMN deletionScheduledFor DATETIME');
+    await db.exec('ALTER TABLE users ADD COLUMN deletedAt DATETIME');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_users_deletionScheduledFor ON users(deletionScheduledFor)');
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP INDEX IF EXISTS idx_users_deletionScheduledFor');
+    await db.exec('ALTER TABLE users DROP COLUMN deletedAt');
+    await db.exec('ALTER TABLE users DROP COLUMN deletionScheduledFor');
+    await db.exec('ALTER TABLE users DROP COLUMN deletionRequestedAt');
+  }
+};
@@ -0,0 +1,13 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const addProfileVisibility: Migration = {
+  id: '019_add_profile_visibility',
+  up: async (db: Database) => {
+    // Set from "Make my profile public" on the profile page
+    await db.exec('ALTER TABLE users ADD COLUMN isPublic BOOLEAN NOT NULL DEFAULT 1');
+  },
+  down: async (db: Database) => {
+    await db.exec('ALTER TABLE users DROP COLUMN isPublic');
+  }
+};
@@ -0,0 +1,23 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const createAdminMessages: Migration = {
+  id: '020_create_admin_messages',
+  up: async (db: Database) => {
+    // Platform-wide announcements sent from the admin dashboard
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS admin_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        adminId INTEGER,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        type TEXT NOT NULL DEFAULT 'announcement' CHECK(type IN ('announcement', 'maintenance', 'update')),
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (adminId) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TABLE IF EXISTS admin_messages');
+  }
+};
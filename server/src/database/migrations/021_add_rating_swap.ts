@@ -0,0 +1,19 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const addRatingSwap: Migration = {
+  id: '021_add_rating_swap',
+  up: async (db: Database) => {
+    // The swap a rating was given for; each participant rates a swap once.
+    // Older ratings have none.
+    await db.exec('ALTER TABLE ratings ADD COLUMN swapId INTEGER REFERENCES swap_requests(id) ON DELETE CASCADE');
+    await db.exec(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_ratings_swapId_raterId
+      ON ratings(swapId, raterId) WHERE swapId IS NOT NULL
+    `);
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP INDEX IF EXISTS idx_ratings_swapId_raterId');
+    await db.exec('ALTER TABLE ratings DROP COLUMN swapId');
+  }
+};
@@ -0,0 +1,44 @@
+import { Database } from 'sqlite';
+import type { Migration } from '../migration.js';
+
+export const auditLogClearableIp: Migration = {
+  id: '022_audit_log_clearable_ip',
+  up: async (db: Database) => {
+    // Lockouts of an existing account name it by targetId; the email they
+    // also kept would outlive the account's deletion
+    await db.exec('DROP TRIGGER IF EXISTS audit_log_no_update');
+    await db.exec(`
+      UPDATE audit_log SET metadata = json_remove(metadata, '$.email')
+      WHERE action = 'auth.lockout' AND targetId IS NOT NULL AND json_valid(metadata)
+    `);
+
+    // Entries stay append-only, except that an IP address can be cleared
+    // when the account it belongs to is deleted
+    await db.exec(`
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+      BEFORE UPDATE OF id, action, targetType, targetId, metadata, changes, createdAt ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END
+    `);
+    await db.exec(`
+      CREATE TRIGGER IF NOT EXISTS audit_log_ip_clear_only
+      BEFORE UPDATE OF ipAddress ON audit_log
+      WHEN NEW.ipAddress IS NOT NULL
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END
+    `);
+  },
+  down: async (db: Database) => {
+    await db.exec('DROP TRIGGER IF EXISTS audit_log_ip_clear_only');
+    await db.exec('DROP TRIGGER IF EXISTS audit_log_no_update');
+    await db.exec(`
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+      BEFORE UPDATE OF id, action, targetType, targetId, metadata, changes, ipAddress, createdAt ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END
+    `);
+  }
+};
@@ -3,8 +3,10 @@ import sqlite3 from 'sqlite3';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import { promisify } from 'util';
-import { MigrationRunner } from './migration.js';
+import { MigrationRunner, loadMigrations } from './migration.js';
+import { checkPassword } from '../services/passwordPolicy.js';
 import * as path from 'path';
 import { createRequire } from 'module';
 
@@ -46,20 +48,7 @@ const executeCommand = async (
   }
 };
 
-// Helper function to execute multiple SQL statements
-const executeStatements = async (
-  db: DB,
-  statements: string[]
-): Promise<void> => {
-  for (const statement of statements) {
-    try {
-      await db.exec(statement);
-    } catch (error) {
-      console.error('Error executing statement:', statement);
-      throw error;
-    }
-  }
-};
+export type RoleName = 'user' | 'moderator' | 'admin' | 'superadmin';
 
 export interface User {
   id: number;
@@ -71,7 +60,23 @@ export interface User {
   location?: string;
   profilePicture?: string;
   rating?: number;
-  isAdmin: boolean;
+  isAdmin: boolean; // true for the admin and superadmin roles
+  role: RoleName;
+  calendarToken?: string | null;
+  timezone?: string; // IANA zone, e.g. Europe/Berlin
+  isPublic?: boolean;
+  lastActiveAt?: string | null;
+  isBanned?: boolean;
+  bannedReason?: string | null;
+  bannedUntil?: string | null; // UTC; null with isBanned set means permanent
+  bannedAt?: string | null;
+  emailVerifiedAt?: string | null;
+  totpSecret?: string | null; // Base32
+  totpEnabledAt?: string | null;
+  totpLastUsedStep?: number | null;
+  deletionRequestedAt?: string | null;
+  deletionScheduledFor?: string | null; // UTC; personal data is erased after this
+  deletedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -120,11 +125,11 @@ export interface SwapRequest {
 
 export interface Rating {
   id: number;
-  swapId: number;
+  userId: number; // User being rated
   raterId: number;
-  ratedId: number;
+  swapId?: number | null; // Unset on ratings from before swaps were recorded
   rating: number;
-  feedback?: string;
+  comment?: string | null;
   createdAt: string;
   updatedAt: string;
   // Additional fields that might be joined from other tables
@@ -132,6 +137,188 @@ export interface Rating {
   raterPhoto?: string;
 }
 
+export interface Notification {
+  id: number;
+  userId: number;
+  type: string;
+  title: string;
+  message: string;
+  data?: string | null; // JSON-encoded event payload
+  readAt?: string | null;
+  createdAt: string;
+}
+
+export interface Message {
+  id: number;
+  swapId: number;
+  senderId: number;
+  receiverId: number;
+  content: string;
+  readAt?: string | null;
+  createdAt: string;
+  // Joined fields
+  senderName?: string;
+}
+
+export interface SwapSession {
+  id: number;
+  swapId: number;
+  proposedBy: number;
+  startTime: string; // UTC ISO-8601
+  endTime: string; // UTC ISO-8601
+  location?: string | null;
+  status: 'proposed' | 'confirmed' | 'declined' | 'countered' | 'cancelled';
+  counterOf?: number | null; // Proposal this one answers
+  respondedBy?: number | null;
+  respondedAt?: string | null;
+  confirmedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Joined fields
+  proposedByName?: string;
+}
+
+export interface CircleSwap {
+  id: number;
+  proposedBy: number;
+  status: 'proposed' | 'active' | 'declined' | 'cancelled' | 'completed';
+  activatedAt?: string | null;
+  completedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CircleSwapParticipant {
+  id: number;
+  circleId: number;
+  userId: number;
+  position: number; // Teaches the member at position + 1, wrapping around
+  teachesSkillId: number;
+  learnsSkillId: number;
+  status: 'pending' | 'accepted' | 'declined';
+  respondedAt?: string | null;
+  completedAt?: string | null; // When this member finished teaching their part
+  // Joined fields
+  userName?: string;
+  teachesSkillName?: string;
+  learnsSkillName?: string;
+}
+
+export interface AuthSession {
+  id: number;
+  userId: number;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt?: string | null;
+  twoFactorVerifiedAt?: string | null;
+  revokedReason?: 'logout' | 'revoked' | 'reuse_detected' | 'banned' | 'password_reset' | 'account_deleted' | null;
+}
+
+export interface RefreshToken {
+  id: number;
+  sessionId: number;
+  tokenHash: string; // SHA-256 of the token; the token itself is never stored
+  createdAt: string;
+  usedAt?: string | null; // Set when the token is exchanged for a new one
+}
+
+export interface AuthToken {
+  id: number;
+  userId: number;
+  purpose: 'password_reset' | 'email_verification';
+  tokenHash: string; // SHA-256 of the token sent by email
+  expiresAt: string;
+  usedAt?: string | null;
+  createdAt: string;
+}
+
+export interface RecoveryCode {
+  id: number;
+  userId: number;
+  codeHash: string; // SHA-256 of the normalized code
+  usedAt?: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogEntry {
+  id: number;
+  actorId?: number | null;
+  action: string; // e.g. 'auth.lockout'
+  targetType?: string | null;
+  targetId?: string | null;
+  metadata?: string | null; // JSON
+  changes?: string | null; // JSON, { field: { before, after } }
+  ipAddress?: string | null;
+  createdAt: string;
+}
+
+export interface AdminMessage {
+  id: number;
+  adminId?: number | null;
+  title: string;
+  content: string;
+  type: 'announcement' | 'maintenance' | 'update';
+  createdAt: string;
+}
+
+export interface Role {
+  id: number;
+  name: RoleName;
+  description?: string | null;
+}
+
+export interface Permission {
+  id: number;
+  name: string; // e.g. 'users.ban'
+  description?: string | null;
+}
+
+export interface Report {
+  id: number;
+  reporterId: number;
+  reportedUserId: number;
+  reason: 'spam' | 'harassment' | 'inappropriate' | 'no_show' | 'other';
+  details?: string | null;
+  status: 'open' | 'resolved' | 'dismissed';
+  resolution?: string | null;
+  resolvedById?: number | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+}
+
+export interface UserIdentity {
+  id: number;
+  userId: number;
+  provider: string; // Provider id from OIDC_PROVIDERS
+  subject: string; // The provider's "sub" claim
+  email?: string | null;
+  createdAt: string;
+  lastLoginAt?: string | null;
+}
+
+export interface OidcLoginAttempt {
+  state: string;
+  provider: string;
+  nonce: string;
+  codeVerifier: string;
+  userId?: number | null; // Set once the provider has identified the user
+  loginCodeHash?: string | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface AvailabilitySlot {
+  id: number;
+  userId: number;
+  dayOfWeek: number; // 0 = Sunday, in the user's timezone
+  startMinute: number; // Minutes after local midnight
+  endMinute: number; // Exclusive, up to 1440
+  createdAt: string;
+}
+
 export interface Review {
   id: number;
   userId: number; // User being reviewed
@@ -180,165 +367,49 @@ export async function closeDatabase(): Promise<void> {
   }
 }
 
-export async function createTables(db: DB): Promise<void> {
-  try {
-    // Enable foreign keys
-    await executeCommand(db, 'PRAGMA foreign_keys = ON');
-    
-    // Enable WAL mode for better concurrency
-    await executeCommand(db, 'PRAGMA journal_mode = WAL');
-    
-    // Create tables without foreign key constraints first
-    const tableStatements = [
-      // Users table
-      `CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        username TEXT UNIQUE NOT NULL,
-        email TEXT UNIQUE NOT NULL,
-        password TEXT NOT NULL,
-        fullName TEXT NOT NULL,
-        bio TEXT,
-        location TEXT,
-        profilePicture TEXT,
-        rating REAL DEFAULT 0,
-        isAdmin BOOLEAN DEFAULT 0,
-        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
-      )`,
-
-      // Create triggers for updatedAt
-      `CREATE TRIGGER IF NOT EXISTS update_users_updatedAt
-      AFTER UPDATE ON users
-      FOR EACH ROW
-      BEGIN
-        UPDATE users SET updatedAt = CURRENT_TIMESTAMP WHERE id = NEW.id;
-      END;`,
-
-      // Skills table
-      `CREATE TABLE IF NOT EXISTS skills (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        userId INTEGER NOT NULL,
-        name TEXT NOT NULL,
-        description TEXT,
-        category TEXT NOT NULL,
-        proficiency TEXT CHECK(proficiency IN ('beginner', 'intermediate', 'advanced', 'expert')) NOT NULL,
-        isOffering BOOLEAN DEFAULT 1,
-        isSeeking BOOLEAN DEFAULT 0,
-        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
-      )`,
-
-      // Create triggers for skills updatedAt
-      `CREATE TRIGGER IF NOT EXISTS update_skills_updatedAt
-      AFTER UPDATE ON skills
-      FOR EACH ROW
-      BEGIN
-        UPDATE skills SET updatedAt = CURRENT_TIMESTAMP WHERE id = NEW.id;
-      END;`,
-
-      // Swap requests table
-      `CREATE TABLE IF NOT EXISTS swap_requests (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        requesterId INTEGER NOT NULL,
-        skillOfferedId INTEGER NOT NULL,
-        skillRequestedId INTEGER NOT NULL,
-        status TEXT CHECK(status IN ('pending', 'accepted', 'rejected', 'completed', 'cancelled')) DEFAULT 'pending',
-        message TEXT,
-        proposedTime DATETIME,
-        proposedLocation TEXT,
-        completedAt DATETIME,
-        ratingByRequester INTEGER,
-        ratingByReceiver INTEGER,
-        feedbackByRequester TEXT,
-        feedbackByReceiver TEXT,
-        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (requesterId) REFERENCES users(id) ON DELETE CASCADE,
-        FOREIGN KEY (skillOfferedId) REFERENCES skills(id) ON DELETE CASCADE,
-        FOREIGN KEY (skillRequestedId) REFERENCES skills(id) ON DELETE CASCADE
-      )`,
-
-      // Create triggers for swap_requests updatedAt
-      `CREATE TRIGGER IF NOT EXISTS update_swap_requests_updatedAt
-      AFTER UPDATE ON swap_requests
-      FOR EACH ROW
-      BEGIN
-        UPDATE swap_requests SET updatedAt = CURRENT_TIMESTAMP WHERE id = NEW.id;
-      END;`,
-
-      // Reviews table
-      `CREATE TABLE IF NOT EXISTS reviews (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        userId INTEGER NOT NULL,
-        reviewerId INTEGER NOT NULL,
-        swapId INTEGER NOT NULL,
-        rating INTEGER CHECK(rating >= 1 AND rating <= 5) NOT NULL,
-        comment TEXT,
-        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE,
-        FOREIGN KEY (reviewerId) REFERENCES users(id) ON DELETE CASCADE,
-        FOREIGN KEY (swapId) REFERENCES swap_requests(id) ON DELETE CASCADE
-      )`,
-
-      // Create triggers for reviews updatedAt
-      `CREATE TRIGGER IF NOT EXISTS update_reviews_updatedAt
-      AFTER UPDATE ON reviews
-      FOR EACH ROW
-      BEGIN
-        UPDATE reviews SET updatedAt = CURRENT_TIMESTAMP WHERE id = NEW.id;
-      END;`,
-
-      // Create indexes for better query performance
-      'CREATE INDEX IF NOT EXISTS idx_skills_userId ON skills(userId)',
-      'CREATE INDEX IF NOT EXISTS idx_skills_category ON skills(category)',
-      'CREATE INDEX IF NOT EXISTS idx_swap_requests_requesterId ON swap_requests(requesterId)',
-      'CREATE INDEX IF NOT EXISTS idx_swap_requests_skillOfferedId ON swap_requests(skillOfferedId)',
-      'CREATE INDEX IF NOT EXISTS idx_swap_requests_skillRequestedId ON swap_requests(skillRequestedId)',
-      'CREATE INDEX IF NOT EXISTS idx_reviews_userId ON reviews(userId)',
-      'CREATE INDEX IF NOT EXISTS idx_reviews_reviewerId ON reviews(reviewerId)'
-    ];
-    
-    // Execute all table and index creation statements
-    await executeStatements(db, tableStatements);
+// The first admin account. Its password comes from ADMIN_PASSWORD; without
+// one, a random password is generated and printed once.
+async function seedAdminUser(db: DB): Promise<void> {
+  const email = process.env.ADMIN_EMAIL || 'admin@skillsawp.com';
+  let password = process.env.ADMIN_PASSWORD;
+  const generated = !password;
 
-    // Run migrations
-    const migrationRunner = new MigrationRunner(db);
-    
-    // Dynamically import all migrations
-    try {
-      // Import the ratings table migration
-      const { createRatingsTable } = await import('./migrations/001_create_ratings_table.js');
-      migrationRunner.addMigration(createRatingsTable);
-      
-      // Run migrations
-      await migrationRunner.migrate();
-      console.log('✅ Database migrations completed successfully');
-    } catch (error) {
-      console.error('❌ Error running migrations:', error);
-      throw error;
-    }
-    
-    // Check if admin user exists, if not create one
-    const adminUser = await executeQuery<User>(
-      db,
-      'SELECT * FROM users WHERE isAdmin = 1 LIMIT 1'
-    );
-    
-    if (!adminUser) {
-      const hashedPassword = await hashAsync('admin123', 10);
-      await executeCommand(
-        db,
-        'INSERT INTO users (username, email, password, fullName, isAdmin) VALUES (?, ?, ?, ?, ?)',
-        ['admin', 'admin@skillsawp.com', hashedPassword, 'Administrator', 1]
-      );
-      console.log('✅ Default admin user created');
+  if (password) {
+    const check = checkPassword(password, [email, 'admin']);
+    if (!check.valid) {
+      throw new Error(`ADMIN_PASSWORD does not meet the password policy: ${check.errors.join('; ')}`);
     }
+  } else {
+    password = crypto.randomBytes(18).toString('base64url');
+  }
 
-    console.log('✅ Database tables and indexes created successfully');
-  } catch (error) {
-    console.error('Error creating database tables:', error);
-    throw error;
+  const hashedPassword = await hashAsync(password, 10);
+  await executeCommand(
+    db,
+    'INSERT INTO users (username, email, password, fullName, isAdmin, role) VALUES (?, ?, ?, ?, ?, ?)',
+    ['admin', email, hashedPassword, 'Administrator', 1, 'superadmin']
+  );
+  console.log(`✅ Admin user created: ${email}`);
+
+  if (generated) {
+    console.log('🔑 No ADMIN_PASSWORD was set, so a one-time password was generated:');
+    console.log(`   ${password}`);
+    console.log('   It is not stored anywhere and won\'t be shown again. Sign in and set up two-factor authentication.');
   }
-}
\ No newline at end of file
+}
+
+// Check the schema is current, then seed what a fresh database needs. The
+// schema itself only changes through "npm run db:migrate".
+export async function prepareDatabase(db: DB): Promise<void> {
+  const runner = new MigrationRunner(db, await loadMigrations());
+  await runner.verify();
+
+  const adminUser = await executeQuery<User>(
+    db,
+    'SELECT * FROM users WHERE isAdmin = 1 LIMIT 1'
+  );
+
+  if (!adminUser) {
+    await seedAdminUser(db);
+  }
+}
@@ -0,0 +1,276 @@
+import ts from 'typescript';
+import { readdir, stat } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { open, Database } from 'sqlite';
+import sqlite3 from 'sqlite3';
+import { MigrationRunner, loadMigrations } from './migration.js';
+
+export const SERVER_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '../..');
+
+// Where the server's queries live, relative to SERVER_ROOT
+export const SOURCE_PATHS = ['src/repositories', 'src/routes', 'src/services', 'src/middleware', 'src/websocket.ts'];
+
+// A SQL statement as written in the source, with unknown parts filled in
+export interface SqlStatement {
+  file: string;
+  line: number;
+  method: string;
+  sql: string;
+  // false when part of the SQL was built at runtime and had to be guessed
+  exact: boolean;
+}
+
+// table/column: the statement names something the schema doesn't have.
+// invalid: any other error. unchecked: the guessed SQL didn't parse.
+export type SqlProblemKind = 'table' | 'column' | 'invalid' | 'unchecked';
+
+export interface SqlProblem {
+  statement: SqlStatement;
+  kind: SqlProblemKind;
+  name?: string;
+  message: string;
+}
+
+interface Fragment {
+  sql: string;
+  exact: boolean;
+}
+
+// Methods of sqlite's Database that take SQL as their first argument
+const QUERY_METHODS = new Set(['get', 'all', 'run', 'each', 'prepare']);
+const DB_RECEIVER = /^(db|database)$/;
+
+// Queries put together from a few conditional parts can't explode into
+// every combination; the first few are enough to catch a bad column
+const MAX_VARIANTS = 8;
+const MAX_DEPTH = 12;
+
+// Stands in for a part of the SQL that can only be known at runtime
+const UNKNOWN: Fragment = { sql: 'NULL', exact: false };
+
+function combine(left: Fragment[], right: Fragment[]): Fragment[] {
+  return left
+    .flatMap(a => right.map(b => ({ sql: a.sql + b.sql, exact: a.exact && b.exact })))
+    .slice(0, MAX_VARIANTS);
+}
+
+class SqlCollector {
+  private checker: ts.TypeChecker;
+
+  constructor(checker: ts.TypeChecker) {
+    this.checker = checker;
+  }
+
+  // Every SQL string the expression can evaluate to, or undefined when none
+  // of it is known (e.g. a helper's parameter)
+  resolve(node: ts.Expression, at: ts.Node, env: Map<ts.Symbol, Fragment[]>, depth = 0): Fragment[] | undefined {
+    if (depth > MAX_DEPTH) return undefined;
+    const next = (expr: ts.Expression) => this.resolve(expr, at, env, depth + 1);
+
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      return [{ sql: node.text, exact: true }];
+    }
+    if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isNonNullExpression(node)) {
+      return next(node.expression);
+    }
+    if (ts.isTemplateExpression(node)) {
+      let fragments: Fragment[] = [{ sql: node.head.text, exact: true }];
+      for (const span of node.templateSpans) {
+        fragments = combine(fragments, next(span.expression) ?? [UNKNOWN]);
+        fragments = combine(fragments, [{ sql: span.literal.text, exact: true }]);
+      }
+      return fragments;
+    }
+    if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+      const left = next(node.left);
+      const right = next(node.right);
+      return left || right ? combine(left ?? [UNKNOWN], right ?? [UNKNOWN]) : undefined;
+    }
+    if (ts.isConditionalExpression(node)) {
+      const branches = [next(node.whenTrue), next(node.whenFalse)].filter((f): f is Fragment[] => !!f);
+      return branches.length ? branches.flat().slice(0, MAX_VARIANTS) : undefined;
+    }
+    if (ts.isIdentifier(node)) {
+      return this.resolveIdentifier(node, at, env, depth);
+    }
+    if (ts.isCallExpression(node)) {
+      return this.resolveCall(node, at, env, depth);
+    }
+    return undefined;
+  }
+
+  private symbolOf(node: ts.Node) {
+    const symbol = this.checker.getSymbolAtLocation(node);
+    return symbol && symbol.flags & ts.SymbolFlags.Alias ? this.checker.getAliasedSymbol(symbol) : symbol;
+  }
+
+  // A const, or a `let` plus everything appended to it with += before `at`
+  private resolveIdentifier(node: ts.Identifier, at: ts.Node, env: Map<ts.Symbol, Fragment[]>, depth: number) {
+    const symbol = this.symbolOf(node);
+    if (!symbol) return undefined;
+    if (env.has(symbol)) return env.get(symbol);
+
+    const declaration = symbol.valueDeclaration;
+    if (!declaration || !ts.isVariableDeclaration(declaration)) return undefined;
+
+    // for (const table of ['a', 'b']) runs once per element
+    const loop = declaration.parent.parent;
+    if (ts.isForOfStatement(loop) && ts.isArrayLiteralExpression(loop.expression)) {
+      const elements = loop.expression.elements.map(element => this.resolve(element, at, env, depth + 1) ?? [UNKNOWN]);
+      return elements.flat().slice(0, MAX_VARIANTS);
+    }
+    if (!declaration.initializer) return undefined;
+
+    let fragments = this.resolve(declaration.initializer, at, env, depth + 1);
+    if (!fragments || !(ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Let)) return fragments;
+
+    const scope = ts.findAncestor(declaration, ts.isFunctionLike) ?? declaration.getSourceFile();
+    const visit = (child: ts.Node) => {
+      if (child.pos >= at.pos) return;
+      if (
+        ts.isBinaryExpression(child) &&
+        child.operatorToken.kind === ts.SyntaxKind.PlusEqualsToken &&
+        ts.isIdentifier(child.left) &&
+        this.symbolOf(child.left) === symbol
+      ) {
+        // Appends usually sit behind an if, so the result is a guess
+        const appended = this.resolve(child.right, at, env, depth + 1) ?? [UNKNOWN];
+        fragments = combine(fragments!, appended.map(f => ({ ...f, exact: false })));
+      }
+      ts.forEachChild(child, visit);
+    };
+    ts.forEachChild(scope, visit);
+    return fragments;
+  }
+
+  // A helper that returns SQL, such as activeBanCondition('u'), with its
+  // arguments bound to its parameters
+  private resolveCall(node: ts.CallExpression, at: ts.Node, env: Map<ts.Symbol, Fragment[]>, depth: number) {
+    const symbol = this.symbolOf(node.expression);
+    let fn = symbol?.valueDeclaration;
+    if (fn && ts.isVariableDeclaration(fn) && fn.initializer && ts.isArrowFunction(fn.initializer)) {
+      fn = fn.initializer;
+    }
+    if (!fn || !(ts.isFunctionDeclaration(fn) || ts.isArrowFunction(fn)) || !fn.body) return undefined;
+
+    let returned: ts.Expression | undefined;
+    if (ts.isBlock(fn.body)) {
+      const statements = fn.body.statements;
+      const last = statements[statements.length - 1];
+      if (statements.length !== 1 || !last || !ts.isReturnStatement(last)) return undefined;
+      returned = last.expression;
+    } else {
+      returned = fn.body;
+    }
+    if (!returned) return undefined;
+
+    const scoped = new Map(env);
+    fn.parameters.forEach((parameter, index) => {
+      const argument = node.arguments[index] ?? parameter.initializer;
+      const value = argument && this.resolve(argument, at, env, depth + 1);
+      const parameterSymbol = this.checker.getSymbolAtLocation(parameter.name);
+      if (parameterSymbol) scoped.set(parameterSymbol, value ?? [UNKNOWN]);
+    });
+    return this.resolve(returned, returned, scoped, depth + 1);
+  }
+}
+
+// The .ts files under the given files and directories, relative to SERVER_ROOT
+export async function listSourceFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths.map(p => resolve(SERVER_ROOT, p))) {
+    if ((await stat(path)).isDirectory()) {
+      const entries = await readdir(path, { recursive: true });
+      files.push(...entries.filter(entry => entry.endsWith('.ts')).map(entry => join(path, entry)));
+    } else {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+// The server's tsconfig, so imports resolve the way they do in the build
+export function compilerOptions(): ts.CompilerOptions {
+  const { config } = ts.readConfigFile(join(SERVER_ROOT, 'tsconfig.json'), ts.sys.readFile);
+  return ts.parseJsonConfigFileContent(config, ts.sys, SERVER_ROOT).options;
+}
+
+// Every db.get/all/run/each/prepare call in the given files
+export function collectStatements(files: string[], compilerOptions: ts.CompilerOptions = {}): SqlStatement[] {
+  const program = ts.createProgram(files, { ...compilerOptions, noEmit: true });
+  const collector = new SqlCollector(program.getTypeChecker());
+  const statements: SqlStatement[] = [];
+
+  for (const file of files) {
+    const source = program.getSourceFile(file);
+    if (!source) continue;
+
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isPropertyAccessExpression(node.expression) &&
+        QUERY_METHODS.has(node.expression.name.text) &&
+        DB_RECEIVER.test(node.expression.expression.getText(source).split('.').pop()!) &&
+        node.arguments.length > 0
+      ) {
+        const line = source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+        const method = node.expression.name.text;
+        const variants = collector.resolve(node.arguments[0], node, new Map()) ?? [];
+        const seen = new Set<string>();
+        for (const { sql, exact } of variants) {
+          if (seen.has(sql)) continue;
+          seen.add(sql);
+          statements.push({ file, line, method, sql, exact });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+  }
+
+  return statements;
+}
+
+// An empty in-memory database with every migration applied
+export async function openMigratedDatabase(): Promise<Database> {
+  const db = await open({ filename: ':memory:', driver: sqlite3.Database });
+  await db.run('PRAGMA foreign_keys = ON');
+  await new MigrationRunner(db, await loadMigrations(), () => {}).migrate();
+  return db;
+}
+
+function classify(statement: SqlStatement, message: string): SqlProblem {
+  const detail = message.replace(/^SQLITE_ERROR: /, '');
+  const table = /no such table: (\S+)/.exec(detail);
+  if (table) {
+    return { statement, kind: 'table', name: table[1], message: detail };
+  }
+  const column = /no such column: (\S+)/.exec(detail) ?? /table (\S+) has no column named (\S+)/.exec(detail);
+  if (column) {
+    return { statement, kind: 'column', name: column.slice(1).join('.'), message: detail };
+  }
+  // Guessed SQL that doesn't parse says nothing about the real query
+  const kind = !statement.exact && /syntax error|incomplete input/.test(detail) ? 'unchecked' : 'invalid';
+  return { statement, kind, message: detail };
+}
+
+// EXPLAIN compiles a statement against the schema without running it
+export async function checkStatements(db: Database, statements: SqlStatement[]): Promise<SqlProblem[]> {
+  const problems: SqlProblem[] = [];
+  const reported = new Set<string>();
+  for (const statement of statements) {
+    try {
+      await db.all(`EXPLAIN ${statement.sql}`);
+    } catch (error) {
+      const problem = classify(statement, error instanceof Error ? error.message : String(error));
+      // Variants of one call usually fail the same way
+      const key = `${statement.file}:${statement.line}:${problem.message}`;
+      if (!reported.has(key)) {
+        reported.add(key);
+        problems.push(problem);
+      }
+    }
+  }
+  return problems;
+}
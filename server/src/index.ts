@@ -1,140 +1,26 @@
 import express from 'express';
 import cors from 'cors';
-import { createServer, IncomingMessage } from 'http';
-import { WebSocket, WebSocketServer } from 'ws';
-import { getDatabase, closeDatabase } from './database/schema';
-import { createTables } from './database/schema';
-import { URL } from 'url';
+import { createServer } from 'http';
+import { WebSocket } from 'ws';
+import { getDatabase, closeDatabase, prepareDatabase } from './database/schema';
+import { SchemaOutOfDateError } from './database/migration.js';
+import { createWebSocketServer, clients, getConnectionStats } from './websocket.js';
+import { handleTypingMessage } from './services/messages.js';
+import { startAccountDeletionJob } from './services/accountDeletion.js';
 
 // Import routes
-import authRoutes from './routes/auth.routes.js';
-import usersRoutes from './routes/users.routes.js';
-import skillsRoutes from './routes/skills.routes.js';
-import swapsRoutes from './routes/swaps.routes.js';
-import ratingsRoutes from './routes/ratings.routes.js';
-import adminRoutes from './routes/admin.routes.js';
+import { apiRoutes } from './routes/index.js';
+import { openApiDocument } from './openapi/document.js';
+import { apiDocs } from './openapi/docs.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
-const server = app.listen(PORT, () => {
-  console.log(`🚀 Server is running on port ${PORT}`);
-  console.log(`🌐 Health check: http://localhost:${PORT}/health`);
-});
-
-// Store WebSocket connections with user IDs
-const clients = new Map<string, WebSocket>();
+// Listens once the database is ready, in startServer
+const server = createServer(app);
 
 // Initialize WebSocket server
-const wss = new WebSocketServer({ server });
-
-// Configure WebSocket server
-wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
-  const handleError = (error: unknown, message: string) => {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(`${message}: ${errorMessage}`);
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.close(1011, 'Internal server error');
-    }
-  };
-
-  // Set up ping/pong to detect stale connections
-  let isAlive = true;
-  const pingInterval = setInterval(() => {
-    if (isAlive === false) {
-      console.log('Terminating stale connection');
-      return ws.terminate();
-    }
-    
-    isAlive = false;
-    ws.ping(() => {});
-  }, 30000); // 30 seconds
-
-  ws.on('pong', () => {
-    isAlive = true;
-  });
-
-  try {
-    // Ensure we have a URL to parse
-    if (!req.url) {
-      ws.close(4000, 'Invalid URL');
-      return;
-    }
-    
-    const { searchParams } = new URL(req.url, `http://${req.headers?.host || 'localhost'}`);
-    const userId = searchParams.get('userId');
-
-    if (!userId) {
-      ws.close(4000, 'User ID is required');
-      return;
-    }
-
-    // Remove any existing connection for this user
-    const existingConnection = clients.get(userId);
-    if (existingConnection) {
-      console.log(`Closing existing connection for user ${userId}`);
-      existingConnection.close(1000, 'New connection established');
-    }
-
-    // Store the WebSocket connection with the user ID
-    clients.set(userId, ws);
-    console.log(`User ${userId} connected`);
-    
-    // Handle client disconnection
-    const handleClose = () => {
-      clearInterval(pingInterval);
-      // Only remove if this is still the current connection
-      if (clients.get(userId) === ws) {
-        clients.delete(userId);
-      }
-      console.log(`User ${userId} disconnected`);
-    };
-
-    ws.on('close', handleClose);
-    ws.on('error', (error) => {
-      console.error(`WebSocket error for user ${userId}:`, error);
-      handleClose();
-    });
-
-    // Handle incoming messages
-    ws.on('message', (message: Buffer) => {
-      try {
-        const data = JSON.parse(message.toString());
-        console.log('Received:', data);
-        
-        // Handle different message types
-        if (data && typeof data === 'object' && 'type' in data) {
-          switch (data.type) {
-            case 'ping':
-              ws.send(JSON.stringify({ 
-                type: 'pong', 
-                timestamp: Date.now() 
-              }));
-              break;
-            // Add more message types as needed
-            default:
-              console.warn(`Unknown message type: ${data.type}`);
-          }
-        } else {
-          console.warn('Received invalid message format:', data);
-        }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`Error processing message from user ${userId}:`, errorMessage);
-        
-        // Send error response to client if connection is still open
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({
-            type: 'error',
-            message: 'Failed to process message',
-            error: errorMessage
-          }));
-        }
-      }
-    });
-
-  } catch (error) {
-    handleError(error as Error, 'Error handling WebSocket connection:');
-  }
+const wss = createWebSocketServer(server, {
+  typing: handleTypingMessage
 });
 
 // Middleware
@@ -155,8 +41,17 @@ app.use(cors({
     }
     return callback(null, true);
   },
-  credentials: true
+  credentials: true,
+  // Let the client read how long to wait after a 429
+  exposedHeaders: ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset']
 }));
+
+// Behind a reverse proxy, rate limits need the client address from X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  // true, a number of hops, or a list of proxy addresses
+  app.set('trust proxy', trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
@@ -188,12 +83,15 @@ app.use((req, res, next) => {
 });
 
 // Routes
-app.use('/api/auth', authRoutes);
-app.use('/api/users', usersRoutes);
-app.use('/api/skills', skillsRoutes);
-app.use('/api/swaps', swapsRoutes);
-app.use('/api/ratings', ratingsRoutes);
-app.use('/api/admin', adminRoutes);
+for (const { path, router } of apiRoutes) {
+  app.use(path, router);
+}
+
+// API description for integrators, and a browsable copy of it
+app.get('/api/openapi.json', (req, res) => {
+  res.json(openApiDocument());
+});
+app.use('/api/docs', apiDocs('/api/openapi.json'));
 
 // Health check endpoint
 app.get('/api/health', async (req, res) => {
@@ -206,7 +104,7 @@ app.get('/api/health', async (req, res) => {
       status: 'OK', 
       timestamp: new Date().toISOString(),
       database: 'Connected',
-      clients: 0
+      ...getConnectionStats()
     });
   } catch (error: any) {
     res.status(500).json({ 
@@ -218,32 +116,24 @@ app.get('/api/health', async (req, res) => {
   }
 });
 
-// Function to broadcast notifications to a specific user
-export function broadcastNotification(userId: string, notification: any) {
-  const client = clients.get(userId);
-  if (client && client.readyState === WebSocket.OPEN) {
-    client.send(JSON.stringify(notification));
-  }
-}
-
-// Function to broadcast to all connected clients
-export function broadcastToAll(notification: any) {
-  const message = JSON.stringify(notification);
-  clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(message);
-    }
-  });
-}
-
 // Start server
 const startServer = async (): Promise<void> => {
   try {
-    // Initialize database connection and create tables
+    // Refuse to serve a database that is missing migrations
     const db = await getDatabase();
-    await createTables(db);
-    console.log('✅ Database initialized and tables created');
+    await prepareDatabase(db);
+    console.log('✅ Database schema is up to date');
+    startAccountDeletionJob();
+
+    server.listen(PORT, () => {
+      console.log(`🚀 Server is running on port ${PORT}`);
+      console.log(`🌐 Health check: http://localhost:${PORT}/health`);
+    });
   } catch (error: unknown) {
+    if (error instanceof SchemaOutOfDateError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     console.error('❌ Failed to start server:', errorMessage);
     if (error instanceof Error) {
@@ -268,16 +158,18 @@ const shutdown = async (): Promise<void> => {
     console.log('Closing WebSocket connections...');
     const closePromises: Promise<void>[] = [];
     
-    clients.forEach((client, userId) => {
-      if (client.readyState === WebSocket.OPEN) {
-        closePromises.push(new Promise<void>((resolve) => {
-          client.once('close', () => {
-            console.log(`Closed WebSocket connection for user ${userId}`);
-            resolve();
-          });
-          client.close(1001, 'Server shutting down'); // Close with status code 1001 (going away)
-        }));
-      }
+    clients.forEach((sockets, userId) => {
+      sockets.forEach((client) => {
+        if (client.readyState === WebSocket.OPEN) {
+          closePromises.push(new Promise<void>((resolve) => {
+            client.once('close', () => {
+              console.log(`Closed WebSocket connection for user ${userId}`);
+              resolve();
+            });
+            client.close(1001, 'Server shutting down'); // Close with status code 1001 (going away)
+          }));
+        }
+      });
     });
     
     // Wait for all WebSocket connections to close
@@ -400,4 +292,5 @@ app.use((err: unknown, req: express.Request, res: express.Response, next: expres
 });
 
 // Export WebSocket server and clients for use in other modules
-export { wss, clients };
\ No newline at end of file
+export { wss, clients };
+export { broadcastNotification, broadcastToAll, sendToUser } from './websocket.js';
\ No newline at end of file
@@ -0,0 +1,39 @@
+import type { Response, NextFunction } from 'express';
+import type { AuthRequest } from './auth.js';
+import { diffChanges, recordAuditEvent } from '../services/audit.js';
+
+export interface AuditDetails {
+  targetId?: string | number | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+}
+
+// Called by a handler to say what its action changed
+export function setAuditDetails(res: Response, details: AuditDetails) {
+  res.locals.audit = { ...res.locals.audit, ...details };
+}
+
+// Record the action in the audit log once the handler has responded
+// successfully. The target defaults to the route's :id parameter.
+export function auditAction(action: string | ((req: AuthRequest) => string), targetType?: string) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    res.on('finish', () => {
+      if (res.statusCode >= 400) {
+        return;
+      }
+
+      const details: AuditDetails = res.locals.audit ?? {};
+      recordAuditEvent({
+        action: typeof action === 'function' ? action(req) : action,
+        actorId: req.user?.id,
+        targetType,
+        targetId: details.targetId ?? req.params.id,
+        metadata: details.metadata,
+        changes: details.before || details.after ? diffChanges(details.before, details.after) : null,
+        ipAddress: req.ip
+      }).catch((error) => console.error('Audit log error:', error));
+    });
+    next();
+  };
+}
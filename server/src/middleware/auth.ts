@@ -1,18 +1,73 @@
 import { Request, Response, NextFunction } from 'express';
+import { IncomingMessage } from 'http';
 import jwt from 'jsonwebtoken';
 import { getDatabase } from '../database/db.js';
+import { isSessionActive, isSessionTwoFactorVerified } from '../services/sessions.js';
+import { getUserRole, hasPermission, requiresTwoFactor, type Permission } from '../services/permissions.js';
+import { describeBan, getActiveBan } from '../services/bans.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 
+// Access tokens are short-lived; clients renew them with a refresh token
+const ACCESS_TOKEN_TTL = '15m';
+
+// Issued after a correct password when a TOTP code is still needed
+const CHALLENGE_TOKEN_TTL = '5m';
+const CHALLENGE_AUDIENCE = 'two-factor-challenge';
+
+// Subprotocol a browser client offers alongside its token, e.g. ['bearer', token]
+export const SOCKET_AUTH_PROTOCOL = 'bearer';
+
 export interface AuthRequest extends Request {
   user?: {
     id: number;
     email: string;
     is_admin: boolean;
+    sid: number;
   };
 }
 
-export function authenticateToken(req: AuthRequest, res: Response, next: NextFunction) {
+export interface TokenPayload {
+  id: number;
+  email: string;
+  is_admin: boolean;
+  sid: number; // auth_sessions row the token was issued to
+  iat: number;
+  exp: number;
+}
+
+export class SocketAuthError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'SocketAuthError';
+    this.status = status;
+  }
+}
+
+// Write lastActiveAt at most this often per user
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 60 * 1000;
+const lastActivityWrites = new Map<number, number>();
+
+// Note that the user is active; best effort, never fails the request
+export function recordActivity(userId: number) {
+  const now = Date.now();
+  if (now - (lastActivityWrites.get(userId) ?? 0) < ACTIVITY_WRITE_INTERVAL_MS) {
+    return;
+  }
+  lastActivityWrites.set(userId, now);
+
+  getDatabase()
+    .then(db => db.run('UPDATE users SET lastActiveAt = CURRENT_TIMESTAMP WHERE id = ?', [userId]))
+    .catch(error => console.error('Record activity error:', error));
+}
+
+export function verifyToken(token: string): TokenPayload {
+  return jwt.verify(token, JWT_SECRET) as TokenPayload;
+}
+
+export async function authenticateToken(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -20,22 +75,142 @@ export function authenticateToken(req: AuthRequest, res: Response, next: NextFun
     return res.status(401).json({ error: 'Access token required' });
   }
 
+  let decoded: TokenPayload;
+  try {
+    decoded = verifyToken(token);
+  } catch (error) {
+    // Expired tokens get a 401 the client answers by refreshing
+    if (error instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({ error: 'Access token expired', code: 'TOKEN_EXPIRED' });
+    }
+    return res.status(403).json({ error: 'Invalid or expired token' });
+  }
+
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    // Tokens issued before sessions existed can't be revoked, so they are refused
+    if (!decoded.sid || !(await isSessionActive(decoded.sid, decoded.id))) {
+      return res.status(401).json({ error: 'Session has ended', code: 'SESSION_REVOKED' });
+    }
+
+    const ban = await getActiveBan(decoded.id);
+    if (ban) {
+      return res.status(403).json({ error: describeBan(ban), code: 'ACCOUNT_BANNED' });
+    }
+
     req.user = decoded;
+    recordActivity(decoded.id);
     next();
   } catch (error) {
-    return res.status(403).json({ error: 'Invalid or expired token' });
+    console.error('Authenticate token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
 }
 
-export function requireAdmin(req: AuthRequest, res: Response, next: NextFunction) {
-  if (!req.user?.is_admin) {
-    return res.status(403).json({ error: 'Admin access required' });
+// A cookie from the request headers; there's no cookie parser on the app
+export function getCookie(req: IncomingMessage, name: string): string | null {
+  const cookies = (req.headers.cookie || '').split(';');
+  for (const cookie of cookies) {
+    const [key, ...value] = cookie.trim().split('=');
+    if (key === name && value.length > 0) {
+      return decodeURIComponent(value.join('='));
+    }
   }
-  next();
+  return null;
 }
 
-export function generateToken(user: { id: number; email: string; is_admin: boolean }): string {
-  return jwt.sign(user, JWT_SECRET, { expiresIn: '7d' });
-}
\ No newline at end of file
+// Browsers can't set an Authorization header on a WebSocket, so the token is
+// accepted from the `token` query param, a `bearer, <token>` subprotocol pair
+// or a `token` cookie, in that order.
+export function getSocketToken(req: IncomingMessage): string | null {
+  const { searchParams } = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const queryToken = searchParams.get('token');
+  if (queryToken) {
+    return queryToken;
+  }
+
+  const protocols = (req.headers['sec-websocket-protocol'] || '')
+    .split(',')
+    .map(protocol => protocol.trim())
+    .filter(Boolean);
+  const bearerIndex = protocols.indexOf(SOCKET_AUTH_PROTOCOL);
+  if (bearerIndex !== -1 && protocols[bearerIndex + 1]) {
+    return protocols[bearerIndex + 1];
+  }
+
+  return getCookie(req, 'token');
+}
+
+// Verify a WebSocket handshake with the same JWT used for the REST API and
+// make sure its session is still open and the account exists and isn't banned.
+export async function authenticateSocket(req: IncomingMessage): Promise<TokenPayload> {
+  const token = getSocketToken(req);
+  if (!token) {
+    throw new SocketAuthError(401, 'Access token required');
+  }
+
+  let decoded: TokenPayload;
+  try {
+    decoded = verifyToken(token);
+  } catch (error) {
+    throw new SocketAuthError(401, 'Invalid or expired token');
+  }
+
+  if (!decoded.sid || !(await isSessionActive(decoded.sid, decoded.id))) {
+    throw new SocketAuthError(401, 'Session has ended');
+  }
+
+  const db = await getDatabase();
+  const user = await db.get('SELECT id FROM users WHERE id = ?', [decoded.id]);
+
+  if (!user) {
+    throw new SocketAuthError(401, 'User not found');
+  }
+
+  if (await getActiveBan(decoded.id)) {
+    throw new SocketAuthError(403, 'User is banned');
+  }
+
+  return decoded;
+}
+
+// Only lets the request through if the user's role grants the permission.
+// The session must also have passed two-factor authentication, unless the
+// role is exempt for this permission (a moderator handling reports).
+export function requirePermission(permission: Permission) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user || !(await hasPermission(req.user.id, permission))) {
+        return res.status(403).json({
+          error: "You don't have permission to do that",
+          code: 'PERMISSION_DENIED',
+          permission
+        });
+      }
+
+      const role = await getUserRole(req.user.id);
+      if (role && requiresTwoFactor(role, permission) && !(await isSessionTwoFactorVerified(req.user.sid))) {
+        return res.status(403).json({
+          error: 'Two-factor authentication is required for admin access',
+          code: 'TWO_FACTOR_REQUIRED'
+        });
+      }
+      next();
+    } catch (error) {
+      console.error('Require permission error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
+export function generateToken(user: { id: number; email: string; is_admin: boolean }, sessionId: number): string {
+  return jwt.sign({ ...user, sid: sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+}
+
+export function generateChallengeToken(userId: number): string {
+  return jwt.sign({ id: userId }, JWT_SECRET, { expiresIn: CHALLENGE_TOKEN_TTL, audience: CHALLENGE_AUDIENCE });
+}
+
+// Returns the user a login challenge was issued to
+export function verifyChallengeToken(token: string): { id: number } {
+  return jwt.verify(token, JWT_SECRET, { audience: CHALLENGE_AUDIENCE }) as { id: number };
+}
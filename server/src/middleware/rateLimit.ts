@@ -0,0 +1,87 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { AuthRequest } from './auth.js';
+import { getRateLimitStore } from '../services/rateLimitStore.js';
+
+export interface RateLimitOptions {
+  max: number;
+  windowSeconds: number;
+}
+
+// Defaults can be overridden with RATE_LIMIT_<NAME>_MAX and RATE_LIMIT_<NAME>_WINDOW_SECONDS
+function limitFromEnv(name: string, defaults: RateLimitOptions): RateLimitOptions {
+  const max = Number(process.env[`RATE_LIMIT_${name}_MAX`]);
+  const windowSeconds = Number(process.env[`RATE_LIMIT_${name}_WINDOW_SECONDS`]);
+  return {
+    max: max > 0 ? max : defaults.max,
+    windowSeconds: windowSeconds > 0 ? windowSeconds : defaults.windowSeconds
+  };
+}
+
+export const RATE_LIMITS = {
+  // Per IP address
+  login: limitFromEnv('LOGIN', { max: 20, windowSeconds: 15 * 60 }),
+  register: limitFromEnv('REGISTER', { max: 5, windowSeconds: 60 * 60 }),
+  passwordReset: limitFromEnv('PASSWORD_RESET', { max: 5, windowSeconds: 60 * 60 }),
+  // Per signed-in user
+  swaps: limitFromEnv('SWAPS', { max: 20, windowSeconds: 60 * 60 }),
+  messages: limitFromEnv('MESSAGES', { max: 30, windowSeconds: 60 }),
+  reports: limitFromEnv('REPORTS', { max: 10, windowSeconds: 24 * 60 * 60 }),
+  dataExport: limitFromEnv('DATA_EXPORT', { max: 5, windowSeconds: 60 * 60 }),
+  // Guesses at an authentication code while already signed in
+  twoFactor: limitFromEnv('TWO_FACTOR', { max: 10, windowSeconds: 15 * 60 })
+};
+
+export function setRetryAfter(res: Response, resetAt: number): number {
+  const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+  res.set('Retry-After', String(retryAfter));
+  return retryAfter;
+}
+
+// Allow `max` requests per window for each key; the name keeps limits on
+// different routes apart
+function rateLimit(
+  name: string,
+  options: RateLimitOptions,
+  keyFor: (req: Request) => string | undefined
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = keyFor(req);
+    if (!key) {
+      return next();
+    }
+
+    try {
+      const { count, resetAt } = await getRateLimitStore().increment(`${name}:${key}`, options.windowSeconds * 1000);
+
+      res.set('RateLimit-Limit', String(options.max));
+      res.set('RateLimit-Remaining', String(Math.max(0, options.max - count)));
+      res.set('RateLimit-Reset', String(Math.ceil((resetAt - Date.now()) / 1000)));
+
+      if (count > options.max) {
+        const retryAfter = setRetryAfter(res, resetAt);
+        return res.status(429).json({
+          error: 'Too many requests, please try again later',
+          code: 'RATE_LIMITED',
+          retryAfter
+        });
+      }
+      next();
+    } catch (error) {
+      console.error('Rate limit error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
+// For routes used before signing in
+export function rateLimitByIp(name: string, options: RateLimitOptions) {
+  return rateLimit(name, options, req => req.ip);
+}
+
+// For authenticated routes; place after authenticateToken
+export function rateLimitByUser(name: string, options: RateLimitOptions) {
+  return rateLimit(name, options, req => {
+    const user = (req as AuthRequest).user;
+    return user ? String(user.id) : undefined;
+  });
+}
@@ -1,74 +1,85 @@
 import { z } from 'zod';
 import { Request, Response, NextFunction } from 'express';
+import { registrationSchema } from '@skill-swap/contracts';
+import { checkPassword } from '../services/passwordPolicy.js';
 
-export const userRegistrationSchema = z.object({
-  email: z.string().email('Invalid email format'),
-  password: z.string().min(4, 'Password must be at least 4 characters')
-}).passthrough();
+// Request bodies are checked against the schemas shared with the web client;
+// only the password policy, which lives on the server, is added here. A reset
+// names its account by token alone, so the route checks that password.
+export {
+  accountDeletionSchema,
+  adminMessageSchema,
+  availabilitySchema,
+  banSchema,
+  circleProposalSchema,
+  emailVerificationSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  messageSchema,
+  oidcLoginSchema,
+  passwordResetSchema,
+  passwordStrengthSchema,
+  profileUpdateSchema,
+  ratingSchema,
+  refreshTokenSchema,
+  reportResolutionSchema,
+  reportSchema,
+  roleAssignmentSchema,
+  sessionProposalSchema,
+  skillSchema,
+  swapRequestSchema,
+  swapStatusUpdateSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema
+} from '@skill-swap/contracts';
 
-export const userLoginSchema = z.object({
-  email: z.string().email('Invalid email format'),
-  password: z.string().min(1, 'Password is required')
-});
+// Reports each way a new password falls short of the password policy
+function enforcePasswordPolicy(password: string, ctx: z.RefinementCtx, userInputs: string[] = []) {
+  for (const message of checkPassword(password, userInputs).errors) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['password'], message });
+  }
+}
 
-export const skillSchema = z.object({
-  name: z.string().min(2, 'Skill name must be at least 2 characters'),
-  type: z.enum(['offered', 'wanted']),
-  description: z.string().optional(),
-  proficiency_level: z.enum(['beginner', 'intermediate', 'advanced', 'expert']).default('intermediate')
+export const userRegistrationSchema = registrationSchema.superRefine((data, ctx) => {
+  enforcePasswordPolicy(data.password, ctx, [data.email, data.name ?? '']);
 });
 
-export const swapRequestSchema = z.object({
-  providerId: z.number().int().positive(),
-  offeredSkillId: z.number().int().positive(),
-  wantedSkillId: z.number().int().positive(),
-  message: z.string().optional()
+// The 400 response for fields that failed validation
+const validationFailed = (issues: Pick<z.ZodIssue, 'path' | 'message' | 'code'>[]) => ({
+  error: 'Validation failed',
+  details: issues.map(issue => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+    code: issue.code
+  }))
 });
 
-export const ratingSchema = z.object({
-  rating: z.number().int().min(1).max(5),
-  feedback: z.string().optional()
-});
+// The response for a new password that falls short of the policy for the
+// given account, or null when it meets it
+export function passwordPolicyError(password: string, userInputs: string[]) {
+  const { errors } = checkPassword(password, userInputs);
+  return errors.length > 0
+    ? validationFailed(errors.map(message => ({ path: ['password'], message, code: z.ZodIssueCode.custom })))
+    : null;
+}
 
+// Request bodies can hold passwords and tokens, so they are never logged or
+// echoed back; errors only name the fields that failed
 export function validateBody(schema: z.ZodSchema) {
   return (req: Request, res: Response, next: NextFunction) => {
-    console.log('=== Request Details ===');
-    console.log('Method:', req.method);
-    console.log('URL:', req.originalUrl);
-    console.log('Headers:', req.headers);
-    console.log('Raw body:', req.body);
-    console.log('Parsed body:', JSON.parse(JSON.stringify(req.body)));
-    
     try {
       // Ensure we're working with a plain object
       const body = typeof req.body === 'object' && !Array.isArray(req.body) 
         ? req.body 
         : {};
       
-      const parsed = schema.parse(body);
-      console.log('Parsed successfully:', parsed);
-      req.body = parsed;
+      req.body = schema.parse(body);
       next();
     } catch (error) {
-      console.error('Validation error details:', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined,
-        requestBody: req.body,
-        validationError: error instanceof z.ZodError ? error.errors : 'Not a Zod error'
-      });
-      
       if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          error: 'Validation failed',
-          details: error.errors.map(err => ({
-            field: err.path.join('.'),
-            message: err.message,
-            code: err.code
-          })),
-          receivedData: req.body
-        });
+        return res.status(400).json(validationFailed(error.errors));
       }
       next(error);
     }
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,42 @@
+import type { MountedRouter } from '../routes/index.js';
+import type { ApiOperation } from './operations.js';
+
+export interface RouteKey {
+  method: string;
+  path: string;
+}
+
+// The part of Express's router internals read here; its types leave out `methods`
+interface RouteLayer {
+  route?: { path: string; methods: Record<string, boolean> };
+}
+
+const describe = ({ method, path }: RouteKey) => `${method.toUpperCase()} ${path}`;
+
+// Every route the mounted routers register, with its full path
+export function registeredRoutes(mounted: MountedRouter[]): RouteKey[] {
+  return mounted.flatMap(({ path: prefix, router }) =>
+    (router.stack as RouteLayer[]).flatMap(({ route }) => {
+      if (!route) return [];
+      const path = route.path === '/' ? prefix : `${prefix}${route.path}`;
+      return Object.keys(route.methods).map(method => ({ method, path }));
+    })
+  );
+}
+
+// Routes without an operation, and operations no router serves. Operations
+// outside every mount point, like /api/health, are served by the app itself
+// and left alone.
+export function compareWithOperations(mounted: MountedRouter[], operations: ApiOperation[]) {
+  const routes = registeredRoutes(mounted);
+  const documented = new Set(operations.map(describe));
+  const registered = new Set(routes.map(describe));
+  const underMountPoint = ({ path }: RouteKey) =>
+    mounted.some(({ path: prefix }) => path === prefix || path.startsWith(`${prefix}/`));
+
+  return {
+    routes,
+    undocumented: routes.filter(route => !documented.has(describe(route))).map(describe),
+    unserved: operations.filter(operation => underMountPoint(operation) && !registered.has(describe(operation))).map(describe)
+  };
+}
@@ -0,0 +1,34 @@
+import express, { Router } from 'express';
+import { createRequire } from 'module';
+import { dirname } from 'path';
+
+// Swagger UI is served from the installed package, so the docs work offline
+const SWAGGER_UI_DIR = dirname(createRequire(import.meta.url).resolve('swagger-ui-dist/package.json'));
+
+const docsPage = (baseUrl: string, specUrl: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Skill Swap API</title>
+  <link rel="stylesheet" href="${baseUrl}/swagger-ui.css" />
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${baseUrl}/swagger-ui-bundle.js"></script>
+  <script>
+    SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: '#swagger-ui', persistAuthorization: true });
+  </script>
+</body>
+</html>`;
+
+// Interactive docs for the OpenAPI document at `specUrl`
+export function apiDocs(specUrl: string): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    res.type('html').send(docsPage(req.baseUrl, specUrl));
+  });
+  router.use(express.static(SWAGGER_UI_DIR, { index: false }));
+
+  return router;
+}
@@ -0,0 +1,210 @@
+import { createRequire } from 'module';
+import { ZodOptional, type ZodTypeAny } from 'zod';
+import { zodToJsonSchema, type Options } from 'zod-to-json-schema';
+import {
+  adminSwapsResponseSchema,
+  adminUsersResponseSchema,
+  availabilitySchema,
+  errorResponseSchema,
+  loginResponseSchema,
+  messageResponseSchema,
+  passwordCheckSchema,
+  pendingDeletionsResponseSchema,
+  profileSchema,
+  publicProfileSchema,
+  sessionResponseSchema,
+  tokenPairSchema,
+  userRatingsSchema,
+  userSearchResponseSchema,
+  validationErrorSchema
+} from '@skill-swap/contracts';
+import { operations, TAGS, type ApiOperation, type ApiResponse } from './operations.js';
+
+type JsonSchema = Record<string, unknown>;
+
+const { version } = createRequire(import.meta.url)('../../package.json') as { version: string };
+
+// Listed under components.schemas; an operation answering with one of these
+// refers to it by name instead of spelling it out
+const COMPONENTS: Record<string, ZodTypeAny> = {
+  Error: errorResponseSchema,
+  ValidationError: validationErrorSchema,
+  Message: messageResponseSchema,
+  Session: sessionResponseSchema,
+  Login: loginResponseSchema,
+  TokenPair: tokenPairSchema,
+  PasswordCheck: passwordCheckSchema,
+  Profile: profileSchema,
+  PublicProfile: publicProfileSchema,
+  Availability: availabilitySchema,
+  UserSearch: userSearchResponseSchema,
+  UserRatings: userRatingsSchema,
+  AdminUsers: adminUsersResponseSchema,
+  AdminSwaps: adminSwapsResponseSchema,
+  PendingDeletions: pendingDeletionsResponseSchema
+};
+
+const componentNames = new Map(Object.entries(COMPONENTS).map(([name, schema]) => [schema, name]));
+
+const CONVERSION: Partial<Options<'openApi3'>> = {
+  target: 'openApi3',
+  // Nested schemas are spelled out; only whole bodies refer to components
+  $refStrategy: 'none',
+  // zod drops unknown keys rather than rejecting them
+  removeAdditionalStrategy: 'strict'
+};
+
+// zod-to-json-schema types its input with zod/v3's declarations, which
+// TypeScript can't match against ours without running out of depth
+const convert = zodToJsonSchema as unknown as (schema: ZodTypeAny, options: Partial<Options<'openApi3'>>) => JsonSchema;
+
+const toJsonSchema = (schema: ZodTypeAny) => convert(schema, CONVERSION);
+
+function schemaFor(schema: ZodTypeAny): JsonSchema {
+  const name = componentNames.get(schema);
+  return name ? { $ref: `#/components/schemas/${name}` } : toJsonSchema(schema);
+}
+
+// Express path to OpenAPI path: /swaps/:id/status -> /swaps/{id}/status
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, '{$1}');
+
+// getSwapsIdStatus for GET /api/swaps/:id/status
+function operationId({ method, path }: ApiOperation) {
+  const words = path.replace(/^\/api\//, '').split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return method + words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+}
+
+function parameters(operation: ApiOperation) {
+  // Ids are numbers; tokens and provider names are strings
+  const pathParameters = [...operation.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: /^id$|Id$/.test(name) ? 'integer' : 'string' }
+  }));
+
+  // Whether a parameter is optional is said by `required`, not its schema
+  const queryParameters = Object.entries<ZodTypeAny>(operation.query?.shape ?? {}).map(([name, schema]) => ({
+    name,
+    in: 'query',
+    required: !schema.isOptional(),
+    schema: toJsonSchema(schema instanceof ZodOptional ? schema.unwrap() : schema)
+  }));
+
+  return [...pathParameters, ...queryParameters];
+}
+
+interface ResponseParts {
+  descriptions: string[];
+  schemas: JsonSchema[];
+  contentType: string;
+}
+
+// The route's own responses plus the ones its middleware can send: validation
+// errors for a body, token and ban errors for auth, permission and two-factor
+// errors for staff routes, 429 for rate limits and 500 for everything
+function responses(operation: ApiOperation) {
+  const parts = new Map<number, ResponseParts>();
+
+  const add = (status: number, response: ApiResponse | string) => {
+    const { description, schema, contentType = 'application/json' } = typeof response === 'string'
+      ? { description: response, schema: status >= 400 ? errorResponseSchema : undefined }
+      : response;
+    const part = parts.get(status) ?? { descriptions: [], schemas: [], contentType };
+
+    part.descriptions.push(description);
+    const jsonSchema = schema && schemaFor(schema);
+    if (jsonSchema && !part.schemas.some(existing => JSON.stringify(existing) === JSON.stringify(jsonSchema))) {
+      part.schemas.push(jsonSchema);
+    }
+    parts.set(status, part);
+  };
+
+  for (const [status, response] of Object.entries(operation.responses)) {
+    add(Number(status), response);
+  }
+  if (operation.body) {
+    add(400, { description: 'The body failed validation', schema: validationErrorSchema });
+  }
+  if (operation.auth) {
+    add(401, 'Missing, expired or revoked access token');
+    add(403, 'Invalid access token, or the account is banned');
+  }
+  if (operation.permission) {
+    add(403, `Missing the ${operation.permission} permission, or the session has not passed two-factor authentication`);
+  }
+  if (operation.rateLimited) {
+    add(429, 'Too many requests; Retry-After says how many seconds to wait');
+  }
+  if (!(500 in operation.responses)) {
+    add(500, 'Internal server error');
+  }
+
+  return Object.fromEntries([...parts].sort(([a], [b]) => a - b).map(([status, { descriptions, schemas, contentType }]) => {
+    const response: Record<string, unknown> = { description: descriptions.join('. ') };
+
+    if (contentType !== 'application/json') {
+      response.content = { [contentType]: { schema: { type: 'string' } } };
+    } else if (schemas.length > 0) {
+      response.content = { [contentType]: { schema: schemas.length === 1 ? schemas[0] : { oneOf: schemas } } };
+    }
+    if (status === 429) {
+      response.headers = { 'Retry-After': { schema: { type: 'integer' }, description: 'Seconds to wait' } };
+    }
+    return [String(status), response];
+  }));
+}
+
+function buildDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const operation of operations) {
+    const path = toOpenApiPath(operation.path);
+    const params = parameters(operation);
+
+    paths[path] = {
+      ...paths[path],
+      [operation.method]: {
+        operationId: operationId(operation),
+        tags: [operation.tag],
+        summary: operation.summary,
+        ...(operation.description && { description: operation.description }),
+        ...(operation.auth && { security: [{ bearerAuth: [] }] }),
+        ...(params.length > 0 && { parameters: params }),
+        ...(operation.body && {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: schemaFor(operation.body) } }
+          }
+        }),
+        responses: responses(operation)
+      }
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Skill Swap API',
+      version,
+      description: 'Request bodies are checked against the same zod schemas the server validates with. ' +
+        'Errors have an `error` message; a 400 from a failed validation also lists the fields in `details`.'
+    },
+    tags: Object.values(TAGS).map(name => ({ name })),
+    paths,
+    components: {
+      schemas: Object.fromEntries(Object.entries(COMPONENTS).map(([name, schema]) => [name, toJsonSchema(schema)])),
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+      }
+    }
+  };
+}
+
+let document: ReturnType<typeof buildDocument> | undefined;
+
+// Built on first use; the operations don't change while the server runs
+export function openApiDocument() {
+  document ??= buildDocument();
+  return document;
+}
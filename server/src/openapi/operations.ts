@@ -0,0 +1,1231 @@
+import { z, type AnyZodObject, type ZodTypeAny } from 'zod';
+import {
+  adminListParamsSchema,
+  adminSwapsResponseSchema,
+  adminUsersResponseSchema,
+  authSessionSchema,
+  availabilitySchema as availabilityDtoSchema,
+  chatMessageSchema,
+  circleSwapSchema,
+  loginResponseSchema,
+  messageResponseSchema,
+  oidcProviderSchema,
+  paginationSchema,
+  passwordCheckSchema,
+  pendingDeletionsResponseSchema,
+  popularSkillSchema,
+  profileSchema,
+  publicProfileSchema,
+  recoveryCodesResponseSchema,
+  roleNameSchema,
+  sessionResponseSchema,
+  skillDtoSchema,
+  swapDetailsSchema,
+  swapListParamsSchema,
+  swapRequestCreatedSchema,
+  swapSessionSchema,
+  swapStatusSchema,
+  tokenPairSchema,
+  twoFactorSetupSchema,
+  twoFactorStatusSchema,
+  userRatingsSchema,
+  userSearchParamsSchema,
+  userSearchResponseSchema
+} from '@skill-swap/contracts';
+import {
+  accountDeletionSchema,
+  adminMessageSchema,
+  availabilitySchema,
+  banSchema,
+  circleProposalSchema,
+  emailVerificationSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  messageSchema,
+  oidcLoginSchema,
+  passwordResetSchema,
+  passwordStrengthSchema,
+  profileUpdateSchema,
+  ratingSchema,
+  refreshTokenSchema,
+  reportResolutionSchema,
+  reportSchema,
+  roleAssignmentSchema,
+  sessionProposalSchema,
+  skillSchema,
+  swapRequestSchema,
+  swapStatusUpdateSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+  userRegistrationSchema
+} from '../middleware/validation.js';
+import type { Permission } from '../services/permissions.js';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+export const TAGS = {
+  auth: 'Auth',
+  twoFactor: 'Two-factor authentication',
+  users: 'Users',
+  skills: 'Skills',
+  swaps: 'Swaps',
+  schedule: 'Scheduling',
+  ratings: 'Ratings',
+  messages: 'Messages',
+  notifications: 'Notifications',
+  calendar: 'Calendar',
+  matches: 'Matches',
+  circles: 'Circle swaps',
+  reports: 'Reports',
+  admin: 'Admin',
+  system: 'System'
+} as const;
+
+export interface ApiResponse {
+  description: string;
+  schema?: ZodTypeAny;
+  contentType?: string; // application/json unless set
+}
+
+export interface ApiOperation {
+  method: HttpMethod;
+  path: string; // As Express matches it, e.g. /api/swaps/:id/status
+  tag: (typeof TAGS)[keyof typeof TAGS];
+  summary: string;
+  description?: string;
+  auth?: boolean; // Needs an access token
+  permission?: Permission; // Staff permission checked by requirePermission
+  rateLimited?: boolean;
+  query?: AnyZodObject;
+  body?: ZodTypeAny;
+  // A string is just a description; error statuses get the error body
+  responses: Record<number, ApiResponse | string>;
+}
+
+// Responses without a shared contract are described loosely
+const jsonObject = z.object({}).passthrough();
+
+const calendarFeedSchema = z.object({
+  token: z.string(),
+  url: z.string()
+});
+
+const unreadCountSchema = z.object({
+  unreadCount: z.number()
+});
+
+const markedReadSchema = messageResponseSchema.extend({
+  updated: z.number()
+});
+
+const paginated = (key: string) => z.object({
+  [key]: z.array(jsonObject),
+  pagination: paginationSchema
+});
+
+const circleSchema = z.object({ circle: circleSwapSchema });
+const sessionSchema = z.object({ session: swapSessionSchema });
+
+const conflictSchema = z.object({
+  error: z.string(),
+  conflicts: z.array(jsonObject)
+});
+
+const pageParamsSchema = z.object({
+  page: z.number().int().positive().optional(),
+  limit: z.number().int().positive().optional()
+});
+
+const swapNotFound = 'Swap request not found';
+const notParticipant = 'You are not part of this swap';
+const circleNotFound = 'Circle swap not found';
+const notInCircle = 'You are not part of this circle swap';
+
+export const operations: ApiOperation[] = [
+  // Auth
+  {
+    method: 'post',
+    path: '/api/auth/register',
+    tag: TAGS.auth,
+    summary: 'Create an account and sign in',
+    description: 'The password has to meet the password policy; see /api/auth/password-strength.',
+    rateLimited: true,
+    body: userRegistrationSchema,
+    responses: {
+      201: { description: 'Registered and signed in', schema: sessionResponseSchema },
+      400: 'User already exists with this email'
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/password-strength',
+    tag: TAGS.auth,
+    summary: 'Rate a password against the password policy',
+    body: passwordStrengthSchema,
+    responses: {
+      200: { description: 'How the password measures up', schema: passwordCheckSchema }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/login',
+    tag: TAGS.auth,
+    summary: 'Sign in with email and password',
+    description: 'Accounts with two-factor authentication get a challenge token to finish at /api/auth/login/2fa.',
+    rateLimited: true,
+    body: loginSchema,
+    responses: {
+      200: { description: 'Signed in, or a two-factor challenge', schema: loginResponseSchema },
+      401: 'Invalid email or password',
+      403: 'The account is banned',
+      429: 'Too many failed sign-in attempts; the account is locked for a while'
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/login/2fa',
+    tag: TAGS.auth,
+    summary: 'Finish signing in with an authenticator or recovery code',
+    rateLimited: true,
+    body: twoFactorLoginSchema,
+    responses: {
+      200: { description: 'Signed in', schema: sessionResponseSchema },
+      401: 'The challenge expired or the code is wrong',
+      403: 'The account is banned'
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/auth/oidc/providers',
+    tag: TAGS.auth,
+    summary: 'List external sign-in providers',
+    responses: {
+      200: { description: 'Configured providers', schema: z.object({ providers: z.array(oidcProviderSchema) }) }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/auth/oidc/:provider/authorize',
+    tag: TAGS.auth,
+    summary: "Send the browser to the provider's sign-in page",
+    description: 'Sets an oidc_state cookie that the callback checks, so the sign-in has to finish in the same browser.',
+    rateLimited: true,
+    responses: {
+      302: 'Redirect to the provider, or back to the client with oidc_error'
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/auth/oidc/:provider/callback',
+    tag: TAGS.auth,
+    summary: 'Return point for the provider',
+    description: 'Redirects to the client with a short-lived oidc_code to exchange at /api/auth/login/oidc.',
+    responses: {
+      302: 'Redirect to the client with oidc_code or oidc_error'
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/login/oidc',
+    tag: TAGS.auth,
+    summary: 'Exchange an external sign-in code for a session',
+    rateLimited: true,
+    body: oidcLoginSchema,
+    responses: {
+      200: { description: 'Signed in, or a two-factor challenge', schema: loginResponseSchema },
+      401: 'The sign-in code is invalid or expired',
+      403: 'The account is banned'
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/forgot-password',
+    tag: TAGS.auth,
+    summary: 'Email a password reset link',
+    description: 'Answers the same whether or not the address has an account.',
+    rateLimited: true,
+    body: forgotPasswordSchema,
+    responses: {
+      200: { description: 'Request accepted', schema: messageResponseSchema }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/reset-password',
+    tag: TAGS.auth,
+    summary: 'Set a new password from a reset link',
+    description: 'Signs out every device.',
+    body: passwordResetSchema,
+    responses: {
+      200: { description: 'Password updated', schema: messageResponseSchema },
+      400: 'The reset link is invalid or expired'
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/verify-email',
+    tag: TAGS.auth,
+    summary: 'Verify an email address from a verification link',
+    body: emailVerificationSchema,
+    responses: {
+      200: { description: 'Email address verified', schema: messageResponseSchema },
+      400: 'The verification link is invalid or expired'
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/resend-verification',
+    tag: TAGS.auth,
+    summary: 'Send the verification email again',
+    auth: true,
+    responses: {
+      200: { description: 'Verification email sent', schema: messageResponseSchema },
+      400: 'Email address is already verified',
+      404: 'User not found'
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/refresh',
+    tag: TAGS.auth,
+    summary: 'Swap a refresh token for a new token pair',
+    body: refreshTokenSchema,
+    responses: {
+      200: { description: 'New access and refresh tokens', schema: tokenPairSchema },
+      401: 'The refresh token is invalid, expired or revoked',
+      403: 'The account is banned'
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/logout',
+    tag: TAGS.auth,
+    summary: 'Sign this device out',
+    description: 'Only needs the refresh token, so it works with an expired access token.',
+    body: refreshTokenSchema,
+    responses: {
+      200: { description: 'Signed out', schema: messageResponseSchema }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/auth/sessions',
+    tag: TAGS.auth,
+    summary: 'List the devices the current user is signed in on',
+    auth: true,
+    responses: {
+      200: { description: 'Signed-in devices', schema: z.object({ sessions: z.array(authSessionSchema) }) }
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/auth/sessions',
+    tag: TAGS.auth,
+    summary: 'Sign out every device except this one',
+    auth: true,
+    responses: {
+      200: { description: 'Other sessions signed out', schema: messageResponseSchema.extend({ revoked: z.number() }) }
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/auth/sessions/:id',
+    tag: TAGS.auth,
+    summary: 'Sign out one device',
+    auth: true,
+    responses: {
+      200: { description: 'Session signed out', schema: messageResponseSchema },
+      404: 'Session not found'
+    }
+  },
+
+  // Two-factor authentication
+  {
+    method: 'get',
+    path: '/api/auth/2fa',
+    tag: TAGS.twoFactor,
+    summary: 'Two-factor status of the current user',
+    auth: true,
+    responses: {
+      200: {
+        description: 'Whether two-factor authentication is on',
+        schema: twoFactorStatusSchema
+      }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/2fa/setup',
+    tag: TAGS.twoFactor,
+    summary: 'Start enrolling an authenticator app',
+    description: 'Two-factor authentication stays off until /api/auth/2fa/enable.',
+    auth: true,
+    responses: {
+      200: {
+        description: 'New secret, with a QR code as a data URL',
+        schema: twoFactorSetupSchema
+      },
+      400: 'Two-factor authentication is already on'
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/2fa/enable',
+    tag: TAGS.twoFactor,
+    summary: 'Confirm enrollment with a code from the app',
+    auth: true,
+    rateLimited: true,
+    body: twoFactorCodeSchema,
+    responses: {
+      200: { description: 'Enabled; the recovery codes are only shown once', schema: recoveryCodesResponseSchema },
+      400: 'Invalid authentication code, or no enrollment in progress'
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/2fa/disable',
+    tag: TAGS.twoFactor,
+    summary: 'Turn two-factor authentication off',
+    auth: true,
+    rateLimited: true,
+    body: twoFactorCodeSchema,
+    responses: {
+      200: { description: 'Disabled', schema: messageResponseSchema },
+      400: 'Invalid authentication code, or a staff account, which has to keep it on'
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/2fa/recovery-codes',
+    tag: TAGS.twoFactor,
+    summary: 'Replace the recovery codes',
+    auth: true,
+    rateLimited: true,
+    body: twoFactorCodeSchema,
+    responses: {
+      200: { description: 'New recovery codes', schema: recoveryCodesResponseSchema },
+      400: 'Invalid authentication code'
+    }
+  },
+
+  // Users
+  {
+    method: 'get',
+    path: '/api/users/profile',
+    tag: TAGS.users,
+    summary: "The current user's profile",
+    auth: true,
+    responses: {
+      200: { description: 'Account, skills, availability and ratings', schema: profileSchema },
+      404: 'User not found'
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/users/profile',
+    tag: TAGS.users,
+    summary: "Update the current user's profile",
+    auth: true,
+    body: profileUpdateSchema,
+    responses: {
+      200: { description: 'Profile updated', schema: messageResponseSchema }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/users/profile/availability',
+    tag: TAGS.users,
+    summary: "The current user's weekly availability",
+    auth: true,
+    responses: {
+      200: { description: 'Timezone and weekly slots', schema: availabilityDtoSchema }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/users/profile/availability',
+    tag: TAGS.users,
+    summary: "Replace the current user's weekly availability",
+    auth: true,
+    body: availabilitySchema,
+    responses: {
+      200: { description: 'Availability updated', schema: messageResponseSchema.merge(availabilityDtoSchema) }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/users/me/export',
+    tag: TAGS.users,
+    summary: 'Download everything stored about the current user',
+    auth: true,
+    rateLimited: true,
+    responses: {
+      200: { description: 'JSON file download', schema: jsonObject }
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/users/me',
+    tag: TAGS.users,
+    summary: "Schedule the current user's account for deletion",
+    description: 'The account is deleted after a grace period unless the deletion is cancelled.',
+    auth: true,
+    body: accountDeletionSchema,
+    responses: {
+      200: {
+        description: 'Deletion scheduled',
+        schema: messageResponseSchema.extend({ deletionScheduledFor: z.string() })
+      },
+      400: 'Staff accounts have to be given the user role before they can be deleted',
+      401: 'Password is incorrect'
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/users/me/deletion',
+    tag: TAGS.users,
+    summary: 'Cancel a pending account deletion',
+    auth: true,
+    responses: {
+      200: { description: 'Deletion cancelled', schema: messageResponseSchema },
+      404: 'No account deletion is pending'
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/users/search',
+    tag: TAGS.users,
+    summary: 'Search members by skill, optionally by availability',
+    auth: true,
+    query: userSearchParamsSchema,
+    responses: {
+      200: { description: 'A page of members', schema: userSearchResponseSchema },
+      400: 'availableAt must be an ISO 8601 date-time'
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/users/:id',
+    tag: TAGS.users,
+    summary: "A member's public profile",
+    auth: true,
+    responses: {
+      200: { description: 'Public profile', schema: publicProfileSchema },
+      404: 'User not found'
+    }
+  },
+
+  // Skills
+  {
+    method: 'get',
+    path: '/api/skills',
+    tag: TAGS.skills,
+    summary: "The current user's skills",
+    auth: true,
+    responses: {
+      200: { description: 'Offered skills first, then wanted ones', schema: z.array(skillDtoSchema) }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/skills',
+    tag: TAGS.skills,
+    summary: 'List a skill as offered or wanted',
+    auth: true,
+    body: skillSchema,
+    responses: {
+      201: { description: 'Skill added', schema: messageResponseSchema.extend({ skill: skillDtoSchema }) },
+      400: 'You already have this skill listed'
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/skills/:id',
+    tag: TAGS.skills,
+    summary: 'Update one of the current user\'s skills',
+    auth: true,
+    body: skillSchema,
+    responses: {
+      200: { description: 'Skill updated', schema: messageResponseSchema },
+      404: 'Skill not found'
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/skills/:id',
+    tag: TAGS.skills,
+    summary: 'Delete one of the current user\'s skills',
+    auth: true,
+    responses: {
+      200: { description: 'Skill deleted', schema: messageResponseSchema },
+      404: 'Skill not found'
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/skills/popular',
+    tag: TAGS.skills,
+    summary: 'Skills listed by the most members',
+    auth: true,
+    responses: {
+      200: { description: 'Up to 20 skill names with counts', schema: z.array(popularSkillSchema) }
+    }
+  },
+
+  // Swaps
+  {
+    method: 'get',
+    path: '/api/swaps',
+    tag: TAGS.swaps,
+    summary: 'Swaps the current user takes part in',
+    auth: true,
+    query: swapListParamsSchema,
+    responses: {
+      200: { description: 'Newest first', schema: z.array(swapDetailsSchema) }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/swaps',
+    tag: TAGS.swaps,
+    summary: 'Ask another member for a swap',
+    auth: true,
+    rateLimited: true,
+    body: swapRequestSchema,
+    responses: {
+      201: { description: 'Swap request created', schema: swapRequestCreatedSchema },
+      400: 'A skill is invalid, the member is not accepting requests, or a request is already pending'
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/swaps/:id/status',
+    tag: TAGS.swaps,
+    summary: 'Accept, reject, complete or cancel a swap',
+    description: 'Only the provider accepts or rejects; either side completes or cancels an accepted swap.',
+    auth: true,
+    body: swapStatusUpdateSchema,
+    responses: {
+      200: { description: 'Status updated', schema: messageResponseSchema },
+      400: 'The swap cannot move to that status',
+      403: 'Not allowed to make this change',
+      404: swapNotFound
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/swaps/:id',
+    tag: TAGS.swaps,
+    summary: 'Withdraw a pending swap request',
+    auth: true,
+    responses: {
+      200: { description: 'Swap request deleted', schema: messageResponseSchema },
+      400: 'Only pending swap requests can be deleted',
+      403: 'Not authorized to update this swap request',
+      404: swapNotFound
+    }
+  },
+
+  // Scheduling
+  {
+    method: 'get',
+    path: '/api/swaps/sessions/upcoming',
+    tag: TAGS.schedule,
+    summary: "Upcoming sessions and open proposals across the user's swaps",
+    auth: true,
+    responses: {
+      200: { description: 'Soonest first', schema: z.array(jsonObject) }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/swaps/:id/schedule',
+    tag: TAGS.schedule,
+    summary: 'All sessions of a swap, proposals included',
+    auth: true,
+    responses: {
+      200: {
+        description: 'Sessions, and whether new ones can be proposed',
+        schema: z.object({ sessions: z.array(swapSessionSchema), canSchedule: z.boolean() })
+      },
+      403: notParticipant,
+      404: swapNotFound
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/swaps/:id/schedule',
+    tag: TAGS.schedule,
+    summary: 'Propose a session time',
+    auth: true,
+    body: sessionProposalSchema,
+    responses: {
+      201: { description: 'Proposal made', schema: sessionSchema },
+      400: 'Sessions can only be scheduled for accepted swaps',
+      403: notParticipant,
+      404: swapNotFound,
+      409: { description: 'You already have a confirmed session at that time', schema: conflictSchema }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/swaps/:id/schedule/:sessionId/counter',
+    tag: TAGS.schedule,
+    summary: 'Answer a proposal with a different time',
+    auth: true,
+    body: sessionProposalSchema,
+    responses: {
+      201: { description: 'Counter-proposal made', schema: sessionSchema },
+      400: 'The swap is not accepted, or the proposal is your own',
+      403: notParticipant,
+      404: 'Swap request or open proposal not found',
+      409: { description: 'You already have a confirmed session at that time', schema: conflictSchema }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/swaps/:id/schedule/:sessionId/confirm',
+    tag: TAGS.schedule,
+    summary: "Accept the other participant's proposal",
+    auth: true,
+    responses: {
+      200: { description: 'Session confirmed', schema: sessionSchema },
+      400: 'The swap is not accepted, the proposal is your own or it is in the past',
+      403: notParticipant,
+      404: 'Swap request or open proposal not found',
+      409: { description: 'This session overlaps another confirmed session', schema: conflictSchema }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/swaps/:id/schedule/:sessionId/decline',
+    tag: TAGS.schedule,
+    summary: "Turn down the other participant's proposal",
+    auth: true,
+    responses: {
+      200: { description: 'Proposal declined', schema: sessionSchema },
+      400: 'Withdraw your own proposal instead of declining it',
+      403: notParticipant,
+      404: 'Swap request or open proposal not found'
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/swaps/:id/schedule/:sessionId',
+    tag: TAGS.schedule,
+    summary: 'Withdraw your own proposal or cancel a confirmed session',
+    auth: true,
+    responses: {
+      200: { description: 'Session cancelled', schema: sessionSchema },
+      400: 'Decline the proposal instead of cancelling it',
+      403: notParticipant,
+      404: 'Swap request or session not found'
+    }
+  },
+
+  // Ratings
+  {
+    method: 'post',
+    path: '/api/ratings/swap/:swapId',
+    tag: TAGS.ratings,
+    summary: 'Rate the other participant of a completed swap',
+    auth: true,
+    body: ratingSchema,
+    responses: {
+      201: { description: 'Rating added', schema: messageResponseSchema },
+      400: 'You have already rated this swap',
+      403: notParticipant,
+      404: 'Completed swap request not found'
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/ratings/user/:userId',
+    tag: TAGS.ratings,
+    summary: 'Ratings a member received',
+    auth: true,
+    responses: {
+      200: { description: 'Newest first, with the average', schema: userRatingsSchema }
+    }
+  },
+
+  // Messages
+  {
+    method: 'get',
+    path: '/api/messages/threads',
+    tag: TAGS.messages,
+    summary: 'Conversations of the current user',
+    description: 'One per swap that can be chatted on or already has messages, most recent activity first.',
+    auth: true,
+    responses: {
+      200: { description: 'Conversations', schema: z.array(jsonObject) }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/messages/swap/:swapId',
+    tag: TAGS.messages,
+    summary: 'Page through a conversation, newest page first',
+    description: 'Pass the oldest loaded message id as `before` to get the page preceding it.',
+    auth: true,
+    query: z.object({
+      before: z.number().int().positive().optional(),
+      limit: z.number().int().min(1).max(100).optional()
+    }),
+    responses: {
+      200: {
+        description: 'Messages, oldest first within the page',
+        schema: z.object({ messages: z.array(chatMessageSchema), hasMore: z.boolean(), canSend: z.boolean() })
+      },
+      403: notParticipant,
+      404: swapNotFound
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/messages/swap/:swapId',
+    tag: TAGS.messages,
+    summary: 'Message the other participant of a swap',
+    auth: true,
+    rateLimited: true,
+    body: messageSchema,
+    responses: {
+      201: { description: 'The message sent', schema: chatMessageSchema },
+      400: 'Messages can only be sent once the swap has been accepted',
+      403: notParticipant,
+      404: swapNotFound
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/messages/swap/:swapId/read',
+    tag: TAGS.messages,
+    summary: 'Mark a conversation as read',
+    auth: true,
+    responses: {
+      200: { description: 'Conversation marked as read', schema: markedReadSchema },
+      403: notParticipant,
+      404: swapNotFound
+    }
+  },
+
+  // Notifications
+  {
+    method: 'get',
+    path: '/api/notifications',
+    tag: TAGS.notifications,
+    summary: "The current user's notifications, newest first",
+    auth: true,
+    query: pageParamsSchema.extend({ unread: z.boolean().optional() }),
+    responses: {
+      200: { description: 'A page of notifications', schema: paginated('notifications').merge(unreadCountSchema) }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/notifications/unread-count',
+    tag: TAGS.notifications,
+    summary: 'Number of unread notifications',
+    auth: true,
+    responses: {
+      200: { description: 'Unread count', schema: unreadCountSchema }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/notifications/read-all',
+    tag: TAGS.notifications,
+    summary: 'Mark every notification as read',
+    auth: true,
+    responses: {
+      200: { description: 'All marked as read', schema: markedReadSchema.merge(unreadCountSchema) }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/notifications/:id/read',
+    tag: TAGS.notifications,
+    summary: 'Mark a notification as read',
+    auth: true,
+    responses: {
+      200: {
+        description: 'The updated notification',
+        schema: unreadCountSchema.extend({ notification: jsonObject })
+      },
+      404: 'Notification not found'
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/notifications/:id',
+    tag: TAGS.notifications,
+    summary: 'Delete a notification',
+    auth: true,
+    responses: {
+      200: { description: 'Notification deleted', schema: messageResponseSchema.merge(unreadCountSchema) },
+      404: 'Notification not found'
+    }
+  },
+
+  // Calendar
+  {
+    method: 'get',
+    path: '/api/calendar/token',
+    tag: TAGS.calendar,
+    summary: "The current user's calendar feed URL",
+    auth: true,
+    responses: {
+      200: { description: 'Feed token and URL', schema: calendarFeedSchema }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/calendar/token/rotate',
+    tag: TAGS.calendar,
+    summary: 'Replace the calendar feed token',
+    description: 'Subscriptions using the old URL stop working.',
+    auth: true,
+    responses: {
+      200: { description: 'New feed token and URL', schema: calendarFeedSchema }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/calendar/swap/:swapId.ics',
+    tag: TAGS.calendar,
+    summary: 'Download the confirmed sessions of a swap',
+    auth: true,
+    responses: {
+      200: { description: 'iCalendar file', contentType: 'text/calendar' },
+      403: notParticipant,
+      404: 'Swap request not found, or it has no confirmed sessions'
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/calendar/:token.ics',
+    tag: TAGS.calendar,
+    summary: 'Subscribable calendar feed',
+    description: 'The token in the URL is the only credential.',
+    responses: {
+      200: { description: 'iCalendar feed', contentType: 'text/calendar' },
+      404: 'Calendar not found'
+    }
+  },
+
+  // Matches
+  {
+    method: 'get',
+    path: '/api/matches',
+    tag: TAGS.matches,
+    summary: 'Members who want what the current user offers and offer what they want',
+    auth: true,
+    query: pageParamsSchema,
+    responses: {
+      200: { description: 'A page of matches, best first', schema: paginated('matches') }
+    }
+  },
+
+  // Circle swaps
+  {
+    method: 'get',
+    path: '/api/circles/suggestions',
+    tag: TAGS.circles,
+    summary: 'Rings of 3 to 4 members the current user could join',
+    auth: true,
+    responses: {
+      200: {
+        description: 'Suggested rings',
+        schema: z.object({ suggestions: z.array(z.object({ members: z.array(jsonObject) })) })
+      }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/circles',
+    tag: TAGS.circles,
+    summary: 'Circle swaps the current user is part of, newest first',
+    auth: true,
+    responses: {
+      200: { description: 'Circle swaps', schema: z.object({ circles: z.array(circleSwapSchema) }) }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/circles/:id',
+    tag: TAGS.circles,
+    summary: 'A circle swap',
+    auth: true,
+    responses: {
+      200: { description: 'The circle swap and its members', schema: circleSchema },
+      403: notInCircle,
+      404: circleNotFound
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/circles',
+    tag: TAGS.circles,
+    summary: 'Propose a circle swap',
+    description: 'The proposer accepts by proposing.',
+    auth: true,
+    rateLimited: true,
+    body: circleProposalSchema,
+    responses: {
+      201: { description: 'Circle swap proposed', schema: messageResponseSchema.merge(circleSchema) },
+      400: 'The ring is not valid',
+      409: 'This circle swap has already been proposed'
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/circles/:id/accept',
+    tag: TAGS.circles,
+    summary: 'Accept a circle swap',
+    auth: true,
+    responses: {
+      200: { description: 'Accepted', schema: circleSchema },
+      400: 'This circle swap is not waiting for your answer',
+      403: notInCircle,
+      404: circleNotFound
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/circles/:id/decline',
+    tag: TAGS.circles,
+    summary: 'Decline a circle swap, calling it off for everyone',
+    auth: true,
+    responses: {
+      200: { description: 'Declined', schema: circleSchema },
+      400: 'This circle swap is not waiting for your answer',
+      403: notInCircle,
+      404: circleNotFound
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/circles/:id/complete',
+    tag: TAGS.circles,
+    summary: "Mark the current user's part as done",
+    description: 'The ring completes when everyone has.',
+    auth: true,
+    responses: {
+      200: { description: 'Part completed', schema: circleSchema },
+      400: 'The circle swap is not active, or your part is already done',
+      403: notInCircle,
+      404: circleNotFound
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/circles/:id/cancel',
+    tag: TAGS.circles,
+    summary: 'Cancel a circle swap',
+    auth: true,
+    responses: {
+      200: { description: 'Cancelled', schema: circleSchema },
+      400: 'The circle swap is already over',
+      403: notInCircle,
+      404: circleNotFound
+    }
+  },
+
+  // Reports
+  {
+    method: 'post',
+    path: '/api/reports',
+    tag: TAGS.reports,
+    summary: 'Report another member to the moderators',
+    auth: true,
+    rateLimited: true,
+    body: reportSchema,
+    responses: {
+      201: { description: 'Report filed', schema: messageResponseSchema.extend({ id: z.number() }) },
+      400: 'You cannot report yourself, or already have an open report on them',
+      404: 'User not found'
+    }
+  },
+
+  // Admin
+  {
+    method: 'get',
+    path: '/api/admin/users',
+    tag: TAGS.admin,
+    summary: 'All members',
+    auth: true,
+    permission: 'users.view',
+    query: adminListParamsSchema.extend({ search: z.string().optional() }),
+    responses: {
+      200: { description: 'A page of members', schema: adminUsersResponseSchema }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/admin/users/:id/ban',
+    tag: TAGS.admin,
+    summary: 'Ban or unban a member',
+    description: 'A ban signs the member out everywhere and calls off their pending swaps.',
+    auth: true,
+    permission: 'users.ban',
+    body: banSchema,
+    responses: {
+      200: {
+        description: 'Banned or unbanned',
+        schema: messageResponseSchema.extend({ cancelledSwaps: z.number().optional() })
+      },
+      404: 'User not found, or a staff member who has to be demoted first'
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/admin/swaps',
+    tag: TAGS.admin,
+    summary: 'All swap requests, newest first',
+    auth: true,
+    permission: 'swaps.view_all',
+    query: adminListParamsSchema.extend({ status: swapStatusSchema.optional() }),
+    responses: {
+      200: { description: 'A page of swaps', schema: adminSwapsResponseSchema }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/admin/stats',
+    tag: TAGS.admin,
+    summary: 'Platform statistics',
+    auth: true,
+    permission: 'stats.view',
+    responses: {
+      200: { description: 'Counts, with the newest members and swaps', schema: jsonObject }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/admin/messages',
+    tag: TAGS.admin,
+    summary: 'Broadcast a platform message to every member',
+    auth: true,
+    permission: 'messages.broadcast',
+    body: adminMessageSchema,
+    responses: {
+      201: { description: 'Message sent', schema: messageResponseSchema }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/admin/messages',
+    tag: TAGS.admin,
+    summary: 'All swap chat messages, newest first',
+    auth: true,
+    permission: 'messages.view_all',
+    responses: {
+      200: { description: 'Messages with sender and receiver names', schema: z.array(jsonObject) }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/admin/roles',
+    tag: TAGS.admin,
+    summary: 'Roles and what each one may do',
+    auth: true,
+    permission: 'roles.assign',
+    responses: {
+      200: { description: 'Roles with their permissions', schema: z.object({ roles: z.array(jsonObject) }) }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/admin/users/:id/role',
+    tag: TAGS.admin,
+    summary: "Change a member's role",
+    auth: true,
+    permission: 'roles.assign',
+    body: roleAssignmentSchema,
+    responses: {
+      200: { description: 'Role updated', schema: messageResponseSchema.extend({ role: roleNameSchema }) },
+      400: 'You cannot change your own role',
+      404: 'User not found'
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/admin/reports',
+    tag: TAGS.admin,
+    summary: 'Reports filed by members, open ones first',
+    auth: true,
+    permission: 'reports.view',
+    query: adminListParamsSchema.extend({ status: z.enum(['open', 'resolved', 'dismissed']).optional() }),
+    responses: {
+      200: { description: 'A page of reports', schema: paginated('reports') }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/admin/reports/:id',
+    tag: TAGS.admin,
+    summary: 'Close a report',
+    description: 'Banning the reported member is a separate step.',
+    auth: true,
+    permission: 'reports.resolve',
+    body: reportResolutionSchema,
+    responses: {
+      200: { description: 'Report closed', schema: messageResponseSchema },
+      404: 'Open report not found'
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/admin/deletions',
+    tag: TAGS.admin,
+    summary: 'Accounts waiting out their deletion grace period, soonest first',
+    auth: true,
+    permission: 'users.view',
+    query: adminListParamsSchema,
+    responses: {
+      200: { description: 'A page of pending deletions', schema: pendingDeletionsResponseSchema }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/admin/audit',
+    tag: TAGS.admin,
+    summary: 'Audit log, newest first',
+    description: 'A trailing * in `action` matches a prefix, e.g. user.*',
+    auth: true,
+    permission: 'audit.view',
+    query: adminListParamsSchema.extend({
+      action: z.string().optional(),
+      actorId: z.number().int().positive().optional(),
+      targetType: z.string().optional(),
+      targetId: z.string().optional(),
+      from: z.string().datetime({ offset: true }).optional(),
+      to: z.string().datetime({ offset: true }).optional()
+    }),
+    responses: {
+      200: { description: 'A page of audit entries', schema: paginated('entries') },
+      400: 'from or to is not a date'
+    }
+  },
+
+  // System, served by the app itself rather than a mounted router
+  {
+    method: 'get',
+    path: '/api/health',
+    tag: TAGS.system,
+    summary: 'Health check',
+    responses: {
+      200: { description: 'The server and database are up', schema: jsonObject },
+      500: { description: 'The database is unreachable', schema: jsonObject }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/openapi.json',
+    tag: TAGS.system,
+    summary: 'This document',
+    responses: {
+      200: { description: 'OpenAPI 3 description of the API', schema: jsonObject }
+    }
+  }
+];
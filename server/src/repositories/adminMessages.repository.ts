@@ -0,0 +1,21 @@
+import type { Database } from 'sqlite';
+import type { AdminMessage } from '../database/schema.js';
+
+export type NewAdminMessage = Pick<AdminMessage, 'title' | 'content' | 'type'>;
+
+// Platform-wide announcements from staff
+export class AdminMessageRepository {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async create(adminId: number, message: NewAdminMessage): Promise<number> {
+    const result = await this.db.run(
+      'INSERT INTO admin_messages (adminId, title, content, type) VALUES (?, ?, ?, ?)',
+      [adminId, message.title, message.content, message.type]
+    );
+    return result.lastID!;
+  }
+}
@@ -0,0 +1,74 @@
+import type { Database } from 'sqlite';
+import type { AuditLogEntry } from '../database/schema.js';
+import type { Page } from './users.repository.js';
+
+// Every filter is optional. A trailing * on `action` matches a prefix, e.g.
+// user.*; `from` and `to` are SQLite timestamps.
+export interface AuditLogFilter {
+  action?: string;
+  actorId?: number;
+  targetType?: string;
+  targetId?: string;
+  from?: string;
+  to?: string;
+}
+
+export type AuditLogRow = AuditLogEntry & { actorName: string | null; actorEmail: string | null };
+
+export class AuditLogRepository {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  // Entries matching the filter, newest first
+  async list(filter: AuditLogFilter, page: Page) {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.action?.endsWith('*')) {
+      conditions.push('a.action LIKE ?');
+      params.push(`${filter.action.slice(0, -1).replace(/[%_]/g, '')}%`);
+    } else if (filter.action) {
+      conditions.push('a.action = ?');
+      params.push(filter.action);
+    }
+    if (filter.actorId) {
+      conditions.push('a.actorId = ?');
+      params.push(filter.actorId);
+    }
+    if (filter.targetType) {
+      conditions.push('a.targetType = ?');
+      params.push(filter.targetType);
+    }
+    if (filter.targetId) {
+      conditions.push('a.targetId = ?');
+      params.push(filter.targetId);
+    }
+    if (filter.from) {
+      conditions.push('a.createdAt >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push('a.createdAt <= ?');
+      params.push(filter.to);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const [entries, total] = await Promise.all([
+      this.db.all<AuditLogRow[]>(
+        `SELECT a.*, actor.fullName as actorName, actor.email as actorEmail
+         FROM audit_log a
+         LEFT JOIN users actor ON a.actorId = actor.id
+         ${where}
+         ORDER BY a.createdAt DESC, a.id DESC
+         LIMIT ? OFFSET ?`,
+        [...params, page.limit, page.offset]
+      ),
+      this.db.get<{ total: number }>(`SELECT COUNT(*) as total FROM audit_log a ${where}`, params)
+    ]);
+
+    return { entries, total: total?.total ?? 0 };
+  }
+}
@@ -0,0 +1,117 @@
+import type { Database } from 'sqlite';
+import type { CircleSwap, CircleSwapParticipant } from '../database/schema.js';
+
+export interface CircleSwapDetails extends CircleSwap {
+  proposedByName: string;
+  participants: CircleSwapParticipant[];
+}
+
+// A member of a ring being proposed, in teaching order
+export interface NewCircleMember {
+  userId: number;
+  teachesSkillId: number;
+  learnsSkillId: number;
+}
+
+export type CircleStatus = CircleSwap['status'];
+
+const PARTICIPANT_SELECT = `
+  SELECT p.*, u.fullName as userName, ts.name as teachesSkillName, ls.name as learnsSkillName
+  FROM circle_swap_participants p
+  JOIN users u ON p.userId = u.id
+  JOIN skills ts ON p.teachesSkillId = ts.id
+  JOIN skills ls ON p.learnsSkillId = ls.id
+`;
+
+export class CircleRepository {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  // The ring with its members in teaching order
+  async findDetails(id: number): Promise<CircleSwapDetails | undefined> {
+    const circle = await this.db.get<CircleSwap & { proposedByName: string }>(
+      `SELECT c.*, u.fullName as proposedByName
+       FROM circle_swaps c JOIN users u ON c.proposedBy = u.id
+       WHERE c.id = ?`,
+      [id]
+    );
+    if (!circle) {
+      return undefined;
+    }
+
+    const participants = await this.db.all<CircleSwapParticipant[]>(
+      `${PARTICIPANT_SELECT} WHERE p.circleId = ? ORDER BY p.position`,
+      [id]
+    );
+    return { ...circle, participants };
+  }
+
+  // Rings the user is part of, newest first
+  async listForUser(userId: number): Promise<CircleSwapDetails[]> {
+    const rows = await this.db.all<{ circleId: number }[]>(
+      `SELECT p.circleId
+       FROM circle_swap_participants p JOIN circle_swaps c ON p.circleId = c.id
+       WHERE p.userId = ?
+       ORDER BY c.createdAt DESC, c.id DESC`,
+      [userId]
+    );
+
+    const circles = await Promise.all(rows.map(row => this.findDetails(row.circleId)));
+    return circles.filter((circle): circle is CircleSwapDetails => Boolean(circle));
+  }
+
+  // The proposer is the first member and accepts by proposing
+  async create(proposedBy: number, members: NewCircleMember[]): Promise<number> {
+    const result = await this.db.run('INSERT INTO circle_swaps (proposedBy) VALUES (?)', [proposedBy]);
+    const circleId = result.lastID!;
+
+    for (const [position, member] of members.entries()) {
+      await this.db.run(
+        `INSERT INTO circle_swap_participants (circleId, userId, position, teachesSkillId, learnsSkillId)
+         VALUES (?, ?, ?, ?, ?)`,
+        [circleId, member.userId, position, member.teachesSkillId, member.learnsSkillId]
+      );
+    }
+    await this.db.run(
+      `UPDATE circle_swap_participants SET status = 'accepted', respondedAt = CURRENT_TIMESTAMP
+       WHERE circleId = ? AND userId = ?`,
+      [circleId, proposedBy]
+    );
+    return circleId;
+  }
+
+  async respond(participantId: number, status: 'accepted' | 'declined') {
+    await this.db.run(
+      'UPDATE circle_swap_participants SET status = ?, respondedAt = CURRENT_TIMESTAMP WHERE id = ?',
+      [status, participantId]
+    );
+  }
+
+  // The member has finished teaching their part
+  async completePart(participantId: number) {
+    await this.db.run('UPDATE circle_swap_participants SET completedAt = CURRENT_TIMESTAMP WHERE id = ?', [participantId]);
+  }
+
+  // Activating or completing a ring also stamps when; without a status only
+  // updatedAt moves, for a change to one of its members
+  async updateStatus(id: number, status?: CircleStatus) {
+    await this.db.run(
+      `UPDATE circle_swaps
+       SET status = COALESCE(?, status), updatedAt = CURRENT_TIMESTAMP,
+           activatedAt = CASE WHEN ? = 'active' THEN CURRENT_TIMESTAMP ELSE activatedAt END,
+           completedAt = CASE WHEN ? = 'completed' THEN CURRENT_TIMESTAMP ELSE completedAt END
+       WHERE id = ?`,
+      [status ?? null, status ?? null, status ?? null, id]
+    );
+  }
+
+  async count(status?: CircleStatus) {
+    const row = status
+      ? await this.db.get<{ count: number }>('SELECT COUNT(*) as count FROM circle_swaps WHERE status = ?', [status])
+      : await this.db.get<{ count: number }>('SELECT COUNT(*) as count FROM circle_swaps');
+    return row?.count ?? 0;
+  }
+}
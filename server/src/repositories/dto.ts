@@ -0,0 +1,232 @@
+import type {
+  AccountDTO,
+  AdminReportDTO,
+  AdminSwapDTO,
+  AdminUserDTO,
+  AuditLogEntryDTO,
+  NotificationDTO,
+  PendingDeletionDTO,
+  RatingDTO,
+  RatingSummaryDTO,
+  SearchUserDTO,
+  SkillDTO,
+  UserSummaryDTO
+} from '@skill-swap/contracts';
+import type { Message, Notification, Skill, SwapRequest, User } from '../database/schema.js';
+import type { AdminUserRow, PendingDeletionRow, UserSearchRow } from './users.repository.js';
+import type { AdminSwapRow } from './swaps.repository.js';
+import type { RatingSummary, RatingWithRater } from './ratings.repository.js';
+import type { UpcomingSessionRow } from './swapSessions.repository.js';
+import type { AdminReportRow } from './reports.repository.js';
+import type { AuditLogRow } from './auditLog.repository.js';
+
+// Rows from the repositories become API responses here and nowhere else. The
+// response types come from @skill-swap/contracts, which the web client reads
+// too. Responses are snake_case. Swaps are the exception: they go out as the
+// camelCase rows from SWAP_DETAILS_SELECT, the same shape websocket events carry,
+// and so do what hangs off them: sessions, messages, circle swaps and the
+// notifications those events leave in the inbox. Reports and the audit log
+// kept the camelCase the admin dashboard was written against.
+
+// SQLite timestamps are UTC without a zone marker
+const toIsoTimestamp = (value: string) => new Date(`${value.replace(' ', 'T')}Z`).toISOString();
+
+const splitList = (value: string | null) => (value ? value.split(',').filter(Boolean) : []);
+
+// JSON columns; a value that doesn't parse is logged and sent as null
+function parseJsonColumn<T>(value: string | null | undefined, description: string): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch (error) {
+    console.error(`Invalid JSON on ${description}:`, error);
+    return null;
+  }
+}
+
+export function toUserSummaryDTO(user: Pick<User, 'id' | 'fullName' | 'location' | 'profilePicture'>): UserSummaryDTO {
+  return {
+    id: user.id,
+    name: user.fullName,
+    location: user.location ?? null,
+    profile_photo: user.profilePicture ?? null
+  };
+}
+
+export function toAccountDTO(user: User, permissions: string[]): AccountDTO {
+  return {
+    ...toUserSummaryDTO(user),
+    email: user.email,
+    role: user.role,
+    is_admin: Boolean(user.isAdmin),
+    is_public: Boolean(user.isPublic),
+    email_verified: Boolean(user.emailVerifiedAt),
+    two_factor_enabled: Boolean(user.totpEnabledAt),
+    deletion_scheduled_for: user.deletionScheduledFor ?? null,
+    permissions
+  };
+}
+
+export function toSkillDTO(skill: Skill): SkillDTO {
+  return {
+    id: skill.id,
+    name: skill.name,
+    type: skill.isOffering ? 'offered' : 'wanted',
+    description: skill.description ?? null,
+    proficiency_level: skill.proficiency,
+    category: skill.category,
+    created_at: skill.createdAt
+  };
+}
+
+export function toRatingDTO(rating: RatingWithRater): RatingDTO {
+  return {
+    rating: rating.rating,
+    feedback: rating.comment ?? null,
+    created_at: toIsoTimestamp(rating.createdAt),
+    rater_name: rating.raterName,
+    rater_photo: rating.raterPhoto ?? null
+  };
+}
+
+export function toRatingSummaryDTO({ average, count }: RatingSummary): RatingSummaryDTO {
+  return {
+    avg_rating: average === null ? null : Number(average.toFixed(1)),
+    total_ratings: count
+  };
+}
+
+export function toSearchUserDTO(row: UserSearchRow): SearchUserDTO {
+  return {
+    ...toUserSummaryDTO(row),
+    timezone: row.timezone ?? 'UTC',
+    offered_skills: splitList(row.offeredSkills),
+    wanted_skills: splitList(row.wantedSkills),
+    ...toRatingSummaryDTO({ average: row.avgRating, count: row.totalRatings })
+  };
+}
+
+export function toAdminUserDTO(row: AdminUserRow): AdminUserDTO {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.fullName,
+    location: row.location ?? null,
+    role: row.role,
+    is_public: Boolean(row.isPublic),
+    created_at: row.createdAt,
+    is_banned: Boolean(row.banActive),
+    ban_reason: row.bannedReason ?? null,
+    banned_until: row.bannedUntil ?? null,
+    banned_at: row.bannedAt ?? null,
+    skills_count: row.skillsCount,
+    swap_requests_count: row.swapRequestsCount,
+    ...toRatingSummaryDTO({ average: row.avgRating, count: row.totalRatings })
+  };
+}
+
+export function toAdminSwapDTO(row: AdminSwapRow): AdminSwapDTO {
+  return {
+    id: row.id,
+    status: row.status,
+    created_at: row.createdAt,
+    requester_name: row.requesterName,
+    requester_email: row.requesterEmail,
+    provider_name: row.providerName,
+    provider_email: row.providerEmail,
+    offered_skill_name: row.offeredSkillName,
+    wanted_skill_name: row.wantedSkillName
+  };
+}
+
+export function toPendingDeletionDTO(user: PendingDeletionRow): PendingDeletionDTO {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.fullName,
+    role: user.role,
+    created_at: user.createdAt,
+    deletion_requested_at: user.deletionRequestedAt,
+    deletion_scheduled_for: user.deletionScheduledFor
+  };
+}
+
+export function toAdminRecentUserDTO(user: User) {
+  return { ...toUserSummaryDTO(user), email: user.email, created_at: user.createdAt };
+}
+
+export function toNotificationDTO(notification: Notification): NotificationDTO {
+  return {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    data: parseJsonColumn(notification.data, `notification ${notification.id}`),
+    read: Boolean(notification.readAt),
+    readAt: notification.readAt || null,
+    createdAt: notification.createdAt
+  };
+}
+
+// A conversation in the user's message list
+export function toMessageThreadDTO(
+  swap: SwapRequest,
+  userId: number,
+  { lastMessage, unreadCount, canSend }: { lastMessage: Message | null; unreadCount: number; canSend: boolean }
+) {
+  const isRequester = swap.requesterId === userId;
+  return {
+    swapId: swap.id,
+    swap,
+    partnerId: isRequester ? swap.providerId! : swap.requesterId,
+    partnerName: isRequester ? swap.providerName : swap.requesterName,
+    canSend,
+    lastMessage,
+    unreadCount
+  };
+}
+
+// An upcoming session from the point of view of `userId`
+export function toUpcomingSessionDTO(session: UpcomingSessionRow, userId: number) {
+  return {
+    ...session,
+    partnerName: session.requesterId === userId ? session.providerName : session.requesterName,
+    awaitingResponse: session.status === 'proposed' && session.proposedBy !== userId
+  };
+}
+
+export function toAdminReportDTO(report: AdminReportRow): AdminReportDTO {
+  return {
+    id: report.id,
+    reporterId: report.reporterId,
+    reportedUserId: report.reportedUserId,
+    reason: report.reason,
+    details: report.details ?? null,
+    status: report.status,
+    resolution: report.resolution ?? null,
+    resolvedById: report.resolvedById ?? null,
+    resolvedAt: report.resolvedAt ?? null,
+    createdAt: report.createdAt,
+    reporterName: report.reporterName,
+    reportedUserName: report.reportedUserName,
+    reportedUserEmail: report.reportedUserEmail,
+    reportedUserBanned: Boolean(report.reportedUserBanned),
+    resolvedByName: report.resolvedByName ?? null
+  };
+}
+
+export function toAuditLogEntryDTO(entry: AuditLogRow): AuditLogEntryDTO {
+  return {
+    id: entry.id,
+    actorId: entry.actorId ?? null,
+    action: entry.action,
+    targetType: entry.targetType ?? null,
+    targetId: entry.targetId ?? null,
+    metadata: parseJsonColumn(entry.metadata, `audit log entry ${entry.id}`),
+    changes: parseJsonColumn(entry.changes, `audit log entry ${entry.id}`),
+    ipAddress: entry.ipAddress ?? null,
+    createdAt: entry.createdAt,
+    actorName: entry.actorName ?? null,
+    actorEmail: entry.actorEmail ?? null
+  };
+}
@@ -0,0 +1,67 @@
+import type { Database } from 'sqlite';
+import { getDatabase, runInTransaction } from '../database/db.js';
+import { UserRepository } from './users.repository.js';
+import { SkillRepository } from './skills.repository.js';
+import { SwapRepository } from './swaps.repository.js';
+import { RatingRepository } from './ratings.repository.js';
+import { SwapSessionRepository } from './swapSessions.repository.js';
+import { CircleRepository } from './circles.repository.js';
+import { MessageRepository } from './messages.repository.js';
+import { NotificationRepository } from './notifications.repository.js';
+import { ReportRepository } from './reports.repository.js';
+import { AuditLogRepository } from './auditLog.repository.js';
+import { AdminMessageRepository } from './adminMessages.repository.js';
+
+export {
+  UserRepository,
+  SkillRepository,
+  SwapRepository,
+  RatingRepository,
+  SwapSessionRepository,
+  CircleRepository,
+  MessageRepository,
+  NotificationRepository,
+  ReportRepository,
+  AuditLogRepository,
+  AdminMessageRepository
+};
+
+export interface Repositories {
+  users: UserRepository;
+  skills: SkillRepository;
+  swaps: SwapRepository;
+  ratings: RatingRepository;
+  swapSessions: SwapSessionRepository;
+  circles: CircleRepository;
+  messages: MessageRepository;
+  notifications: NotificationRepository;
+  reports: ReportRepository;
+  auditLog: AuditLogRepository;
+  adminMessages: AdminMessageRepository;
+}
+
+export function createRepositories(db: Database): Repositories {
+  return {
+    users: new UserRepository(db),
+    skills: new SkillRepository(db),
+    swaps: new SwapRepository(db),
+    ratings: new RatingRepository(db),
+    swapSessions: new SwapSessionRepository(db),
+    circles: new CircleRepository(db),
+    messages: new MessageRepository(db),
+    notifications: new NotificationRepository(db),
+    reports: new ReportRepository(db),
+    auditLog: new AuditLogRepository(db),
+    adminMessages: new AdminMessageRepository(db)
+  };
+}
+
+export async function getRepositories(): Promise<Repositories> {
+  return createRepositories(await getDatabase());
+}
+
+// Run `work` in one transaction: whatever it does through the repositories it
+// is handed commits together or not at all
+export function withTransaction<T>(work: (repositories: Repositories) => Promise<T>): Promise<T> {
+  return runInTransaction(db => work(createRepositories(db)));
+}
@@ -0,0 +1,94 @@
+import type { Database } from 'sqlite';
+import type { Message } from '../database/schema.js';
+
+const MESSAGE_SELECT = `
+  SELECT m.*, sender.fullName as senderName
+  FROM messages m
+  JOIN users sender ON m.senderId = sender.id
+`;
+
+export interface NewMessage {
+  swapId: number;
+  senderId: number;
+  receiverId: number;
+  content: string;
+}
+
+export type MessageWithNames = Message & { senderName: string | null; receiverName: string | null };
+
+export class MessageRepository {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  findById(id: number) {
+    return this.db.get<Message>(`${MESSAGE_SELECT} WHERE m.id = ?`, [id]);
+  }
+
+  async create(message: NewMessage): Promise<Message> {
+    const result = await this.db.run(
+      `INSERT INTO messages (swapId, senderId, receiverId, content, createdAt)
+       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [message.swapId, message.senderId, message.receiverId, message.content]
+    );
+    return (await this.findById(result.lastID!))!;
+  }
+
+  // Up to `limit` messages of a swap, newest first; with `before`, only the
+  // ones older than that message
+  listForSwap(swapId: number, { before, limit }: { before?: number; limit: number }) {
+    return before
+      ? this.db.all<Message[]>(`${MESSAGE_SELECT} WHERE m.swapId = ? AND m.id < ? ORDER BY m.id DESC LIMIT ?`, [swapId, before, limit])
+      : this.db.all<Message[]>(`${MESSAGE_SELECT} WHERE m.swapId = ? ORDER BY m.id DESC LIMIT ?`, [swapId, limit]);
+  }
+
+  // The newest message of each conversation the user is in
+  listLatestForUser(userId: number) {
+    return this.db.all<Message[]>(
+      `${MESSAGE_SELECT}
+       WHERE m.id IN (
+         SELECT MAX(id) FROM messages
+         WHERE senderId = ? OR receiverId = ?
+         GROUP BY swapId
+       )`,
+      [userId, userId]
+    );
+  }
+
+  // Unread messages the user received, by swap
+  async countUnreadBySwap(userId: number): Promise<Map<number, number>> {
+    const rows = await this.db.all<{ swapId: number; unreadCount: number }[]>(
+      `SELECT swapId, COUNT(*) as unreadCount
+       FROM messages
+       WHERE receiverId = ? AND readAt IS NULL
+       GROUP BY swapId`,
+      [userId]
+    );
+    return new Map(rows.map(row => [row.swapId, row.unreadCount]));
+  }
+
+  // Returns how many were unread
+  async markRead(swapId: number, receiverId: number) {
+    const result = await this.db.run(
+      `UPDATE messages SET readAt = CURRENT_TIMESTAMP
+       WHERE swapId = ? AND receiverId = ? AND readAt IS NULL`,
+      [swapId, receiverId]
+    );
+    return result.changes ?? 0;
+  }
+
+  // Every message on the platform for the admin dashboard, newest first
+  listForAdmin() {
+    return this.db.all<MessageWithNames[]>(
+      `SELECT m.*,
+              u1.fullName as senderName,
+              u2.fullName as receiverName
+       FROM messages m
+       LEFT JOIN users u1 ON m.senderId = u1.id
+       LEFT JOIN users u2 ON m.receiverId = u2.id
+       ORDER BY m.createdAt DESC`
+    );
+  }
+}
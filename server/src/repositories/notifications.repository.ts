@@ -0,0 +1,78 @@
+import type { Database } from 'sqlite';
+import type { Notification } from '../database/schema.js';
+import type { Page } from './users.repository.js';
+
+export interface NewNotification {
+  type: string;
+  title: string;
+  message: string;
+  data?: Record<string, unknown> | null;
+}
+
+export class NotificationRepository {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  findById(id: number) {
+    return this.db.get<Notification>('SELECT * FROM notifications WHERE id = ?', [id]);
+  }
+
+  // The notification, if it is in `userId`'s inbox
+  findOwned(id: number, userId: number) {
+    return this.db.get<Notification>('SELECT * FROM notifications WHERE id = ? AND userId = ?', [id, userId]);
+  }
+
+  async create(userId: number, notification: NewNotification): Promise<Notification> {
+    const { type, title, message, data } = notification;
+    const result = await this.db.run(
+      `INSERT INTO notifications (userId, type, title, message, data, createdAt)
+       VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [userId, type, title, message, data && Object.keys(data).length > 0 ? JSON.stringify(data) : null]
+    );
+    return (await this.findById(result.lastID!))!;
+  }
+
+  // The user's inbox, newest first
+  async listForUser(userId: number, { unreadOnly = false, page }: { unreadOnly?: boolean; page: Page }) {
+    const where = unreadOnly ? 'WHERE userId = ? AND readAt IS NULL' : 'WHERE userId = ?';
+
+    const [notifications, total] = await Promise.all([
+      this.db.all<Notification[]>(
+        `SELECT * FROM notifications ${where} ORDER BY createdAt DESC, id DESC LIMIT ? OFFSET ?`,
+        [userId, page.limit, page.offset]
+      ),
+      this.db.get<{ total: number }>(`SELECT COUNT(*) as total FROM notifications ${where}`, [userId])
+    ]);
+
+    return { notifications, total: total?.total ?? 0 };
+  }
+
+  async countUnread(userId: number) {
+    const row = await this.db.get<{ count: number }>(
+      'SELECT COUNT(*) as count FROM notifications WHERE userId = ? AND readAt IS NULL',
+      [userId]
+    );
+    return row?.count ?? 0;
+  }
+
+  async markRead(id: number) {
+    await this.db.run('UPDATE notifications SET readAt = CURRENT_TIMESTAMP WHERE id = ? AND readAt IS NULL', [id]);
+  }
+
+  // Returns how many were unread
+  async markAllRead(userId: number) {
+    const result = await this.db.run(
+      'UPDATE notifications SET readAt = CURRENT_TIMESTAMP WHERE userId = ? AND readAt IS NULL',
+      [userId]
+    );
+    return result.changes ?? 0;
+  }
+
+  async delete(id: number, userId: number) {
+    const result = await this.db.run('DELETE FROM notifications WHERE id = ? AND userId = ?', [id, userId]);
+    return (result.changes ?? 0) > 0;
+  }
+}
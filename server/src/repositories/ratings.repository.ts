@@ -0,0 +1,59 @@
+import type { Database } from 'sqlite';
+import type { Rating } from '../database/schema.js';
+
+export interface NewRating {
+  swapId: number;
+  raterId: number;
+  userId: number; // The member being rated
+  rating: number;
+  comment?: string | null;
+}
+
+export type RatingWithRater = Rating & { raterName: string; raterPhoto: string | null };
+
+export interface RatingSummary {
+  average: number | null; // null until the first rating
+  count: number;
+}
+
+export class RatingRepository {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  // The rating `raterId` gave on a swap, if any; each side rates once
+  findBySwapAndRater(swapId: number, raterId: number) {
+    return this.db.get<Rating>('SELECT * FROM ratings WHERE swapId = ? AND raterId = ?', [swapId, raterId]);
+  }
+
+  async create(rating: NewRating): Promise<number> {
+    const result = await this.db.run(
+      `INSERT INTO ratings (swapId, raterId, userId, rating, comment, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [rating.swapId, rating.raterId, rating.userId, rating.rating, rating.comment ?? null]
+    );
+    return result.lastID!;
+  }
+
+  // Ratings a member received, newest first
+  listForUser(userId: number) {
+    return this.db.all<RatingWithRater[]>(
+      `SELECT r.*, u.fullName as raterName, u.profilePicture as raterPhoto
+       FROM ratings r
+       JOIN users u ON r.raterId = u.id
+       WHERE r.userId = ?
+       ORDER BY r.createdAt DESC`,
+      [userId]
+    );
+  }
+
+  async summaryFor(userId: number): Promise<RatingSummary> {
+    const row = await this.db.get<{ average: number | null; count: number }>(
+      'SELECT AVG(rating) as average, COUNT(*) as count FROM ratings WHERE userId = ?',
+      [userId]
+    );
+    return { average: row?.average ?? null, count: row?.count ?? 0 };
+  }
+}
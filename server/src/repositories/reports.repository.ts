@@ -0,0 +1,88 @@
+import type { Database } from 'sqlite';
+import type { Report } from '../database/schema.js';
+import { activeBanCondition } from '../services/bans.js';
+import type { Page } from './users.repository.js';
+
+export interface NewReport {
+  reporterId: number;
+  reportedUserId: number;
+  reason: Report['reason'];
+  details?: string | null;
+}
+
+export interface ReportResolution {
+  status: 'resolved' | 'dismissed';
+  resolution?: string | null;
+  resolvedById: number;
+}
+
+export type AdminReportRow = Report & {
+  reporterName: string;
+  reportedUserName: string;
+  reportedUserEmail: string;
+  reportedUserBanned: number;
+  resolvedByName: string | null;
+};
+
+export class ReportRepository {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  findById(id: number) {
+    return this.db.get<Report>('SELECT * FROM reports WHERE id = ?', [id]);
+  }
+
+  // The reporter's open report on a user, if they already filed one
+  findOpen(reporterId: number, reportedUserId: number) {
+    return this.db.get<Report>(
+      `SELECT * FROM reports WHERE reporterId = ? AND reportedUserId = ? AND status = 'open'`,
+      [reporterId, reportedUserId]
+    );
+  }
+
+  async create(report: NewReport): Promise<number> {
+    const result = await this.db.run(
+      'INSERT INTO reports (reporterId, reportedUserId, reason, details) VALUES (?, ?, ?, ?)',
+      [report.reporterId, report.reportedUserId, report.reason, report.details || null]
+    );
+    return result.lastID!;
+  }
+
+  // Only open reports can be closed; returns false for any other
+  async resolve(id: number, { status, resolution, resolvedById }: ReportResolution) {
+    const result = await this.db.run(
+      `UPDATE reports SET status = ?, resolution = ?, resolvedById = ?, resolvedAt = CURRENT_TIMESTAMP
+       WHERE id = ? AND status = 'open'`,
+      [status, resolution || null, resolvedById, id]
+    );
+    return (result.changes ?? 0) > 0;
+  }
+
+  // Reports for the moderators, open ones first, then newest first
+  async listForAdmin({ status, page }: { status?: string; page: Page }) {
+    const where = status ? 'WHERE r.status = ?' : '';
+    const params = status ? [status] : [];
+
+    const [reports, total] = await Promise.all([
+      this.db.all<AdminReportRow[]>(
+        `SELECT r.*, reporter.fullName as reporterName, reported.fullName as reportedUserName,
+                reported.email as reportedUserEmail, ${activeBanCondition('reported')} as reportedUserBanned,
+                resolver.fullName as resolvedByName
+         FROM reports r
+         JOIN users reporter ON r.reporterId = reporter.id
+         JOIN users reported ON r.reportedUserId = reported.id
+         LEFT JOIN users resolver ON r.resolvedById = resolver.id
+         ${where}
+         ORDER BY r.status = 'open' DESC, r.createdAt DESC
+         LIMIT ? OFFSET ?`,
+        [...params, page.limit, page.offset]
+      ),
+      this.db.get<{ total: number }>(`SELECT COUNT(*) as total FROM reports r ${where}`, params)
+    ]);
+
+    return { reports, total: total?.total ?? 0 };
+  }
+}
@@ -0,0 +1,100 @@
+import type { Database } from 'sqlite';
+import type { SkillType } from '@skill-swap/contracts';
+import type { Skill } from '../database/schema.js';
+
+export interface SkillInput {
+  name: string;
+  type: SkillType;
+  description?: string | null;
+  proficiency: Skill['proficiency'];
+  category?: string;
+}
+
+const listingFlags = (type: SkillType) => ({
+  isOffering: type === 'offered' ? 1 : 0,
+  isSeeking: type === 'wanted' ? 1 : 0
+});
+
+export class SkillRepository {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  findById(id: number) {
+    return this.db.get<Skill>('SELECT * FROM skills WHERE id = ?', [id]);
+  }
+
+  // The skill, if it belongs to `userId`
+  findOwned(id: number, userId: number) {
+    return this.db.get<Skill>('SELECT * FROM skills WHERE id = ? AND userId = ?', [id, userId]);
+  }
+
+  // A skill `userId` offers, so it can be part of a swap
+  findOffered(id: number, userId: number) {
+    return this.db.get<Skill>('SELECT * FROM skills WHERE id = ? AND userId = ? AND isOffering = 1', [id, userId]);
+  }
+
+  // Offered skills first, then wanted ones, each by name
+  listByUser(userId: number) {
+    return this.db.all<Skill[]>(
+      'SELECT * FROM skills WHERE userId = ? ORDER BY isOffering DESC, name',
+      [userId]
+    );
+  }
+
+  // Whether the user already lists a skill by this name the same way
+  async isListed(userId: number, name: string, type: SkillType) {
+    const column = type === 'offered' ? 'isOffering' : 'isSeeking';
+    const row = await this.db.get(
+      `SELECT id FROM skills WHERE userId = ? AND name = ? AND ${column} = 1`,
+      [userId, name]
+    );
+    return Boolean(row);
+  }
+
+  async create(userId: number, skill: SkillInput): Promise<Skill> {
+    const { isOffering, isSeeking } = listingFlags(skill.type);
+    const result = await this.db.run(
+      `INSERT INTO skills (userId, name, isOffering, isSeeking, description, proficiency, category)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [userId, skill.name, isOffering, isSeeking, skill.description || null, skill.proficiency, skill.category ?? 'Other']
+    );
+    return (await this.findById(result.lastID!))!;
+  }
+
+  // The category stays as it was created
+  async update(id: number, userId: number, skill: SkillInput) {
+    const { isOffering, isSeeking } = listingFlags(skill.type);
+    await this.db.run(
+      `UPDATE skills
+       SET name = ?, isOffering = ?, isSeeking = ?, description = ?, proficiency = ?, updatedAt = CURRENT_TIMESTAMP
+       WHERE id = ? AND userId = ?`,
+      [skill.name, isOffering, isSeeking, skill.description || null, skill.proficiency, id, userId]
+    );
+  }
+
+  async delete(id: number, userId: number) {
+    const result = await this.db.run('DELETE FROM skills WHERE id = ? AND userId = ?', [id, userId]);
+    return (result.changes ?? 0) > 0;
+  }
+
+  // Skill names listed by the most members
+  findPopular(limit: number) {
+    return this.db.all<{ name: string; count: number }[]>(
+      `SELECT name, COUNT(*) as count
+       FROM skills
+       WHERE name IS NOT NULL
+       GROUP BY name
+       ORDER BY count DESC
+       LIMIT ?`,
+      [limit]
+    );
+  }
+
+  async count() {
+    const row = await this.db.get<{ count: number }>('SELECT COUNT(*) as count FROM skills');
+    return row?.count ?? 0;
+  }
+}
@@ -0,0 +1,158 @@
+import type { Database } from 'sqlite';
+import type { SwapSession } from '../database/schema.js';
+
+const SESSION_SELECT = `
+  SELECT ss.*, proposer.fullName as proposedByName
+  FROM swap_sessions ss
+  JOIN users proposer ON ss.proposedBy = proposer.id
+`;
+
+export type SessionStatus = SwapSession['status'];
+
+export interface NewSwapSession {
+  swapId: number;
+  proposedBy: number;
+  startTime: string; // UTC ISO-8601
+  endTime: string;
+  location?: string | null;
+  counterOf?: number | null;
+}
+
+// Confirmed session of another swap that overlaps a requested time range
+export interface SessionConflict {
+  sessionId: number;
+  swapId: number;
+  userId: number;
+  startTime: string;
+  endTime: string;
+}
+
+// A session with the swap it belongs to, for the upcoming sessions list
+export type UpcomingSessionRow = SwapSession & {
+  requesterId: number;
+  providerId: number;
+  requesterName: string;
+  providerName: string;
+  offeredSkillName: string;
+  wantedSkillName: string;
+};
+
+export class SwapSessionRepository {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  find(swapId: number, sessionId: number) {
+    return this.db.get<SwapSession>(`${SESSION_SELECT} WHERE ss.id = ? AND ss.swapId = ?`, [sessionId, swapId]);
+  }
+
+  // The session if it is still proposed or confirmed
+  findOpen(swapId: number, sessionId: number) {
+    return this.db.get<SwapSession>(
+      `${SESSION_SELECT} WHERE ss.id = ? AND ss.swapId = ? AND ss.status IN ('proposed', 'confirmed')`,
+      [sessionId, swapId]
+    );
+  }
+
+  listForSwap(swapId: number) {
+    return this.db.all<SwapSession[]>(`${SESSION_SELECT} WHERE ss.swapId = ? ORDER BY ss.startTime ASC, ss.id ASC`, [swapId]);
+  }
+
+  // Proposed and confirmed sessions of the user's accepted swaps that haven't
+  // ended by `now`, soonest first
+  listUpcoming(userId: number, now: string) {
+    return this.db.all<UpcomingSessionRow[]>(
+      `SELECT ss.*,
+              proposer.fullName as proposedByName,
+              sr.requesterId,
+              ws.userId as providerId,
+              requester.fullName as requesterName,
+              provider.fullName as providerName,
+              os.name as offeredSkillName,
+              ws.name as wantedSkillName
+       FROM swap_sessions ss
+       JOIN users proposer ON ss.proposedBy = proposer.id
+       JOIN swap_requests sr ON ss.swapId = sr.id
+       JOIN skills ws ON sr.skillRequestedId = ws.id
+       JOIN skills os ON sr.skillOfferedId = os.id
+       JOIN users requester ON sr.requesterId = requester.id
+       JOIN users provider ON ws.userId = provider.id
+       WHERE (sr.requesterId = ? OR ws.userId = ?)
+         AND sr.status = 'accepted'
+         AND ss.status IN ('proposed', 'confirmed')
+         AND ss.endTime > ?
+       ORDER BY ss.startTime ASC`,
+      [userId, userId, now]
+    );
+  }
+
+  async create(session: NewSwapSession): Promise<number> {
+    const result = await this.db.run(
+      `INSERT INTO swap_sessions (swapId, proposedBy, startTime, endTime, location, status, counterOf, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, 'proposed', ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [session.swapId, session.proposedBy, session.startTime, session.endTime, session.location ?? null, session.counterOf ?? null]
+    );
+    return result.lastID!;
+  }
+
+  // Record `userId`'s answer to a session; confirming also stamps confirmedAt
+  async respond(id: number, status: Exclude<SessionStatus, 'proposed'>, userId: number) {
+    await this.db.run(
+      `UPDATE swap_sessions
+       SET status = ?, respondedBy = ?, respondedAt = CURRENT_TIMESTAMP, updatedAt = CURRENT_TIMESTAMP,
+           confirmedAt = CASE WHEN ? = 'confirmed' THEN CURRENT_TIMESTAMP ELSE confirmedAt END
+       WHERE id = ?`,
+      [status, userId, status, id]
+    );
+  }
+
+  // Confirmed sessions of the given users that overlap [startTime, endTime)
+  async findConflicts(userIds: number[], startTime: string, endTime: string, excludeSessionId?: number) {
+    const conflicts: SessionConflict[] = [];
+
+    for (const userId of userIds) {
+      const rows = await this.db.all<SwapSession[]>(
+        `SELECT ss.*
+         FROM swap_sessions ss
+         JOIN swap_requests sr ON ss.swapId = sr.id
+         JOIN skills ws ON sr.skillRequestedId = ws.id
+         WHERE ss.status = 'confirmed'
+           AND ss.id != ?
+           AND (sr.requesterId = ? OR ws.userId = ?)
+           AND ss.startTime < ? AND ss.endTime > ?
+         ORDER BY ss.startTime ASC`,
+        [excludeSessionId ?? 0, userId, userId, endTime, startTime]
+      );
+
+      rows.forEach(row => conflicts.push({
+        sessionId: row.id,
+        swapId: row.swapId,
+        userId,
+        startTime: row.startTime,
+        endTime: row.endTime
+      }));
+    }
+
+    return conflicts;
+  }
+
+  // Keep swap_requests.proposedTime/proposedLocation pointing at the open
+  // proposal, or clear them once nothing is awaiting an answer
+  async syncProposedFields(swapId: number) {
+    const latest = await this.db.get<SwapSession>(
+      `SELECT * FROM swap_sessions
+       WHERE swapId = ? AND status = 'proposed'
+       ORDER BY id DESC LIMIT 1`,
+      [swapId]
+    );
+
+    await this.db.run(
+      `UPDATE swap_requests
+       SET proposedTime = ?, proposedLocation = ?, updatedAt = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [latest?.startTime ?? null, latest?.location ?? null, swapId]
+    );
+  }
+}
@@ -0,0 +1,186 @@
+import type { Database } from 'sqlite';
+import type { SwapRequest } from '../database/schema.js';
+import type { Page } from './users.repository.js';
+
+// Swap request joined with both participants and skill names. The provider is
+// whoever owns the requested skill.
+export const SWAP_DETAILS_SELECT = `
+  SELECT sr.*,
+         ws.userId as providerId,
+         requester.fullName as requesterName,
+         requester.profilePicture as requesterPhoto,
+         provider.fullName as providerName,
+         provider.profilePicture as providerPhoto,
+         os.name as offeredSkillName,
+         ws.name as wantedSkillName
+  FROM swap_requests sr
+  JOIN users requester ON sr.requesterId = requester.id
+  JOIN skills ws ON sr.skillRequestedId = ws.id
+  JOIN users provider ON ws.userId = provider.id
+  JOIN skills os ON sr.skillOfferedId = os.id
+`;
+
+export type SwapStatus = SwapRequest['status'];
+
+// Which side of the swap a rating comes from
+export type SwapSide = 'requester' | 'receiver';
+
+export type SwapWithProvider = SwapRequest & { providerId: number };
+
+export interface NewSwapRequest {
+  requesterId: number;
+  skillOfferedId: number;
+  skillRequestedId: number;
+  message?: string | null;
+}
+
+export interface AdminSwapRow {
+  id: number;
+  status: SwapStatus;
+  createdAt: string;
+  requesterName: string;
+  requesterEmail: string;
+  providerName: string;
+  providerEmail: string;
+  offeredSkillName: string;
+  wantedSkillName: string;
+}
+
+export class SwapRepository {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  findDetails(id: number) {
+    return this.db.get<SwapRequest>(`${SWAP_DETAILS_SELECT} WHERE sr.id = ?`, [id]);
+  }
+
+  // The bare row plus its provider, for permission checks
+  findWithProvider(id: number) {
+    return this.db.get<SwapWithProvider>(
+      `SELECT sr.*, ws.userId as providerId
+       FROM swap_requests sr
+       JOIN skills ws ON sr.skillRequestedId = ws.id
+       WHERE sr.id = ?`,
+      [id]
+    );
+  }
+
+  // Swaps the user takes part in, newest first. `sent` are the ones they
+  // asked for, `received` the ones asking for their skills.
+  listForUser(userId: number, { status, type = 'all' }: { status?: string; type?: string }) {
+    const conditions = ['(sr.requesterId = ? OR ws.userId = ?)'];
+    const params: (string | number)[] = [userId, userId];
+
+    if (status) {
+      conditions.push('sr.status = ?');
+      params.push(status);
+    }
+    if (type === 'sent') {
+      conditions.push('sr.requesterId = ?');
+      params.push(userId);
+    } else if (type === 'received') {
+      conditions.push('ws.userId = ?');
+      params.push(userId);
+    }
+
+    return this.db.all<SwapRequest[]>(
+      `${SWAP_DETAILS_SELECT} WHERE ${conditions.join(' AND ')} ORDER BY sr.createdAt DESC`,
+      params
+    );
+  }
+
+  // Swaps the user can chat on: those in one of `statuses`, plus any that
+  // already has messages
+  listConversations(userId: number, statuses: readonly SwapStatus[]) {
+    return this.db.all<SwapRequest[]>(
+      `${SWAP_DETAILS_SELECT}
+       WHERE (sr.requesterId = ? OR ws.userId = ?)
+         AND (sr.status IN (${statuses.map(() => '?').join(', ')})
+              OR EXISTS (SELECT 1 FROM messages m WHERE m.swapId = sr.id))`,
+      [userId, userId, ...statuses]
+    );
+  }
+
+  findNewest(limit: number) {
+    return this.db.all<SwapRequest[]>(`${SWAP_DETAILS_SELECT} ORDER BY sr.createdAt DESC LIMIT ?`, [limit]);
+  }
+
+  // The requester's pending request for a skill, if they already have one
+  findPending(requesterId: number, skillRequestedId: number) {
+    return this.db.get<SwapRequest>(
+      `SELECT * FROM swap_requests WHERE requesterId = ? AND skillRequestedId = ? AND status = 'pending'`,
+      [requesterId, skillRequestedId]
+    );
+  }
+
+  async create(swap: NewSwapRequest): Promise<number> {
+    const result = await this.db.run(
+      `INSERT INTO swap_requests (requesterId, skillOfferedId, skillRequestedId, message, status, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, 'pending', datetime('now'), datetime('now'))`,
+      [swap.requesterId, swap.skillOfferedId, swap.skillRequestedId, swap.message ?? null]
+    );
+    return result.lastID!;
+  }
+
+  // Completing a swap also stamps completedAt
+  async updateStatus(id: number, status: SwapStatus) {
+    await this.db.run(
+      `UPDATE swap_requests
+       SET status = ?, updatedAt = datetime('now'),
+           completedAt = CASE WHEN ? = 'completed' THEN datetime('now') ELSE completedAt END
+       WHERE id = ?`,
+      [status, status, id]
+    );
+  }
+
+  async recordRating(id: number, side: SwapSide, rating: number, feedback: string | null) {
+    await this.db.run(
+      side === 'requester'
+        ? 'UPDATE swap_requests SET ratingByRequester = ?, feedbackByRequester = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?'
+        : 'UPDATE swap_requests SET ratingByReceiver = ?, feedbackByReceiver = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+      [rating, feedback, id]
+    );
+  }
+
+  async delete(id: number) {
+    await this.db.run('DELETE FROM swap_requests WHERE id = ?', [id]);
+  }
+
+  // Every swap for the admin dashboard, newest first
+  async listForAdmin({ status, page }: { status?: string; page: Page }) {
+    const where = status ? 'WHERE sr.status = ?' : '';
+    const params = status ? [status] : [];
+
+    const [swaps, total] = await Promise.all([
+      this.db.all<AdminSwapRow[]>(
+        `SELECT sr.id, sr.status, sr.createdAt,
+                requester.fullName as requesterName, requester.email as requesterEmail,
+                provider.fullName as providerName, provider.email as providerEmail,
+                os.name as offeredSkillName,
+                ws.name as wantedSkillName
+         FROM swap_requests sr
+         JOIN users requester ON sr.requesterId = requester.id
+         JOIN skills ws ON sr.skillRequestedId = ws.id
+         JOIN users provider ON ws.userId = provider.id
+         JOIN skills os ON sr.skillOfferedId = os.id
+         ${where}
+         ORDER BY sr.createdAt DESC
+         LIMIT ? OFFSET ?`,
+        [...params, page.limit, page.offset]
+      ),
+      this.db.get<{ total: number }>(`SELECT COUNT(*) as total FROM swap_requests sr ${where}`, params)
+    ]);
+
+    return { swaps, total: total?.total ?? 0 };
+  }
+
+  async count(status?: SwapStatus) {
+    const row = status
+      ? await this.db.get<{ count: number }>('SELECT COUNT(*) as count FROM swap_requests WHERE status = ?', [status])
+      : await this.db.get<{ count: number }>('SELECT COUNT(*) as count FROM swap_requests');
+    return row?.count ?? 0;
+  }
+}
@@ -0,0 +1,197 @@
+import type { Database } from 'sqlite';
+import type { User } from '../database/schema.js';
+import { activeBanCondition } from '../services/bans.js';
+
+export interface NewUser {
+  username: string;
+  email: string;
+  password: string; // bcrypt hash
+  fullName: string;
+  location?: string | null;
+}
+
+export interface ProfileChanges {
+  fullName: string;
+  location: string | null;
+  isPublic?: boolean; // Left as it is when unset
+}
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+// Ratings come from the ratings table; users.rating is never kept up to date
+const RATING_COLUMNS = (alias: string) => `
+  (SELECT AVG(rating) FROM ratings WHERE userId = ${alias}.id) as avgRating,
+  (SELECT COUNT(*) FROM ratings WHERE userId = ${alias}.id) as totalRatings
+`;
+
+export type UserSearchRow = Pick<User, 'id' | 'fullName' | 'location' | 'profilePicture' | 'timezone'> & {
+  offeredSkills: string | null; // Comma-separated
+  wantedSkills: string | null;
+  avgRating: number | null;
+  totalRatings: number;
+};
+
+export type AdminUserRow = User & {
+  banActive: number; // isBanned can be set on a ban that has run out
+  skillsCount: number;
+  swapRequestsCount: number;
+  avgRating: number | null;
+  totalRatings: number;
+};
+
+// An account waiting out its deletion grace period
+export type PendingDeletionRow = User & { deletionRequestedAt: string; deletionScheduledFor: string };
+
+export class UserRepository {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  findById(id: number) {
+    return this.db.get<User>('SELECT * FROM users WHERE id = ?', [id]);
+  }
+
+  findByEmail(email: string) {
+    return this.db.get<User>('SELECT * FROM users WHERE email = ?', [email]);
+  }
+
+  findByCalendarToken(token: string) {
+    return this.db.get<User>('SELECT * FROM users WHERE calendarToken = ?', [token]);
+  }
+
+  async create(user: NewUser): Promise<User> {
+    const result = await this.db.run(
+      `INSERT INTO users (username, email, password, fullName, location)
+       VALUES (?, ?, ?, ?, ?)`,
+      [user.username, user.email, user.password, user.fullName, user.location ?? null]
+    );
+    const created = await this.findById(result.lastID!);
+    if (!created) {
+      throw new Error('Failed to retrieve newly created user');
+    }
+    return created;
+  }
+
+  async updateProfile(id: number, changes: ProfileChanges) {
+    await this.db.run(
+      `UPDATE users
+       SET fullName = ?, location = ?, isPublic = COALESCE(?, isPublic), updatedAt = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [changes.fullName, changes.location, changes.isPublic === undefined ? null : Number(changes.isPublic), id]
+    );
+  }
+
+  // Following a reset link also proves the user owns the address
+  async resetPassword(id: number, passwordHash: string) {
+    await this.db.run(
+      `UPDATE users SET password = ?, emailVerifiedAt = COALESCE(emailVerifiedAt, CURRENT_TIMESTAMP),
+         updatedAt = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [passwordHash, id]
+    );
+  }
+
+  async markEmailVerified(id: number) {
+    await this.db.run(
+      'UPDATE users SET emailVerifiedAt = COALESCE(emailVerifiedAt, CURRENT_TIMESTAMP) WHERE id = ?',
+      [id]
+    );
+  }
+
+  // Other members with a skill matching `skill`, by name. Deleted and banned
+  // accounts never show up. Without a page, every match is returned.
+  async search(viewerId: number, { skill, page }: { skill?: string; page?: Page }) {
+    const conditions = [`u.id != ?`, `u.deletedAt IS NULL`, `NOT ${activeBanCondition('u')}`];
+    const params: (string | number)[] = [viewerId];
+
+    if (skill) {
+      conditions.push('s.name LIKE ?');
+      params.push(`%${skill}%`);
+    }
+
+    const where = conditions.join(' AND ');
+    const [users, total] = await Promise.all([
+      this.db.all<UserSearchRow[]>(
+        `SELECT u.id, u.fullName, u.location, u.profilePicture, u.timezone,
+                GROUP_CONCAT(DISTINCT CASE WHEN s.isOffering = 1 THEN s.name END) as offeredSkills,
+                GROUP_CONCAT(DISTINCT CASE WHEN s.isSeeking = 1 THEN s.name END) as wantedSkills,
+                ${RATING_COLUMNS('u')}
+         FROM users u
+         LEFT JOIN skills s ON u.id = s.userId
+         WHERE ${where}
+         GROUP BY u.id
+         ORDER BY u.fullName
+         ${page ? 'LIMIT ? OFFSET ?' : ''}`,
+        page ? [...params, page.limit, page.offset] : params
+      ),
+      this.db.get<{ count: number }>(
+        `SELECT COUNT(DISTINCT u.id) as count
+         FROM users u
+         LEFT JOIN skills s ON u.id = s.userId
+         WHERE ${where}`,
+        params
+      )
+    ]);
+
+    return { users, total: total?.count ?? 0 };
+  }
+
+  // Every account for the admin dashboard, newest first
+  async listForAdmin({ search, page }: { search?: string; page: Page }) {
+    const where = search ? 'WHERE (u.fullName LIKE ? OR u.email LIKE ?)' : '';
+    const params = search ? [`%${search}%`, `%${search}%`] : [];
+
+    const [users, total] = await Promise.all([
+      this.db.all<AdminUserRow[]>(
+        `SELECT u.*,
+                ${activeBanCondition('u')} as banActive,
+                (SELECT COUNT(*) FROM skills s WHERE s.userId = u.id) as skillsCount,
+                (SELECT COUNT(*) FROM swap_requests sr JOIN skills ws ON sr.skillRequestedId = ws.id
+                 WHERE sr.requesterId = u.id OR ws.userId = u.id) as swapRequestsCount,
+                ${RATING_COLUMNS('u')}
+         FROM users u
+         ${where}
+         ORDER BY u.createdAt DESC
+         LIMIT ? OFFSET ?`,
+        [...params, page.limit, page.offset]
+      ),
+      this.db.get<{ total: number }>(`SELECT COUNT(*) as total FROM users u ${where}`, params)
+    ]);
+
+    return { users, total: total?.total ?? 0 };
+  }
+
+  // Accounts waiting out their deletion grace period, soonest first
+  async listPendingDeletions(page: Page) {
+    const where = 'WHERE deletionScheduledFor IS NOT NULL AND deletedAt IS NULL';
+    const [users, total] = await Promise.all([
+      this.db.all<PendingDeletionRow[]>(
+        `SELECT * FROM users ${where} ORDER BY deletionScheduledFor LIMIT ? OFFSET ?`,
+        [page.limit, page.offset]
+      ),
+      this.db.get<{ total: number }>(`SELECT COUNT(*) as total FROM users ${where}`)
+    ]);
+
+    return { users, total: total?.total ?? 0 };
+  }
+
+  // Members other than admins, optionally only those seen in the last `activeWithinDays`
+  async countMembers(activeWithinDays?: number) {
+    const row = activeWithinDays === undefined
+      ? await this.db.get<{ count: number }>('SELECT COUNT(*) as count FROM users WHERE isAdmin = 0')
+      : await this.db.get<{ count: number }>(
+        `SELECT COUNT(*) as count FROM users WHERE isAdmin = 0 AND lastActiveAt >= datetime('now', ?)`,
+        [`-${activeWithinDays} days`]
+      );
+    return row?.count ?? 0;
+  }
+
+  findNewest(limit: number) {
+    return this.db.all<User[]>('SELECT * FROM users ORDER BY createdAt DESC LIMIT ?', [limit]);
+  }
+}
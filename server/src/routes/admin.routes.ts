@@ -1,67 +1,46 @@
 import { Router } from 'express';
-import { getDatabase } from '../database/db.js';
-import { authenticateToken, requireAdmin, type AuthRequest } from '../middleware/auth.js';
+import { authenticateToken, requirePermission, type AuthRequest } from '../middleware/auth.js';
+import { validateBody, adminMessageSchema, banSchema, roleAssignmentSchema, reportResolutionSchema } from '../middleware/validation.js';
+import { auditAction, setAuditDetails } from '../middleware/audit.js';
+import { cancelPendingSwaps } from '../services/swapEvents.js';
+import { revokeUserSessions } from '../services/sessions.js';
+import { banUser, toSqliteTimestamp, unbanUser } from '../services/bans.js';
+import { assignRole, getRoles, getUserRole } from '../services/permissions.js';
+import { disconnectUser } from '../websocket.js';
+import { getRepositories } from '../repositories/index.js';
+import type { AuditLogFilter } from '../repositories/auditLog.repository.js';
+import {
+  toAdminRecentUserDTO,
+  toAdminReportDTO,
+  toAdminSwapDTO,
+  toAdminUserDTO,
+  toAuditLogEntryDTO,
+  toPendingDeletionDTO
+} from '../repositories/dto.js';
 
 const router = Router();
 
-// Helper function to get database connection
-const getDb = async () => {
-  return await getDatabase();
-};
+// Ban fields of a user, for the audit log
+async function getBanState(userId: number) {
+  const { users } = await getRepositories();
+  const user = await users.findById(userId);
+  return user ? { isBanned: Boolean(user.isBanned), reason: user.bannedReason ?? null, until: user.bannedUntil ?? null } : null;
+}
 
-// Get all users (admin only)
-router.get('/users', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Get all users
+router.get('/users', authenticateToken, requirePermission('users.view'), async (req: AuthRequest, res) => {
   try {
     const { page = 1, limit = 20, search } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
 
-    let query = `
-      SELECT u.id, u.email, u.name, u.location, u.is_public, u.is_banned, u.created_at,
-             COUNT(DISTINCT s.id) as skills_count,
-             COUNT(DISTINCT sr.id) as swap_requests_count,
-             AVG(r.rating) as avg_rating
-      FROM users u
-      LEFT JOIN skills s ON u.id = s.user_id
-      LEFT JOIN swap_requests sr ON u.id = sr.requester_id OR u.id = sr.provider_id
-      LEFT JOIN ratings r ON u.id = r.rated_id
-      WHERE u.is_admin = 0
-    `;
-
-    const params: any[] = [];
-
-    if (search) {
-      query += ` AND (u.name LIKE ? OR u.email LIKE ?)`;
-      params.push(`%${search}%`, `%${search}%`);
-    }
-
-    query += `
-      GROUP BY u.id
-      ORDER BY u.createdAt DESC
-      LIMIT ? OFFSET ?
-    `;
-    
-    params.push(Number(limit), offset);
-
-    const db = await getDb();
-    const users = await db.all(query, ...params);
-
-    // Get total count
-    let countQuery = `SELECT COUNT(*) as total FROM users WHERE isAdmin = 0`;
-    const countParams: any[] = [];
-    
-    if (search) {
-      countQuery += ` AND (fullName LIKE ? OR email LIKE ?)`;
-      countParams.push(`%${search}%`, `%${search}%`);
-    }
-
-    const totalResult = await db.get(countQuery, ...countParams);
-    const total = totalResult ? totalResult.total : 0;
+    const { users } = await getRepositories();
+    const { users: rows, total } = await users.listForAdmin({
+      search: search ? String(search) : undefined,
+      page: { limit: Number(limit), offset }
+    });
 
     res.json({
-      users: users.map((user: any) => ({
-        ...user,
-        avgRating: user.avgRating ? Number(user.avgRating.toFixed(1)) : null
-      })),
+      users: rows.map(toAdminUserDTO),
       pagination: {
         page: Number(page),
         limit: Number(limit),
@@ -75,72 +54,56 @@ router.get('/users', authenticateToken, requireAdmin, async (req: AuthRequest, r
   }
 });
 
-// Ban/unban user
-router.put('/users/:id/ban', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Ban/unban user. A ban signs the user out everywhere and calls off their pending swaps.
+router.put('/users/:id/ban', authenticateToken, requirePermission('users.ban'), validateBody(banSchema), auditAction(req => req.body.isBanned ? 'user.ban' : 'user.unban', 'user'), async (req: AuthRequest, res) => {
   try {
     const userId = parseInt(req.params.id);
-    const { isBanned } = req.body;
+    const { isBanned, reason, until } = req.body;
+    const before = await getBanState(userId);
 
-    const db = await getDb();
-    await db.run(`
-      UPDATE users SET isBanned = ?, updatedAt = CURRENT_TIMESTAMP
-      WHERE id = ? AND isAdmin = 0
-    `, isBanned, userId);
+    if (!isBanned) {
+      if (!await unbanUser(userId)) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      setAuditDetails(res, { before, after: { isBanned: false, reason: null, until: null } });
+      return res.json({ message: 'User unbanned successfully' });
+    }
 
-    res.json({ message: `User ${isBanned ? 'banned' : 'unbanned'} successfully` });
+    if (!await banUser(userId, { reason, until })) {
+      return res.status(404).json({ error: 'User not found, or is a staff member who has to be demoted first' });
+    }
+    setAuditDetails(res, {
+      before,
+      after: { isBanned: true, reason: reason || null, until: until ? toSqliteTimestamp(until) : null }
+    });
+
+    // Existing tokens and sockets stop working right away
+    await revokeUserSessions(userId, 'banned');
+    disconnectUser(String(userId));
+    const cancelledSwaps = await cancelPendingSwaps(userId);
+    setAuditDetails(res, { metadata: { cancelledSwaps } });
+
+    res.json({ message: 'User banned successfully', cancelledSwaps });
   } catch (error) {
     console.error('Ban user error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Get all swap requests (admin only)
-router.get('/swaps', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Get all swap requests
+router.get('/swaps', authenticateToken, requirePermission('swaps.view_all'), async (req: AuthRequest, res) => {
   try {
     const { status, page = 1, limit = 20 } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
 
-    let query = `
-      SELECT sr.*, 
-             requester.fullName as requesterName, requester.email as requesterEmail,
-             provider.fullName as providerName, provider.email as providerEmail,
-             os.name as offeredSkillName,
-             ws.name as wantedSkillName
-      FROM swapRequests sr
-      JOIN users requester ON sr.requesterId = requester.id
-      JOIN users provider ON sr.providerId = provider.id
-      JOIN skills os ON sr.offeredSkillId = os.id
-      JOIN skills ws ON sr.wantedSkillId = ws.id
-      WHERE 1=1
-    `;
-
-    const params: any[] = [];
-
-    if (status) {
-      query += ` AND sr.status = ?`;
-      params.push(status);
-    }
-
-    query += ` ORDER BY sr.createdAt DESC LIMIT ? OFFSET ?`;
-    params.push(Number(limit), offset);
-
-    const db = await getDb();
-    const swaps = await db.all(query, ...params);
-
-    // Get total count
-    let countQuery = `SELECT COUNT(*) as total FROM swapRequests WHERE 1=1`;
-    const countParams: any[] = [];
-    
-    if (status) {
-      countQuery += ` AND status = ?`;
-      countParams.push(status);
-    }
-
-    const totalResult = await db.get(countQuery, ...countParams);
-    const total = totalResult ? totalResult.total : 0;
+    const { swaps } = await getRepositories();
+    const { swaps: rows, total } = await swaps.listForAdmin({
+      status: status ? String(status) : undefined,
+      page: { limit: Number(limit), offset }
+    });
 
     res.json({
-      swaps,
+      swaps: rows.map(toAdminSwapDTO),
       pagination: {
         page: Number(page),
         limit: Number(limit),
@@ -155,10 +118,10 @@ router.get('/swaps', authenticateToken, requireAdmin, async (req: AuthRequest, r
 });
 
 // Get platform statistics
-router.get('/stats', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+router.get('/stats', authenticateToken, requirePermission('stats.view'), async (req: AuthRequest, res) => {
   try {
-    const db = await getDb();
-    
+    const { users, skills, swaps, circles } = await getRepositories();
+
     const [
       totalUsers,
       activeUsers,
@@ -166,37 +129,39 @@ router.get('/stats', authenticateToken, requireAdmin, async (req: AuthRequest, r
       totalSwaps,
       completedSwaps,
       pendingSwaps,
+      proposedCircleSwaps,
+      activeCircleSwaps,
+      completedCircleSwaps,
       recentUsers,
       recentSwaps
     ] = await Promise.all([
-      db.get('SELECT COUNT(*) as count FROM users WHERE isAdmin = 0'),
-      db.get('SELECT COUNT(*) as count FROM users WHERE isAdmin = 0 AND isBanned = 0'),
-      db.get('SELECT COUNT(*) as count FROM skills'),
-      db.get('SELECT COUNT(*) as count FROM swap_requests'),
-      db.get("SELECT COUNT(*) as count FROM swap_requests WHERE status = 'completed'"),
-      db.get("SELECT COUNT(*) as count FROM swap_requests WHERE status = 'pending'"),
-      db.all('SELECT * FROM users ORDER BY createdAt DESC LIMIT 5'),
-      db.all(`
-        SELECT s.*, 
-               u1.fullName as requesterName, 
-               u2.fullName as providerName
-        FROM swaps s
-        LEFT JOIN users u1 ON s.requesterId = u1.id
-        LEFT JOIN users u2 ON s.providerId = u2.id
-        ORDER BY s.createdAt DESC
-        LIMIT 5
-      `)
+      users.countMembers(),
+      // Seen in the last 30 days
+      users.countMembers(30),
+      skills.count(),
+      swaps.count(),
+      swaps.count('completed'),
+      swaps.count('pending'),
+      // Every circle ever proposed, whatever became of it
+      circles.count(),
+      circles.count('active'),
+      circles.count('completed'),
+      users.findNewest(5),
+      swaps.findNewest(5)
     ]);
 
     const stats = {
-      totalUsers: totalUsers?.count || 0,
-      activeUsers: activeUsers?.count || 0,
-      totalSkills: totalSkills?.count || 0,
-      totalSwaps: totalSwaps?.count || 0,
-      completedSwaps: completedSwaps?.count || 0,
-      pendingSwaps: pendingSwaps?.count || 0,
-      recentUsers: recentUsers || [],
-      recentSwaps: recentSwaps || []
+      totalUsers,
+      activeUsers,
+      totalSkills,
+      totalSwaps,
+      completedSwaps,
+      pendingSwaps,
+      proposedCircleSwaps,
+      activeCircleSwaps,
+      completedCircleSwaps,
+      recentUsers: recentUsers.map(toAdminRecentUserDTO),
+      recentSwaps
     };
 
     res.json(stats);
@@ -207,19 +172,13 @@ router.get('/stats', authenticateToken, requireAdmin, async (req: AuthRequest, r
 });
 
 // Send platform message
-router.post('/messages', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+router.post('/messages', authenticateToken, requirePermission('messages.broadcast'), validateBody(adminMessageSchema), auditAction('message.broadcast', 'admin_message'), async (req: AuthRequest, res) => {
   try {
-    const { title, content, type = 'announcement' } = req.body;
+    const { title, content, type } = req.body;
 
-    if (!title || !content) {
-      return res.status(400).json({ error: 'Title and content are required' });
-    }
-
-    const db = await getDb();
-    await db.run(`
-      INSERT INTO adminMessages (adminId, title, content, type)
-      VALUES (?, ?, ?, ?)
-    `, req.user!.id, title, content, type);
+    const { adminMessages } = await getRepositories();
+    const messageId = await adminMessages.create(req.user!.id, { title, content, type });
+    setAuditDetails(res, { targetId: messageId, metadata: { title, type } });
 
     res.status(201).json({ message: 'Platform message sent successfully' });
   } catch (error) {
@@ -228,21 +187,12 @@ router.post('/messages', authenticateToken, requireAdmin, async (req: AuthReques
   }
 });
 
-// Get all messages (admin only)
-router.get('/messages', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+// Get all messages
+router.get('/messages', authenticateToken, requirePermission('messages.view_all'), async (req: AuthRequest, res) => {
   try {
-    const db = await getDb();
-    const messages = await db.all(`
-      SELECT m.*, 
-             u1.fullName as senderName, 
-             u2.fullName as receiverName
-      FROM messages m
-      LEFT JOIN users u1 ON m.senderId = u1.id
-      LEFT JOIN users u2 ON m.receiverId = u2.id
-      ORDER BY m.createdAt DESC
-    `);
-
-    res.json(messages);
+    const { messages } = await getRepositories();
+
+    res.json(await messages.listForAdmin());
   } catch (error) {
     console.error('Get messages error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -250,4 +200,153 @@ router.get('/messages', authenticateToken, requireAdmin, async (req: AuthRequest
   }
 });
 
-export default router;
\ No newline at end of file
+// Roles and what each one may do
+router.get('/roles', authenticateToken, requirePermission('roles.assign'), async (req: AuthRequest, res) => {
+  try {
+    res.json({ roles: await getRoles() });
+  } catch (error) {
+    console.error('Get roles error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.put('/users/:id/role', authenticateToken, requirePermission('roles.assign'), validateBody(roleAssignmentSchema), auditAction('user.role_change', 'user'), async (req: AuthRequest, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+
+    // Otherwise the last superadmin could lock everyone out of role management
+    if (userId === req.user!.id) {
+      return res.status(400).json({ error: 'You cannot change your own role' });
+    }
+
+    const previousRole = await getUserRole(userId);
+    if (!previousRole || !await assignRole(userId, req.body.role)) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    setAuditDetails(res, { before: { role: previousRole }, after: { role: req.body.role } });
+
+    res.json({ message: 'Role updated', role: req.body.role });
+  } catch (error) {
+    console.error('Assign role error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Reports filed by users, open ones first
+router.get('/reports', authenticateToken, requirePermission('reports.view'), async (req: AuthRequest, res) => {
+  try {
+    const { status, page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+    const { reports: repository } = await getRepositories();
+    const { reports, total } = await repository.listForAdmin({
+      status: status ? String(status) : undefined,
+      page: { limit: Number(limit), offset }
+    });
+
+    res.json({
+      reports: reports.map(toAdminReportDTO),
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        totalPages: Math.ceil(total / Number(limit))
+      }
+    });
+  } catch (error) {
+    console.error('Get reports error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Close a report. Banning the reported user is a separate step.
+router.put('/reports/:id', authenticateToken, requirePermission('reports.resolve'), validateBody(reportResolutionSchema), auditAction(req => `report.${req.body.status}`, 'report'), async (req: AuthRequest, res) => {
+  try {
+    const reportId = parseInt(req.params.id);
+    const { reports } = await getRepositories();
+    const report = await reports.findById(reportId);
+    const resolved = await reports.resolve(reportId, {
+      status: req.body.status,
+      resolution: req.body.resolution,
+      resolvedById: req.user!.id
+    });
+
+    if (!resolved) {
+      return res.status(404).json({ error: 'Open report not found' });
+    }
+    setAuditDetails(res, {
+      before: { status: report!.status, resolution: null },
+      after: { status: req.body.status, resolution: req.body.resolution || null },
+      metadata: { reportedUserId: report!.reportedUserId }
+    });
+
+    res.json({ message: `Report ${req.body.status}` });
+  } catch (error) {
+    console.error('Resolve report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Accounts waiting out their deletion grace period, soonest first
+router.get('/deletions', authenticateToken, requirePermission('users.view'), async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const { users } = await getRepositories();
+    const { users: rows, total } = await users.listPendingDeletions({ limit: Number(limit), offset });
+
+    res.json({
+      users: rows.map(toPendingDeletionDTO),
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        totalPages: Math.ceil(total / Number(limit))
+      }
+    });
+  } catch (error) {
+    console.error('Get pending deletions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Audit log, newest first. Filter by action (a trailing * matches a prefix,
+// e.g. user.*), actor, target and time range.
+router.get('/audit', authenticateToken, requirePermission('audit.view'), async (req: AuthRequest, res) => {
+  try {
+    const { action, actorId, targetType, targetId, from, to, page = 1, limit = 50 } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const filter: AuditLogFilter = {
+      action: typeof action === 'string' && action ? action : undefined,
+      actorId: actorId ? Number(actorId) : undefined,
+      targetType: targetType ? String(targetType) : undefined,
+      targetId: targetId ? String(targetId) : undefined
+    };
+    for (const [key, value] of [['from', from], ['to', to]] as const) {
+      if (typeof value !== 'string' || !value) continue;
+      if (Number.isNaN(Date.parse(value))) {
+        return res.status(400).json({ error: `Invalid date: ${value}` });
+      }
+      filter[key] = toSqliteTimestamp(value);
+    }
+
+    const { auditLog } = await getRepositories();
+    const { entries, total } = await auditLog.list(filter, { limit: Number(limit), offset });
+
+    res.json({
+      entries: entries.map(toAuditLogEntryDTO),
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        totalPages: Math.ceil(total / Number(limit))
+      }
+    });
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,23 +1,108 @@
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
 import bcrypt from 'bcryptjs';
-import { getDatabase } from '../database/db.js';
-import { generateToken } from '../middleware/auth.js';
-import { validateBody, userRegistrationSchema, userLoginSchema } from '../middleware/validation.js';
+import {
+  authenticateToken,
+  generateChallengeToken,
+  generateToken,
+  getCookie,
+  recordActivity,
+  verifyChallengeToken,
+  type AuthRequest
+} from '../middleware/auth.js';
+import {
+  validateBody,
+  userRegistrationSchema,
+  loginSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  passwordResetSchema,
+  emailVerificationSchema,
+  twoFactorLoginSchema,
+  passwordStrengthSchema,
+  oidcLoginSchema,
+  passwordPolicyError
+} from '../middleware/validation.js';
+import {
+  SessionError,
+  createSession,
+  findSessionByRefreshToken,
+  getUserSessions,
+  revokeSession,
+  revokeUserSessions,
+  rotateRefreshToken
+} from '../services/sessions.js';
+import { describeBan, getActiveBan } from '../services/bans.js';
+import {
+  AuthTokenError,
+  consumeAuthToken,
+  findAuthTokenUser,
+  sendPasswordResetEmail,
+  sendVerificationEmail
+} from '../services/authTokens.js';
+import { verifySecondFactor } from '../services/twoFactor.js';
+import { clearLoginFailures, getLoginLockout, recordLoginFailure } from '../services/loginThrottle.js';
+import { RATE_LIMITS, rateLimitByIp, setRetryAfter } from '../middleware/rateLimit.js';
+import { PASSWORD_POLICY, checkPassword } from '../services/passwordPolicy.js';
+import { getUserPermissions } from '../services/permissions.js';
+import {
+  OIDC_STATE_COOKIE,
+  OidcError,
+  beginOidcLogin,
+  clientLoginUrl,
+  completeOidcLogin,
+  consumeOidcLoginCode,
+  getOidcProvider,
+  getOidcProviders,
+  oidcStateCookieOptions
+} from '../services/oidc.js';
+import { disconnectSessions } from '../websocket.js';
 import type { User } from '../database/schema.js';
+import { getRepositories } from '../repositories/index.js';
+import { toAccountDTO } from '../repositories/dto.js';
 
 const router = Router();
 
+// Open a session for a device and issue its first access and refresh tokens
+async function startSession(
+  user: User,
+  req: Request,
+  twoFactorVerified = false
+): Promise<{ token: string; refreshToken: string }> {
+  const { sessionId, refreshToken } = await createSession(user.id, {
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip
+  }, twoFactorVerified);
+  const token = generateToken({
+    id: user.id,
+    email: user.email,
+    is_admin: Boolean(user.isAdmin)
+  }, sessionId);
+  return { token, refreshToken };
+}
+
+// The signed-in user as returned at login
+async function toLoginUser(user: User) {
+  return toAccountDTO(user, await getUserPermissions(user.id));
+}
+
+// Refuse a sign-in while the account is locked after repeated failures
+function respondLocked(res: Response, lockedUntil: number) {
+  const retryAfter = setRetryAfter(res, lockedUntil);
+  return res.status(429).json({
+    error: 'Too many failed sign-in attempts, please try again later',
+    code: 'ACCOUNT_LOCKED',
+    retryAfter
+  });
+}
+
 // Register
-router.post('/register', validateBody(userRegistrationSchema), async (req, res) => {
+router.post('/register', rateLimitByIp('register', RATE_LIMITS.register), validateBody(userRegistrationSchema), async (req, res) => {
   try {
-    console.log('Received registration request with body:', req.body);
-    
     const { email, password, ...rest } = req.body;
-    
-    const db = await getDatabase();
+    const { users } = await getRepositories();
 
     // Check if user already exists
-    const existingUser = await db.get('SELECT id FROM users WHERE email = ?', [email]);
+    const existingUser = await users.findByEmail(email);
     if (existingUser) {
       return res.status(400).json({ error: 'User already exists with this email' });
     }
@@ -26,45 +111,24 @@ router.post('/register', validateBody(userRegistrationSchema), async (req, res)
     const hashedPassword = await bcrypt.hash(password, 10);
     const username = email.split('@')[0];
 
-    // Insert user with only the fields that exist in the database
-    const result = await db.run(
-      `INSERT INTO users (
-        username, 
-        email, 
-        password, 
-        fullName, 
-        location
-      ) VALUES (?, ?, ?, ?, ?)`,
-      [
-        username, // Use the part before @ as username
-        email,
-        hashedPassword,
-        rest.name || username, // Use provided name or username
-        rest.location || null
-      ]
-    );
-    
-    console.log('User created with ID:', result.lastID);
-
-    const userId = result.lastID as number;
-
-    // Get the newly created user
-    const newUser = await db.get<User>('SELECT * FROM users WHERE id = ?', [userId]);
-    if (!newUser) {
-      throw new Error('Failed to retrieve newly created user');
-    }
-
-    // Generate token with user data
-    const token = generateToken({ 
-      id: newUser.id, 
-      email: newUser.email, 
-      is_admin: Boolean(newUser.isAdmin) 
+    const newUser = await users.create({
+      username, // Use the part before @ as username
+      email,
+      password: hashedPassword,
+      fullName: rest.name || username, // Use provided name or username
+      location: rest.location || null
     });
 
+    // The account works right away; the emailed link only confirms the address
+    sendVerificationEmail(newUser).catch(error => console.error('Send verification email error:', error));
+
+    const { token, refreshToken } = await startSession(newUser, req);
+
     res.status(201).json({
       message: 'User registered successfully',
       token,
-      user: newUser
+      refreshToken,
+      user: await toLoginUser(newUser)
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -75,38 +139,68 @@ router.post('/register', validateBody(userRegistrationSchema), async (req, res)
   }
 });
 
+// Rate a password as it is typed, using the same policy as /register
+router.post('/password-strength', validateBody(passwordStrengthSchema), (req, res) => {
+  const { password, email, name } = req.body;
+  res.json({
+    ...checkPassword(password, [email ?? '', name ?? '']),
+    minLength: PASSWORD_POLICY.minLength
+  });
+});
+
 // Login
-router.post('/login', validateBody(userLoginSchema), async (req, res) => {
+router.post('/login', rateLimitByIp('login', RATE_LIMITS.login), validateBody(loginSchema), async (req, res) => {
   try {
     const { email, password } = req.body;
-    const db = await getDatabase();
+    const { users } = await getRepositories();
 
-    // Find user by email
-    const user = await db.get<User>('SELECT * FROM users WHERE email = ?', [email]);
-    if (!user) {
-      return res.status(401).json({ error: 'Invalid email or password' });
+    const lockedUntil = await getLoginLockout(email);
+    if (lockedUntil) {
+      return respondLocked(res, lockedUntil);
     }
 
+    // Find user by email
+    const user = await users.findByEmail(email);
+
     // Check password
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
+    const isPasswordValid = user ? await bcrypt.compare(password, user.password) : false;
+    if (!user || !isPasswordValid) {
+      const lockedNow = await recordLoginFailure(email, { userId: user?.id, ipAddress: req.ip });
+      if (lockedNow) {
+        return respondLocked(res, lockedNow);
+      }
       return res.status(401).json({ error: 'Invalid email or password' });
     }
 
-    // Omit password from response
-    const { password: _, ...userWithoutPassword } = user;
+    const ban = await getActiveBan(user.id);
+    if (ban) {
+      return res.status(403).json({
+        error: describeBan(ban),
+        code: 'ACCOUNT_BANNED',
+        reason: ban.reason,
+        bannedUntil: ban.until
+      });
+    }
 
-    // Generate token
-    const token = generateToken({ 
-      id: user.id,
-      email: user.email, 
-      is_admin: Boolean(user.isAdmin) 
-    });
+    // The password was right, but the session only starts after /login/2fa
+    if (user.totpEnabledAt) {
+      return res.json({
+        message: 'Enter the code from your authenticator app',
+        twoFactorRequired: true,
+        challengeToken: generateChallengeToken(user.id)
+      });
+    }
+
+    await clearLoginFailures(email);
+    recordActivity(user.id);
+
+    const { token, refreshToken } = await startSession(user, req);
 
     res.json({
       message: 'Login successful',
       token,
-      user: userWithoutPassword
+      refreshToken,
+      user: await toLoginUser(user)
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -114,4 +208,342 @@ router.post('/login', validateBody(userLoginSchema), async (req, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+// Second login step for accounts with two-factor authentication
+router.post('/login/2fa', rateLimitByIp('login', RATE_LIMITS.login), validateBody(twoFactorLoginSchema), async (req, res) => {
+  try {
+    let userId: number;
+    try {
+      userId = verifyChallengeToken(req.body.challengeToken).id;
+    } catch {
+      return res.status(401).json({ error: 'Your sign-in attempt has expired, please log in again', code: 'CHALLENGE_EXPIRED' });
+    }
+
+    const { users } = await getRepositories();
+    const user = await users.findById(userId);
+    if (!user) {
+      return res.status(401).json({ error: 'Your sign-in attempt has expired, please log in again', code: 'CHALLENGE_EXPIRED' });
+    }
+
+    // Bans placed while the code was being typed still apply
+    const ban = await getActiveBan(user.id);
+    if (ban) {
+      return res.status(403).json({
+        error: describeBan(ban),
+        code: 'ACCOUNT_BANNED',
+        reason: ban.reason,
+        bannedUntil: ban.until
+      });
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const lockedUntil = await getLoginLockout(user.email);
+    if (lockedUntil) {
+      return respondLocked(res, lockedUntil);
+    }
+
+    if (!(await verifySecondFactor(user.id, req.body.code))) {
+      const lockedNow = await recordLoginFailure(user.email, { userId: user.id, ipAddress: req.ip });
+      if (lockedNow) {
+        return respondLocked(res, lockedNow);
+      }
+      return res.status(401).json({ error: 'Invalid authentication code' });
+    }
+
+    await clearLoginFailures(user.email);
+    recordActivity(user.id);
+
+    const { token, refreshToken } = await startSession(user, req, true);
+
+    res.json({
+      message: 'Login successful',
+      token,
+      refreshToken,
+      user: await toLoginUser(user)
+    });
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// External sign-in providers, for the buttons on the login and register pages
+router.get('/oidc/providers', (req, res) => {
+  res.json({ providers: getOidcProviders() });
+});
+
+// Send the browser to the provider's sign-in page
+router.get('/oidc/:provider/authorize', rateLimitByIp('login', RATE_LIMITS.login), async (req, res) => {
+  try {
+    const provider = getOidcProvider(req.params.provider);
+    const { url, stateCookie, maxAge } = await beginOidcLogin(provider);
+    res.cookie(OIDC_STATE_COOKIE, stateCookie, { ...oidcStateCookieOptions(provider), maxAge });
+    res.redirect(url);
+  } catch (error) {
+    if (error instanceof OidcError) {
+      return res.redirect(clientLoginUrl({ oidc_error: error.message }));
+    }
+    console.error('OIDC authorize error:', error);
+    res.redirect(clientLoginUrl({ oidc_error: 'Sign-in failed, please try again' }));
+  }
+});
+
+// The provider sends the browser back here. The client gets a short-lived
+// code to swap for a session at /login/oidc, never the tokens themselves.
+router.get('/oidc/:provider/callback', async (req, res) => {
+  try {
+    const provider = getOidcProvider(req.params.provider);
+    const stateCookie = getCookie(req, OIDC_STATE_COOKIE);
+    // The cookie is good for this one callback, whatever the outcome
+    res.clearCookie(OIDC_STATE_COOKIE, oidcStateCookieOptions(provider));
+
+    const { code, state, error } = req.query;
+    if (error) {
+      const message = error === 'access_denied' ? 'Sign-in was cancelled' : 'The sign-in provider reported an error';
+      return res.redirect(clientLoginUrl({ oidc_error: message }));
+    }
+    if (typeof code !== 'string' || typeof state !== 'string') {
+      return res.redirect(clientLoginUrl({ oidc_error: 'Sign-in failed, please try again' }));
+    }
+
+    const loginCode = await completeOidcLogin(provider, { code, state, stateCookie }, req.ip);
+    res.redirect(clientLoginUrl({ oidc_code: loginCode }));
+  } catch (error) {
+    if (error instanceof OidcError) {
+      return res.redirect(clientLoginUrl({ oidc_error: error.message }));
+    }
+    console.error('OIDC callback error:', error);
+    res.redirect(clientLoginUrl({ oidc_error: 'Sign-in failed, please try again' }));
+  }
+});
+
+// Finish a sign-in through an external provider. Accounts with two-factor
+// authentication continue at /login/2fa like a password login.
+router.post('/login/oidc', rateLimitByIp('login', RATE_LIMITS.login), validateBody(oidcLoginSchema), async (req, res) => {
+  try {
+    const userId = await consumeOidcLoginCode(req.body.code);
+
+    const { users } = await getRepositories();
+    const user = await users.findById(userId);
+    if (!user) {
+      return res.status(401).json({ error: 'Your sign-in attempt has expired, please try again', code: 'INVALID_LOGIN_CODE' });
+    }
+
+    const ban = await getActiveBan(user.id);
+    if (ban) {
+      return res.status(403).json({
+        error: describeBan(ban),
+        code: 'ACCOUNT_BANNED',
+        reason: ban.reason,
+        bannedUntil: ban.until
+      });
+    }
+
+    if (user.totpEnabledAt) {
+      return res.json({
+        message: 'Enter the code from your authenticator app',
+        twoFactorRequired: true,
+        challengeToken: generateChallengeToken(user.id)
+      });
+    }
+
+    recordActivity(user.id);
+
+    const { token, refreshToken } = await startSession(user, req);
+
+    res.json({
+      message: 'Login successful',
+      token,
+      refreshToken,
+      user: await toLoginUser(user)
+    });
+  } catch (error) {
+    if (error instanceof OidcError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error('OIDC login error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Email a password reset link. The response is the same whether or not the
+// address has an account, so it can't be used to discover who is registered.
+router.post('/forgot-password', rateLimitByIp('password-reset', RATE_LIMITS.passwordReset), validateBody(forgotPasswordSchema), async (req, res) => {
+  try {
+    const { users } = await getRepositories();
+    const user = await users.findByEmail(req.body.email);
+
+    if (user) {
+      sendPasswordResetEmail(user).catch(error => console.error('Send password reset email error:', error));
+    }
+
+    res.json({ message: 'If an account exists for that email, a reset link is on its way' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Set a new password from a reset link and sign out every device
+router.post('/reset-password', validateBody(passwordResetSchema), async (req, res) => {
+  try {
+    const { users } = await getRepositories();
+    const user = await users.findById(await findAuthTokenUser(req.body.token, 'password_reset'));
+    if (!user) {
+      return res.status(400).json({ error: 'This link is invalid or has expired' });
+    }
+
+    // The link stays usable until a password that meets the policy is chosen
+    const policyError = passwordPolicyError(req.body.password, [user.email, user.fullName]);
+    if (policyError) {
+      return res.status(400).json(policyError);
+    }
+
+    const userId = await consumeAuthToken(req.body.token, 'password_reset');
+    await users.resetPassword(userId, await bcrypt.hash(req.body.password, 10));
+
+    disconnectSessions(await revokeUserSessions(userId, 'password_reset'));
+
+    res.json({ message: 'Password updated, please sign in with your new password' });
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/verify-email', validateBody(emailVerificationSchema), async (req, res) => {
+  try {
+    const userId = await consumeAuthToken(req.body.token, 'email_verification');
+    const { users } = await getRepositories();
+
+    await users.markEmailVerified(userId);
+
+    res.json({ message: 'Email address verified' });
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Verify email error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/resend-verification', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { users } = await getRepositories();
+    const user = await users.findById(req.user!.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({ error: 'Email address is already verified' });
+    }
+
+    await sendVerificationEmail(user);
+
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Swap a refresh token for a new access token and refresh token
+router.post('/refresh', validateBody(refreshTokenSchema), async (req, res) => {
+  try {
+    const { session, refreshToken } = await rotateRefreshToken(req.body.refreshToken);
+    const { users } = await getRepositories();
+
+    const user = await users.findById(session.userId);
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    const ban = await getActiveBan(user.id);
+    if (ban) {
+      await revokeSession(session.id, 'banned');
+      return res.status(403).json({ error: describeBan(ban), code: 'ACCOUNT_BANNED' });
+    }
+
+    const token = generateToken({
+      id: user.id,
+      email: user.email,
+      is_admin: Boolean(user.isAdmin)
+    }, session.id);
+
+    res.json({ token, refreshToken });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Sign this device out. Works with an expired access token, so only the
+// refresh token is needed.
+router.post('/logout', validateBody(refreshTokenSchema), async (req, res) => {
+  try {
+    const session = await findSessionByRefreshToken(req.body.refreshToken);
+    if (session && await revokeSession(session.id, 'logout')) {
+      disconnectSessions([session.id]);
+    }
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Devices the current user is signed in on
+router.get('/sessions', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const sessions = await getUserSessions(req.user!.id);
+    res.json({
+      sessions: sessions.map(session => ({ ...session, current: session.id === req.user!.sid }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Sign out every device except this one
+router.delete('/sessions', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const revoked = await revokeUserSessions(req.user!.id, 'revoked', req.user!.sid);
+    disconnectSessions(revoked);
+
+    res.json({ message: 'Other sessions signed out', revoked: revoked.length });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/sessions/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const sessionId = parseInt(req.params.id);
+    const sessions = await getUserSessions(req.user!.id);
+
+    if (!sessions.some(session => session.id === sessionId)) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    await revokeSession(sessionId, sessionId === req.user!.sid ? 'logout' : 'revoked');
+    disconnectSessions([sessionId]);
+
+    res.json({ message: 'Session signed out' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,98 @@
+import { Router, type Request } from 'express';
+import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
+import { getSwapDetails } from '../services/swapEvents.js';
+import {
+  buildCalendar,
+  getOrCreateCalendarToken,
+  getSwapCalendarSessions,
+  getUserCalendarSessions,
+  rotateCalendarToken
+} from '../services/calendar.js';
+import { getRepositories } from '../repositories/index.js';
+
+const router = Router();
+
+const feedUrl = (req: Request, token: string) =>
+  `${req.protocol}://${req.get('host')}/api/calendar/${token}.ics`;
+
+// Get the current user's feed URL, creating the token on first use
+router.get('/token', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const token = await getOrCreateCalendarToken(req.user!.id);
+    res.json({ token, url: feedUrl(req, token) });
+  } catch (error) {
+    console.error('Get calendar token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replace the feed token; subscriptions using the old URL stop working
+router.post('/token/rotate', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const token = await rotateCalendarToken(req.user!.id);
+    res.json({ token, url: feedUrl(req, token) });
+  } catch (error) {
+    console.error('Rotate calendar token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Download the sessions of a single swap
+router.get('/swap/:swapId.ics', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const swapId = parseInt(req.params.swapId);
+    const swap = await getSwapDetails(swapId);
+
+    if (!swap) {
+      return res.status(404).json({ error: 'Swap request not found' });
+    }
+
+    if (swap.requesterId !== req.user!.id && swap.providerId !== req.user!.id) {
+      return res.status(403).json({ error: 'You are not part of this swap' });
+    }
+
+    const sessions = await getSwapCalendarSessions(swapId);
+    if (sessions.length === 0) {
+      return res.status(404).json({ error: 'This swap has no confirmed sessions' });
+    }
+
+    const calendar = buildCalendar(sessions, {
+      name: `Skill swap: ${swap.offeredSkillName} ↔ ${swap.wantedSkillName}`,
+      viewerId: req.user!.id
+    });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="swap-${swapId}.ics"`);
+    res.send(calendar);
+  } catch (error) {
+    console.error('Download swap calendar error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Subscribable feed; the token in the URL is the only credential
+router.get('/:token.ics', async (req, res) => {
+  try {
+    const { users } = await getRepositories();
+    const user = await users.findByCalendarToken(req.params.token);
+
+    if (!user) {
+      return res.status(404).json({ error: 'Calendar not found' });
+    }
+
+    const sessions = await getUserCalendarSessions(user.id);
+    const calendar = buildCalendar(sessions, {
+      name: `SkillSwap sessions – ${user.fullName}`,
+      viewerId: user.id
+    });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.send(calendar);
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
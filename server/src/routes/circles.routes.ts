@@ -0,0 +1,210 @@
+import { Router } from 'express';
+import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
+import { RATE_LIMITS, rateLimitByUser } from '../middleware/rateLimit.js';
+import { validateBody, circleProposalSchema } from '../middleware/validation.js';
+import { CircleSwapError, emitCircleEvent, findCycles, resolveCircleMembers } from '../services/circles.js';
+import { getRepositories, withTransaction } from '../repositories/index.js';
+
+const router = Router();
+
+// Rings of 3 to 4 people the current user could join
+router.get('/suggestions', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const cycles = await findCycles(req.user!.id);
+    res.json({ suggestions: cycles.map(members => ({ members })) });
+  } catch (error) {
+    console.error('Get circle suggestions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Circle swaps the current user is part of, newest first
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { circles } = await getRepositories();
+    res.json({ circles: await circles.listForUser(req.user!.id) });
+  } catch (error) {
+    console.error('Get circle swaps error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { circles } = await getRepositories();
+    const circle = await circles.findDetails(parseInt(req.params.id));
+    if (!circle) {
+      return res.status(404).json({ error: 'Circle swap not found' });
+    }
+
+    if (!circle.participants.some(p => p.userId === req.user!.id)) {
+      return res.status(403).json({ error: 'You are not part of this circle swap' });
+    }
+
+    res.json({ circle });
+  } catch (error) {
+    console.error('Get circle swap error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Propose a ring; the proposer accepts by proposing
+router.post('/', authenticateToken, rateLimitByUser('swaps', RATE_LIMITS.swaps), validateBody(circleProposalSchema), async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const members = await resolveCircleMembers(userId, req.body.members);
+
+    // The ring and all of its members are stored together
+    const circleId = await withTransaction(({ circles }) => circles.create(userId, members));
+
+    await emitCircleEvent(circleId, userId, 'circle.proposed');
+
+    const { circles } = await getRepositories();
+    res.status(201).json({ message: 'Circle swap proposed successfully', circle: await circles.findDetails(circleId) });
+  } catch (error) {
+    if (error instanceof CircleSwapError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Propose circle swap error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/:id/accept', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const circleId = parseInt(req.params.id);
+    const userId = req.user!.id;
+    const { circles } = await getRepositories();
+
+    const circle = await circles.findDetails(circleId);
+    if (!circle) {
+      return res.status(404).json({ error: 'Circle swap not found' });
+    }
+
+    const participant = circle.participants.find(p => p.userId === userId);
+    if (!participant) {
+      return res.status(403).json({ error: 'You are not part of this circle swap' });
+    }
+
+    if (circle.status !== 'proposed' || participant.status !== 'pending') {
+      return res.status(400).json({ error: 'This circle swap is not waiting for your answer' });
+    }
+
+    await circles.respond(participant.id, 'accepted');
+
+    // The ring starts once the last member accepts
+    const allAccepted = circle.participants.every(p => p.id === participant.id || p.status === 'accepted');
+    await circles.updateStatus(circleId, allAccepted ? 'active' : undefined);
+
+    await emitCircleEvent(circleId, userId, allAccepted ? 'circle.activated' : 'circle.accepted');
+
+    res.json({ circle: await circles.findDetails(circleId) });
+  } catch (error) {
+    console.error('Accept circle swap error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// One member declining calls off the whole ring
+router.post('/:id/decline', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const circleId = parseInt(req.params.id);
+    const userId = req.user!.id;
+    const { circles } = await getRepositories();
+
+    const circle = await circles.findDetails(circleId);
+    if (!circle) {
+      return res.status(404).json({ error: 'Circle swap not found' });
+    }
+
+    const participant = circle.participants.find(p => p.userId === userId);
+    if (!participant) {
+      return res.status(403).json({ error: 'You are not part of this circle swap' });
+    }
+
+    if (circle.status !== 'proposed' || participant.status !== 'pending') {
+      return res.status(400).json({ error: 'This circle swap is not waiting for your answer' });
+    }
+
+    await circles.respond(participant.id, 'declined');
+    await circles.updateStatus(circleId, 'declined');
+
+    await emitCircleEvent(circleId, userId, 'circle.declined');
+
+    res.json({ circle: await circles.findDetails(circleId) });
+  } catch (error) {
+    console.error('Decline circle swap error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark the current user's teaching as done; the ring completes when everyone has
+router.post('/:id/complete', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const circleId = parseInt(req.params.id);
+    const userId = req.user!.id;
+    const { circles } = await getRepositories();
+
+    const circle = await circles.findDetails(circleId);
+    if (!circle) {
+      return res.status(404).json({ error: 'Circle swap not found' });
+    }
+
+    const participant = circle.participants.find(p => p.userId === userId);
+    if (!participant) {
+      return res.status(403).json({ error: 'You are not part of this circle swap' });
+    }
+
+    if (circle.status !== 'active') {
+      return res.status(400).json({ error: 'Only active circle swaps can be completed' });
+    }
+
+    if (participant.completedAt) {
+      return res.status(400).json({ error: 'You have already completed your part' });
+    }
+
+    await circles.completePart(participant.id);
+
+    const allCompleted = circle.participants.every(p => p.id === participant.id || p.completedAt);
+    await circles.updateStatus(circleId, allCompleted ? 'completed' : undefined);
+
+    await emitCircleEvent(circleId, userId, allCompleted ? 'circle.completed' : 'circle.part_completed');
+
+    res.json({ circle: await circles.findDetails(circleId) });
+  } catch (error) {
+    console.error('Complete circle swap error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/:id/cancel', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const circleId = parseInt(req.params.id);
+    const userId = req.user!.id;
+    const { circles } = await getRepositories();
+
+    const circle = await circles.findDetails(circleId);
+    if (!circle) {
+      return res.status(404).json({ error: 'Circle swap not found' });
+    }
+
+    if (!circle.participants.some(p => p.userId === userId)) {
+      return res.status(403).json({ error: 'You are not part of this circle swap' });
+    }
+
+    if (circle.status !== 'proposed' && circle.status !== 'active') {
+      return res.status(400).json({ error: `Circle swap is already ${circle.status}` });
+    }
+
+    await circles.updateStatus(circleId, 'cancelled');
+
+    await emitCircleEvent(circleId, userId, 'circle.cancelled');
+
+    res.json({ circle: await circles.findDetails(circleId) });
+  } catch (error) {
+    console.error('Cancel circle swap error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
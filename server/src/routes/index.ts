@@ -0,0 +1,39 @@
+import type { Router } from 'express';
+import authRoutes from './auth.routes.js';
+import twoFactorRoutes from './twoFactor.routes.js';
+import usersRoutes from './users.routes.js';
+import skillsRoutes from './skills.routes.js';
+import swapsRoutes from './swaps.routes.js';
+import ratingsRoutes from './ratings.routes.js';
+import adminRoutes from './admin.routes.js';
+import notificationsRoutes from './notifications.routes.js';
+import messagesRoutes from './messages.routes.js';
+import scheduleRoutes from './schedule.routes.js';
+import calendarRoutes from './calendar.routes.js';
+import matchesRoutes from './matches.routes.js';
+import circlesRoutes from './circles.routes.js';
+import reportsRoutes from './reports.routes.js';
+
+export interface MountedRouter {
+  path: string;
+  router: Router;
+}
+
+// Every API router and where it is mounted, in mounting order. The OpenAPI
+// check walks the same list, so a route added here has to be documented.
+export const apiRoutes: MountedRouter[] = [
+  { path: '/api/auth/2fa', router: twoFactorRoutes },
+  { path: '/api/auth', router: authRoutes },
+  { path: '/api/users', router: usersRoutes },
+  { path: '/api/skills', router: skillsRoutes },
+  { path: '/api/swaps', router: scheduleRoutes },
+  { path: '/api/swaps', router: swapsRoutes },
+  { path: '/api/ratings', router: ratingsRoutes },
+  { path: '/api/admin', router: adminRoutes },
+  { path: '/api/notifications', router: notificationsRoutes },
+  { path: '/api/messages', router: messagesRoutes },
+  { path: '/api/calendar', router: calendarRoutes },
+  { path: '/api/matches', router: matchesRoutes },
+  { path: '/api/circles', router: circlesRoutes },
+  { path: '/api/reports', router: reportsRoutes }
+];
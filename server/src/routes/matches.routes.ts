@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
+import { findMatches } from '../services/matching.js';
+
+const router = Router();
+
+// People who want what the current user offers and offer what they want
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 10 } = req.query;
+    const pageSize = Math.min(Math.max(Number(limit) || 10, 1), 50);
+    const currentPage = Math.max(Number(page) || 1, 1);
+    const offset = (currentPage - 1) * pageSize;
+
+    const matches = await findMatches(req.user!.id);
+
+    res.json({
+      matches: matches.slice(offset, offset + pageSize),
+      pagination: {
+        page: currentPage,
+        limit: pageSize,
+        total: matches.length,
+        totalPages: Math.ceil(matches.length / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Get matches error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
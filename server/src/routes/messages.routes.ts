@@ -0,0 +1,149 @@
+import { Router } from 'express';
+import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
+import { RATE_LIMITS, rateLimitByUser } from '../middleware/rateLimit.js';
+import { validateBody, messageSchema } from '../middleware/validation.js';
+import { sendToUser } from '../websocket.js';
+import { getSwapDetails, getCounterpartId } from '../services/swapEvents.js';
+import { getRepositories } from '../repositories/index.js';
+import { toMessageThreadDTO } from '../repositories/dto.js';
+import { MESSAGEABLE_STATUSES, isSwapParticipant } from '../services/messages.js';
+
+const router = Router();
+
+// List conversations: accepted/completed swaps plus any swap that already has messages
+router.get('/threads', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const { swaps, messages } = await getRepositories();
+
+    const [conversations, lastMessages, unreadBySwap] = await Promise.all([
+      swaps.listConversations(userId, MESSAGEABLE_STATUSES),
+      messages.listLatestForUser(userId),
+      messages.countUnreadBySwap(userId)
+    ]);
+    const lastMessageBySwap = new Map(lastMessages.map(message => [message.swapId, message]));
+
+    const threads = conversations
+      .map(swap => toMessageThreadDTO(swap, userId, {
+        lastMessage: lastMessageBySwap.get(swap.id) || null,
+        unreadCount: unreadBySwap.get(swap.id) || 0,
+        canSend: MESSAGEABLE_STATUSES.includes(swap.status)
+      }))
+      // Most recent activity first
+      .sort((a, b) => {
+        const aTime = a.lastMessage?.createdAt || a.swap.updatedAt;
+        const bTime = b.lastMessage?.createdAt || b.swap.updatedAt;
+        return bTime.localeCompare(aTime);
+      });
+
+    res.json(threads);
+  } catch (error) {
+    console.error('Get message threads error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Page through a conversation, newest page first. Pass the oldest loaded
+// message id as `before` to get the page preceding it.
+router.get('/swap/:swapId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const swapId = parseInt(req.params.swapId);
+    const { before, limit = 30 } = req.query;
+    const pageSize = Math.min(Math.max(Number(limit) || 30, 1), 100);
+
+    const swap = await getSwapDetails(swapId);
+    if (!swap) {
+      return res.status(404).json({ error: 'Swap request not found' });
+    }
+
+    if (!isSwapParticipant(swap, req.user!.id)) {
+      return res.status(403).json({ error: 'You are not part of this swap' });
+    }
+
+    const { messages } = await getRepositories();
+    // Fetch one extra row to know whether there's an older page
+    const rows = await messages.listForSwap(swapId, {
+      before: before ? Number(before) : undefined,
+      limit: pageSize + 1
+    });
+    const hasMore = rows.length > pageSize;
+
+    res.json({
+      messages: rows.slice(0, pageSize).reverse(),
+      hasMore,
+      canSend: MESSAGEABLE_STATUSES.includes(swap.status)
+    });
+  } catch (error) {
+    console.error('Get messages error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Send a message to the other participant of a swap
+router.post('/swap/:swapId', authenticateToken, rateLimitByUser('messages', RATE_LIMITS.messages), validateBody(messageSchema), async (req: AuthRequest, res) => {
+  try {
+    const swapId = parseInt(req.params.swapId);
+    const { content } = req.body;
+    const senderId = req.user!.id;
+
+    const swap = await getSwapDetails(swapId);
+    if (!swap) {
+      return res.status(404).json({ error: 'Swap request not found' });
+    }
+
+    if (!isSwapParticipant(swap, senderId)) {
+      return res.status(403).json({ error: 'You are not part of this swap' });
+    }
+
+    if (!MESSAGEABLE_STATUSES.includes(swap.status)) {
+      return res.status(400).json({ error: 'Messages can only be sent once the swap has been accepted' });
+    }
+
+    const receiverId = getCounterpartId(swap, senderId);
+    const { messages } = await getRepositories();
+    const message = await messages.create({ swapId, senderId, receiverId, content });
+
+    // Deliver to the partner and to the sender's other tabs
+    const event = { type: 'message.created', swapId, message };
+    sendToUser(String(receiverId), event);
+    sendToUser(String(senderId), event);
+
+    res.status(201).json(message);
+  } catch (error) {
+    console.error('Send message error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark every message the current user received in a conversation as read
+router.put('/swap/:swapId/read', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const swapId = parseInt(req.params.swapId);
+    const userId = req.user!.id;
+
+    const swap = await getSwapDetails(swapId);
+    if (!swap) {
+      return res.status(404).json({ error: 'Swap request not found' });
+    }
+
+    if (!isSwapParticipant(swap, userId)) {
+      return res.status(403).json({ error: 'You are not part of this swap' });
+    }
+
+    const { messages } = await getRepositories();
+    const updated = await messages.markRead(swapId, userId);
+
+    if (updated) {
+      const event = { type: 'message.read', swapId, readerId: userId, readAt: new Date().toISOString() };
+      sendToUser(String(getCounterpartId(swap, userId)), event);
+      sendToUser(String(userId), event);
+    }
+
+    res.json({ message: 'Conversation marked as read', updated });
+  } catch (error) {
+    console.error('Mark messages read error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
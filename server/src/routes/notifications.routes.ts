@@ -0,0 +1,104 @@
+import { Router } from 'express';
+import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
+import { getRepositories } from '../repositories/index.js';
+import { toNotificationDTO } from '../repositories/dto.js';
+
+const router = Router();
+
+// Get the current user's notifications, newest first
+router.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 20, unread } = req.query;
+    const pageSize = Math.min(Math.max(Number(limit) || 20, 1), 100);
+    const offset = (Math.max(Number(page) || 1, 1) - 1) * pageSize;
+    const { notifications } = await getRepositories();
+    const { notifications: rows, total } = await notifications.listForUser(req.user!.id, {
+      unreadOnly: unread === 'true',
+      page: { limit: pageSize, offset }
+    });
+
+    res.json({
+      notifications: rows.map(toNotificationDTO),
+      unreadCount: await notifications.countUnread(req.user!.id),
+      pagination: {
+        page: Math.max(Number(page) || 1, 1),
+        limit: pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the number of unread notifications
+router.get('/unread-count', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { notifications } = await getRepositories();
+    res.json({ unreadCount: await notifications.countUnread(req.user!.id) });
+  } catch (error) {
+    console.error('Get unread count error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark all notifications as read
+router.put('/read-all', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { notifications } = await getRepositories();
+    const updated = await notifications.markAllRead(req.user!.id);
+
+    res.json({ message: 'All notifications marked as read', updated, unreadCount: 0 });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark a single notification as read
+router.put('/:id/read', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const notificationId = parseInt(req.params.id);
+    const { notifications } = await getRepositories();
+
+    const notification = await notifications.findOwned(notificationId, req.user!.id);
+    if (!notification) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    await notifications.markRead(notificationId);
+    const updated = await notifications.findById(notificationId);
+
+    res.json({
+      notification: toNotificationDTO(updated!),
+      unreadCount: await notifications.countUnread(req.user!.id)
+    });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a notification
+router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const notificationId = parseInt(req.params.id);
+    const { notifications } = await getRepositories();
+
+    if (!await notifications.delete(notificationId, req.user!.id)) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    res.json({
+      message: 'Notification deleted successfully',
+      unreadCount: await notifications.countUnread(req.user!.id)
+    });
+  } catch (error) {
+    console.error('Delete notification error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
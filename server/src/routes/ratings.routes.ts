@@ -1,30 +1,23 @@
 import { Router } from 'express';
-import { getDatabase } from '../database/db.js';
 import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
 import { validateBody, ratingSchema } from '../middleware/validation.js';
-import type { Rating } from '../database/schema.js';
+import { emitSwapEvent } from '../services/swapEvents.js';
+import { getRepositories, withTransaction } from '../repositories/index.js';
+import { toRatingDTO, toRatingSummaryDTO } from '../repositories/dto.js';
 
 const router = Router();
 
-// Helper function to get database connection
-const getDb = async () => {
-  return await getDatabase();
-};
-
 // Add rating for completed swap
 router.post('/swap/:swapId', authenticateToken, validateBody(ratingSchema), async (req: AuthRequest, res) => {
   try {
     const swapId = parseInt(req.params.swapId);
     const { rating, feedback } = req.body;
-    const db = await getDb();
+    const { swaps, ratings } = await getRepositories();
 
-    // Get the swap request
-    const swapRequest = await db.get(
-      `SELECT * FROM swap_requests WHERE id = ? AND status = 'completed'`,
-      [swapId]
-    );
+    // Get the swap request along with the provider (owner of the requested skill)
+    const swapRequest = await swaps.findWithProvider(swapId);
 
-    if (!swapRequest) {
+    if (!swapRequest || swapRequest.status !== 'completed') {
       return res.status(404).json({ error: 'Completed swap request not found' });
     }
 
@@ -39,38 +32,23 @@ router.post('/swap/:swapId', authenticateToken, validateBody(ratingSchema), asyn
       : swapRequest.requesterId;
 
     // Check if rating already exists
-    const existingRating = await db.get(
-      `SELECT id FROM ratings WHERE swapId = ? AND raterId = ?`,
-      [swapId, req.user!.id]
-    );
+    const existingRating = await ratings.findBySwapAndRater(swapId, req.user!.id);
 
     if (existingRating) {
       return res.status(400).json({ error: 'You have already rated this swap' });
     }
 
-    // Insert rating
-    await db.run(
-      `INSERT INTO ratings (swapId, raterId, ratedId, rating, feedback, createdAt, updatedAt)
-       VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
-      [swapId, req.user!.id, ratedId, rating, feedback || null]
-    );
+    // The rating and the copy kept on the swap are saved together
+    await withTransaction(async ({ ratings, swaps }) => {
+      await ratings.create({ swapId, raterId: req.user!.id, userId: ratedId, rating, comment: feedback || null });
+      const side = req.user!.id === swapRequest.requesterId ? 'requester' : 'receiver';
+      await swaps.recordRating(swapId, side, rating, feedback || null);
+    });
 
-    // Update the swap with the rating
-    if (req.user!.id === swapRequest.requesterId) {
-      await db.run(
-        `UPDATE swap_requests 
-         SET ratingByRequester = ?, feedbackByRequester = ?, updatedAt = CURRENT_TIMESTAMP
-         WHERE id = ?`,
-        [rating, feedback || null, swapId]
-      );
-    } else {
-      await db.run(
-        `UPDATE swap_requests 
-         SET ratingByProvider = ?, feedbackByProvider = ?, updatedAt = CURRENT_TIMESTAMP
-         WHERE id = ?`,
-        [rating, feedback || null, swapId]
-      );
-    }
+    await emitSwapEvent(swapId, req.user!.id, {
+      type: 'rating.received',
+      rating: { rating, feedback: feedback || null }
+    });
 
     res.status(201).json({ message: 'Rating added successfully' });
   } catch (error) {
@@ -84,35 +62,13 @@ router.post('/swap/:swapId', authenticateToken, validateBody(ratingSchema), asyn
 router.get('/user/:userId', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = parseInt(req.params.userId);
-    const db = await getDb();
-
-    // Get all ratings for the user
-    const ratings = await db.all(
-      `SELECT r.rating, r.comment as feedback, r.createdAt,
-              u.fullName as raterName, u.profilePicture as raterPhoto
-       FROM ratings r
-       JOIN users u ON r.raterId = u.id
-       WHERE r.userId = ?
-       ORDER BY r.createdAt DESC`,
-      [userId]
-    ) as Rating[];
+    const { ratings } = await getRepositories();
 
-    // Get average rating and total count
-    const ratingStats = await db.get(
-      `SELECT AVG(rating) as avgRating, COUNT(*) as totalRatings
-       FROM ratings 
-       WHERE userId = ?`,
-      [userId]
-    ) as { avgRating: number | null; totalRatings: number } | undefined;
+    const [received, summary] = await Promise.all([ratings.listForUser(userId), ratings.summaryFor(userId)]);
 
     res.json({
-      ratings: ratings.map(rating => ({
-        ...rating,
-        // Convert SQLite timestamp to ISO string
-        createdAt: new Date(rating.createdAt).toISOString()
-      })),
-      avgRating: ratingStats?.avgRating ? Number(ratingStats.avgRating.toFixed(1)) : null,
-      totalRatings: ratingStats?.totalRatings || 0
+      ratings: received.map(toRatingDTO),
+      ...toRatingSummaryDTO(summary)
     });
   } catch (error) {
     console.error('Get ratings error:', error);
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
+import { RATE_LIMITS, rateLimitByUser } from '../middleware/rateLimit.js';
+import { validateBody, reportSchema } from '../middleware/validation.js';
+import { getRepositories } from '../repositories/index.js';
+
+const router = Router();
+
+// Report another user to the moderators
+router.post('/', authenticateToken, rateLimitByUser('reports', RATE_LIMITS.reports), validateBody(reportSchema), async (req: AuthRequest, res) => {
+  try {
+    const { userId, reason, details } = req.body;
+
+    if (userId === req.user!.id) {
+      return res.status(400).json({ error: 'You cannot report yourself' });
+    }
+
+    const { users, reports } = await getRepositories();
+    const reportedUser = await users.findById(userId);
+    if (!reportedUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (await reports.findOpen(req.user!.id, userId)) {
+      return res.status(400).json({ error: 'You have already reported this user; a moderator will look into it' });
+    }
+
+    const id = await reports.create({ reporterId: req.user!.id, reportedUserId: userId, reason, details });
+
+    res.status(201).json({ message: 'Thanks, a moderator will review your report', id });
+  } catch (error) {
+    console.error('Create report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,304 @@
+import { Router } from 'express';
+import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
+import { validateBody, sessionProposalSchema } from '../middleware/validation.js';
+import type { SwapRequest } from '../database/schema.js';
+import { getSwapDetails, getCounterpartId, emitSwapEvent } from '../services/swapEvents.js';
+import { getRepositories, withTransaction } from '../repositories/index.js';
+import { toUpcomingSessionDTO } from '../repositories/dto.js';
+
+const router = Router();
+
+const isParticipant = (swap: SwapRequest, userId: number) =>
+  swap.requesterId === userId || swap.providerId === userId;
+
+// Normalise a validated proposal body to UTC start/end strings
+const resolveTimes = (body: { startTime: string; endTime?: string; durationMinutes: number }) => {
+  const start = new Date(body.startTime);
+  const end = body.endTime
+    ? new Date(body.endTime)
+    : new Date(start.getTime() + body.durationMinutes * 60 * 1000);
+  return { startTime: start.toISOString(), endTime: end.toISOString() };
+};
+
+// Upcoming confirmed sessions and open proposals across all of the user's swaps
+router.get('/sessions/upcoming', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.id;
+    const { swapSessions } = await getRepositories();
+
+    const sessions = await swapSessions.listUpcoming(userId, new Date().toISOString());
+
+    res.json(sessions.map(session => toUpcomingSessionDTO(session, userId)));
+  } catch (error) {
+    console.error('Get upcoming sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// All sessions of a swap, proposals included
+router.get('/:id/schedule', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const swapId = parseInt(req.params.id);
+    const swap = await getSwapDetails(swapId);
+
+    if (!swap) {
+      return res.status(404).json({ error: 'Swap request not found' });
+    }
+
+    if (!isParticipant(swap, req.user!.id)) {
+      return res.status(403).json({ error: 'You are not part of this swap' });
+    }
+
+    const { swapSessions } = await getRepositories();
+    res.json({
+      sessions: await swapSessions.listForSwap(swapId),
+      canSchedule: swap.status === 'accepted'
+    });
+  } catch (error) {
+    console.error('Get swap schedule error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Propose a session time
+router.post('/:id/schedule', authenticateToken, validateBody(sessionProposalSchema), async (req: AuthRequest, res) => {
+  try {
+    const swapId = parseInt(req.params.id);
+    const userId = req.user!.id;
+    const { swapSessions } = await getRepositories();
+
+    const swap = await getSwapDetails(swapId);
+    if (!swap) {
+      return res.status(404).json({ error: 'Swap request not found' });
+    }
+
+    if (!isParticipant(swap, userId)) {
+      return res.status(403).json({ error: 'You are not part of this swap' });
+    }
+
+    if (swap.status !== 'accepted') {
+      return res.status(400).json({ error: 'Sessions can only be scheduled for accepted swaps' });
+    }
+
+    const { startTime, endTime } = resolveTimes(req.body);
+    const conflicts = await swapSessions.findConflicts([userId], startTime, endTime);
+    if (conflicts.length > 0) {
+      return res.status(409).json({ error: 'You already have a confirmed session at that time', conflicts });
+    }
+
+    const sessionId = await swapSessions.create({
+      swapId,
+      proposedBy: userId,
+      startTime,
+      endTime,
+      location: req.body.location || null
+    });
+    await swapSessions.syncProposedFields(swapId);
+
+    const session = await swapSessions.find(swapId, sessionId);
+    await emitSwapEvent(swapId, userId, { type: 'session.proposed', session });
+
+    res.status(201).json({ session });
+  } catch (error) {
+    console.error('Propose session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Answer a proposal with a different time
+router.post('/:id/schedule/:sessionId/counter', authenticateToken, validateBody(sessionProposalSchema), async (req: AuthRequest, res) => {
+  try {
+    const swapId = parseInt(req.params.id);
+    const sessionId = parseInt(req.params.sessionId);
+    const userId = req.user!.id;
+    const { swapSessions } = await getRepositories();
+
+    const swap = await getSwapDetails(swapId);
+    if (!swap) {
+      return res.status(404).json({ error: 'Swap request not found' });
+    }
+
+    if (!isParticipant(swap, userId)) {
+      return res.status(403).json({ error: 'You are not part of this swap' });
+    }
+
+    if (swap.status !== 'accepted') {
+      return res.status(400).json({ error: 'Sessions can only be scheduled for accepted swaps' });
+    }
+
+    const original = await swapSessions.find(swapId, sessionId);
+    if (!original || original.status !== 'proposed') {
+      return res.status(404).json({ error: 'Open proposal not found' });
+    }
+
+    if (original.proposedBy === userId) {
+      return res.status(400).json({ error: 'You cannot counter your own proposal' });
+    }
+
+    const { startTime, endTime } = resolveTimes(req.body);
+    const conflicts = await swapSessions.findConflicts([userId], startTime, endTime);
+    if (conflicts.length > 0) {
+      return res.status(409).json({ error: 'You already have a confirmed session at that time', conflicts });
+    }
+
+    // The proposal is answered and its replacement made together
+    const counterId = await withTransaction(async (repos) => {
+      await repos.swapSessions.respond(sessionId, 'countered', userId);
+      return repos.swapSessions.create({
+        swapId,
+        proposedBy: userId,
+        startTime,
+        endTime,
+        location: req.body.location ?? original.location ?? null,
+        counterOf: sessionId
+      });
+    });
+    await swapSessions.syncProposedFields(swapId);
+
+    const session = await swapSessions.find(swapId, counterId);
+    await emitSwapEvent(swapId, userId, { type: 'session.countered', session });
+
+    res.status(201).json({ session });
+  } catch (error) {
+    console.error('Counter session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Accept the other participant's proposal
+router.post('/:id/schedule/:sessionId/confirm', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const swapId = parseInt(req.params.id);
+    const sessionId = parseInt(req.params.sessionId);
+    const userId = req.user!.id;
+    const { swapSessions } = await getRepositories();
+
+    const swap = await getSwapDetails(swapId);
+    if (!swap) {
+      return res.status(404).json({ error: 'Swap request not found' });
+    }
+
+    if (!isParticipant(swap, userId)) {
+      return res.status(403).json({ error: 'You are not part of this swap' });
+    }
+
+    if (swap.status !== 'accepted') {
+      return res.status(400).json({ error: 'Sessions can only be scheduled for accepted swaps' });
+    }
+
+    const proposal = await swapSessions.find(swapId, sessionId);
+    if (!proposal || proposal.status !== 'proposed') {
+      return res.status(404).json({ error: 'Open proposal not found' });
+    }
+
+    if (proposal.proposedBy === userId) {
+      return res.status(400).json({ error: 'The other participant has to confirm your proposal' });
+    }
+
+    if (new Date(proposal.startTime).getTime() <= Date.now()) {
+      return res.status(400).json({ error: 'This proposal is in the past' });
+    }
+
+    // Both participants must be free, not just the one confirming
+    const conflicts = await swapSessions.findConflicts(
+      [userId, getCounterpartId(swap, userId)],
+      proposal.startTime,
+      proposal.endTime,
+      sessionId
+    );
+    if (conflicts.length > 0) {
+      return res.status(409).json({ error: 'This session overlaps another confirmed session', conflicts });
+    }
+
+    await swapSessions.respond(sessionId, 'confirmed', userId);
+    await swapSessions.syncProposedFields(swapId);
+
+    const session = await swapSessions.find(swapId, sessionId);
+    await emitSwapEvent(swapId, userId, { type: 'session.confirmed', session });
+
+    res.json({ session });
+  } catch (error) {
+    console.error('Confirm session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Turn down the other participant's proposal
+router.post('/:id/schedule/:sessionId/decline', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const swapId = parseInt(req.params.id);
+    const sessionId = parseInt(req.params.sessionId);
+    const userId = req.user!.id;
+    const { swapSessions } = await getRepositories();
+
+    const swap = await getSwapDetails(swapId);
+    if (!swap) {
+      return res.status(404).json({ error: 'Swap request not found' });
+    }
+
+    if (!isParticipant(swap, userId)) {
+      return res.status(403).json({ error: 'You are not part of this swap' });
+    }
+
+    const proposal = await swapSessions.find(swapId, sessionId);
+    if (!proposal || proposal.status !== 'proposed') {
+      return res.status(404).json({ error: 'Open proposal not found' });
+    }
+
+    if (proposal.proposedBy === userId) {
+      return res.status(400).json({ error: 'Withdraw your own proposal instead of declining it' });
+    }
+
+    await swapSessions.respond(sessionId, 'declined', userId);
+    await swapSessions.syncProposedFields(swapId);
+
+    const session = await swapSessions.find(swapId, sessionId);
+    await emitSwapEvent(swapId, userId, { type: 'session.declined', session });
+
+    res.json({ session });
+  } catch (error) {
+    console.error('Decline session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Withdraw your own proposal or cancel a confirmed session
+router.delete('/:id/schedule/:sessionId', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const swapId = parseInt(req.params.id);
+    const sessionId = parseInt(req.params.sessionId);
+    const userId = req.user!.id;
+    const { swapSessions } = await getRepositories();
+
+    const swap = await getSwapDetails(swapId);
+    if (!swap) {
+      return res.status(404).json({ error: 'Swap request not found' });
+    }
+
+    if (!isParticipant(swap, userId)) {
+      return res.status(403).json({ error: 'You are not part of this swap' });
+    }
+
+    const existing = await swapSessions.findOpen(swapId, sessionId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    if (existing.status === 'proposed' && existing.proposedBy !== userId) {
+      return res.status(400).json({ error: 'Decline the proposal instead of cancelling it' });
+    }
+
+    await swapSessions.respond(sessionId, 'cancelled', userId);
+    await swapSessions.syncProposedFields(swapId);
+
+    const session = await swapSessions.find(swapId, sessionId);
+    await emitSwapEvent(swapId, userId, { type: 'session.cancelled', session });
+
+    res.json({ session });
+  } catch (error) {
+    console.error('Cancel session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
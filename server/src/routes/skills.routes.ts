@@ -1,34 +1,16 @@
 import { Router } from 'express';
-import { getDatabase } from '../database/db.js';
 import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
 import { validateBody, skillSchema } from '../middleware/validation.js';
-import type { Skill } from '../database/schema.js';
+import { getRepositories } from '../repositories/index.js';
+import { toSkillDTO } from '../repositories/dto.js';
 
 const router = Router();
 
-// Helper function to get database connection
-const getDb = async () => {
-  return await getDatabase();
-};
-
 // Get user's skills
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const db = await getDb();
-    const skills = await db.all(
-      `SELECT id, name, 
-              CASE WHEN isOffering = 1 THEN 'offered' ELSE 'wanted' END as type,
-              description, 
-              proficiency as proficiency_level,
-              category,
-              createdAt as created_at
-       FROM skills 
-       WHERE userId = ?
-       ORDER BY type, name`,
-      [req.user!.id]
-    ) as Skill[];
-
-    res.json(skills);
+    const { skills } = await getRepositories();
+    res.json((await skills.listByUser(req.user!.id)).map(toSkillDTO));
   } catch (error) {
     console.error('Get skills error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -37,53 +19,19 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
 
 // Add new skill
 router.post('/', authenticateToken, validateBody(skillSchema), async (req: AuthRequest, res) => {
-  const db = await getDb();
   try {
     const { name, type, description, proficiency_level, category = 'Other' } = req.body;
+    const { skills } = await getRepositories();
 
-    // Validate proficiency level
-    const validProficiencies = ['beginner', 'intermediate', 'advanced', 'expert'];
-    if (!validProficiencies.includes(proficiency_level)) {
-      return res.status(400).json({ error: 'Invalid proficiency level' });
-    }
-
-    // Check if skill already exists for this user
-    const existingSkill = await db.get(
-      `SELECT id FROM skills 
-       WHERE userId = ? AND name = ? AND 
-             ((isOffering = 1 AND ? = 'offered') OR (isSeeking = 1 AND ? = 'wanted'))`,
-      [req.user!.id, name, type, type]
-    );
-
-    if (existingSkill) {
+    if (await skills.isListed(req.user!.id, name, type)) {
       return res.status(400).json({ error: 'You already have this skill listed' });
     }
 
-    const isOffering = type === 'offered' ? 1 : 0;
-    const isSeeking = type === 'wanted' ? 1 : 0;
-
-    const result = await db.run(
-      `INSERT INTO skills (userId, name, isOffering, isSeeking, description, proficiency, category)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      [req.user!.id, name, isOffering, isSeeking, description || null, proficiency_level, category]
-    );
-
-    const skillId = result.lastID;
-
-    const newSkill = await db.get(
-      `SELECT id, name, 
-              CASE WHEN isOffering = 1 THEN 'offered' ELSE 'wanted' END as type,
-              description, 
-              proficiency as proficiency_level,
-              createdAt as created_at
-       FROM skills 
-       WHERE id = ?`,
-      [skillId]
-    ) as Skill;
+    const skill = await skills.create(req.user!.id, { name, type, description, proficiency: proficiency_level, category });
 
     res.status(201).json({
       message: 'Skill added successfully',
-      skill: newSkill
+      skill: toSkillDTO(skill)
     });
   } catch (error) {
     console.error('Add skill error:', error);
@@ -93,35 +41,16 @@ router.post('/', authenticateToken, validateBody(skillSchema), async (req: AuthR
 
 // Update skill
 router.put('/:id', authenticateToken, validateBody(skillSchema), async (req: AuthRequest, res) => {
-  const db = await getDb();
   try {
     const skillId = parseInt(req.params.id);
     const { name, type, description, proficiency_level } = req.body;
+    const { skills } = await getRepositories();
 
-    // Check if skill belongs to user
-    const skill = await db.get(
-      `SELECT id FROM skills WHERE id = ? AND userId = ?`,
-      [skillId, req.user!.id]
-    );
-
-    if (!skill) {
+    if (!(await skills.findOwned(skillId, req.user!.id))) {
       return res.status(404).json({ error: 'Skill not found' });
     }
 
-    const isOffering = type === 'offered' ? 1 : 0;
-    const isSeeking = type === 'wanted' ? 1 : 0;
-
-    await db.run(
-      `UPDATE skills 
-       SET name = ?, 
-           isOffering = ?,
-           isSeeking = ?,
-           description = ?, 
-           proficiency = ?,
-           updatedAt = CURRENT_TIMESTAMP
-       WHERE id = ? AND userId = ?`,
-      [name, isOffering, isSeeking, description || null, proficiency_level, skillId, req.user!.id]
-    );
+    await skills.update(skillId, req.user!.id, { name, type, description, proficiency: proficiency_level });
 
     res.json({ message: 'Skill updated successfully' });
   } catch (error) {
@@ -132,25 +61,13 @@ router.put('/:id', authenticateToken, validateBody(skillSchema), async (req: Aut
 
 // Delete skill
 router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
-  const db = await getDb();
   try {
-    const skillId = parseInt(req.params.id);
+    const { skills } = await getRepositories();
 
-    // Check if skill belongs to user
-    const skill = await db.get(
-      `SELECT id FROM skills WHERE id = ? AND userId = ?`,
-      [skillId, req.user!.id]
-    );
-
-    if (!skill) {
+    if (!(await skills.delete(parseInt(req.params.id), req.user!.id))) {
       return res.status(404).json({ error: 'Skill not found' });
     }
 
-    await db.run(
-      'DELETE FROM skills WHERE id = ? AND userId = ?',
-      [skillId, req.user!.id]
-    );
-
     res.json({ message: 'Skill deleted successfully' });
   } catch (error) {
     console.error('Delete skill error:', error);
@@ -161,17 +78,8 @@ router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
 // Get popular skills
 router.get('/popular', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const db = await getDb();
-    const popularSkills = await db.all(`
-      SELECT name, COUNT(*) as count
-      FROM skills
-      WHERE name IS NOT NULL
-      GROUP BY name
-      ORDER BY count DESC
-      LIMIT 20
-    `);
-
-    res.json(popularSkills);
+    const { skills } = await getRepositories();
+    res.json(await skills.findPopular(20));
   } catch (error) {
     console.error('Get popular skills error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
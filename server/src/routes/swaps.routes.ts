@@ -1,68 +1,20 @@
 import { Router } from 'express';
-import { getDatabase } from '../database/db.js';
 import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
-import { validateBody, swapRequestSchema } from '../middleware/validation.js';
-import type { SwapRequest } from '../database/schema.js';
+import { RATE_LIMITS, rateLimitByUser } from '../middleware/rateLimit.js';
+import { validateBody, swapRequestSchema, swapStatusUpdateSchema } from '../middleware/validation.js';
+import { getSwapDetails, emitSwapEvent, publishSwapEvent } from '../services/swapEvents.js';
+import { getActiveBan } from '../services/bans.js';
+import { getRepositories } from '../repositories/index.js';
 
 const router = Router();
 
-// Helper function to get database connection
-const getDb = async () => {
-  return await getDatabase();
-};
-
 // Get user's swap requests
 router.get('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { status, type = 'all' } = req.query as { status?: string; type?: string };
+    const { swaps } = await getRepositories();
 
-    let query = `
-      SELECT sr.*, 
-             requester.fullName as requesterName,
-             requester.profilePicture as requesterPhoto,
-             provider.fullName as providerName,
-             provider.profilePicture as providerPhoto,
-             os.name as offeredSkillName,
-             ws.name as wantedSkillName
-      FROM swap_requests sr
-      JOIN users requester ON sr.requesterId = requester.id
-      JOIN skills ws ON sr.skillRequestedId = ws.id
-      JOIN users provider ON ws.userId = provider.id
-      JOIN skills os ON sr.skillOfferedId = os.id
-      WHERE (sr.requesterId = ? OR ws.userId = ?)
-    `;
-
-    const queryParams: (string | number)[] = [req.user!.id, req.user!.id];
-
-    if (status) {
-      query += ` AND sr.status = ?`;
-      queryParams.push(status);
-    }
-
-    if (type === 'sent') {
-      query += ` AND sr.requesterId = ?`;
-      queryParams.push(req.user!.id);
-    } else if (type === 'received') {
-      query += ` AND ws.userId = ?`;
-      queryParams.push(req.user!.id);
-    }
-
-    query += ` ORDER BY sr.createdAt DESC`;
-
-    const db = await getDb();
-    
-    // Log the query for debugging
-    console.log('Executing query:', query);
-    console.log('With params:', queryParams);
-    
-    const swapRequests = await db.all(query, ...queryParams);
-    
-    if (!swapRequests) {
-      console.warn('No swap requests found for user:', req.user!.id);
-      return res.json([]);
-    }
-    
-    res.json(swapRequests);
+    res.json(await swaps.listForUser(req.user!.id, { status, type }));
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     const errorStack = error instanceof Error ? error.stack : undefined;
@@ -81,7 +33,7 @@ router.get('/', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Create swap request
-router.post('/', authenticateToken, validateBody(swapRequestSchema), async (req: AuthRequest, res) => {
+router.post('/', authenticateToken, rateLimitByUser('swaps', RATE_LIMITS.swaps), validateBody(swapRequestSchema), async (req: AuthRequest, res) => {
   console.log('=== Creating swap request ===');
   console.log('Authenticated user ID:', req.user?.id);
   console.log('Request body:', req.body);
@@ -109,36 +61,28 @@ router.post('/', authenticateToken, validateBody(swapRequestSchema), async (req:
         received: { providerId, offeredSkillId, wantedSkillId }
       });
     }
-    const db = await getDb();
+    const { skills, swaps } = await getRepositories();
 
     // Validate that the requester owns the offered skill
-    const offeredSkill = await db.get(
-      `SELECT id FROM skills WHERE id = ? AND userId = ? AND isOffering = 1`,
-      [offeredSkillId, req.user!.id]
-    );
+    const offeredSkill = await skills.findOffered(offeredSkillId, req.user!.id);
 
     if (!offeredSkill) {
       return res.status(400).json({ error: 'Invalid offered skill' });
     }
 
     // Validate that the provider owns the wanted skill
-    const wantedSkill = await db.get(
-      `SELECT id FROM skills WHERE id = ? AND userId = ? AND isOffering = 1`,
-      [wantedSkillId, providerId]
-    );
+    const wantedSkill = await skills.findOffered(wantedSkillId, providerId);
 
     if (!wantedSkill) {
       return res.status(400).json({ error: 'Invalid wanted skill' });
     }
 
+    if (await getActiveBan(Number(providerId))) {
+      return res.status(400).json({ error: 'This user is not accepting swap requests' });
+    }
+
     // Check if there's already a pending request
-    const existingRequest = await db.get(
-      `SELECT id FROM swap_requests 
-       WHERE requesterId = ? 
-       AND skillRequestedId = ?
-       AND status = 'pending'`,
-      [req.user!.id, wantedSkillId]
-    );
+    const existingRequest = await swaps.findPending(req.user!.id, wantedSkillId);
 
     if (existingRequest) {
       return res.status(400).json({ 
@@ -147,20 +91,14 @@ router.post('/', authenticateToken, validateBody(swapRequestSchema), async (req:
     }
 
     // Create the swap request
-    const result = await db.run(
-      `INSERT INTO swap_requests (
-        requesterId, skillOfferedId, skillRequestedId, 
-        message, status, createdAt, updatedAt
-      ) VALUES (?, ?, ?, ?, 'pending', datetime('now'), datetime('now'))`,
-      [
-        req.user!.id,
-        offeredSkillId,
-        wantedSkillId,
-        message
-      ]
-    );
+    const swapRequestId = await swaps.create({
+      requesterId: req.user!.id,
+      skillOfferedId: offeredSkillId,
+      skillRequestedId: wantedSkillId,
+      message
+    });
 
-    const swapRequestId = result.lastID;
+    await emitSwapEvent(swapRequestId, req.user!.id, { type: 'swap.created' });
 
     res.status(201).json({
       message: 'Swap request created successfully',
@@ -190,7 +128,7 @@ router.post('/', authenticateToken, validateBody(swapRequestSchema), async (req:
 });
 
 // Update swap request status
-router.put('/:id/status', authenticateToken, async (req: AuthRequest, res) => {
+router.put('/:id/status', authenticateToken, validateBody(swapStatusUpdateSchema), async (req: AuthRequest, res) => {
   try {
     const swapRequestId = parseInt(req.params.id);
     const { status } = req.body;
@@ -200,28 +138,16 @@ router.put('/:id/status', authenticateToken, async (req: AuthRequest, res) => {
     console.log('Requested status:', status);
     console.log('Swap request ID:', swapRequestId);
 
-    if (!['accepted', 'rejected', 'completed', 'cancelled'].includes(status)) {
-      return res.status(400).json({ error: 'Invalid status' });
-    }
-
-    const db = await getDb();
+    const { swaps } = await getRepositories();
     
     // First, get the swap request with basic info
-    const swapRequest = await db.get(
-      `SELECT sr.*, 
-              s.userId as skillOwnerId,
-              sr.requesterId = ? as isRequester
-       FROM swap_requests sr
-       JOIN skills s ON sr.skillRequestedId = s.id
-       WHERE sr.id = ?`,
-      [req.user!.id, swapRequestId]
-    ) as (SwapRequest & { skillOwnerId: number, isRequester: number }) | undefined;
+    const swapRequest = await swaps.findWithProvider(swapRequestId);
     
     console.log('Swap request details:', {
       swapRequest,
       currentUserId: req.user!.id,
-      isRequester: swapRequest?.isRequester,
-      isSkillOwner: swapRequest?.skillOwnerId === req.user!.id
+      isRequester: swapRequest?.requesterId === req.user!.id,
+      isSkillOwner: swapRequest?.providerId === req.user!.id
     });
 
     if (!swapRequest) {
@@ -231,14 +157,14 @@ router.put('/:id/status', authenticateToken, async (req: AuthRequest, res) => {
     // Check authorization based on status change
     if (['accepted', 'rejected'].includes(status)) {
       // Only the skill owner (provider) can accept/reject
-      if (swapRequest.skillOwnerId !== req.user!.id) {
+      if (swapRequest.providerId !== req.user!.id) {
         console.log('User is not authorized to accept/reject this request');
         return res.status(403).json({ 
           error: 'Only the provider can accept or reject the request',
           debug: {
-            providerId: swapRequest.skillOwnerId,
+            providerId: swapRequest.providerId,
             currentUserId: req.user!.id,
-            isProvider: swapRequest.skillOwnerId === req.user!.id,
+            isProvider: swapRequest.providerId === req.user!.id,
             status: status
           }
         });
@@ -255,7 +181,7 @@ router.put('/:id/status', authenticateToken, async (req: AuthRequest, res) => {
       // Only the requester can cancel
       if (swapRequest.requesterId !== req.user!.id) {
         // If the provider is trying to cancel, suggest they reject it instead
-        if (swapRequest.skillOwnerId === req.user!.id) {
+        if (swapRequest.providerId === req.user!.id) {
           return res.status(400).json({
             error: 'You cannot cancel this request',
             suggestion: 'As the provider, you should use the reject option instead of cancel',
@@ -274,42 +200,27 @@ router.put('/:id/status', authenticateToken, async (req: AuthRequest, res) => {
       }
     } else if (status === 'completed') {
       // Either the requester or provider can mark as completed
-      if (swapRequest.requesterId !== req.user!.id && swapRequest.skillOwnerId !== req.user!.id) {
+      if (swapRequest.requesterId !== req.user!.id && swapRequest.providerId !== req.user!.id) {
         return res.status(403).json({ 
           error: 'Only the requester or provider can complete the swap',
           debug: {
             requesterId: swapRequest.requesterId,
-            providerId: swapRequest.skillOwnerId,
+            providerId: swapRequest.providerId,
             currentUserId: req.user!.id
           }
         });
       }
     }
 
-    // Start a transaction
-    await db.run('BEGIN TRANSACTION');
-    
-    try {
-      // Update the status
-      await db.run(
-        'UPDATE swap_requests SET status = ?, updatedAt = datetime("now") WHERE id = ?',
-        [status, swapRequestId]
-      );
-      
-      // If the status is 'completed', set the completedAt timestamp
-      if (status === 'completed') {
-        await db.run(
-          'UPDATE swap_requests SET completedAt = datetime("now") WHERE id = ?',
-          [swapRequestId]
-        );
-      }
+    await swaps.updateStatus(swapRequestId, status);
 
-      await db.run('COMMIT');
-      res.json({ message: `Swap request ${status} successfully` });
-    } catch (error) {
-      await db.run('ROLLBACK');
-      throw error;
-    }
+    await emitSwapEvent(swapRequestId, req.user!.id, {
+      type: 'swap.status_changed',
+      status,
+      previousStatus: swapRequest.status
+    });
+
+    res.json({ message: `Swap request ${status} successfully` });
   } catch (error) {
     console.error('Error updating swap request status:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -321,51 +232,34 @@ router.put('/:id/status', authenticateToken, async (req: AuthRequest, res) => {
 router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const swapRequestId = parseInt(req.params.id);
-    const db = await getDb();
+    const { swaps } = await getRepositories();
     
-    // Get the swap request with skill information
-    const swapRequest = await db.get<{ skillRequestedId: number, requesterId: number }>(
-      `SELECT sr.skillRequestedId, sr.requesterId 
-       FROM swap_requests sr
-       WHERE sr.id = ?`,
-      [swapRequestId]
-    );
+    // Get the swap request with its provider
+    const swapRequest = await swaps.findWithProvider(swapRequestId);
 
     if (!swapRequest) {
       return res.status(404).json({ error: 'Swap request not found' });
     }
 
-    // Get the provider's user ID from the requested skill
-    const providerSkill = await db.get<{ userId: number }>(
-      'SELECT userId FROM skills WHERE id = ?',
-      [swapRequest.skillRequestedId]
-    );
-
-    if (!providerSkill) {
-      return res.status(404).json({ error: 'Requested skill not found' });
-    }
-
     // Check if the current user is the provider or the requester
-    if (providerSkill.userId !== req.user!.id && swapRequest.requesterId !== req.user!.id) {
+    if (swapRequest.providerId !== req.user!.id && swapRequest.requesterId !== req.user!.id) {
       return res.status(403).json({ error: 'Not authorized to update this swap request' });
     }
 
     // Only allow deletion of pending requests
-    const swapRequestStatus = await db.get<{ status: string } | undefined>(
-      `SELECT status FROM swap_requests WHERE id = ?`,
-      [swapRequestId]
-    );
-
-    if (!swapRequestStatus) {
-      return res.status(404).json({ error: 'Swap request not found' });
-    }
-
-    if (swapRequestStatus.status !== 'pending') {
+    if (swapRequest.status !== 'pending') {
       return res.status(400).json({ error: 'Only pending swap requests can be deleted' });
     }
 
+    // Keep the details around so the counterpart can drop the row
+    const swapDetails = await getSwapDetails(swapRequestId);
+
     // Delete the swap request
-    await db.run('DELETE FROM swap_requests WHERE id = ?', [swapRequestId]);
+    await swaps.delete(swapRequestId);
+
+    if (swapDetails) {
+      await publishSwapEvent(swapDetails, req.user!.id, { type: 'swap.deleted' });
+    }
 
     res.json({ message: 'Swap request deleted successfully' });
   } catch (error) {
@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
+import { validateBody, twoFactorCodeSchema } from '../middleware/validation.js';
+import { RATE_LIMITS, rateLimitByUser } from '../middleware/rateLimit.js';
+import { markSessionTwoFactorVerified } from '../services/sessions.js';
+import { getUserRole, isStaffRole } from '../services/permissions.js';
+import {
+  TwoFactorError,
+  beginEnrollment,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  verifySecondFactor
+} from '../services/twoFactor.js';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    res.json(await getTwoFactorStatus(req.user!.id));
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Get two-factor status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// New secret and QR code for the authenticator app; 2FA stays off until /enable
+router.post('/setup', async (req: AuthRequest, res) => {
+  try {
+    res.json(await beginEnrollment(req.user!.id));
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Confirm setup with a code from the app. The device enabling it counts as verified.
+router.post('/enable', rateLimitByUser('twoFactor', RATE_LIMITS.twoFactor), validateBody(twoFactorCodeSchema), async (req: AuthRequest, res) => {
+  try {
+    const recoveryCodes = await enableTwoFactor(req.user!.id, req.body.code);
+    await markSessionTwoFactorVerified(req.user!.sid);
+
+    res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Enable two-factor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/disable', rateLimitByUser('twoFactor', RATE_LIMITS.twoFactor), validateBody(twoFactorCodeSchema), async (req: AuthRequest, res) => {
+  try {
+    const role = await getUserRole(req.user!.id);
+    if (role && isStaffRole(role)) {
+      return res.status(400).json({ error: 'Staff accounts must keep two-factor authentication on' });
+    }
+
+    if (!(await verifySecondFactor(req.user!.id, req.body.code))) {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    await disableTwoFactor(req.user!.id);
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replace the recovery codes, e.g. after using several of them
+router.post('/recovery-codes', rateLimitByUser('twoFactor', RATE_LIMITS.twoFactor), validateBody(twoFactorCodeSchema), async (req: AuthRequest, res) => {
+  try {
+    if (!(await verifySecondFactor(req.user!.id, req.body.code))) {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(req.user!.id);
+    res.json({ message: 'New recovery codes generated', recoveryCodes });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,51 +1,57 @@
 import { Router } from 'express';
-import { getDatabase } from '../database/db.js';
+import bcrypt from 'bcryptjs';
 import { authenticateToken, type AuthRequest } from '../middleware/auth.js';
-import type { User, Skill } from '../database/schema.js';
+import { validateBody, availabilitySchema, accountDeletionSchema, profileUpdateSchema } from '../middleware/validation.js';
+import { RATE_LIMITS, rateLimitByUser } from '../middleware/rateLimit.js';
+import { getUserPermissions } from '../services/permissions.js';
+import { buildUserDataExport } from '../services/dataExport.js';
+import {
+  AccountDeletionError,
+  DELETION_GRACE_DAYS,
+  cancelAccountDeletion,
+  requestAccountDeletion
+} from '../services/accountDeletion.js';
+import {
+  getAvailabilities,
+  getAvailability,
+  isAvailableAt,
+  overlapMinutes,
+  saveAvailability
+} from '../services/availability.js';
+import { getRepositories } from '../repositories/index.js';
+import {
+  toAccountDTO,
+  toRatingSummaryDTO,
+  toSearchUserDTO,
+  toSkillDTO,
+  toUserSummaryDTO
+} from '../repositories/dto.js';
 
 const router = Router();
 
-// Helper function to get database connection
-const getDb = async () => {
-  return await getDatabase();
-};
-
 // Get current user profile
 router.get('/profile', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const db = await getDb();
-    
-    const user = await db.get(`
-      SELECT id, email, fullName as name, location, profilePicture as profile_photo, isAdmin
-      FROM users WHERE id = ?
-    `, [req.user!.id]) as User | undefined;
+    const { users, skills, ratings } = await getRepositories();
+    const user = await users.findById(req.user!.id);
 
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Get user's skills
-    const skills = await db.all(`
-      SELECT id, name, description, 
-             CASE WHEN isOffering = 1 THEN 'offered' ELSE 'wanted' END as type,
-             proficiency as proficiency_level
-      FROM skills 
-      WHERE userId = ?
-      ORDER BY type, name
-    `, [user.id]) as Skill[];
-
-    // Get user's average rating
-    const ratingResult = await db.get(`
-      SELECT rating as avg_rating, 
-             (SELECT COUNT(*) FROM reviews WHERE userId = ?) as total_ratings
-      FROM users WHERE id = ?
-    `, [user.id, user.id]) as { avg_rating: number | null; total_ratings: number };
+    const [userSkills, ratingSummary, permissions, { timezone, slots }] = await Promise.all([
+      skills.listByUser(user.id),
+      ratings.summaryFor(user.id),
+      getUserPermissions(user.id),
+      getAvailability(user.id)
+    ]);
 
     res.json({
-      ...user,
-      skills,
-      avg_rating: ratingResult.avg_rating ? Number(ratingResult.avg_rating.toFixed(1)) : null,
-      total_ratings: ratingResult.total_ratings
+      ...toAccountDTO(user, permissions),
+      skills: userSkills.map(toSkillDTO),
+      timezone,
+      availability: slots,
+      ...toRatingSummaryDTO(ratingSummary)
     });
   } catch (error) {
     console.error('Get profile error:', error);
@@ -54,17 +60,16 @@ router.get('/profile', authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Update user profile
-router.put('/profile', authenticateToken, async (req: AuthRequest, res) => {
+router.put('/profile', authenticateToken, validateBody(profileUpdateSchema), async (req: AuthRequest, res) => {
   try {
-    const db = await getDb();
-    const { name, location, isPublic } = req.body;
-    
-    await db.run(
-      `UPDATE users 
-       SET fullName = ?, location = ?, isPublic = ?, updatedAt = CURRENT_TIMESTAMP 
-       WHERE id = ?`,
-      [name, location, isPublic ? 1 : 0, req.user!.id]
-    );
+    const { name, location, is_public } = req.body;
+    const { users } = await getRepositories();
+
+    await users.updateProfile(req.user!.id, {
+      fullName: name,
+      location: location || null,
+      isPublic: is_public
+    });
 
     res.json({ message: 'Profile updated successfully' });
   } catch (error) {
@@ -73,67 +78,121 @@ router.put('/profile', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Search users by skill
+// Get current user's weekly availability
+router.get('/profile/availability', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    res.json(await getAvailability(req.user!.id));
+  } catch (error) {
+    console.error('Get availability error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replace current user's weekly availability
+router.put('/profile/availability', authenticateToken, validateBody(availabilitySchema), async (req: AuthRequest, res) => {
+  try {
+    const availability = await saveAvailability(req.user!.id, req.body);
+    res.json({ message: 'Availability updated successfully', ...availability });
+  } catch (error) {
+    console.error('Update availability error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Download everything stored about the current user as JSON
+router.get('/me/export', authenticateToken, rateLimitByUser('data-export', RATE_LIMITS.dataExport), async (req: AuthRequest, res) => {
+  try {
+    const data = await buildUserDataExport(req.user!.id);
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.set('Content-Disposition', `attachment; filename="skillswap-export-${date}.json"`);
+    res.type('application/json').send(JSON.stringify(data, null, 2));
+  } catch (error) {
+    console.error('Export user data error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Schedule the current user's account for deletion after the grace period
+router.delete('/me', authenticateToken, validateBody(accountDeletionSchema), async (req: AuthRequest, res) => {
+  try {
+    const { users } = await getRepositories();
+    const user = await users.findById(req.user!.id);
+
+    if (!user || !(await bcrypt.compare(req.body.password, user.password))) {
+      return res.status(401).json({ error: 'Password is incorrect' });
+    }
+
+    const deletionScheduledFor = await requestAccountDeletion(req.user!.id, req.ip);
+    res.json({
+      message: `Your account will be deleted in ${DELETION_GRACE_DAYS} days unless you cancel`,
+      deletionScheduledFor
+    });
+  } catch (error) {
+    if (error instanceof AccountDeletionError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Request account deletion error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Call off a pending deletion of the current user's account
+router.delete('/me/deletion', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    if (!(await cancelAccountDeletion(req.user!.id, req.ip))) {
+      return res.status(404).json({ error: 'No account deletion is pending' });
+    }
+    res.json({ message: 'Account deletion cancelled' });
+  } catch (error) {
+    console.error('Cancel account deletion error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Search users by skill, optionally by availability
 router.get('/search', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const db = await getDb();
-    const { skill, page = 1, limit = 10 } = req.query;
+    const { skill, availableAt, overlapsWithMe, page = 1, limit = 10 } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
 
-    // First, get the total count
-    let countQuery = `
-      SELECT COUNT(DISTINCT u.id) as count
-      FROM users u
-      LEFT JOIN skills s ON u.id = s.userId
-      WHERE u.id != ?
-    `;
-
-    let query = `
-      SELECT DISTINCT u.id, u.fullName as name, u.location, u.profilePicture as profile_photo,
-             GROUP_CONCAT(DISTINCT CASE WHEN s.isOffering = 1 THEN s.name END) as offered_skills,
-             GROUP_CONCAT(DISTINCT CASE WHEN s.isSeeking = 1 THEN s.name END) as wanted_skills,
-             u.rating as avg_rating,
-             (SELECT COUNT(*) FROM reviews WHERE userId = u.id) as total_ratings
-      FROM users u
-      LEFT JOIN skills s ON u.id = s.userId
-      WHERE u.id != ?
-    `;
-
-    const params: any[] = [req.user!.id];
-    const countParams: any[] = [req.user!.id];
-
-    if (skill) {
-      query += ` AND s.name LIKE ?`;
-      countQuery += ` AND s.name LIKE ?`;
-      const skillParam = `%${skill}%`;
-      params.push(skillParam);
-      countParams.push(skillParam);
+    const availableAtDate = availableAt ? new Date(String(availableAt)) : null;
+    if (availableAtDate && isNaN(availableAtDate.getTime())) {
+      return res.status(400).json({ error: 'availableAt must be an ISO 8601 date-time' });
     }
+    const rankByOverlap = overlapsWithMe === 'true';
+    // Availability filters run in memory, so those searches page after filtering
+    const filterByAvailability = Boolean(availableAtDate) || rankByOverlap;
+
+    const { users } = await getRepositories();
+    const result = await users.search(req.user!.id, {
+      skill: skill ? String(skill) : undefined,
+      page: filterByAvailability ? undefined : { limit: Number(limit), offset }
+    });
 
-    // Add grouping and ordering
-    query += `
-      GROUP BY u.id, u.fullName, u.location, u.profilePicture, u.rating
-      ORDER BY u.fullName
-      LIMIT ? OFFSET ?
-    `;
+    let total = result.total;
+    let processedUsers = result.users.map(toSearchUserDTO);
 
-    params.push(Number(limit), offset);
+    if (filterByAvailability) {
+      const availabilities = await getAvailabilities([req.user!.id, ...processedUsers.map(user => user.id)]);
+      const mine = availabilities.get(req.user!.id)!;
 
-    // Execute both queries in parallel
-    const [users, totalResult] = await Promise.all([
-      db.all(query, ...params),
-      db.get(countQuery, ...countParams)
-    ]);
-    
-    const total = totalResult ? totalResult.count : 0;
+      const matches = processedUsers
+        .filter(user => !availableAtDate || isAvailableAt(availabilities.get(user.id)!, availableAtDate))
+        .map(user => ({
+          ...user,
+          overlap_minutes: overlapMinutes(mine, availabilities.get(user.id)!)
+        }))
+        .filter(user => !rankByOverlap || user.overlap_minutes > 0);
+
+      if (rankByOverlap) {
+        // Stable sort keeps name order among equal overlaps
+        matches.sort((a, b) => b.overlap_minutes - a.overlap_minutes);
+      }
 
-    // Process the results
-    const processedUsers = users.map((user: any) => ({
-      ...user,
-      avg_rating: user.avg_rating ? Number(Number(user.avg_rating).toFixed(1)) : null,
-      offered_skills: user.offered_skills ? user.offered_skills.split(',').filter(Boolean) : [],
-      wanted_skills: user.wanted_skills ? user.wanted_skills.split(',').filter(Boolean) : []
-    }));
+      total = matches.length;
+      processedUsers = matches.slice(offset, offset + Number(limit));
+    }
 
     res.json({
       users: processedUsers,
@@ -153,43 +212,26 @@ router.get('/search', authenticateToken, async (req: AuthRequest, res) => {
 // Get user by ID (public profile)
 router.get('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const db = await getDb();
     const userId = parseInt(req.params.id);
-    
-    const user = await db.get(
-      `SELECT id, email, fullName as name, location, profilePicture as profile_photo, isAdmin
-       FROM users WHERE id = ?`,
-      [userId]
-    ) as User | undefined;
+    const { users, skills, ratings } = await getRepositories();
+    const user = await users.findById(userId);
 
-    if (!user) {
+    if (!user || user.deletedAt) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Get user's skills
-    const skills = await db.all(
-      `SELECT id, name, description, 
-              CASE WHEN isOffering = 1 THEN 'offered' ELSE 'wanted' END as type,
-              proficiency as proficiency_level
-       FROM skills 
-       WHERE userId = ?
-       ORDER BY type, name`,
-      [userId]
-    ) as Skill[];
-
-    // Get user's rating info
-    const ratingResult = await db.get(
-      `SELECT rating as avg_rating, 
-              (SELECT COUNT(*) FROM reviews WHERE userId = ?) as total_ratings
-       FROM users WHERE id = ?`,
-      [userId, userId]
-    ) as { avg_rating: number | null; total_ratings: number };
+    const [userSkills, ratingSummary, { timezone, slots }] = await Promise.all([
+      skills.listByUser(userId),
+      ratings.summaryFor(userId),
+      getAvailability(userId)
+    ]);
 
     res.json({
-      ...user,
-      skills,
-      avg_rating: ratingResult.avg_rating ? Number(Number(ratingResult.avg_rating).toFixed(1)) : null,
-      total_ratings: ratingResult.total_ratings || 0
+      ...toUserSummaryDTO(user),
+      skills: userSkills.map(toSkillDTO),
+      timezone,
+      availability: slots,
+      ...toRatingSummaryDTO(ratingSummary)
     });
   } catch (error) {
     console.error('Get user error:', error);
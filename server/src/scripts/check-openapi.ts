@@ -0,0 +1,39 @@
+#!/usr/bin/env node
+import { apiRoutes } from '../routes/index.js';
+import { operations } from '../openapi/operations.js';
+import { compareWithOperations } from '../openapi/coverage.js';
+import { openApiDocument } from '../openapi/document.js';
+
+// Check that every route the API routers register has an entry in the
+// OpenAPI document, and that the document lists no route that is gone:
+//   npm run docs:check
+// Exits with 1 when they disagree.
+
+function main() {
+  const { routes, undocumented, unserved } = compareWithOperations(apiRoutes, operations);
+
+  for (const route of undocumented) {
+    console.log(`❌ ${route} is registered but has no entry in src/openapi/operations.ts`);
+  }
+  for (const route of unserved) {
+    console.log(`❌ ${route} is documented but no router serves it`);
+  }
+
+  // Building the document converts every schema, so a schema the converter
+  // can't handle fails here rather than on the first request
+  const { paths } = openApiDocument();
+
+  if (undocumented.length > 0 || unserved.length > 0) {
+    console.log(`\n❌ The OpenAPI document is out of step with the ${routes.length} registered routes`);
+    process.exitCode = 1;
+  } else {
+    console.log(`\n✅ ${routes.length} registered routes are documented across ${Object.keys(paths).length} paths`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('❌ OpenAPI check failed:', error);
+  process.exit(1);
+}
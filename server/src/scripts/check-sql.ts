@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+import { relative } from 'path';
+import {
+  SERVER_ROOT,
+  SOURCE_PATHS,
+  checkStatements,
+  collectStatements,
+  compilerOptions,
+  listSourceFiles,
+  openMigratedDatabase,
+  type SqlProblem
+} from '../database/sqlCheck.js';
+
+// Check that the SQL in the server's source only uses tables and columns the
+// migrations create:
+//   npm run db:check-sql [-- <file or directory>...]
+// Exits with 1 when any statement doesn't match the schema.
+
+const preview = (sql: string) => {
+  const line = sql.replace(/\s+/g, ' ').trim();
+  return line.length > 120 ? `${line.slice(0, 117)}...` : line;
+};
+
+function describe({ kind, name, message }: SqlProblem) {
+  if (kind === 'table') return `unknown table ${name}`;
+  if (kind === 'column') return `unknown column ${name}`;
+  return message;
+}
+
+async function main(args: string[]) {
+  const files = await listSourceFiles(args.length ? args : SOURCE_PATHS);
+  const statements = collectStatements(files, compilerOptions());
+
+  const db = await openMigratedDatabase();
+  const problems = await checkStatements(db, statements);
+  await db.close();
+
+  const errors = problems.filter(({ kind }) => kind !== 'unchecked');
+  const unchecked = problems.filter(({ kind }) => kind === 'unchecked');
+
+  for (const problem of [...errors, ...unchecked]) {
+    const { file, line, method, sql } = problem.statement;
+    const icon = problem.kind === 'unchecked' ? '⚠️ ' : '❌';
+    console.log(`${icon} ${relative(SERVER_ROOT, file)}:${line} db.${method}(): ${describe(problem)}`);
+    console.log(`     ${preview(sql)}`);
+  }
+
+  if (unchecked.length > 0) {
+    console.log(`\n${unchecked.length} statement(s) are built at runtime in a way that couldn't be checked`);
+  }
+
+  if (errors.length > 0) {
+    console.log(`\n❌ ${errors.length} of ${statements.length} statements don't match the schema`);
+    process.exitCode = 1;
+  } else {
+    console.log(`\n✅ ${statements.length} statements in ${files.length} files match the schema`);
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error('❌ SQL check failed:', error);
+  process.exit(1);
+});
@@ -1,63 +1,90 @@
 import { getDatabase } from '../database/db';
 import readline from 'readline';
+import os from 'os';
+import type { RoleName } from '../database/schema.js';
+import { ROLE_NAMES, assignRole } from '../services/permissions.js';
+import { diffChanges, recordAuditEvent } from '../services/audit.js';
+
+// Assign a role to a user:
+//   npm run admin:make -- <email> [role]
+// Missing arguments are asked for; the role defaults to admin.
 
 // Create a promise-based question function
 const question = (rl: readline.Interface) => (query: string): Promise<string> => {
   return new Promise((resolve) => rl.question(query, resolve));
 };
 
-async function makeUserAdmin() {
+const isRoleName = (value: string): value is RoleName => (ROLE_NAMES as readonly string[]).includes(value);
+
+async function assignUserRole() {
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout
   });
-  
+
   const ask = question(rl);
   try {
+    const [emailArg, roleArg] = process.argv.slice(2);
+
     // Get user email
-    const email = await ask('Enter the email of the user to make admin: ');
-    
+    const email = emailArg || await ask('Enter the email of the user: ');
+    const role = (roleArg || await ask(`Role (${ROLE_NAMES.join(', ')}) [admin]: `) || 'admin').trim();
+
+    if (!isRoleName(role)) {
+      console.error(`Unknown role "${role}". Choose one of: ${ROLE_NAMES.join(', ')}`);
+      process.exitCode = 1;
+      return;
+    }
+
     // Get database connection
     const db = await getDatabase();
-    
+
     // Check if user exists
-    const user = await db.get('SELECT id, email, isAdmin FROM users WHERE email = ?', [email]);
-    
+    const user = await db.get<{ id: number; role: RoleName }>('SELECT id, role FROM users WHERE email = ?', [email]);
+
     if (!user) {
       console.error(`User with email ${email} not found`);
-      rl.close();
+      process.exitCode = 1;
       return;
     }
-    
-    if (user.isAdmin) {
-      console.log(`User ${email} is already an admin`);
-      rl.close();
+
+    if (user.role === role) {
+      console.log(`User ${email} already has the ${role} role`);
       return;
     }
-    
-    // Confirm before making admin
-    const confirm = await ask(`Are you sure you want to make ${email} an admin? (yes/no): `);
-    
+
+    // Confirm before changing the role
+    const confirm = await ask(`Change ${email} from ${user.role} to ${role}? (yes/no): `);
+
     if (confirm.toLowerCase() !== 'yes') {
       console.log('Operation cancelled');
-      rl.close();
       return;
     }
-    
-    // Update user to admin
-    await db.run('UPDATE users SET isAdmin = 1 WHERE email = ?', [email]);
-    console.log(`Successfully made ${email} an admin`);
-    
+
+    await assignRole(user.id, role);
+    // There is no signed-in actor, so note who ran the script on which machine
+    await recordAuditEvent({
+      action: 'user.role_change',
+      targetType: 'user',
+      targetId: user.id,
+      changes: diffChanges({ role: user.role }, { role }),
+      metadata: { source: 'cli', osUser: os.userInfo().username, host: os.hostname() }
+    });
+    console.log(`Successfully changed ${email} to ${role}`);
+    if (role !== 'user') {
+      console.log('They will need to set up two-factor authentication before using the admin dashboard.');
+    }
   } catch (error) {
-    console.error('Error making user admin:', error);
+    console.error('Error assigning role:', error);
+    process.exitCode = 1;
   } finally {
     rl.close();
   }
 }
 
 // Run the script
-makeUserAdmin().then(() => {
-  process.exit(0);
+assignUserRole().then(() => {
+  process.exit();
 }).catch((error) => {
   console.error('Script failed:', error);
   process.exit(1);
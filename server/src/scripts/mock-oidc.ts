@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import type { Server } from 'http';
+import { pathToFileURL } from 'url';
+
+// A minimal OpenID Connect provider for trying out and testing social login
+// without network access. Anyone can sign in as any email address, so never
+// point a production server at it.
+//
+//   npm run oidc:mock
+//
+// and start the API server with
+//
+//   OIDC_PROVIDERS=mock OIDC_MOCK_ISSUER=http://localhost:4011 OIDC_MOCK_CLIENT_ID=skillswap
+//   OIDC_MOCK_CLIENT_SECRET=mock-secret OIDC_MOCK_NAME="Mock ID"
+
+export interface MockOidcOptions {
+  port?: number;
+  clientId?: string;
+  clientSecret?: string;
+  redirectUris?: string[];
+}
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  claims: { sub: string; email: string; email_verified: boolean; name: string };
+  expiresAt: number;
+}
+
+const CODE_TTL_MS = 60_000;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Stable subject for an email address, like a real provider's account id
+const subjectFor = (email: string) =>
+  crypto.createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24);
+
+export function startMockOidcIssuer(options: MockOidcOptions = {}): Promise<{ issuer: string; close: () => Promise<void> }> {
+  const port = options.port ?? 4011;
+  const clientId = options.clientId ?? 'skillswap';
+  const clientSecret = options.clientSecret ?? 'mock-secret';
+  const redirectUris = options.redirectUris ?? ['http://localhost:3001/api/auth/oidc/mock/callback'];
+  const issuer = `http://localhost:${port}`;
+
+  // A fresh signing key each run; clients pick it up from /jwks
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = crypto.randomBytes(8).toString('hex');
+  const codes = new Map<string, PendingCode>();
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      scopes_supported: ['openid', 'email', 'profile']
+    });
+  });
+
+  app.get('/jwks', (req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' }] });
+  });
+
+  // Checks shared by the sign-in form and its submission
+  const checkAuthorizeRequest = (params: Record<string, unknown>): string | null => {
+    if (params.client_id !== clientId) return 'Unknown client_id';
+    if (typeof params.redirect_uri !== 'string' || !redirectUris.includes(params.redirect_uri)) return 'redirect_uri is not registered';
+    if (params.response_type !== 'code') return 'Only response_type=code is supported';
+    if (typeof params.code_challenge !== 'string' || params.code_challenge_method !== 'S256') return 'PKCE with S256 is required';
+    return null;
+  };
+
+  // Sign-in form. Submitting it plays the part of a user who logged in and consented.
+  app.get('/authorize', (req, res) => {
+    const problem = checkAuthorizeRequest(req.query);
+    if (problem) {
+      return res.status(400).send(escapeHtml(problem));
+    }
+
+    const hidden = ['client_id', 'redirect_uri', 'response_type', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+      .filter((name) => typeof req.query[name] === 'string')
+      .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(req.query[name] as string)}">`)
+      .join('\n');
+
+    res.send(`<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>Mock ID sign-in</title></head>
+<body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto">
+  <h1>Mock ID</h1>
+  <p>Sign in as anyone. This provider is for development only.</p>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" type="email" required value="${escapeHtml(String(req.query.login_hint ?? ''))}"></label></p>
+    <p><label>Name<br><input name="name"></label></p>
+    <p><label><input name="email_verified" type="checkbox" value="true" checked> Email address is verified</label></p>
+    <p><button type="submit">Sign in</button> <button type="submit" name="deny" value="1">Cancel</button></p>
+  </form>
+</body>
+</html>`);
+  });
+
+  app.post('/authorize', (req, res) => {
+    const problem = checkAuthorizeRequest(req.body);
+    if (problem) {
+      return res.status(400).send(escapeHtml(problem));
+    }
+
+    const redirect = new URL(req.body.redirect_uri);
+    if (req.body.state) redirect.searchParams.set('state', req.body.state);
+
+    if (req.body.deny) {
+      redirect.searchParams.set('error', 'access_denied');
+      return res.redirect(redirect.toString());
+    }
+
+    const email = String(req.body.email ?? '').trim();
+    if (!email) {
+      return res.status(400).send('Email is required');
+    }
+
+    const code = crypto.randomBytes(24).toString('base64url');
+    codes.set(code, {
+      redirectUri: req.body.redirect_uri,
+      codeChallenge: req.body.code_challenge,
+      nonce: req.body.nonce,
+      claims: {
+        sub: String(req.body.sub || subjectFor(email)),
+        email,
+        email_verified: req.body.email_verified === 'true',
+        name: String(req.body.name || email.split('@')[0])
+      },
+      expiresAt: Date.now() + CODE_TTL_MS
+    });
+
+    redirect.searchParams.set('code', code);
+    res.redirect(redirect.toString());
+  });
+
+  app.post('/token', (req, res) => {
+    // client_secret_basic, or client_secret_post as a fallback
+    let [id, secret] = [req.body.client_id, req.body.client_secret];
+    const basic = req.get('authorization')?.match(/^Basic (.+)$/);
+    if (basic) {
+      [id, secret] = Buffer.from(basic[1], 'base64').toString().split(':').map(decodeURIComponent);
+    }
+    if (id !== clientId || secret !== clientSecret) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+
+    const pending = codes.get(req.body.code);
+    // Codes work once
+    codes.delete(req.body.code);
+    if (req.body.grant_type !== 'authorization_code' || !pending || pending.expiresAt < Date.now()) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+    if (req.body.redirect_uri !== pending.redirectUri) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'redirect_uri does not match' });
+    }
+
+    const challenge = crypto.createHash('sha256').update(String(req.body.code_verifier ?? '')).digest('base64url');
+    if (challenge !== pending.codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+
+    const idToken = jwt.sign(
+      { ...pending.claims, ...(pending.nonce && { nonce: pending.nonce }) },
+      privateKey,
+      { algorithm: 'RS256', keyid: kid, issuer, audience: clientId, expiresIn: '5m' }
+    );
+
+    res.json({
+      access_token: crypto.randomBytes(24).toString('base64url'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: idToken
+    });
+  });
+
+  return new Promise((resolve) => {
+    const server: Server = app.listen(port, () => {
+      resolve({
+        issuer,
+        close: () => new Promise((done) => server.close(() => done()))
+      });
+    });
+  });
+}
+
+// Run the issuer when this file is started directly rather than imported
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  startMockOidcIssuer({
+    port: Number(process.env.MOCK_OIDC_PORT) || undefined,
+    clientId: process.env.MOCK_OIDC_CLIENT_ID,
+    clientSecret: process.env.MOCK_OIDC_CLIENT_SECRET,
+    redirectUris: process.env.MOCK_OIDC_REDIRECT_URIS?.split(',').map((uri) => uri.trim())
+  }).then(({ issuer }) => {
+    console.log(`Mock OpenID Connect provider running at ${issuer}`);
+  });
+}
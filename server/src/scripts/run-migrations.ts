@@ -1,28 +1,88 @@
 #!/usr/bin/env node
+import { relative } from 'path';
 import { getDatabase, closeDatabase } from '../database/schema.js';
-import { MigrationRunner } from '../database/migration.js';
-import { createRatingsTable } from '../database/migrations/001_create_ratings_table.js';
+import {
+  MigrationError,
+  MigrationRunner,
+  createMigrationFile,
+  loadMigrations,
+  type MigrationState
+} from '../database/migration.js';
 
-async function runMigrations() {
-  console.log('🚀 Starting database migrations...');
-  
+// npm run db:migrate -- <command>
+const USAGE = `Usage: npm run db:migrate -- <command>
+
+  up                  Apply every pending migration (the default)
+  down [--to <id>]    Roll back the newest migration, or every one after <id>
+                      (a full id or its number, e.g. 012)
+  status              List migrations and whether each has been applied
+  create <name>       Add an empty migration, e.g. create add_user_bio`;
+
+const STATE_LABELS: Record<MigrationState, string> = {
+  applied: '✅ applied',
+  pending: '⏳ pending',
+  changed: '⚠️  changed',
+  missing: '❓ missing'
+};
+
+async function withRunner<T>(action: (runner: MigrationRunner) => Promise<T>): Promise<T> {
+  const runner = new MigrationRunner(await getDatabase(), await loadMigrations());
   try {
-    const db = await getDatabase();
-    const migrationRunner = new MigrationRunner(db);
-    
-    // Register migrations
-    migrationRunner.addMigration(createRatingsTable);
-    
-    // Run migrations
-    await migrationRunner.migrate();
-    
-    console.log('✅ All migrations completed successfully');
-  } catch (error) {
-    console.error('❌ Error running migrations:', error);
-    process.exit(1);
+    return await action(runner);
   } finally {
     await closeDatabase();
   }
 }
 
-runMigrations();
+async function main(args: string[]) {
+  const [command = 'up', ...rest] = args;
+
+  switch (command) {
+    case 'up': {
+      console.log('🚀 Starting database migrations...');
+      const applied = await withRunner(runner => runner.migrate());
+      console.log(applied.length ? `✅ Applied ${applied.length} migration(s)` : 'No pending migrations to run');
+      break;
+    }
+
+    case 'down': {
+      const toIndex = rest.indexOf('--to');
+      const to = toIndex === -1 ? undefined : rest[toIndex + 1];
+      if (toIndex !== -1 && !to) {
+        throw new MigrationError('--to needs a migration id');
+      }
+      const rolledBack = await withRunner(runner => runner.rollback(to));
+      console.log(rolledBack.length ? `✅ Rolled back ${rolledBack.length} migration(s)` : 'No migrations to roll back');
+      break;
+    }
+
+    case 'status': {
+      const statuses = await withRunner(runner => runner.status());
+      for (const { id, state, appliedAt } of statuses) {
+        console.log(`${STATE_LABELS[state].padEnd(12)} ${id}${appliedAt ? `  (${appliedAt})` : ''}`);
+      }
+      const pending = statuses.filter(({ state }) => state === 'pending').length;
+      console.log(pending ? `\n${pending} pending; run "npm run db:migrate" to apply` : '\nThe schema is up to date');
+      break;
+    }
+
+    case 'create': {
+      if (!rest[0]) {
+        throw new MigrationError('create needs a name, e.g. create add_user_bio');
+      }
+      const path = await createMigrationFile(rest.join('_'));
+      console.log(`✅ Created ${relative(process.cwd(), path)}`);
+      break;
+    }
+
+    default:
+      console.log(USAGE);
+      process.exitCode = command === 'help' || command === '--help' ? 0 : 1;
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  // Migration problems explain themselves; anything else needs the stack
+  console.error('❌', error instanceof MigrationError ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,229 @@
+import type { Database } from 'sqlite';
+import { getDatabase, runInTransaction } from '../database/db.js';
+import type { User } from '../database/schema.js';
+import { recordAuditEvent } from './audit.js';
+import { revokeUserSessions } from './sessions.js';
+import { cancelPendingSwaps } from './swapEvents.js';
+import { disconnectUser } from '../websocket.js';
+
+// Days between asking for deletion and the personal data being erased;
+// the user can call it off until then
+export const DELETION_GRACE_DAYS = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 30;
+
+const DELETION_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Stands in for everything written by a deleted account
+const DELETED_NAME = 'Deleted user';
+const DELETED_MESSAGE = 'This message was deleted';
+
+type PersonalFields = Pick<User, 'username' | 'email' | 'fullName' | 'profilePicture'>;
+
+export class AccountDeletionError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'AccountDeletionError';
+    this.status = status;
+  }
+}
+
+// Returns when the account will be erased
+export async function requestAccountDeletion(userId: number, ipAddress?: string): Promise<string> {
+  const db = await getDatabase();
+  const user = await db.get<Pick<User, 'role' | 'deletionScheduledFor'>>(
+    'SELECT role, deletionScheduledFor FROM users WHERE id = ? AND deletedAt IS NULL',
+    [userId]
+  );
+  if (!user) {
+    throw new AccountDeletionError(404, 'User not found');
+  }
+  // A staff account could be the last one able to assign roles
+  if (user.role !== 'user') {
+    throw new AccountDeletionError(400, 'Staff accounts have to be given the user role before they can be deleted');
+  }
+  if (user.deletionScheduledFor) {
+    return user.deletionScheduledFor;
+  }
+
+  await db.run(
+    `UPDATE users SET deletionRequestedAt = CURRENT_TIMESTAMP, deletionScheduledFor = datetime('now', ?)
+     WHERE id = ?`,
+    [`+${DELETION_GRACE_DAYS} days`, userId]
+  );
+  await recordAuditEvent({ action: 'user.deletion_requested', actorId: userId, targetType: 'user', targetId: userId, ipAddress });
+
+  const scheduled = await db.get<Pick<User, 'deletionScheduledFor'>>('SELECT deletionScheduledFor FROM users WHERE id = ?', [userId]);
+  return scheduled!.deletionScheduledFor!;
+}
+
+// Returns false if no deletion was pending
+export async function cancelAccountDeletion(userId: number, ipAddress?: string): Promise<boolean> {
+  const db = await getDatabase();
+  const result = await db.run(
+    `UPDATE users SET deletionRequestedAt = NULL, deletionScheduledFor = NULL
+     WHERE id = ? AND deletionScheduledFor IS NOT NULL AND deletedAt IS NULL`,
+    [userId]
+  );
+  if (!result.changes) {
+    return false;
+  }
+  await recordAuditEvent({ action: 'user.deletion_cancelled', actorId: userId, targetType: 'user', targetId: userId, ipAddress });
+  return true;
+}
+
+// Replace `value` where it stands as a whole word, so a short name doesn't
+// eat into other words
+function replaceWord(text: string, value: string, replacement: string): string {
+  const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'gu'), () => replacement);
+}
+
+// Other people's notifications name the user in their text and carry the
+// swap, session or circle they were about as data, with the user's profile
+// and the message of any swap they asked for
+async function scrubNotifications(db: Database, userId: number, user: PersonalFields) {
+  // The email goes first, as it may contain the username
+  const replacements: [string, string][] = [
+    [user.email, `deleted-${userId}@deleted.invalid`],
+    [user.fullName, DELETED_NAME],
+    [user.username, `deleted-${userId}`]
+  ];
+  const swaps = await db.all<{ message: string }[]>(
+    'SELECT message FROM swap_requests WHERE requesterId = ? AND message IS NOT NULL',
+    [userId]
+  );
+  const removed = new Set([user.profilePicture, ...swaps.map(({ message }) => message)].filter(Boolean));
+  // A notification carrying any of it also names the user
+  const values = [...replacements.map(([value]) => value), user.profilePicture].filter((value): value is string => Boolean(value));
+  if (!values.length) {
+    return;
+  }
+
+  const scrubText = (text: string) => replacements.reduce(
+    (result, [value, replacement]) => value ? replaceWord(result, value, replacement) : result,
+    text
+  );
+  const scrubData = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return removed.has(value) ? null : scrubText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(scrubData);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, scrubData(item)]));
+    }
+    return value;
+  };
+
+  // data is JSON, where the values may appear escaped
+  const matches = values.map(() => 'instr(title, ?) > 0 OR instr(message, ?) > 0 OR instr(data, ?) > 0').join(' OR ');
+  const notifications = await db.all<{ id: number; title: string; message: string; data: string | null }[]>(
+    `SELECT id, title, message, data FROM notifications WHERE userId != ? AND (${matches})`,
+    [userId, ...values.flatMap(value => [value, value, JSON.stringify(value).slice(1, -1)])]
+  );
+
+  for (const notification of notifications) {
+    let data = notification.data;
+    try {
+      data = data ? JSON.stringify(scrubData(JSON.parse(data))) : null;
+    } catch {
+      data = null;
+    }
+    await db.run(
+      'UPDATE notifications SET title = ?, message = ?, data = ? WHERE id = ?',
+      [scrubText(notification.title), scrubText(notification.message), data, notification.id]
+    );
+  }
+}
+
+// Erase the user's personal data. The row stays, renamed to "Deleted user",
+// so swaps, ratings and reviews keep both sides for the people who took part.
+// Skills used in a swap stay for the same reason; the rest are removed. Other
+// people's notifications lose the user's name, and the audit log the IP
+// addresses of what they did.
+export async function anonymizeUser(userId: number): Promise<void> {
+  // Counterparts are told while the account still has its name
+  await cancelPendingSwaps(userId);
+  const sessionIds = await revokeUserSessions(userId, 'account_deleted');
+  disconnectUser(String(userId), 4003, 'Account deleted');
+
+  await runInTransaction(async (db) => {
+    const user = await db.get<PersonalFields>(
+      'SELECT username, email, fullName, profilePicture FROM users WHERE id = ?',
+      [userId]
+    );
+    if (user) {
+      await scrubNotifications(db, userId, user);
+    }
+
+    await db.run(
+      `UPDATE users SET
+         username = ?, email = ?, password = '!', fullName = ?, bio = NULL, location = NULL,
+         profilePicture = NULL, calendarToken = NULL, lastActiveAt = NULL, emailVerifiedAt = NULL,
+         totpSecret = NULL, totpEnabledAt = NULL, totpLastUsedStep = NULL,
+         role = 'user', isAdmin = 0, deletionScheduledFor = NULL, deletedAt = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [`deleted-${userId}`, `deleted-${userId}@deleted.invalid`, DELETED_NAME, userId]
+    );
+
+    await db.run(
+      `DELETE FROM skills WHERE userId = ?
+         AND id NOT IN (SELECT skillOfferedId FROM swap_requests UNION SELECT skillRequestedId FROM swap_requests)
+         AND id NOT IN (SELECT teachesSkillId FROM circle_swap_participants UNION SELECT learnsSkillId FROM circle_swap_participants)`,
+      [userId]
+    );
+    // What remains is history only, never offered or sought again
+    await db.run('UPDATE skills SET description = NULL, isOffering = 0, isSeeking = 0 WHERE userId = ?', [userId]);
+
+    await db.run('UPDATE messages SET content = ? WHERE senderId = ?', [DELETED_MESSAGE, userId]);
+    await db.run('UPDATE swap_requests SET message = NULL WHERE requesterId = ?', [userId]);
+
+    // The log itself is append-only, but the addresses can be cleared. Lockouts
+    // of the account have no actor and the address of whoever tried it.
+    await db.run(
+      `UPDATE audit_log SET ipAddress = NULL
+       WHERE ipAddress IS NOT NULL
+         AND (actorId = ? OR (actorId IS NULL AND targetType = 'user' AND targetId = ?))`,
+      [userId, String(userId)]
+    );
+
+    for (const table of ['availability_slots', 'notifications', 'auth_tokens', 'recovery_codes', 'user_identities', 'oidc_login_attempts', 'auth_sessions']) {
+      await db.run(`DELETE FROM ${table} WHERE userId = ?`, [userId]);
+    }
+  });
+
+  await recordAuditEvent({
+    action: 'user.anonymized',
+    targetType: 'user',
+    targetId: userId,
+    metadata: { revokedSessions: sessionIds.length }
+  });
+}
+
+// Erase every account whose grace period is over
+export async function processDueAccountDeletions(): Promise<number> {
+  const db = await getDatabase();
+  const due = await db.all<{ id: number }[]>(
+    'SELECT id FROM users WHERE deletionScheduledFor <= CURRENT_TIMESTAMP AND deletedAt IS NULL'
+  );
+
+  for (const user of due) {
+    try {
+      await anonymizeUser(user.id);
+    } catch (error) {
+      console.error(`Failed to delete account ${user.id}:`, error);
+    }
+  }
+  return due.length;
+}
+
+export function startAccountDeletionJob(): void {
+  const run = () => processDueAccountDeletions()
+    .then((count) => count && console.log(`🗑️  Deleted ${count} account(s) after their grace period`))
+    .catch((error) => console.error('Account deletion job error:', error));
+
+  run();
+  setInterval(run, DELETION_CHECK_INTERVAL_MS).unref();
+}
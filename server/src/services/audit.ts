@@ -0,0 +1,52 @@
+import { getDatabase } from '../database/db.js';
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEvent {
+  action: string;
+  actorId?: number | null;
+  targetType?: string | null;
+  targetId?: string | number | null;
+  metadata?: Record<string, unknown>;
+  changes?: AuditChanges | null;
+  ipAddress?: string | null;
+}
+
+// The fields that differ between two snapshots of a record. Fields missing
+// from one side count as null.
+export function diffChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    const previous = before?.[key] ?? null;
+    const next = after?.[key] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  }
+  return changes;
+}
+
+// Append an entry to the audit log. The table refuses updates and deletes,
+// short of clearing an IP address.
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  const db = await getDatabase();
+  const hasChanges = event.changes && Object.keys(event.changes).length > 0;
+  await db.run(
+    `INSERT INTO audit_log (actorId, action, targetType, targetId, metadata, changes, ipAddress)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      event.actorId ?? null,
+      event.action,
+      event.targetType ?? null,
+      event.targetId == null ? null : String(event.targetId),
+      event.metadata ? JSON.stringify(event.metadata) : null,
+      hasChanges ? JSON.stringify(event.changes) : null,
+      event.ipAddress ?? null
+    ]
+  );
+}
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import { getDatabase } from '../database/db.js';
+import type { AuthToken, User } from '../database/schema.js';
+import { sendMail } from './mail.js';
+
+export type AuthTokenPurpose = AuthToken['purpose'];
+
+// How long an emailed link stays valid
+const TOKEN_TTL_MINUTES: Record<AuthTokenPurpose, number> = {
+  password_reset: 60,
+  email_verification: 3 * 24 * 60
+};
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+
+export class AuthTokenError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'AuthTokenError';
+    this.status = status;
+  }
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Issue a token for the user; any earlier unused token for the same purpose stops working
+export async function createAuthToken(userId: number, purpose: AuthTokenPurpose): Promise<string> {
+  const db = await getDatabase();
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await db.run('DELETE FROM auth_tokens WHERE userId = ? AND purpose = ? AND usedAt IS NULL', [userId, purpose]);
+  await db.run(
+    `INSERT INTO auth_tokens (userId, purpose, tokenHash, expiresAt)
+     VALUES (?, ?, ?, datetime('now', ?))`,
+    [userId, purpose, hashToken(token), `+${TOKEN_TTL_MINUTES[purpose]} minutes`]
+  );
+  return token;
+}
+
+const findUnusedToken = async (token: string, purpose: AuthTokenPurpose) => {
+  const db = await getDatabase();
+  return db.get<Pick<AuthToken, 'id' | 'userId'>>(
+    `SELECT id, userId FROM auth_tokens
+     WHERE tokenHash = ? AND purpose = ? AND usedAt IS NULL AND expiresAt > CURRENT_TIMESTAMP`,
+    [hashToken(token), purpose]
+  );
+};
+
+// The user a token was issued to, leaving the token usable
+export async function findAuthTokenUser(token: string, purpose: AuthTokenPurpose): Promise<number> {
+  const row = await findUnusedToken(token, purpose);
+  if (!row) {
+    throw new AuthTokenError(400, 'This link is invalid or has expired');
+  }
+  return row.userId;
+}
+
+// Use up a token and return the user it was issued to
+export async function consumeAuthToken(token: string, purpose: AuthTokenPurpose): Promise<number> {
+  const db = await getDatabase();
+  const row = await findUnusedToken(token, purpose);
+
+  // Only one of two concurrent requests can mark the token used
+  const claimed = row
+    ? await db.run('UPDATE auth_tokens SET usedAt = CURRENT_TIMESTAMP WHERE id = ? AND usedAt IS NULL', [row.id])
+    : null;
+  if (!row || !claimed?.changes) {
+    throw new AuthTokenError(400, 'This link is invalid or has expired');
+  }
+  return row.userId;
+}
+
+type Recipient = Pick<User, 'id' | 'email' | 'fullName'>;
+
+export async function sendPasswordResetEmail(user: Recipient): Promise<void> {
+  const token = await createAuthToken(user.id, 'password_reset');
+  const link = `${CLIENT_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your SkillSwap password',
+    text: [
+      `Hi ${user.fullName},`,
+      '',
+      'Someone asked to reset the password for your SkillSwap account. To choose a new one, open this link:',
+      link,
+      '',
+      `The link works once and expires in ${TOKEN_TTL_MINUTES.password_reset} minutes. If you didn't ask for this, you can ignore this email.`
+    ].join('\n')
+  });
+}
+
+export async function sendVerificationEmail(user: Recipient): Promise<void> {
+  const token = await createAuthToken(user.id, 'email_verification');
+  const link = `${CLIENT_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm your SkillSwap email address',
+    text: [
+      `Hi ${user.fullName},`,
+      '',
+      'Welcome to SkillSwap! Please confirm your email address by opening this link:',
+      link,
+      '',
+      'The link expires in 3 days.'
+    ].join('\n')
+  });
+}
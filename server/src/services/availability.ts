@@ -0,0 +1,182 @@
+import { getDatabase } from '../database/db.js';
+import type { AvailabilitySlot } from '../database/schema.js';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Slot as the API sends and receives it, in the user's timezone
+export interface AvailabilitySlotInput {
+  dayOfWeek: number;
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM, 24:00 for end of day
+}
+
+export interface Availability {
+  timezone: string;
+  slots: AvailabilitySlotInput[];
+}
+
+// [start, end) in minutes since Sunday 00:00 UTC
+type WeekInterval = [number, number];
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const toSlotInput = (slot: Pick<AvailabilitySlot, 'dayOfWeek' | 'startMinute' | 'endMinute'>): AvailabilitySlotInput => ({
+  dayOfWeek: slot.dayOfWeek,
+  startTime: toTime(slot.startMinute),
+  endTime: toTime(slot.endMinute)
+});
+
+// Weekday and minute of the day that an instant falls on in a timezone
+function localWeekTime(instant: Date, timezone: string): { dayOfWeek: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    dayOfWeek: WEEKDAYS.indexOf(part('weekday')),
+    minute: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+}
+
+// Minutes the timezone is ahead of UTC at the given instant
+function utcOffsetMinutes(timezone: string, instant: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const local = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+
+  return Math.round((local - Math.floor(instant.getTime() / 60000) * 60000) / 60000);
+}
+
+// Sort and merge overlapping or touching slots on the same day
+export function mergeSlots(slots: AvailabilitySlotInput[]): Array<Pick<AvailabilitySlot, 'dayOfWeek' | 'startMinute' | 'endMinute'>> {
+  const sorted = slots
+    .map(slot => ({ dayOfWeek: slot.dayOfWeek, startMinute: toMinutes(slot.startTime), endMinute: toMinutes(slot.endTime) }))
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startMinute - b.startMinute);
+
+  const merged: typeof sorted = [];
+  for (const slot of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.dayOfWeek === slot.dayOfWeek && slot.startMinute <= last.endMinute) {
+      last.endMinute = Math.max(last.endMinute, slot.endMinute);
+    } else {
+      merged.push({ ...slot });
+    }
+  }
+  return merged;
+}
+
+export async function getAvailability(userId: number): Promise<Availability> {
+  const db = await getDatabase();
+  const user = await db.get<{ timezone: string | null }>('SELECT timezone FROM users WHERE id = ?', [userId]);
+  const slots = await db.all<AvailabilitySlot[]>(
+    'SELECT * FROM availability_slots WHERE userId = ? ORDER BY dayOfWeek, startMinute',
+    [userId]
+  );
+
+  return { timezone: user?.timezone || 'UTC', slots: slots.map(toSlotInput) };
+}
+
+// Replace all of a user's slots
+export async function saveAvailability(userId: number, availability: Availability): Promise<Availability> {
+  const db = await getDatabase();
+  const slots = mergeSlots(availability.slots);
+
+  await db.run('UPDATE users SET timezone = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?', [availability.timezone, userId]);
+  await db.run('DELETE FROM availability_slots WHERE userId = ?', [userId]);
+  for (const slot of slots) {
+    await db.run(
+      'INSERT INTO availability_slots (userId, dayOfWeek, startMinute, endMinute) VALUES (?, ?, ?, ?)',
+      [userId, slot.dayOfWeek, slot.startMinute, slot.endMinute]
+    );
+  }
+
+  return { timezone: availability.timezone, slots: slots.map(toSlotInput) };
+}
+
+// Availability of several users at once, keyed by user id
+export async function getAvailabilities(userIds: number[]): Promise<Map<number, Availability>> {
+  const result = new Map<number, Availability>();
+  if (userIds.length === 0) {
+    return result;
+  }
+
+  const db = await getDatabase();
+  const placeholders = userIds.map(() => '?').join(', ');
+  const users = await db.all<{ id: number; timezone: string | null }[]>(
+    `SELECT id, timezone FROM users WHERE id IN (${placeholders})`,
+    userIds
+  );
+  users.forEach(user => result.set(user.id, { timezone: user.timezone || 'UTC', slots: [] }));
+
+  const slots = await db.all<AvailabilitySlot[]>(
+    `SELECT * FROM availability_slots WHERE userId IN (${placeholders}) ORDER BY dayOfWeek, startMinute`,
+    userIds
+  );
+  slots.forEach(slot => result.get(slot.userId)?.slots.push(toSlotInput(slot)));
+
+  return result;
+}
+
+// Whether the instant falls inside one of the weekly slots
+export function isAvailableAt(availability: Availability, instant: Date): boolean {
+  const { dayOfWeek, minute } = localWeekTime(instant, availability.timezone);
+  return availability.slots.some(slot =>
+    slot.dayOfWeek === dayOfWeek && toMinutes(slot.startTime) <= minute && minute < toMinutes(slot.endTime)
+  );
+}
+
+// Slots on a common UTC week. The offset in effect at `reference` is used for
+// the whole week, so overlap is approximate across a DST change.
+function toWeekIntervals(availability: Availability, reference: Date): WeekInterval[] {
+  const offset = utcOffsetMinutes(availability.timezone, reference);
+  const intervals: WeekInterval[] = [];
+
+  for (const slot of availability.slots) {
+    const length = toMinutes(slot.endTime) - toMinutes(slot.startTime);
+    const start = (((slot.dayOfWeek * MINUTES_PER_DAY + toMinutes(slot.startTime) - offset) % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+    const end = start + length;
+
+    // Slots that run past Saturday midnight UTC wrap to the start of the week
+    if (end > MINUTES_PER_WEEK) {
+      intervals.push([start, MINUTES_PER_WEEK], [0, end - MINUTES_PER_WEEK]);
+    } else {
+      intervals.push([start, end]);
+    }
+  }
+  return intervals;
+}
+
+// Minutes per week that both users are available
+export function overlapMinutes(a: Availability, b: Availability, reference = new Date()): number {
+  const left = toWeekIntervals(a, reference);
+  const right = toWeekIntervals(b, reference);
+
+  let total = 0;
+  for (const [aStart, aEnd] of left) {
+    for (const [bStart, bEnd] of right) {
+      total += Math.max(0, Math.min(aEnd, bEnd) - Math.max(aStart, bStart));
+    }
+  }
+  return total;
+}
@@ -0,0 +1,54 @@
+import { getDatabase } from '../database/db.js';
+
+export interface ActiveBan {
+  reason: string | null;
+  until: string | null; // UTC SQLite timestamp; null for a permanent ban
+}
+
+// SQL condition that holds while a user's ban is in effect; expired bans
+// lift themselves without anyone clearing the flag
+export const activeBanCondition = (alias: string) =>
+  `(${alias}.isBanned = 1 AND (${alias}.bannedUntil IS NULL OR ${alias}.bannedUntil > CURRENT_TIMESTAMP))`;
+
+// ISO date-time to the UTC format SQLite's CURRENT_TIMESTAMP compares against
+export const toSqliteTimestamp = (value: string) => new Date(value).toISOString().replace('T', ' ').slice(0, 19);
+
+export async function getActiveBan(userId: number): Promise<ActiveBan | null> {
+  const db = await getDatabase();
+  const ban = await db.get<{ bannedReason: string | null; bannedUntil: string | null }>(
+    `SELECT u.bannedReason, u.bannedUntil FROM users u WHERE u.id = ? AND ${activeBanCondition('u')}`,
+    [userId]
+  );
+  return ban ? { reason: ban.bannedReason, until: ban.bannedUntil } : null;
+}
+
+// Message shown to the banned user
+export function describeBan(ban: ActiveBan): string {
+  const until = ban.until
+    ? ` until ${new Date(`${ban.until.replace(' ', 'T')}Z`).toUTCString()}`
+    : '';
+  return `Your account has been banned${until}${ban.reason ? `: ${ban.reason}` : ''}`;
+}
+
+// Staff can't be banned; returns false if the user doesn't exist or is staff
+export async function banUser(userId: number, ban: { reason?: string | null; until?: string | null }): Promise<boolean> {
+  const db = await getDatabase();
+  const result = await db.run(
+    `UPDATE users SET isBanned = 1, bannedReason = ?, bannedUntil = ?, bannedAt = CURRENT_TIMESTAMP,
+       updatedAt = CURRENT_TIMESTAMP
+     WHERE id = ? AND role = 'user'`,
+    [ban.reason || null, ban.until ? toSqliteTimestamp(ban.until) : null, userId]
+  );
+  return Boolean(result.changes);
+}
+
+export async function unbanUser(userId: number): Promise<boolean> {
+  const db = await getDatabase();
+  const result = await db.run(
+    `UPDATE users SET isBanned = 0, bannedReason = NULL, bannedUntil = NULL, bannedAt = NULL,
+       updatedAt = CURRENT_TIMESTAMP
+     WHERE id = ? AND role = 'user'`,
+    [userId]
+  );
+  return Boolean(result.changes);
+}
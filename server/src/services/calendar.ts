@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { getDatabase } from '../database/db.js';
+import type { SwapRequest, SwapSession } from '../database/schema.js';
+
+// Confirmed (or once-confirmed) session joined with the swap it belongs to
+export interface CalendarSession extends SwapSession {
+  swapStatus: SwapRequest['status'];
+  requesterId: number;
+  providerId: number;
+  requesterName: string;
+  providerName: string;
+  offeredSkillName: string;
+  wantedSkillName: string;
+}
+
+const CALENDAR_SESSION_SELECT = `
+  SELECT ss.*,
+         sr.status as swapStatus,
+         sr.requesterId,
+         ws.userId as providerId,
+         requester.fullName as requesterName,
+         provider.fullName as providerName,
+         os.name as offeredSkillName,
+         ws.name as wantedSkillName
+  FROM swap_sessions ss
+  JOIN swap_requests sr ON ss.swapId = sr.id
+  JOIN skills ws ON sr.skillRequestedId = ws.id
+  JOIN skills os ON sr.skillOfferedId = os.id
+  JOIN users requester ON sr.requesterId = requester.id
+  JOIN users provider ON ws.userId = provider.id
+`;
+
+const PRODID = '-//SkillSwap//Swap Sessions//EN';
+
+export function generateCalendarToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+// Return the user's feed token, creating one on first use
+export async function getOrCreateCalendarToken(userId: number): Promise<string> {
+  const db = await getDatabase();
+  const user = await db.get<{ calendarToken: string | null }>('SELECT calendarToken FROM users WHERE id = ?', [userId]);
+  if (user?.calendarToken) {
+    return user.calendarToken;
+  }
+  return rotateCalendarToken(userId);
+}
+
+export async function rotateCalendarToken(userId: number): Promise<string> {
+  const db = await getDatabase();
+  const token = generateCalendarToken();
+  await db.run('UPDATE users SET calendarToken = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?', [token, userId]);
+  return token;
+}
+
+export async function getUserCalendarSessions(userId: number): Promise<CalendarSession[]> {
+  const db = await getDatabase();
+  return db.all<CalendarSession[]>(
+    `${CALENDAR_SESSION_SELECT}
+     WHERE ss.confirmedAt IS NOT NULL AND (sr.requesterId = ? OR ws.userId = ?)
+     ORDER BY ss.startTime ASC`,
+    [userId, userId]
+  );
+}
+
+export async function getSwapCalendarSessions(swapId: number): Promise<CalendarSession[]> {
+  const db = await getDatabase();
+  return db.all<CalendarSession[]>(
+    `${CALENDAR_SESSION_SELECT}
+     WHERE ss.confirmedAt IS NOT NULL AND ss.swapId = ?
+     ORDER BY ss.startTime ASC`,
+    [swapId]
+  );
+}
+
+// 20261019T143000Z
+function formatICalDate(value: string | Date): string {
+  // SQLite CURRENT_TIMESTAMP values are UTC without a zone marker
+  const date = typeof value === 'string' && !value.includes('T') ? new Date(`${value.replace(' ', 'T')}Z`) : new Date(value);
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// RFC 5545 TEXT escaping
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a single space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function buildEvent(session: CalendarSession, viewerId: number | null, now: Date): string[] {
+  // A session is off if it was cancelled itself or its swap was called off
+  const cancelled = session.status !== 'confirmed' || ['cancelled', 'rejected'].includes(session.swapStatus);
+  const partnerName = viewerId === session.requesterId
+    ? session.providerName
+    : viewerId === session.providerId
+      ? session.requesterName
+      : null;
+  const summary = partnerName
+    ? `Skill swap with ${partnerName}: ${session.offeredSkillName} ↔ ${session.wantedSkillName}`
+    : `Skill swap: ${session.offeredSkillName} ↔ ${session.wantedSkillName}`;
+  const description = `${session.requesterName} teaches ${session.offeredSkillName}, ` +
+    `${session.providerName} teaches ${session.wantedSkillName}.`;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:swap-session-${session.id}@skillswap`,
+    `DTSTAMP:${formatICalDate(now)}`,
+    `DTSTART:${formatICalDate(session.startTime)}`,
+    `DTEND:${formatICalDate(session.endTime)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    // Calendars only apply a cancellation with a higher sequence number
+    `SEQUENCE:${cancelled ? 1 : 0}`,
+    `LAST-MODIFIED:${formatICalDate(session.updatedAt)}`
+  ];
+
+  if (session.location) {
+    lines.push(`LOCATION:${escapeText(session.location)}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function buildCalendar(sessions: CalendarSession[], options: { name: string; viewerId: number | null }): string {
+  const now = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...sessions.flatMap(session => buildEvent(session, options.viewerId, now)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,282 @@
+import { getDatabase } from '../database/db.js';
+import { broadcastNotification } from '../websocket.js';
+import { activeBanCondition } from './bans.js';
+import { getRepositories } from '../repositories/index.js';
+import type { CircleSwapDetails } from '../repositories/circles.repository.js';
+import type { OutgoingNotification } from './notifications.js';
+
+// Two people are a plain swap; rings larger than this are too hard to coordinate
+export const MIN_CIRCLE_SIZE = 3;
+export const MAX_CIRCLE_SIZE = 4;
+
+const MAX_SUGGESTIONS = 20;
+
+export type CircleEventType =
+  | 'circle.proposed'
+  | 'circle.accepted'
+  | 'circle.declined'
+  | 'circle.activated'
+  | 'circle.part_completed'
+  | 'circle.completed'
+  | 'circle.cancelled';
+
+export interface CircleEvent extends OutgoingNotification {
+  type: CircleEventType;
+  circleId: number;
+  actorId: number;
+  circle: CircleSwapDetails;
+  timestamp: string;
+}
+
+// A member of a ring, before anything is stored
+export interface CircleMember {
+  userId: number;
+  userName: string;
+  teachesSkillId: number;
+  teachesSkillName: string;
+  learnsSkillId: number;
+  learnsSkillName: string;
+}
+
+// Someone who offers a skill another user is seeking
+interface SkillEdge {
+  fromUserId: number;
+  toUserId: number;
+  teachesSkillId: number;
+  teachesSkillName: string;
+  learnsSkillId: number;
+  learnsSkillName: string;
+}
+
+export class CircleSwapError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'CircleSwapError';
+    this.status = status;
+  }
+}
+
+// Skill names are free text, so match them case- and whitespace-insensitively
+async function loadSkillEdges(): Promise<Map<number, SkillEdge[]>> {
+  const db = await getDatabase();
+  const rows = await db.all<SkillEdge[]>(`
+    SELECT o.userId as fromUserId, w.userId as toUserId,
+           o.id as teachesSkillId, o.name as teachesSkillName,
+           w.id as learnsSkillId, w.name as learnsSkillName
+    FROM skills o
+    JOIN skills w
+      ON o.isOffering = 1 AND w.isSeeking = 1 AND o.userId != w.userId
+     AND LOWER(TRIM(o.name)) = LOWER(TRIM(w.name))
+    JOIN users ou ON o.userId = ou.id
+    JOIN users wu ON w.userId = wu.id
+    WHERE ou.deletedAt IS NULL AND wu.deletedAt IS NULL
+      AND NOT ${activeBanCondition('ou')} AND NOT ${activeBanCondition('wu')}
+    ORDER BY o.userId, w.userId, o.name, o.id
+  `);
+
+  // One edge per ordered pair of users is enough to close a ring
+  const edges = new Map<number, SkillEdge[]>();
+  for (const row of rows) {
+    const outgoing = edges.get(row.fromUserId) ?? [];
+    if (!outgoing.some(edge => edge.toUserId === row.toUserId)) {
+      outgoing.push(row);
+      edges.set(row.fromUserId, outgoing);
+    }
+  }
+  return edges;
+}
+
+// Rings are identified by the set of skills taught in them
+const circleKey = (teachesSkillIds: number[]) => [...teachesSkillIds].sort((a, b) => a - b).join(',');
+
+// Keys of every ring that is still proposed or running
+async function getOpenCircleKeys(): Promise<Set<string>> {
+  const db = await getDatabase();
+  const rows = await db.all<{ circleId: number; teachesSkillId: number }[]>(`
+    SELECT p.circleId, p.teachesSkillId
+    FROM circle_swap_participants p
+    JOIN circle_swaps c ON p.circleId = c.id
+    WHERE c.status IN ('proposed', 'active')
+  `);
+
+  const skillsByCircle = new Map<number, number[]>();
+  rows.forEach(row => skillsByCircle.set(row.circleId, [...(skillsByCircle.get(row.circleId) ?? []), row.teachesSkillId]));
+  return new Set([...skillsByCircle.values()].map(circleKey));
+}
+
+// Turn a closed path of edges into members; each learns from the one before
+function toMembers(path: SkillEdge[], names: Map<number, string>): CircleMember[] {
+  return path.map((edge, index) => {
+    const incoming = path[(index - 1 + path.length) % path.length];
+    return {
+      userId: edge.fromUserId,
+      userName: names.get(edge.fromUserId) ?? '',
+      teachesSkillId: edge.teachesSkillId,
+      teachesSkillName: edge.teachesSkillName,
+      learnsSkillId: incoming.learnsSkillId,
+      learnsSkillName: incoming.learnsSkillName
+    };
+  });
+}
+
+// Rings of 3 to 4 people that run through the user, starting with them.
+// Rings already proposed or running with the same skills are skipped.
+export async function findCycles(userId: number): Promise<CircleMember[][]> {
+  const db = await getDatabase();
+  const edges = await loadSkillEdges();
+  const openKeys = await getOpenCircleKeys();
+  const cycles: SkillEdge[][] = [];
+
+  const walk = (path: SkillEdge[], visited: Set<number>) => {
+    const current = path.length > 0 ? path[path.length - 1].toUserId : userId;
+    for (const edge of edges.get(current) ?? []) {
+      if (edge.toUserId === userId) {
+        if (path.length + 1 >= MIN_CIRCLE_SIZE) {
+          cycles.push([...path, edge]);
+        }
+      } else if (!visited.has(edge.toUserId) && path.length + 1 < MAX_CIRCLE_SIZE) {
+        visited.add(edge.toUserId);
+        walk([...path, edge], visited);
+        visited.delete(edge.toUserId);
+      }
+    }
+  };
+  walk([], new Set([userId]));
+
+  const userIds = [...new Set(cycles.flat().map(edge => edge.fromUserId))];
+  const names = new Map<number, string>();
+  if (userIds.length > 0) {
+    const users = await db.all<{ id: number; fullName: string }[]>(
+      `SELECT id, fullName FROM users WHERE id IN (${userIds.map(() => '?').join(', ')})`,
+      userIds
+    );
+    users.forEach(user => names.set(user.id, user.fullName));
+  }
+
+  return cycles
+    .filter(cycle => !openKeys.has(circleKey(cycle.map(edge => edge.teachesSkillId))))
+    // Smaller rings are easier to get going
+    .sort((a, b) => a.length - b.length)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(cycle => toMembers(cycle, names));
+}
+
+// Check a proposed ring against current skills and fill in what each member learns.
+// Members are listed in teaching order: each teaches the next, the last teaches the first.
+export async function resolveCircleMembers(
+  proposerId: number,
+  members: { userId: number; teachesSkillId: number }[]
+): Promise<CircleMember[]> {
+  if (members[0].userId !== proposerId) {
+    throw new CircleSwapError(400, 'You must be the first member of the circle');
+  }
+  if (new Set(members.map(member => member.userId)).size !== members.length) {
+    throw new CircleSwapError(400, 'Each person can only appear once in a circle');
+  }
+
+  const db = await getDatabase();
+  const teaches: { userName: string; skillName: string }[] = [];
+  // What each member learns, indexed like members; filled in by their teacher
+  const learns: { id: number; name: string }[] = [];
+
+  for (const [index, member] of members.entries()) {
+    const teacher = await db.get<{ userName: string; skillName: string }>(
+      `SELECT u.fullName as userName, s.name as skillName
+       FROM skills s JOIN users u ON s.userId = u.id
+       WHERE s.id = ? AND s.userId = ? AND s.isOffering = 1`,
+      [member.teachesSkillId, member.userId]
+    );
+    if (!teacher) {
+      throw new CircleSwapError(400, `Skill ${member.teachesSkillId} is not offered by user ${member.userId}`);
+    }
+
+    const learnerIndex = (index + 1) % members.length;
+    const learned = await db.get<{ id: number; name: string }>(
+      `SELECT id, name FROM skills
+       WHERE userId = ? AND isSeeking = 1 AND LOWER(TRIM(name)) = LOWER(TRIM(?))
+       ORDER BY id LIMIT 1`,
+      [members[learnerIndex].userId, teacher.skillName]
+    );
+    if (!learned) {
+      throw new CircleSwapError(400, `User ${members[learnerIndex].userId} is not looking to learn ${teacher.skillName}`);
+    }
+
+    teaches[index] = teacher;
+    learns[learnerIndex] = learned;
+  }
+
+  const resolved = members.map((member, index) => ({
+    userId: member.userId,
+    userName: teaches[index].userName,
+    teachesSkillId: member.teachesSkillId,
+    teachesSkillName: teaches[index].skillName,
+    learnsSkillId: learns[index].id,
+    learnsSkillName: learns[index].name
+  }));
+
+  const openKeys = await getOpenCircleKeys();
+  if (openKeys.has(circleKey(resolved.map(member => member.teachesSkillId)))) {
+    throw new CircleSwapError(409, 'This circle swap has already been proposed');
+  }
+
+  return resolved;
+}
+
+// Inbox title and message, written from the point of view of the recipient
+function describeCircleEvent(circle: CircleSwapDetails, actorId: number, type: CircleEventType): { title: string; message: string } {
+  const actorName = circle.participants.find(p => p.userId === actorId)?.userName ?? 'Someone';
+  const size = circle.participants.length;
+
+  switch (type) {
+    case 'circle.proposed':
+      return { title: 'New circle swap', message: `${actorName} proposed a ${size}-person circle swap that includes you` };
+    case 'circle.accepted':
+      return { title: 'Circle swap accepted', message: `${actorName} joined the circle swap` };
+    case 'circle.declined':
+      return { title: 'Circle swap declined', message: `${actorName} declined, so the circle swap is off` };
+    case 'circle.activated':
+      return { title: 'Circle swap is on', message: `Everyone accepted the ${size}-person circle swap` };
+    case 'circle.part_completed':
+      return { title: 'Circle swap progress', message: `${actorName} finished their part of the circle swap` };
+    case 'circle.completed':
+      return { title: 'Circle swap completed', message: `All ${size} people finished the circle swap` };
+    case 'circle.cancelled':
+      return { title: 'Circle swap cancelled', message: `${actorName} cancelled the circle swap` };
+  }
+}
+
+// Notify every member except the one who acted. Failures are logged and never
+// surface to the HTTP request that caused the change.
+export async function emitCircleEvent(circleId: number, actorId: number, type: CircleEventType): Promise<void> {
+  try {
+    const { circles } = await getRepositories();
+    const circle = await circles.findDetails(circleId);
+    if (!circle) {
+      return;
+    }
+
+    const payload: CircleEvent = {
+      type,
+      ...describeCircleEvent(circle, actorId, type),
+      circleId,
+      actorId,
+      circle,
+      timestamp: new Date().toISOString()
+    };
+
+    for (const participant of circle.participants) {
+      if (participant.userId === actorId) {
+        continue;
+      }
+      try {
+        await broadcastNotification(String(participant.userId), payload);
+      } catch (error) {
+        console.error(`Failed to send ${type} event to user ${participant.userId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to emit ${type} event for circle ${circleId}:`, error);
+  }
+}
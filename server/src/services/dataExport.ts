@@ -0,0 +1,163 @@
+import { getDatabase } from '../database/db.js';
+import { SWAP_DETAILS_SELECT } from '../repositories/swaps.repository.js';
+
+// Bumped whenever the layout of the export changes
+const EXPORT_FORMAT_VERSION = 1;
+
+const parseJson = (value: string | null) => (value ? JSON.parse(value) : null);
+
+// Everything stored about a user, as one JSON document they can download.
+// Secrets (password hash, TOTP secret, tokens) are left out; other people
+// appear only by name, as they do in the app.
+export async function buildUserDataExport(userId: number) {
+  const db = await getDatabase();
+
+  const profile = await db.get(
+    `SELECT id, username, email, fullName, bio, location, profilePicture, timezone, role,
+            emailVerifiedAt, totpEnabledAt IS NOT NULL as twoFactorEnabled,
+            deletionRequestedAt, deletionScheduledFor, createdAt, updatedAt, lastActiveAt
+     FROM users WHERE id = ?`,
+    [userId]
+  );
+
+  const skills = await db.all(
+    `SELECT id, name, description, category, proficiency, isOffering, isSeeking, createdAt, updatedAt
+     FROM skills WHERE userId = ? ORDER BY name`,
+    [userId]
+  );
+
+  const availability = await db.all(
+    'SELECT dayOfWeek, startMinute, endMinute FROM availability_slots WHERE userId = ? ORDER BY dayOfWeek, startMinute',
+    [userId]
+  );
+
+  const swaps = await db.all(
+    `SELECT id, status, requesterId, requesterName, providerId, providerName, offeredSkillName, wantedSkillName,
+            message, proposedTime, proposedLocation, completedAt, createdAt, updatedAt
+     FROM (${SWAP_DETAILS_SELECT})
+     WHERE requesterId = ? OR providerId = ?
+     ORDER BY createdAt`,
+    [userId, userId]
+  );
+
+  const swapSessions = await db.all(
+    `SELECT ss.id, ss.swapId, ss.proposedBy, ss.startTime, ss.endTime, ss.location, ss.status,
+            ss.respondedAt, ss.confirmedAt, ss.createdAt
+     FROM swap_sessions ss
+     JOIN swap_requests sr ON ss.swapId = sr.id
+     JOIN skills ws ON sr.skillRequestedId = ws.id
+     WHERE sr.requesterId = ? OR ws.userId = ?
+     ORDER BY ss.startTime`,
+    [userId, userId]
+  );
+
+  const reviewsGiven = await db.all(
+    `SELECT r.swapId, r.rating, r.comment, u.fullName as aboutName, r.createdAt
+     FROM reviews r JOIN users u ON r.userId = u.id
+     WHERE r.reviewerId = ? ORDER BY r.createdAt`,
+    [userId]
+  );
+  const reviewsReceived = await db.all(
+    `SELECT r.swapId, r.rating, r.comment, u.fullName as reviewerName, r.createdAt
+     FROM reviews r JOIN users u ON r.reviewerId = u.id
+     WHERE r.userId = ? ORDER BY r.createdAt`,
+    [userId]
+  );
+  const ratingsGiven = await db.all(
+    `SELECT r.rating, r.comment, u.fullName as aboutName, r.createdAt
+     FROM ratings r JOIN users u ON r.userId = u.id
+     WHERE r.raterId = ? ORDER BY r.createdAt`,
+    [userId]
+  );
+  const ratingsReceived = await db.all(
+    `SELECT r.rating, r.comment, u.fullName as raterName, r.createdAt
+     FROM ratings r JOIN users u ON r.raterId = u.id
+     WHERE r.userId = ? ORDER BY r.createdAt`,
+    [userId]
+  );
+
+  const messages = await db.all(
+    `SELECT m.id, m.swapId, m.senderId = ? as sentByMe, sender.fullName as senderName,
+            receiver.fullName as receiverName, m.content, m.readAt, m.createdAt
+     FROM messages m
+     JOIN users sender ON m.senderId = sender.id
+     JOIN users receiver ON m.receiverId = receiver.id
+     WHERE m.senderId = ? OR m.receiverId = ?
+     ORDER BY m.createdAt`,
+    [userId, userId, userId]
+  );
+
+  const notifications = await db.all<{ data: string | null }[]>(
+    'SELECT id, type, title, message, data, readAt, createdAt FROM notifications WHERE userId = ? ORDER BY createdAt',
+    [userId]
+  );
+
+  const circles = await db.all(
+    `SELECT c.id as circleId, c.status as circleStatus, p.position, p.status, teaches.name as teachesSkill,
+            learns.name as learnsSkill, p.respondedAt, p.completedAt, c.createdAt
+     FROM circle_swap_participants p
+     JOIN circle_swaps c ON p.circleId = c.id
+     JOIN skills teaches ON p.teachesSkillId = teaches.id
+     JOIN skills learns ON p.learnsSkillId = learns.id
+     WHERE p.userId = ?
+     ORDER BY c.createdAt`,
+    [userId]
+  );
+
+  const reports = await db.all(
+    `SELECT r.id, u.fullName as reportedName, r.reason, r.details, r.status, r.resolvedAt, r.createdAt
+     FROM reports r JOIN users u ON r.reportedUserId = u.id
+     WHERE r.reporterId = ? ORDER BY r.createdAt`,
+    [userId]
+  );
+
+  const sessions = await db.all(
+    `SELECT id, userAgent, ipAddress, createdAt, lastUsedAt, expiresAt, revokedAt, revokedReason
+     FROM auth_sessions WHERE userId = ? ORDER BY createdAt`,
+    [userId]
+  );
+
+  const identities = await db.all(
+    'SELECT provider, email, createdAt, lastLoginAt FROM user_identities WHERE userId = ? ORDER BY createdAt',
+    [userId]
+  );
+
+  // Account activity the user took part in, from either side. What staff or
+  // the system did to the account shows what changed, but not their IP address
+  // or the notes they kept.
+  const activity = await db.all<{ metadata: string | null; changes: string | null }[]>(
+    `SELECT action, actorId = ? as byMe,
+            CASE WHEN actorId = ? THEN metadata END as metadata,
+            changes,
+            CASE WHEN actorId = ? THEN ipAddress END as ipAddress,
+            createdAt
+     FROM audit_log
+     WHERE actorId = ? OR (targetType = 'user' AND targetId = ?)
+     ORDER BY createdAt`,
+    [userId, userId, userId, userId, String(userId)]
+  );
+
+  return {
+    format: 'skillswap-export',
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+    skills,
+    availability,
+    swaps,
+    swapSessions,
+    reviews: { given: reviewsGiven, received: reviewsReceived },
+    ratings: { given: ratingsGiven, received: ratingsReceived },
+    messages,
+    notifications: notifications.map((notification) => ({ ...notification, data: parseJson(notification.data) })),
+    circles,
+    reports,
+    sessions,
+    identities,
+    activity: activity.map((entry) => ({
+      ...entry,
+      metadata: parseJson(entry.metadata),
+      changes: parseJson(entry.changes)
+    }))
+  };
+}
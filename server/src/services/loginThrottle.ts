@@ -0,0 +1,64 @@
+import { getRateLimitStore } from './rateLimitStore.js';
+import { recordAuditEvent } from './audit.js';
+
+// Failed logins allowed per account before it is locked
+const MAX_FAILURES = Number(process.env.LOGIN_MAX_FAILURES) || 5;
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+// Each lockout within a day lasts twice as long as the one before
+const BASE_LOCKOUT_SECONDS = Number(process.env.LOGIN_LOCKOUT_SECONDS) || 60;
+const MAX_LOCKOUT_SECONDS = 60 * 60;
+const LOCKOUT_HISTORY_MS = 24 * 60 * 60 * 1000;
+
+// Accounts are keyed by email so unknown addresses lock the same way as real ones
+const accountKey = (email: string) => email.trim().toLowerCase();
+
+// When the account's lockout ends, or null if it isn't locked
+export async function getLoginLockout(email: string): Promise<number | null> {
+  const lock = await getRateLimitStore().get(`login-lock:${accountKey(email)}`);
+  return lock ? lock.resetAt : null;
+}
+
+// Count a failed password or 2FA code. Returns when the lockout ends if this
+// failure locked the account.
+export async function recordLoginFailure(
+  email: string,
+  context: { userId?: number; ipAddress?: string | null }
+): Promise<number | null> {
+  const store = getRateLimitStore();
+  const account = accountKey(email);
+
+  const failures = await store.increment(`login-failures:${account}`, FAILURE_WINDOW_MS);
+  if (failures.count < MAX_FAILURES) {
+    return null;
+  }
+
+  const lockouts = await store.increment(`login-lockouts:${account}`, LOCKOUT_HISTORY_MS);
+  const lockSeconds = Math.min(BASE_LOCKOUT_SECONDS * 2 ** (lockouts.count - 1), MAX_LOCKOUT_SECONDS);
+  const lock = await store.increment(`login-lock:${account}`, lockSeconds * 1000);
+  await store.reset(`login-failures:${account}`);
+
+  await recordAuditEvent({
+    action: 'auth.lockout',
+    targetType: 'user',
+    targetId: context.userId ?? null,
+    ipAddress: context.ipAddress,
+    // A known account is named by targetId; its email would outlive the account
+    metadata: {
+      ...(context.userId ? {} : { email: account }),
+      failures: failures.count,
+      lockout: lockouts.count,
+      lockSeconds
+    }
+  });
+  console.warn(`Login locked for ${account} for ${lockSeconds}s after ${failures.count} failed attempts`);
+
+  return lock.resetAt;
+}
+
+export async function clearLoginFailures(email: string): Promise<void> {
+  const store = getRateLimitStore();
+  const account = accountKey(email);
+  await store.reset(`login-failures:${account}`);
+  await store.reset(`login-lockouts:${account}`);
+}
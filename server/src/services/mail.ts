@@ -0,0 +1,97 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver a message; pick one with MAIL_TRANSPORT
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'SkillSwap <no-reply@skillswap.local>';
+
+export class SmtpTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes each message to its own JSON file, for local development and tests
+export class FileTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const file = path.join(this.directory, `${Date.now()}-${safeRecipient}.json`);
+    await fs.writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+    console.log(`📧 Mail to ${message.to} written to ${file}`);
+  }
+}
+
+// Prints messages to the server log
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// SMTP when a host is configured, otherwise the console
+function createMailTransport(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+
+  switch (kind) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST');
+      }
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS
+      });
+    case 'file':
+      return new FileTransport(process.env.MAIL_DIR || 'mail');
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = createMailTransport();
+  }
+  return transport;
+}
+
+// Swap the transport, e.g. to capture mail in tests
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({ ...message, from: MAIL_FROM });
+}
@@ -0,0 +1,195 @@
+import { getDatabase } from '../database/db.js';
+import { activeBanCondition } from './bans.js';
+import type { Skill } from '../database/schema.js';
+
+type Proficiency = Skill['proficiency'];
+
+const PROFICIENCY_LEVELS: Proficiency[] = ['beginner', 'intermediate', 'advanced', 'expert'];
+
+// Points each signal can contribute; a perfect match scores 100
+const WEIGHTS = {
+  proficiency: 40,
+  rating: 20,
+  location: 20,
+  activity: 20
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One way two users could swap: each teaches a skill the other is seeking
+interface MatchRow {
+  userId: number;
+  name: string;
+  location: string | null;
+  profile_photo: string | null;
+  rating: number | null;
+  lastActiveAt: string | null;
+  myOfferedSkillId: number;
+  myOfferedSkillName: string;
+  myOfferedProficiency: Proficiency;
+  theirWantedProficiency: Proficiency;
+  theirOfferedSkillId: number;
+  theirOfferedSkillName: string;
+  theirOfferedProficiency: Proficiency;
+  myWantedProficiency: Proficiency;
+}
+
+export interface MatchSkill {
+  id: number;
+  name: string;
+  proficiency_level: Proficiency;
+}
+
+export interface Match {
+  user: {
+    id: number;
+    name: string;
+    location: string | null;
+    profile_photo: string | null;
+    avg_rating: number | null;
+    lastActiveAt: string | null;
+  };
+  // Skill ids ready for POST /api/swaps
+  offeredSkill: MatchSkill;
+  wantedSkill: MatchSkill;
+  score: number;
+  breakdown: Record<keyof typeof WEIGHTS, number>;
+  reasons: string[];
+}
+
+// Skill names are free text, so compare them case- and whitespace-insensitively
+const MATCH_QUERY = `
+  SELECT u.id as userId, u.fullName as name, u.location, u.profilePicture as profile_photo,
+         u.rating, u.lastActiveAt,
+         my_offer.id as myOfferedSkillId, my_offer.name as myOfferedSkillName,
+         my_offer.proficiency as myOfferedProficiency, their_want.proficiency as theirWantedProficiency,
+         their_offer.id as theirOfferedSkillId, their_offer.name as theirOfferedSkillName,
+         their_offer.proficiency as theirOfferedProficiency, my_want.proficiency as myWantedProficiency
+  FROM skills my_want
+  JOIN skills their_offer
+    ON their_offer.isOffering = 1 AND LOWER(TRIM(their_offer.name)) = LOWER(TRIM(my_want.name))
+  JOIN skills their_want
+    ON their_want.userId = their_offer.userId AND their_want.isSeeking = 1
+  JOIN skills my_offer
+    ON my_offer.userId = my_want.userId AND my_offer.isOffering = 1
+   AND LOWER(TRIM(my_offer.name)) = LOWER(TRIM(their_want.name))
+  JOIN users u ON u.id = their_offer.userId
+  WHERE my_want.userId = ? AND my_want.isSeeking = 1 AND their_offer.userId != ?
+    AND u.deletedAt IS NULL AND NOT ${activeBanCondition('u')}
+    AND NOT EXISTS (
+      SELECT 1 FROM swap_requests sr
+      WHERE sr.skillOfferedId = my_offer.id AND sr.skillRequestedId = their_offer.id
+        AND sr.status IN ('pending', 'accepted')
+    )
+`;
+
+const level = (proficiency: Proficiency) => Math.max(0, PROFICIENCY_LEVELS.indexOf(proficiency));
+
+// How well a teacher covers the level a learner asked for, 0..1
+function teachingFit(teacher: Proficiency, desired: Proficiency): number {
+  const gap = level(teacher) - level(desired);
+  const coverage = gap >= 0 ? 1 : 1 + gap / (PROFICIENCY_LEVELS.length - 1);
+  // Among teachers who cover the level, more experienced ones rank higher
+  return 0.7 * coverage + 0.3 * level(teacher) / (PROFICIENCY_LEVELS.length - 1);
+}
+
+// Same city scores fully, a shared part such as the country scores half
+function locationFit(mine: string | null, theirs: string | null): { score: number; shared: string | null } {
+  if (!mine || !theirs) {
+    return { score: 0, shared: null };
+  }
+  if (mine.trim().toLowerCase() === theirs.trim().toLowerCase()) {
+    return { score: 1, shared: theirs.trim() };
+  }
+
+  const parts = (value: string) => value.split(',').map(part => part.trim().toLowerCase()).filter(Boolean);
+  const shared = parts(theirs).find(part => parts(mine).includes(part));
+  return shared ? { score: 0.5, shared } : { score: 0, shared: null };
+}
+
+// Full marks within a week, nothing after three months
+function activityFit(lastActiveAt: string | null, now: number): number {
+  if (!lastActiveAt) {
+    return 0;
+  }
+  // SQLite CURRENT_TIMESTAMP values are UTC without a zone marker
+  const days = (now - new Date(`${lastActiveAt.replace(' ', 'T')}Z`).getTime()) / DAY_MS;
+  if (days <= 7) {
+    return 1;
+  }
+  return Math.max(0, 1 - (days - 7) / 83);
+}
+
+function scoreMatch(row: MatchRow, myLocation: string | null, now: number): Match {
+  const theyTeach = teachingFit(row.theirOfferedProficiency, row.myWantedProficiency);
+  const iTeach = teachingFit(row.myOfferedProficiency, row.theirWantedProficiency);
+  const rating = row.rating ? Number(row.rating) : null;
+  const location = locationFit(myLocation, row.location);
+  const activity = activityFit(row.lastActiveAt, now);
+
+  const breakdown = {
+    proficiency: WEIGHTS.proficiency * (theyTeach + iTeach) / 2,
+    // Unrated users sit in the middle rather than at the bottom
+    rating: WEIGHTS.rating * (rating ? rating / 5 : 0.5),
+    location: WEIGHTS.location * location.score,
+    activity: WEIGHTS.activity * activity
+  };
+
+  const reasons = [
+    `Teaches ${row.theirOfferedSkillName} (${row.theirOfferedProficiency}), which you want to learn`,
+    `Wants to learn ${row.myOfferedSkillName}, which you offer (${row.myOfferedProficiency})`
+  ];
+  if (level(row.theirOfferedProficiency) < level(row.myWantedProficiency)) {
+    reasons.push(`Below the ${row.myWantedProficiency} level you asked for in ${row.theirOfferedSkillName}`);
+  }
+  if (rating) {
+    reasons.push(`Rated ${rating.toFixed(1)}/5`);
+  }
+  if (location.shared) {
+    reasons.push(location.score === 1 ? `Also in ${location.shared}` : `Near you (${location.shared})`);
+  }
+  if (activity === 1) {
+    reasons.push('Active in the last week');
+  }
+
+  return {
+    user: {
+      id: row.userId,
+      name: row.name,
+      location: row.location,
+      profile_photo: row.profile_photo,
+      avg_rating: rating ? Number(rating.toFixed(1)) : null,
+      lastActiveAt: row.lastActiveAt
+    },
+    offeredSkill: { id: row.myOfferedSkillId, name: row.myOfferedSkillName, proficiency_level: row.myOfferedProficiency },
+    wantedSkill: { id: row.theirOfferedSkillId, name: row.theirOfferedSkillName, proficiency_level: row.theirOfferedProficiency },
+    score: Math.round(Object.values(breakdown).reduce((sum, value) => sum + value, 0)),
+    breakdown: {
+      proficiency: Math.round(breakdown.proficiency),
+      rating: Math.round(breakdown.rating),
+      location: Math.round(breakdown.location),
+      activity: Math.round(breakdown.activity)
+    },
+    reasons
+  };
+}
+
+// Two-way matches for a user, best first, one per counterpart. Skill pairs
+// that already have a pending or accepted swap are left out.
+export async function findMatches(userId: number): Promise<Match[]> {
+  const db = await getDatabase();
+  const me = await db.get<{ location: string | null }>('SELECT location FROM users WHERE id = ?', [userId]);
+  const rows = await db.all<MatchRow[]>(MATCH_QUERY, [userId, userId]);
+  const now = Date.now();
+
+  const best = new Map<number, Match>();
+  for (const row of rows) {
+    const match = scoreMatch(row, me?.location ?? null, now);
+    const current = best.get(row.userId);
+    if (!current || match.score > current.score) {
+      best.set(row.userId, match);
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.score - a.score || a.user.name.localeCompare(b.user.name));
+}
@@ -0,0 +1,30 @@
+import { sendToUser } from '../websocket.js';
+import type { SwapRequest } from '../database/schema.js';
+import { getSwapDetails, getCounterpartId } from './swapEvents.js';
+
+// Partners can only write to each other once a swap has been accepted
+export const MESSAGEABLE_STATUSES: SwapRequest['status'][] = ['accepted', 'completed'];
+
+export function isSwapParticipant(swap: SwapRequest, userId: number): boolean {
+  return swap.requesterId === userId || swap.providerId === userId;
+}
+
+// Relay a `typing` socket message to the other participant of the swap
+export async function handleTypingMessage(userId: number, data: { swapId?: unknown; isTyping?: unknown }): Promise<void> {
+  const swapId = Number(data.swapId);
+  if (!Number.isInteger(swapId)) {
+    return;
+  }
+
+  const swap = await getSwapDetails(swapId);
+  if (!swap || !isSwapParticipant(swap, userId) || !MESSAGEABLE_STATUSES.includes(swap.status)) {
+    return;
+  }
+
+  sendToUser(String(getCounterpartId(swap, userId)), {
+    type: 'message.typing',
+    swapId,
+    userId,
+    isTyping: data.isTyping !== false
+  });
+}
@@ -0,0 +1,17 @@
+import type { Notification } from '../database/schema.js';
+import { getRepositories } from '../repositories/index.js';
+
+// Anything pushed to a user: the inbox keeps type, title and message as
+// columns and the remaining fields as the JSON `data` payload
+export interface OutgoingNotification {
+  type: string;
+  title: string;
+  message: string;
+  [key: string]: unknown;
+}
+
+export async function saveNotification(userId: number, notification: OutgoingNotification): Promise<Notification> {
+  const { type, title, message, ...data } = notification;
+  const { notifications } = await getRepositories();
+  return notifications.create(userId, { type, title, message, data });
+}
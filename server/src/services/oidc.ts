@@ -0,0 +1,416 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { getDatabase } from '../database/db.js';
+import type { OidcLoginAttempt, User } from '../database/schema.js';
+import { recordAuditEvent } from './audit.js';
+
+export interface OidcProvider {
+  id: string;
+  name: string; // Shown on the sign-in button
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // Public clients rely on PKCE alone
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface IdTokenClaims extends jwt.JwtPayload {
+  sub: string;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+export class OidcError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, message: string, code = 'OIDC_ERROR') {
+    super(message);
+    this.name = 'OidcError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+const SERVER_URL = process.env.SERVER_URL || `http://localhost:${process.env.PORT || 3001}`;
+
+// Time to finish signing in at the provider, and to swap the resulting code for a session
+const LOGIN_ATTEMPT_MINUTES = 10;
+const LOGIN_CODE_SECONDS = 60;
+
+const FETCH_TIMEOUT_MS = 10_000;
+// Don't refetch a provider's keys more often than this when a token names an unknown key
+const JWKS_REFRESH_MS = 60_000;
+
+// OIDC_PROVIDERS=google,mock with OIDC_<ID>_ISSUER, OIDC_<ID>_CLIENT_ID,
+// OIDC_<ID>_CLIENT_SECRET and OIDC_<ID>_NAME for each provider
+function loadProviders(): Map<string, OidcProvider> {
+  const providers = new Map<string, OidcProvider>();
+  const ids = (process.env.OIDC_PROVIDERS || '').split(',').map(id => id.trim().toLowerCase()).filter(Boolean);
+
+  for (const id of ids) {
+    const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const issuer = process.env[`${prefix}ISSUER`]?.replace(/\/$/, '');
+    const clientId = process.env[`${prefix}CLIENT_ID`];
+    if (!issuer || !clientId) {
+      console.warn(`OIDC provider "${id}" is missing ${prefix}ISSUER or ${prefix}CLIENT_ID and is disabled`);
+      continue;
+    }
+    providers.set(id, {
+      id,
+      name: process.env[`${prefix}NAME`] || id,
+      issuer,
+      clientId,
+      clientSecret: process.env[`${prefix}CLIENT_SECRET`] || undefined
+    });
+  }
+  return providers;
+}
+
+const providers = loadProviders();
+
+// What the sign-in pages need to draw a button for each provider
+export function getOidcProviders(): { id: string; name: string }[] {
+  return [...providers.values()].map(({ id, name }) => ({ id, name }));
+}
+
+export function getOidcProvider(id: string): OidcProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new OidcError(404, 'Unknown sign-in provider', 'UNKNOWN_PROVIDER');
+  }
+  return provider;
+}
+
+export const oidcRedirectUri = (provider: OidcProvider) => `${SERVER_URL}/api/auth/oidc/${provider.id}/callback`;
+
+// Where the browser ends up after the provider, with the outcome in the URL
+// fragment so it never reaches server logs or Referer headers
+export function clientLoginUrl(params: Record<string, string>): string {
+  return `${CLIENT_URL}/login#${new URLSearchParams(params).toString()}`;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  } catch (error) {
+    console.error(`OIDC request to ${url} failed:`, error);
+    throw new OidcError(502, 'The sign-in provider is not reachable');
+  }
+
+  if (!response.ok) {
+    console.error(`OIDC request to ${url} returned ${response.status}:`, await response.text().catch(() => ''));
+    throw new OidcError(502, 'The sign-in provider rejected the request');
+  }
+  return response.json() as Promise<T>;
+}
+
+const discoveryCache = new Map<string, Promise<DiscoveryDocument>>();
+
+function getDiscovery(provider: OidcProvider): Promise<DiscoveryDocument> {
+  let discovery = discoveryCache.get(provider.id);
+  if (!discovery) {
+    discovery = fetchJson<DiscoveryDocument>(`${provider.issuer}/.well-known/openid-configuration`).then((document) => {
+      if (document.issuer?.replace(/\/$/, '') !== provider.issuer) {
+        throw new OidcError(502, 'The sign-in provider is misconfigured');
+      }
+      return document;
+    });
+    // A failed lookup is retried on the next sign-in
+    discovery.catch(() => discoveryCache.delete(provider.id));
+    discoveryCache.set(provider.id, discovery);
+  }
+  return discovery;
+}
+
+const jwksCache = new Map<string, { keys: Map<string, crypto.KeyObject>; fetchedAt: number }>();
+
+async function getSigningKey(provider: OidcProvider, kid: string | undefined): Promise<crypto.KeyObject> {
+  const findKey = (keys: Map<string, crypto.KeyObject>) =>
+    kid ? keys.get(kid) : keys.size === 1 ? [...keys.values()][0] : undefined;
+
+  const cached = jwksCache.get(provider.id);
+  const cachedKey = cached && findKey(cached.keys);
+  if (cachedKey) {
+    return cachedKey;
+  }
+
+  // The provider may have rotated its keys
+  if (!cached || Date.now() - cached.fetchedAt > JWKS_REFRESH_MS) {
+    const { jwks_uri } = await getDiscovery(provider);
+    const jwks = await fetchJson<{ keys: (crypto.JsonWebKey & { kid?: string; use?: string })[] }>(jwks_uri);
+    const keys = new Map<string, crypto.KeyObject>();
+    for (const jwk of jwks.keys ?? []) {
+      if (jwk.use && jwk.use !== 'sig') continue;
+      try {
+        keys.set(jwk.kid ?? '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch {
+        // Key types Node can't load are never used to sign our tokens
+      }
+    }
+    jwksCache.set(provider.id, { keys, fetchedAt: Date.now() });
+
+    const key = findKey(keys);
+    if (key) {
+      return key;
+    }
+  }
+  throw new OidcError(401, 'The sign-in provider sent a token we could not verify');
+}
+
+const base64url = (bytes: Buffer) => bytes.toString('base64url');
+const hashCode = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+// The browser that starts a sign-in keeps a hash of its state in this cookie,
+// so a callback carrying someone else's state can't sign it in (login CSRF).
+// Lax still sends it on the provider's top-level redirect back.
+export const OIDC_STATE_COOKIE = 'oidc_state';
+
+export const oidcStateCookieOptions = (provider: OidcProvider) => ({
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: SERVER_URL.startsWith('https:'),
+  path: new URL(oidcRedirectUri(provider)).pathname
+});
+
+// Start a sign-in: remember the PKCE verifier and nonce, and return the
+// provider URL to send the browser to along with the state cookie to set
+export async function beginOidcLogin(provider: OidcProvider): Promise<{ url: string; stateCookie: string; maxAge: number }> {
+  const discovery = await getDiscovery(provider);
+  const state = base64url(crypto.randomBytes(32));
+  const nonce = base64url(crypto.randomBytes(32));
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  const db = await getDatabase();
+  await db.run('DELETE FROM oidc_login_attempts WHERE expiresAt <= CURRENT_TIMESTAMP');
+  await db.run(
+    `INSERT INTO oidc_login_attempts (state, provider, nonce, codeVerifier, expiresAt)
+     VALUES (?, ?, ?, ?, datetime('now', ?))`,
+    [state, provider.id, nonce, codeVerifier, `+${LOGIN_ATTEMPT_MINUTES} minutes`]
+  );
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: oidcRedirectUri(provider),
+    scope: 'openid email profile',
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  }).toString();
+  return { url: url.toString(), stateCookie: hashCode(state), maxAge: LOGIN_ATTEMPT_MINUTES * 60 * 1000 };
+}
+
+async function exchangeCode(provider: OidcProvider, code: string, codeVerifier: string): Promise<string> {
+  const { token_endpoint } = await getDiscovery(provider);
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  if (provider.clientSecret) {
+    const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(token_endpoint, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: oidcRedirectUri(provider),
+      client_id: provider.clientId,
+      code_verifier: codeVerifier
+    })
+  });
+
+  if (!tokens.id_token) {
+    throw new OidcError(502, 'The sign-in provider did not return an ID token');
+  }
+  return tokens.id_token;
+}
+
+async function verifyIdToken(provider: OidcProvider, idToken: string, nonce: string): Promise<IdTokenClaims> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new OidcError(401, 'The sign-in provider sent a token we could not verify');
+  }
+
+  let claims: IdTokenClaims;
+  try {
+    claims = jwt.verify(idToken, await getSigningKey(provider, decoded.header.kid), {
+      // Only asymmetric algorithms, so a token can't be signed with the public key as an HMAC secret
+      algorithms: ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'],
+      issuer: provider.issuer,
+      audience: provider.clientId,
+      clockTolerance: 60
+    }) as IdTokenClaims;
+  } catch (error) {
+    if (error instanceof OidcError) throw error;
+    console.error('ID token verification failed:', error);
+    throw new OidcError(401, 'The sign-in provider sent a token we could not verify');
+  }
+
+  // The nonce ties the token to the sign-in this browser started
+  if (claims.nonce !== nonce) {
+    throw new OidcError(401, 'The sign-in provider sent a token for a different sign-in');
+  }
+  if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== provider.clientId) {
+    throw new OidcError(401, 'The sign-in provider sent a token for a different application');
+  }
+  if (!claims.sub) {
+    throw new OidcError(401, 'The sign-in provider did not identify the user');
+  }
+  return claims;
+}
+
+async function uniqueUsername(email: string): Promise<string> {
+  const db = await getDatabase();
+  const base = email.split('@')[0];
+  let username = base;
+  while (await db.get('SELECT id FROM users WHERE username = ?', [username])) {
+    username = `${base}${crypto.randomInt(1000, 10000)}`;
+  }
+  return username;
+}
+
+// Find the account for a provider identity. An identity seen before maps to
+// its account; otherwise it is linked to the account with the same email
+// address once that account has verified it, or a new account is created.
+async function resolveUser(provider: OidcProvider, claims: IdTokenClaims, ipAddress?: string): Promise<number> {
+  const db = await getDatabase();
+  const identity = await db.get<{ userId: number }>(
+    'SELECT userId FROM user_identities WHERE provider = ? AND subject = ?',
+    [provider.id, claims.sub]
+  );
+  if (identity) {
+    await db.run(
+      'UPDATE user_identities SET lastLoginAt = CURRENT_TIMESTAMP, email = ? WHERE provider = ? AND subject = ?',
+      [claims.email ?? null, provider.id, claims.sub]
+    );
+    return identity.userId;
+  }
+
+  // Without a verified address anyone could claim someone else's account
+  const emailVerified = claims.email_verified === true || claims.email_verified === 'true';
+  if (!claims.email || !emailVerified) {
+    throw new OidcError(
+      400,
+      `Your ${provider.name} account has no verified email address. Verify it there, or sign up with a password.`,
+      'EMAIL_NOT_VERIFIED'
+    );
+  }
+
+  const existing = await db.get<Pick<User, 'id' | 'emailVerifiedAt'>>(
+    'SELECT id, emailVerifiedAt FROM users WHERE LOWER(email) = LOWER(?)',
+    [claims.email]
+  );
+
+  let userId: number;
+  if (existing) {
+    // Anyone can register with an address they don't own. Linking to such an
+    // account would hand its owner's provider sign-in to whoever set its
+    // password, so the address has to be proven through our own email first.
+    if (!existing.emailVerifiedAt) {
+      throw new OidcError(
+        409,
+        `An account with this email address already exists but hasn't verified it. Sign in with your password and ` +
+          `verify your email address, or reset your password, then sign in with ${provider.name} again.`,
+        'ACCOUNT_NOT_VERIFIED'
+      );
+    }
+    userId = existing.id;
+    await recordAuditEvent({
+      action: 'auth.identity_linked',
+      actorId: userId,
+      targetType: 'user',
+      targetId: userId,
+      metadata: { provider: provider.id },
+      ipAddress
+    });
+  } else {
+    // There is no password to sign in with until the user sets one through a reset link
+    const unusablePassword = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+    const result = await db.run(
+      `INSERT INTO users (username, email, password, fullName, emailVerifiedAt)
+       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [await uniqueUsername(claims.email), claims.email, unusablePassword, claims.name || claims.email.split('@')[0]]
+    );
+    userId = result.lastID as number;
+  }
+
+  await db.run(
+    `INSERT INTO user_identities (userId, provider, subject, email, lastLoginAt)
+     VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+    [userId, provider.id, claims.sub, claims.email]
+  );
+  return userId;
+}
+
+// Handle the provider's redirect back: check the state against the one stored
+// and the browser's cookie, swap the code for an ID token and find the
+// account. Returns a single-use code for the client.
+export async function completeOidcLogin(
+  provider: OidcProvider,
+  params: { code: string; state: string; stateCookie?: string | null },
+  ipAddress?: string
+): Promise<string> {
+  const given = Buffer.from(params.stateCookie ?? '');
+  const expected = Buffer.from(hashCode(params.state));
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    throw new OidcError(400, 'Sign-in has to finish in the browser it started in, please try again', 'STATE_MISMATCH');
+  }
+
+  const db = await getDatabase();
+  const attempt = await db.get<OidcLoginAttempt>(
+    `SELECT * FROM oidc_login_attempts
+     WHERE state = ? AND provider = ? AND loginCodeHash IS NULL AND expiresAt > CURRENT_TIMESTAMP`,
+    [params.state, provider.id]
+  );
+  if (!attempt) {
+    throw new OidcError(400, 'Your sign-in attempt has expired, please try again', 'INVALID_STATE');
+  }
+
+  const idToken = await exchangeCode(provider, params.code, attempt.codeVerifier);
+  const claims = await verifyIdToken(provider, idToken, attempt.nonce);
+  const userId = await resolveUser(provider, claims, ipAddress);
+
+  const loginCode = base64url(crypto.randomBytes(32));
+  const claimed = await db.run(
+    `UPDATE oidc_login_attempts SET userId = ?, loginCodeHash = ?, expiresAt = datetime('now', ?)
+     WHERE state = ? AND loginCodeHash IS NULL`,
+    [userId, hashCode(loginCode), `+${LOGIN_CODE_SECONDS} seconds`, attempt.state]
+  );
+  if (!claimed.changes) {
+    throw new OidcError(400, 'Your sign-in attempt has expired, please try again', 'INVALID_STATE');
+  }
+  return loginCode;
+}
+
+// Use up the code from completeOidcLogin and return the user it belongs to
+export async function consumeOidcLoginCode(loginCode: string): Promise<number> {
+  const db = await getDatabase();
+  const attempt = await db.get<Pick<OidcLoginAttempt, 'state' | 'userId'>>(
+    `SELECT state, userId FROM oidc_login_attempts
+     WHERE loginCodeHash = ? AND expiresAt > CURRENT_TIMESTAMP`,
+    [hashCode(loginCode)]
+  );
+
+  // Only one of two concurrent requests can delete the row
+  const claimed = attempt ? await db.run('DELETE FROM oidc_login_attempts WHERE state = ?', [attempt.state]) : null;
+  if (!attempt?.userId || !claimed?.changes) {
+    throw new OidcError(401, 'Your sign-in attempt has expired, please try again', 'INVALID_LOGIN_CODE');
+  }
+  return attempt.userId;
+}
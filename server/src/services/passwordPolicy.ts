@@ -0,0 +1,122 @@
+import { COMMON_PASSWORDS } from '../data/commonPasswords.js';
+
+// Configurable with PASSWORD_MIN_LENGTH and PASSWORD_MIN_SCORE (0-4)
+export const PASSWORD_POLICY = {
+  minLength: Number(process.env.PASSWORD_MIN_LENGTH) || 10,
+  // bcrypt ignores anything past 72 bytes
+  maxLength: 72,
+  minScore: Math.min(4, Math.max(0, Number(process.env.PASSWORD_MIN_SCORE ?? 3)))
+};
+
+export const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'] as const;
+
+export interface PasswordCheck {
+  valid: boolean;
+  score: number; // 0-4
+  label: typeof STRENGTH_LABELS[number];
+  errors: string[];
+  suggestions: string[];
+}
+
+const commonPasswords = new Set(COMMON_PASSWORDS);
+
+const SEQUENCES = [
+  'abcdefghijklmnopqrstuvwxyz',
+  '01234567890',
+  'qwertyuiop',
+  'asdfghjkl',
+  'zxcvbnm'
+];
+
+function isCommon(password: string): boolean {
+  const lower = password.toLowerCase();
+  const base = lower.replace(/[\d\W_]+$/, '');
+  return commonPasswords.has(lower) || (base.length > 0 && commonPasswords.has(base));
+}
+
+// Characters that are part of a run of 3+ repeated or sequential characters,
+// forwards or backwards (aaa, abc, 321, qwe)
+function countPredictableChars(password: string): number {
+  const lower = password.toLowerCase();
+  const predictable = new Set<number>();
+
+  for (let i = 0; i + 2 < lower.length; i++) {
+    const chunk = lower.slice(i, i + 3);
+    const reversed = [...chunk].reverse().join('');
+    const repeated = chunk[0] === chunk[1] && chunk[1] === chunk[2];
+    const sequential = SEQUENCES.some(sequence => sequence.includes(chunk) || sequence.includes(reversed));
+    if (repeated || sequential) {
+      predictable.add(i).add(i + 1).add(i + 2);
+    }
+  }
+  return predictable.size;
+}
+
+function charsetSize(password: string): number {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/\d/.test(password)) size += 10;
+  if (/[^a-zA-Z\d]/.test(password)) size += 33;
+  return size;
+}
+
+// Rough guessing entropy: length times the bits per character, not counting
+// predictable runs or parts of the user's own name or email
+function estimateBits(password: string, userInputs: string[]): number {
+  const lower = password.toLowerCase();
+  const parts = new Set(userInputs.flatMap(input => input.toLowerCase().split(/[^a-z0-9]+/)));
+  const personal = [...parts]
+    .filter(part => part.length >= 3 && lower.includes(part))
+    .reduce((total, part) => total + part.length, 0);
+
+  const guessable = Math.min(password.length, countPredictableChars(password) + personal);
+  const unpredictable = password.length - guessable;
+  const bitsPerChar = Math.log2(Math.max(charsetSize(password), 1));
+
+  // Predictable characters still add a little
+  return unpredictable * bitsPerChar + guessable;
+}
+
+function scoreFromBits(bits: number): number {
+  if (bits < 28) return 0;
+  if (bits < 36) return 1;
+  if (bits < 60) return 2;
+  if (bits < 80) return 3;
+  return 4;
+}
+
+// Check a new password against the policy. userInputs are things an attacker
+// would try first, like the user's name and email address.
+export function checkPassword(password: string, userInputs: string[] = []): PasswordCheck {
+  const errors: string[] = [];
+  const suggestions: string[] = [];
+  const common = isCommon(password);
+  const score = common ? 0 : scoreFromBits(estimateBits(password, userInputs.filter(Boolean)));
+
+  if (password.length < PASSWORD_POLICY.minLength) {
+    errors.push(`Password must be at least ${PASSWORD_POLICY.minLength} characters`);
+  }
+  if (password.length > PASSWORD_POLICY.maxLength) {
+    errors.push(`Password must be at most ${PASSWORD_POLICY.maxLength} characters`);
+  }
+  if (common) {
+    errors.push('This password is too common and appears in lists of leaked passwords');
+  } else if (score < PASSWORD_POLICY.minScore) {
+    errors.push('Password is too easy to guess');
+  }
+
+  if (score < 4) {
+    if (password.length < 16) {
+      suggestions.push('Use a longer password, such as a few unrelated words');
+    }
+    if (charsetSize(password) < 62) {
+      suggestions.push('Mix upper and lower case letters, numbers and symbols');
+    }
+    if (countPredictableChars(password) > 0) {
+      suggestions.push('Avoid repeated characters and sequences like "abc" or "123"');
+    }
+  }
+
+  return { valid: errors.length === 0, score, label: STRENGTH_LABELS[score], errors, suggestions };
+}
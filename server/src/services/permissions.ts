@@ -0,0 +1,90 @@
+import { getDatabase } from '../database/db.js';
+import type { RoleName } from '../database/schema.js';
+
+export const ROLE_NAMES: readonly RoleName[] = ['user', 'moderator', 'admin', 'superadmin'];
+
+export type Permission =
+  | 'users.view'
+  | 'users.ban'
+  | 'reports.view'
+  | 'reports.resolve'
+  | 'swaps.view_all'
+  | 'stats.view'
+  | 'messages.view_all'
+  | 'messages.broadcast'
+  | 'roles.assign'
+  | 'audit.view';
+
+// Every role except 'user' has moderation powers and must use two-factor authentication
+export const isStaffRole = (role: RoleName) => role !== 'user';
+
+// Permissions a role may use from a session that hasn't passed two-factor
+// authentication. Moderators can work through reports before they enroll;
+// admins and superadmins need a verified session for every permission.
+const TWO_FACTOR_EXEMPT: Partial<Record<RoleName, readonly Permission[]>> = {
+  moderator: ['reports.view', 'reports.resolve']
+};
+
+export const requiresTwoFactor = (role: RoleName, permission: Permission) =>
+  !TWO_FACTOR_EXEMPT[role]?.includes(permission);
+
+export async function getUserRole(userId: number): Promise<RoleName | null> {
+  const db = await getDatabase();
+  const user = await db.get<{ role: RoleName }>('SELECT role FROM users WHERE id = ?', [userId]);
+  return user?.role ?? null;
+}
+
+export async function getUserPermissions(userId: number): Promise<Permission[]> {
+  const db = await getDatabase();
+  const rows = await db.all<{ name: Permission }[]>(
+    `SELECT p.name FROM users u
+     JOIN roles r ON r.name = u.role
+     JOIN role_permissions rp ON rp.roleId = r.id
+     JOIN permissions p ON p.id = rp.permissionId
+     WHERE u.id = ?
+     ORDER BY p.name`,
+    [userId]
+  );
+  return rows.map(row => row.name);
+}
+
+export async function hasPermission(userId: number, permission: Permission): Promise<boolean> {
+  const db = await getDatabase();
+  const row = await db.get(
+    `SELECT 1 FROM users u
+     JOIN roles r ON r.name = u.role
+     JOIN role_permissions rp ON rp.roleId = r.id
+     JOIN permissions p ON p.id = rp.permissionId
+     WHERE u.id = ? AND p.name = ?`,
+    [userId, permission]
+  );
+  return Boolean(row);
+}
+
+// Roles with the permissions each one grants
+export async function getRoles(): Promise<{ name: RoleName; description: string | null; permissions: Permission[] }[]> {
+  const db = await getDatabase();
+  const rows = await db.all<{ name: RoleName; description: string | null; permissions: string | null }[]>(
+    `SELECT r.name, r.description, GROUP_CONCAT(p.name) as permissions
+     FROM roles r
+     LEFT JOIN role_permissions rp ON rp.roleId = r.id
+     LEFT JOIN permissions p ON p.id = rp.permissionId
+     GROUP BY r.id
+     ORDER BY r.id`
+  );
+  return rows.map(row => ({
+    name: row.name,
+    description: row.description,
+    permissions: (row.permissions ? row.permissions.split(',') : []) as Permission[]
+  }));
+}
+
+// Returns false if the user doesn't exist. isAdmin follows the role.
+export async function assignRole(userId: number, role: RoleName): Promise<boolean> {
+  const db = await getDatabase();
+  const result = await db.run(
+    'UPDATE users SET role = ?, isAdmin = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+    [role, role === 'admin' || role === 'superadmin' ? 1 : 0, userId]
+  );
+  return Boolean(result.changes);
+}
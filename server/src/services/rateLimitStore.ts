@@ -0,0 +1,65 @@
+// Counters for rate limits and lockouts. Each key counts hits in a fixed
+// window that starts with its first hit.
+export interface RateLimitEntry {
+  count: number;
+  resetAt: number; // epoch milliseconds
+}
+
+// Anything that can keep counters; swap in a shared store when running more
+// than one server process
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  get(key: string): Promise<RateLimitEntry | null>;
+  reset(key: string): Promise<void>;
+}
+
+// Counters in process memory, lost on restart
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  constructor(cleanupIntervalMs = 60 * 1000) {
+    setInterval(() => this.prune(), cleanupIntervalMs).unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = Date.now();
+    const current = this.entries.get(key);
+    const entry = current && current.resetAt > now
+      ? { count: current.count + 1, resetAt: current.resetAt }
+      : { count: 1, resetAt: now + windowMs };
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const entry = this.entries.get(key);
+    return entry && entry.resetAt > Date.now() ? entry : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.resetAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+// Swap the store, e.g. for a shared one or in tests
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import { getDatabase } from '../database/db.js';
+import type { AuthSession } from '../database/schema.js';
+
+// A session that isn't refreshed for this long is signed out
+const SESSION_TTL_DAYS = 30;
+
+// Two tabs sharing storage can race to rotate the same token. A repeat within
+// this window is answered with a plain 401 instead of being treated as theft.
+const REUSE_GRACE_MS = 30 * 1000;
+
+export type SessionRevokedReason = NonNullable<AuthSession['revokedReason']>;
+
+// Where a session was started from, shown in the device list
+export interface SessionClient {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export class SessionError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'SessionError';
+    this.status = status;
+  }
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone marker
+const parseTimestamp = (value: string) => new Date(`${value.replace(' ', 'T')}Z`).getTime();
+
+async function issueRefreshToken(sessionId: number): Promise<string> {
+  const db = await getDatabase();
+  const token = crypto.randomBytes(32).toString('base64url');
+  await db.run('INSERT INTO refresh_tokens (sessionId, tokenHash) VALUES (?, ?)', [sessionId, hashToken(token)]);
+  return token;
+}
+
+// twoFactorVerified records that the login passed a second factor
+export async function createSession(
+  userId: number,
+  client: SessionClient,
+  twoFactorVerified = false
+): Promise<{ sessionId: number; refreshToken: string }> {
+  const db = await getDatabase();
+  const result = await db.run(
+    `INSERT INTO auth_sessions (userId, userAgent, ipAddress, expiresAt, twoFactorVerifiedAt)
+     VALUES (?, ?, ?, datetime('now', '+${SESSION_TTL_DAYS} days'), ${twoFactorVerified ? 'CURRENT_TIMESTAMP' : 'NULL'})`,
+    [userId, client.userAgent?.slice(0, 255) ?? null, client.ipAddress ?? null]
+  );
+  const sessionId = result.lastID!;
+  return { sessionId, refreshToken: await issueRefreshToken(sessionId) };
+}
+
+// Exchange a refresh token for a new one. Each token works once; presenting a
+// spent token again revokes the whole session, since one of the two copies
+// must have been stolen.
+export async function rotateRefreshToken(token: string): Promise<{ session: AuthSession; refreshToken: string }> {
+  const db = await getDatabase();
+  const row = await db.get<AuthSession & { tokenId: number; usedAt: string | null }>(
+    `SELECT s.*, t.id as tokenId, t.usedAt
+     FROM refresh_tokens t JOIN auth_sessions s ON t.sessionId = s.id
+     WHERE t.tokenHash = ?`,
+    [hashToken(token)]
+  );
+
+  if (!row) {
+    throw new SessionError(401, 'Invalid refresh token');
+  }
+
+  const { tokenId, usedAt, ...session } = row;
+
+  if (session.revokedAt) {
+    throw new SessionError(401, 'Session has been revoked');
+  }
+
+  if (parseTimestamp(session.expiresAt) <= Date.now()) {
+    throw new SessionError(401, 'Session has expired');
+  }
+
+  if (usedAt) {
+    if (Date.now() - parseTimestamp(usedAt) > REUSE_GRACE_MS) {
+      await revokeSession(session.id, 'reuse_detected');
+      console.warn(`Refresh token reuse detected for session ${session.id} (user ${session.userId})`);
+    }
+    throw new SessionError(401, 'Refresh token has already been used');
+  }
+
+  // Only one of two concurrent requests can mark the token used
+  const claimed = await db.run('UPDATE refresh_tokens SET usedAt = CURRENT_TIMESTAMP WHERE id = ? AND usedAt IS NULL', [tokenId]);
+  if (!claimed.changes) {
+    throw new SessionError(401, 'Refresh token has already been used');
+  }
+
+  await db.run(
+    `UPDATE auth_sessions SET lastUsedAt = CURRENT_TIMESTAMP, expiresAt = datetime('now', '+${SESSION_TTL_DAYS} days')
+     WHERE id = ?`,
+    [session.id]
+  );
+
+  return { session, refreshToken: await issueRefreshToken(session.id) };
+}
+
+// Session a refresh token belongs to, whether or not the token is spent
+export async function findSessionByRefreshToken(token: string): Promise<AuthSession | undefined> {
+  const db = await getDatabase();
+  return db.get<AuthSession>(
+    `SELECT s.* FROM refresh_tokens t JOIN auth_sessions s ON t.sessionId = s.id WHERE t.tokenHash = ?`,
+    [hashToken(token)]
+  );
+}
+
+export async function isSessionActive(sessionId: number, userId: number): Promise<boolean> {
+  const db = await getDatabase();
+  const session = await db.get(
+    `SELECT id FROM auth_sessions
+     WHERE id = ? AND userId = ? AND revokedAt IS NULL AND expiresAt > CURRENT_TIMESTAMP`,
+    [sessionId, userId]
+  );
+  return Boolean(session);
+}
+
+// True while the session passed a second factor and the user still has 2FA on
+export async function isSessionTwoFactorVerified(sessionId: number): Promise<boolean> {
+  const db = await getDatabase();
+  const session = await db.get(
+    `SELECT s.id FROM auth_sessions s JOIN users u ON s.userId = u.id
+     WHERE s.id = ? AND s.twoFactorVerifiedAt IS NOT NULL AND u.totpEnabledAt IS NOT NULL`,
+    [sessionId]
+  );
+  return Boolean(session);
+}
+
+export async function markSessionTwoFactorVerified(sessionId: number): Promise<void> {
+  const db = await getDatabase();
+  await db.run('UPDATE auth_sessions SET twoFactorVerifiedAt = CURRENT_TIMESTAMP WHERE id = ?', [sessionId]);
+}
+
+// Signed-in devices, most recently used first
+export async function getUserSessions(userId: number): Promise<AuthSession[]> {
+  const db = await getDatabase();
+  return db.all<AuthSession[]>(
+    `SELECT id, userId, userAgent, ipAddress, createdAt, lastUsedAt, expiresAt
+     FROM auth_sessions
+     WHERE userId = ? AND revokedAt IS NULL AND expiresAt > CURRENT_TIMESTAMP
+     ORDER BY lastUsedAt DESC, id DESC`,
+    [userId]
+  );
+}
+
+// Returns false if the session was already revoked
+export async function revokeSession(sessionId: number, reason: SessionRevokedReason): Promise<boolean> {
+  const db = await getDatabase();
+  const result = await db.run(
+    `UPDATE auth_sessions SET revokedAt = CURRENT_TIMESTAMP, revokedReason = ? WHERE id = ? AND revokedAt IS NULL`,
+    [reason, sessionId]
+  );
+  return Boolean(result.changes);
+}
+
+// Revoke every open session of a user, optionally keeping one; returns the revoked ids
+export async function revokeUserSessions(
+  userId: number,
+  reason: SessionRevokedReason,
+  exceptSessionId?: number
+): Promise<number[]> {
+  const db = await getDatabase();
+  const sessions = await db.all<{ id: number }[]>(
+    'SELECT id FROM auth_sessions WHERE userId = ? AND revokedAt IS NULL AND id != ?',
+    [userId, exceptSessionId ?? 0]
+  );
+
+  for (const session of sessions) {
+    await revokeSession(session.id, reason);
+  }
+  return sessions.map(session => session.id);
+}
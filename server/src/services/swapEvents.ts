@@ -0,0 +1,163 @@
+import { getDatabase } from '../database/db.js';
+import { broadcastNotification } from '../websocket.js';
+import type { SwapRequest, SwapSession } from '../database/schema.js';
+import type { OutgoingNotification } from './notifications.js';
+import { SwapRepository } from '../repositories/swaps.repository.js';
+
+export type SwapEventType =
+  | 'swap.created'
+  | 'swap.status_changed'
+  | 'swap.deleted'
+  | 'swap.auto_cancelled'
+  | 'rating.received'
+  | 'session.proposed'
+  | 'session.countered'
+  | 'session.confirmed'
+  | 'session.declined'
+  | 'session.cancelled';
+
+export interface SwapEvent extends OutgoingNotification {
+  type: SwapEventType;
+  swapId: number;
+  actorId: number;
+  // Swap row in the same shape GET /api/swaps returns, so clients can patch it in place
+  swap: SwapRequest;
+  status?: SwapRequest['status'];
+  previousStatus?: SwapRequest['status'];
+  rating?: {
+    rating: number;
+    feedback?: string | null;
+  };
+  session?: SwapSession;
+  timestamp: string;
+}
+
+type SwapEventInput = Pick<SwapEvent, 'type' | 'status' | 'previousStatus' | 'rating' | 'session'>;
+
+// Swap request joined with both participants and skill names
+export async function getSwapDetails(swapId: number): Promise<SwapRequest | undefined> {
+  return new SwapRepository(await getDatabase()).findDetails(swapId);
+}
+
+// The other participant of a swap, from the point of view of the user who acted
+export function getCounterpartId(swap: SwapRequest, actorId: number): number {
+  return swap.requesterId === actorId ? swap.providerId! : swap.requesterId;
+}
+
+function formatSessionTime(session?: SwapSession): string {
+  if (!session) {
+    return '';
+  }
+  return new Date(session.startTime).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC'
+  }) + ' UTC';
+}
+
+// Inbox title and message, written from the point of view of the recipient
+function describeSwapEvent(swap: SwapRequest, actorId: number, event: SwapEventInput): { title: string; message: string } {
+  const actorName = actorId === swap.requesterId ? swap.requesterName : swap.providerName;
+
+  switch (event.type) {
+    case 'swap.created':
+      return {
+        title: 'New swap request',
+        message: `${actorName} wants to learn ${swap.wantedSkillName} in exchange for ${swap.offeredSkillName}`
+      };
+    case 'swap.status_changed':
+      return {
+        title: `Swap ${event.status}`,
+        message: `${actorName} marked your ${swap.offeredSkillName} ↔ ${swap.wantedSkillName} swap as ${event.status}`
+      };
+    case 'swap.deleted':
+      return {
+        title: 'Swap request withdrawn',
+        message: `${actorName} withdrew their request for ${swap.wantedSkillName}`
+      };
+    case 'swap.auto_cancelled':
+      return {
+        title: 'Swap cancelled',
+        message: `Your ${swap.offeredSkillName} ↔ ${swap.wantedSkillName} swap with ${actorName} was cancelled because their account is no longer active`
+      };
+    case 'rating.received':
+      return {
+        title: 'New rating',
+        message: `${actorName} rated your swap ${event.rating?.rating ?? ''}/5`
+      };
+    case 'session.proposed':
+      return {
+        title: 'Session proposed',
+        message: `${actorName} proposed a ${swap.offeredSkillName} ↔ ${swap.wantedSkillName} session on ${formatSessionTime(event.session)}`
+      };
+    case 'session.countered':
+      return {
+        title: 'New time suggested',
+        message: `${actorName} suggested ${formatSessionTime(event.session)} instead`
+      };
+    case 'session.confirmed':
+      return {
+        title: 'Session confirmed',
+        message: `${actorName} confirmed your session on ${formatSessionTime(event.session)}`
+      };
+    case 'session.declined':
+      return {
+        title: 'Session declined',
+        message: `${actorName} declined the session on ${formatSessionTime(event.session)}`
+      };
+    case 'session.cancelled':
+      return {
+        title: 'Session cancelled',
+        message: `${actorName} cancelled the session on ${formatSessionTime(event.session)}`
+      };
+  }
+}
+
+// Notify the counterpart of the user who triggered a swap lifecycle event.
+// Failures are logged and never surface to the HTTP request that caused the change.
+export async function publishSwapEvent(swap: SwapRequest, actorId: number, event: SwapEventInput): Promise<void> {
+  const recipientId = getCounterpartId(swap, actorId);
+  const payload: SwapEvent = {
+    ...event,
+    ...describeSwapEvent(swap, actorId, event),
+    swapId: swap.id,
+    actorId,
+    swap,
+    timestamp: new Date().toISOString()
+  };
+
+  try {
+    await broadcastNotification(String(recipientId), payload);
+  } catch (error) {
+    console.error(`Failed to send ${event.type} event to user ${recipientId}:`, error);
+  }
+}
+
+// Load the swap and publish the event
+export async function emitSwapEvent(swapId: number, actorId: number, event: SwapEventInput): Promise<void> {
+  try {
+    const swap = await getSwapDetails(swapId);
+    if (swap) {
+      await publishSwapEvent(swap, actorId, event);
+    }
+  } catch (error) {
+    console.error(`Failed to emit ${event.type} event for swap ${swapId}:`, error);
+  }
+}
+
+// Cancel the user's pending swaps on either side and tell each counterpart,
+// e.g. when the account is banned or deleted
+export async function cancelPendingSwaps(userId: number): Promise<number> {
+  const db = await getDatabase();
+  const pending = await db.all<{ id: number }[]>(
+    `SELECT sr.id FROM swap_requests sr JOIN skills ws ON sr.skillRequestedId = ws.id
+     WHERE sr.status = 'pending' AND (sr.requesterId = ? OR ws.userId = ?)`,
+    [userId, userId]
+  );
+
+  for (const swap of pending) {
+    await db.run(`UPDATE swap_requests SET status = 'cancelled', updatedAt = CURRENT_TIMESTAMP WHERE id = ?`, [swap.id]);
+    await emitSwapEvent(swap.id, userId, { type: 'swap.auto_cancelled', status: 'cancelled', previousStatus: 'pending' });
+  }
+  return pending.length;
+}
@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { getDatabase } from '../database/db.js';
+import type { User } from '../database/schema.js';
+
+// RFC 6238 defaults, which every authenticator app supports
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept codes one step either side to allow for clock drift
+const DRIFT_STEPS = 1;
+
+const ISSUER = 'SkillSwap';
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export class TwoFactorError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'TwoFactorError';
+    this.status = status;
+  }
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = '';
+  for (const byte of buffer) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+  let output = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return output;
+}
+
+function base32Decode(value: string): Buffer {
+  let bits = '';
+  for (const char of value.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    bits += index.toString(2).padStart(5, '0');
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 4226 HOTP value for one counter
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+// The time step a code is valid for, or null if it doesn't match any step in the window
+function matchTotp(secret: string, code: string, now = Date.now()): number | null {
+  const key = base32Decode(secret);
+  const current = Math.floor(now / 1000 / STEP_SECONDS);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    const expected = Buffer.from(hotp(key, step));
+    const given = Buffer.from(code);
+    if (given.length === expected.length && crypto.timingSafeEqual(given, expected)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+// Codes look like 4f9a2-c81d0 so they are easy to copy down
+function createRecoveryCode(): string {
+  const hex = crypto.randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+}
+
+type TwoFactorUser = Pick<User, 'id' | 'email' | 'totpSecret' | 'totpEnabledAt' | 'totpLastUsedStep'>;
+
+async function getTwoFactorUser(userId: number): Promise<TwoFactorUser> {
+  const db = await getDatabase();
+  const user = await db.get<TwoFactorUser>(
+    'SELECT id, email, totpSecret, totpEnabledAt, totpLastUsedStep FROM users WHERE id = ?',
+    [userId]
+  );
+  if (!user) {
+    throw new TwoFactorError(404, 'User not found');
+  }
+  return user;
+}
+
+export async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+  const user = await getTwoFactorUser(userId);
+  return Boolean(user.totpEnabledAt);
+}
+
+export async function getTwoFactorStatus(userId: number): Promise<{ enabled: boolean; recoveryCodesRemaining: number }> {
+  const db = await getDatabase();
+  const user = await getTwoFactorUser(userId);
+  const codes = await db.get<{ count: number }>(
+    'SELECT COUNT(*) as count FROM recovery_codes WHERE userId = ? AND usedAt IS NULL',
+    [userId]
+  );
+  return { enabled: Boolean(user.totpEnabledAt), recoveryCodesRemaining: user.totpEnabledAt ? codes?.count ?? 0 : 0 };
+}
+
+// Start enrollment with a fresh secret. Nothing changes for logins until the
+// user proves their app works by enabling 2FA with a code.
+export async function beginEnrollment(userId: number): Promise<{ secret: string; otpauthUri: string; qrCode: string }> {
+  const db = await getDatabase();
+  const user = await getTwoFactorUser(userId);
+  if (user.totpEnabledAt) {
+    throw new TwoFactorError(400, 'Two-factor authentication is already enabled');
+  }
+
+  const secret = base32Encode(crypto.randomBytes(20));
+  await db.run('UPDATE users SET totpSecret = ?, totpLastUsedStep = NULL WHERE id = ?', [secret, userId]);
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+  const otpauthUri = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+    `&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+  return { secret, otpauthUri, qrCode: await QRCode.toDataURL(otpauthUri) };
+}
+
+// Check a code from the authenticator app. Each code is accepted once.
+export async function verifyTotp(userId: number, code: string): Promise<boolean> {
+  const db = await getDatabase();
+  const user = await getTwoFactorUser(userId);
+  if (!user.totpSecret) {
+    return false;
+  }
+
+  const step = matchTotp(user.totpSecret, code.replace(/\s/g, ''));
+  if (step === null) {
+    return false;
+  }
+
+  const result = await db.run(
+    'UPDATE users SET totpLastUsedStep = ? WHERE id = ? AND (totpLastUsedStep IS NULL OR totpLastUsedStep < ?)',
+    [step, userId, step]
+  );
+  return Boolean(result.changes);
+}
+
+export async function consumeRecoveryCode(userId: number, code: string): Promise<boolean> {
+  const db = await getDatabase();
+  const result = await db.run(
+    `UPDATE recovery_codes SET usedAt = CURRENT_TIMESTAMP
+     WHERE id = (SELECT id FROM recovery_codes WHERE userId = ? AND codeHash = ? AND usedAt IS NULL LIMIT 1)`,
+    [userId, hashRecoveryCode(code)]
+  );
+  return Boolean(result.changes);
+}
+
+// A second factor at login or for sensitive changes: an app code or a recovery code
+export async function verifySecondFactor(userId: number, code: string): Promise<boolean> {
+  if (!await isTwoFactorEnabled(userId)) {
+    return false;
+  }
+  return await verifyTotp(userId, code) || await consumeRecoveryCode(userId, code);
+}
+
+// Replace all recovery codes; the plain codes are only ever shown once
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const db = await getDatabase();
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, createRecoveryCode);
+
+  await db.run('DELETE FROM recovery_codes WHERE userId = ?', [userId]);
+  for (const code of codes) {
+    await db.run('INSERT INTO recovery_codes (userId, codeHash) VALUES (?, ?)', [userId, hashRecoveryCode(code)]);
+  }
+  return codes;
+}
+
+// Finish enrollment with a code from the app; returns the first set of recovery codes
+export async function enableTwoFactor(userId: number, code: string): Promise<string[]> {
+  const db = await getDatabase();
+  const user = await getTwoFactorUser(userId);
+  if (user.totpEnabledAt) {
+    throw new TwoFactorError(400, 'Two-factor authentication is already enabled');
+  }
+  if (!user.totpSecret) {
+    throw new TwoFactorError(400, 'Start two-factor setup first');
+  }
+  if (!await verifyTotp(userId, code)) {
+    throw new TwoFactorError(400, 'Invalid authentication code');
+  }
+
+  await db.run('UPDATE users SET totpEnabledAt = CURRENT_TIMESTAMP WHERE id = ?', [userId]);
+  return regenerateRecoveryCodes(userId);
+}
+
+export async function disableTwoFactor(userId: number): Promise<void> {
+  const db = await getDatabase();
+  await db.run('UPDATE users SET totpSecret = NULL, totpEnabledAt = NULL, totpLastUsedStep = NULL WHERE id = ?', [userId]);
+  await db.run('DELETE FROM recovery_codes WHERE userId = ?', [userId]);
+}
@@ -0,0 +1,235 @@
+import { Server, IncomingMessage } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { authenticateSocket, SocketAuthError, SOCKET_AUTH_PROTOCOL, type TokenPayload } from './middleware/auth.js';
+import { saveNotification, type OutgoingNotification } from './services/notifications.js';
+
+// Open WebSocket connections per user ID; every tab and device gets its own socket
+export const clients = new Map<string, Set<WebSocket>>();
+
+// Auth session each open socket was opened with, so revoking it can close them
+const socketSessions = new WeakMap<WebSocket, number>();
+
+// Upgrade requests that passed the JWT handshake carry the verified token payload
+interface AuthenticatedUpgradeRequest extends IncomingMessage {
+  user: TokenPayload;
+}
+
+// Handler for a client message type, called with the verified user ID
+export type SocketMessageHandler = (userId: number, data: any) => void | Promise<void>;
+
+export function createWebSocketServer(
+  server: Server,
+  handlers: Record<string, SocketMessageHandler> = {}
+): WebSocketServer {
+  const wss = new WebSocketServer({
+    server,
+    // Echo the auth subprotocol back so browsers accept the handshake
+    handleProtocols: (protocols) => protocols.has(SOCKET_AUTH_PROTOCOL) ? SOCKET_AUTH_PROTOCOL : false,
+    verifyClient: (info, callback) => {
+      authenticateSocket(info.req)
+        .then((user) => {
+          (info.req as AuthenticatedUpgradeRequest).user = user;
+          callback(true);
+        })
+        .catch((error: unknown) => {
+          const status = error instanceof SocketAuthError ? error.status : 500;
+          const message = error instanceof Error ? error.message : 'Unauthorized';
+          console.warn(`Rejected WebSocket handshake: ${message}`);
+          callback(false, status, message);
+        });
+    }
+  });
+
+  // Configure WebSocket server
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+    const handleError = (error: unknown, message: string) => {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`${message}: ${errorMessage}`);
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.close(1011, 'Internal server error');
+      }
+    };
+
+    // Set up ping/pong to detect stale connections
+    let isAlive = true;
+    const pingInterval = setInterval(() => {
+      if (isAlive === false) {
+        console.log('Terminating stale connection');
+        return ws.terminate();
+      }
+    
+      isAlive = false;
+      ws.ping(() => {});
+    }, 30000); // 30 seconds
+
+    ws.on('pong', () => {
+      isAlive = true;
+    });
+
+    try {
+      // Identity verified during the handshake
+      const { user } = req as AuthenticatedUpgradeRequest;
+      const userId = String(user.id);
+
+      // Close the socket once the token it was opened with expires
+      const expiryTimeout = setTimeout(() => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.close(4001, 'Token expired');
+        }
+      }, Math.max(user.exp * 1000 - Date.now(), 0));
+
+      // Add this socket alongside any the user already has open
+      let userSockets = clients.get(userId);
+      if (!userSockets) {
+        userSockets = new Set();
+        clients.set(userId, userSockets);
+      }
+      userSockets.add(ws);
+      socketSessions.set(ws, user.sid);
+      console.log(`User ${userId} connected (${userSockets.size} open sockets)`);
+    
+      // Handle client disconnection
+      const handleClose = () => {
+        clearInterval(pingInterval);
+        clearTimeout(expiryTimeout);
+        const sockets = clients.get(userId);
+        if (sockets?.delete(ws)) {
+          if (sockets.size === 0) {
+            clients.delete(userId);
+          }
+          console.log(`User ${userId} disconnected (${sockets.size} open sockets)`);
+        }
+      };
+
+      ws.on('close', handleClose);
+      ws.on('error', (error) => {
+        console.error(`WebSocket error for user ${userId}:`, error);
+        handleClose();
+      });
+
+      // Handle incoming messages
+      ws.on('message', (message: Buffer) => {
+        try {
+          const data = JSON.parse(message.toString());
+          console.log(`Received from user ${userId}:`, data);
+        
+          // Handle different message types
+          if (data && typeof data === 'object' && 'type' in data) {
+            switch (data.type) {
+              case 'ping':
+                ws.send(JSON.stringify({ 
+                  type: 'pong', 
+                  timestamp: Date.now() 
+                }));
+                break;
+              default: {
+                const handler = handlers[data.type];
+                if (!handler) {
+                  console.warn(`Unknown message type: ${data.type}`);
+                  break;
+                }
+                Promise.resolve(handler(user.id, data)).catch((error) => {
+                  console.error(`Error handling ${data.type} from user ${userId}:`, error);
+                });
+              }
+            }
+          } else {
+            console.warn('Received invalid message format:', data);
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          console.error(`Error processing message from user ${userId}:`, errorMessage);
+        
+          // Send error response to client if connection is still open
+          if (ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify({
+              type: 'error',
+              message: 'Failed to process message',
+              error: errorMessage
+            }));
+          }
+        }
+      });
+
+    } catch (error) {
+      handleError(error as Error, 'Error handling WebSocket connection:');
+    }
+  });
+
+  return wss;
+}
+
+// Close every socket opened with one of these sessions. 4002 tells the
+// client not to reconnect, unlike the 4001 sent when a token merely expires.
+export function disconnectSessions(sessionIds: number[]) {
+  if (sessionIds.length === 0) {
+    return;
+  }
+
+  const revoked = new Set(sessionIds);
+  clients.forEach((sockets) => {
+    sockets.forEach((client) => {
+      if (revoked.has(socketSessions.get(client) ?? 0) && client.readyState === WebSocket.OPEN) {
+        client.close(4002, 'Session revoked');
+      }
+    });
+  });
+}
+
+// Close every socket a user has open. 4003 means the account was banned and,
+// like 4002, tells the client not to reconnect.
+export function disconnectUser(userId: string, code = 4003, reason = 'Account banned') {
+  clients.get(userId)?.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.close(code, reason);
+    }
+  });
+}
+
+// Send a payload to every open socket of a user without storing it
+export function sendToUser(userId: string, payload: unknown) {
+  const sockets = clients.get(userId);
+  if (!sockets) {
+    return;
+  }
+
+  const message = JSON.stringify(payload);
+  sockets.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(message);
+    }
+  });
+}
+
+// Save a notification to the user's inbox, then push it if they're online.
+// Offline users pick it up from /api/notifications on their next login.
+export async function broadcastNotification(userId: string, notification: OutgoingNotification) {
+  const saved = await saveNotification(Number(userId), notification);
+  sendToUser(userId, {
+    ...notification,
+    notificationId: saved.id,
+    createdAt: saved.createdAt
+  });
+  return saved;
+}
+
+// Function to broadcast to all connected clients
+export function broadcastToAll(notification: any) {
+  const message = JSON.stringify(notification);
+  clients.forEach((sockets) => {
+    sockets.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  });
+}
+
+// Number of connected users and of open sockets across all of them
+export function getConnectionStats() {
+  let sockets = 0;
+  clients.forEach((userSockets) => {
+    sockets += userSockets.size;
+  });
+  return { clients: clients.size, sockets };
+}
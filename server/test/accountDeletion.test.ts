@@ -0,0 +1,96 @@
+import './setup.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { migratedDatabase } from './database.js';
+import { processDueAccountDeletions } from '../src/services/accountDeletion.js';
+import { recordAuditEvent } from '../src/services/audit.js';
+
+const db = await migratedDatabase();
+
+// Everything that identifies the account being deleted
+const personal = {
+  username: 'priya.r',
+  email: 'priya.r@example.com',
+  fullName: 'Priya Raman',
+  bio: 'Weekend potter',
+  location: 'Lisbon',
+  profilePicture: '/uploads/priya-raman.png',
+  ipAddress: '203.0.113.7',
+  message: 'Hi, could you show me your glazes?'
+};
+
+const createUser = async (username: string, fields: Record<string, string> = {}) => {
+  const result = await db.run(
+    `INSERT INTO users (username, email, password, fullName, bio, location, profilePicture) VALUES (?, ?, 'password-hash', ?, ?, ?, ?)`,
+    [username, fields.email ?? `${username}@example.com`, fields.fullName ?? username, fields.bio ?? null, fields.location ?? null, fields.profilePicture ?? null]
+  );
+  return result.lastID!;
+};
+
+const createSkill = async (userId: number, name: string) => {
+  const result = await db.run(
+    `INSERT INTO skills (userId, name, category, proficiency) VALUES (?, ?, 'Arts', 'advanced')`,
+    [userId, name]
+  );
+  return result.lastID!;
+};
+
+const userId = await createUser(personal.username, personal);
+const counterpartId = await createUser('sam');
+
+const offered = await createSkill(userId, 'Pottery');
+const wanted = await createSkill(counterpartId, 'Glazing');
+const swap = await db.run(
+  `INSERT INTO swap_requests (requesterId, skillOfferedId, skillRequestedId, status, message) VALUES (?, ?, ?, 'pending', ?)`,
+  [userId, offered, wanted, personal.message]
+);
+await db.run(
+  'INSERT INTO messages (swapId, senderId, receiverId, content) VALUES (?, ?, ?, ?)',
+  [swap.lastID, userId, counterpartId, personal.message]
+);
+await db.run(
+  'INSERT INTO notifications (userId, type, title, message, data) VALUES (?, ?, ?, ?, ?)',
+  [
+    counterpartId,
+    'message.new',
+    `New message from ${personal.fullName}`,
+    `${personal.fullName} wrote to you about Glazing`,
+    JSON.stringify({ sender: { name: personal.fullName, email: personal.email, photo: personal.profilePicture }, swapId: swap.lastID })
+  ]
+);
+await recordAuditEvent({ action: 'user.deletion_requested', actorId: userId, targetType: 'user', targetId: userId, ipAddress: personal.ipAddress });
+await recordAuditEvent({ action: 'auth.lockout', targetType: 'user', targetId: userId, ipAddress: personal.ipAddress, metadata: { failures: 5 } });
+
+await db.run(`UPDATE users SET deletionScheduledFor = datetime('now', '-1 minute') WHERE id = ?`, [userId]);
+
+test('the grace period job leaves none of the personal data behind', async () => {
+  assert.equal(await processDueAccountDeletions(), 1);
+
+  const tables = await db.all<{ name: string }[]>(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'"
+  );
+  for (const { name } of tables) {
+    const rows = JSON.stringify(await db.all(`SELECT * FROM ${name}`));
+    for (const [field, value] of Object.entries(personal)) {
+      assert.ok(!rows.includes(JSON.stringify(value).slice(1, -1)), `${name} still holds the ${field}`);
+    }
+  }
+});
+
+test("the counterpart's notifications name a deleted user instead", async () => {
+  const notifications = await db.all<{ title: string; message: string; data: string }[]>(
+    'SELECT title, message, data FROM notifications WHERE userId = ? ORDER BY id',
+    [counterpartId]
+  );
+
+  const [message, cancelled] = notifications;
+  assert.equal(message.title, 'New message from Deleted user');
+  assert.equal(message.message, 'Deleted user wrote to you about Glazing');
+  assert.deepEqual(JSON.parse(message.data).sender, {
+    name: 'Deleted user',
+    email: `deleted-${userId}@deleted.invalid`,
+    photo: null
+  });
+  // The pending swap was called off in the user's name before it was erased
+  assert.match(cancelled.message, /Deleted user/);
+});
@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import express from 'express';
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import { apiRoutes } from '../src/routes/index.js';
+
+// The API routers on a bare app listening on a free port, for requests the
+// way a client makes them. Migrate the database before starting it.
+export async function startApi() {
+  const app = express();
+  app.use(express.json());
+  for (const { path, router } of apiRoutes) {
+    app.use(path, router);
+  }
+
+  const server = app.listen(0);
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+  const url = `http://localhost:${port}/api`;
+
+  const request = (method: string, path: string, { token, body, headers = {} }: {
+    token?: string;
+    body?: unknown;
+    headers?: Record<string, string>;
+  } = {}) => fetch(`${url}${path}`, {
+    method,
+    redirect: 'manual',
+    headers: {
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      ...headers
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+
+  // Sign in with a password; accounts with 2FA on get a challenge instead
+  const signIn = async (email: string, password: string) => {
+    const response = await request('POST', '/auth/login', { body: { email, password } });
+    if (response.status !== 200) {
+      throw new Error(`Sign-in failed with ${response.status}`);
+    }
+    return (await response.json() as { token: string }).token;
+  };
+
+  // Turn 2FA on from the signed-in session, which leaves it verified
+  const enableTwoFactor = async (token: string) => {
+    const { secret } = await (await request('POST', '/auth/2fa/setup', { token })).json() as { secret: string };
+    const response = await request('POST', '/auth/2fa/enable', { token, body: { code: authenticatorCode(secret) } });
+    if (response.status !== 200) {
+      throw new Error(`Enabling 2FA failed with ${response.status}`);
+    }
+  };
+
+  return {
+    url,
+    request,
+    signIn,
+    enableTwoFactor,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+// The code an authenticator app shows for the secret right now
+export function authenticatorCode(secret: string) {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  const bits = [...secret].map(char => alphabet.indexOf(char).toString(2).padStart(5, '0')).join('');
+  const key = Buffer.from(bits.match(/.{8}/g)!.map(byte => parseInt(byte, 2)));
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 30000)));
+  const digest = crypto.createHmac('sha1', key).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  return String((digest.readUInt32BE(offset) & 0x7fffffff) % 1_000_000).padStart(6, '0');
+}
@@ -0,0 +1,75 @@
+import './setup.js';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import bcrypt from 'bcryptjs';
+import { migratedDatabase } from './database.js';
+import { startApi } from './api.js';
+
+const PASSWORD = 'Correct-Horse-Battery-9';
+
+const db = await migratedDatabase();
+let api: Awaited<ReturnType<typeof startApi>>;
+
+before(async () => {
+  api = await startApi();
+});
+
+after(() => api.close());
+
+async function createUser(username: string, role = 'user') {
+  const result = await db.run(
+    `INSERT INTO users (username, email, password, fullName, role, isAdmin, emailVerifiedAt)
+     VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+    [username, `${username}@example.com`, await bcrypt.hash(PASSWORD, 4), username, role, role === 'user' ? 0 : 1]
+  );
+  return result.lastID!;
+}
+
+interface ActivityEntry {
+  action: string;
+  byMe: number | null;
+  metadata: Record<string, unknown> | null;
+  changes: Record<string, { before: unknown; after: unknown }> | null;
+  ipAddress: string | null;
+}
+
+test("a banned user's export shows the ban, but not the admin's IP address or notes", async () => {
+  const memberId = await createUser('bob');
+  await createUser('admin', 'admin');
+  const adminToken = await api.signIn('admin@example.com', PASSWORD);
+  await api.enableTwoFactor(adminToken);
+
+  for (const isBanned of [true, false]) {
+    const response = await api.request('PUT', `/admin/users/${memberId}/ban`, {
+      token: adminToken,
+      body: { isBanned, reason: 'Spam' }
+    });
+    assert.equal(response.status, 200);
+  }
+  // An entry staff kept notes on, as the role script writes
+  await db.run(
+    `INSERT INTO audit_log (action, targetType, targetId, metadata, ipAddress)
+     VALUES ('user.role_change', 'user', ?, '{"source":"cli","host":"ops-box"}', '10.0.0.5')`,
+    [String(memberId)]
+  );
+
+  // The audit entries are written once the responses have gone out
+  await new Promise(resolve => setTimeout(resolve, 50));
+
+  const memberToken = await api.signIn('bob@example.com', PASSWORD);
+  const response = await api.request('GET', '/users/me/export', { token: memberToken });
+  assert.equal(response.status, 200);
+  const { activity } = await response.json() as { activity: ActivityEntry[] };
+
+  const byStaff = activity.filter(entry => !entry.byMe);
+  assert.deepEqual(byStaff.map(entry => entry.action), ['user.ban', 'user.unban', 'user.role_change']);
+  for (const entry of byStaff) {
+    assert.equal(entry.ipAddress, null, entry.action);
+    assert.equal(entry.metadata, null, entry.action);
+  }
+  assert.deepEqual(byStaff[0].changes?.isBanned, { before: false, after: true });
+
+  // The log itself still has the admin's address
+  const ban = await db.get<{ ipAddress: string | null }>("SELECT ipAddress FROM audit_log WHERE action = 'user.ban'");
+  assert.ok(ban?.ipAddress);
+});
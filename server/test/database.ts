@@ -0,0 +1,10 @@
+import { getDatabase } from '../src/database/db.js';
+import { MigrationRunner, loadMigrations } from '../src/database/migration.js';
+
+// The server's database in the test's working directory, with every
+// migration applied. Import ./setup.js before this.
+export async function migratedDatabase() {
+  const db = await getDatabase();
+  await new MigrationRunner(db, await loadMigrations(), () => {}).migrate();
+  return db;
+}
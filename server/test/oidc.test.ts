@@ -0,0 +1,175 @@
+import './setup.js';
+import crypto from 'crypto';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { migratedDatabase } from './database.js';
+import { startMockOidcIssuer } from '../src/scripts/mock-oidc.js';
+
+const PORT = 4711;
+const SERVER_URL = 'http://localhost:3999';
+
+// Providers are read from the environment when the service loads
+Object.assign(process.env, {
+  SERVER_URL,
+  OIDC_PROVIDERS: 'mock',
+  OIDC_MOCK_ISSUER: `http://localhost:${PORT}`,
+  OIDC_MOCK_CLIENT_ID: 'skillswap',
+  OIDC_MOCK_CLIENT_SECRET: 'mock-secret',
+  OIDC_MOCK_NAME: 'Mock ID'
+});
+const { OIDC_STATE_COOKIE, OidcError, beginOidcLogin, completeOidcLogin, consumeOidcLoginCode, getOidcProvider } =
+  await import('../src/services/oidc.js');
+const { startApi } = await import('./api.js');
+
+const db = await migratedDatabase();
+const provider = getOidcProvider('mock');
+let closeIssuer: () => Promise<void>;
+let api: Awaited<ReturnType<typeof startApi>>;
+
+before(async () => {
+  ({ close: closeIssuer } = await startMockOidcIssuer({
+    port: PORT,
+    redirectUris: [`${SERVER_URL}/api/auth/oidc/mock/callback`]
+  }));
+  api = await startApi();
+});
+
+after(() => Promise.all([closeIssuer(), api.close()]));
+
+// Follow the authorization URL the way a browser would: sign in at the mock
+// provider and return the code and state it sends back to the callback, with
+// the state cookie the browser kept
+async function signInAtProvider(login: { url: string; stateCookie: string }, email: string, { emailVerified = true, sub = '' } = {}) {
+  const form = new URLSearchParams(new URL(login.url).searchParams);
+  form.set('email', email);
+  if (emailVerified) form.set('email_verified', 'true');
+  if (sub) form.set('sub', sub);
+
+  const response = await fetch(`http://localhost:${PORT}/authorize`, { method: 'POST', body: form, redirect: 'manual' });
+  const callback = new URL(response.headers.get('location')!);
+  assert.equal(`${callback.origin}${callback.pathname}`, `${SERVER_URL}/api/auth/oidc/mock/callback`);
+  return { code: callback.searchParams.get('code')!, state: callback.searchParams.get('state')!, stateCookie: login.stateCookie };
+}
+
+async function signIn(email: string, options?: { emailVerified?: boolean; sub?: string }) {
+  const params = await signInAtProvider(await beginOidcLogin(provider), email, options);
+  return consumeOidcLoginCode(await completeOidcLogin(provider, params));
+}
+
+async function createUser(email: string, { verified }: { verified: boolean }) {
+  const result = await db.run(
+    `INSERT INTO users (username, email, password, fullName, emailVerifiedAt)
+     VALUES (?, ?, 'password-hash', 'Existing User', ${verified ? 'CURRENT_TIMESTAMP' : 'NULL'})`,
+    [email.split('@')[0], email]
+  );
+  return result.lastID as number;
+}
+
+const identitiesOf = (userId: number) =>
+  db.all('SELECT provider, subject FROM user_identities WHERE userId = ?', [userId]);
+
+async function rejectsWith(promise: Promise<unknown>, code: string) {
+  await assert.rejects(promise, (error: unknown) => error instanceof OidcError && error.code === code);
+}
+
+test('the authorization URL carries state, nonce and an S256 PKCE challenge', async () => {
+  const url = new URL((await beginOidcLogin(provider)).url);
+  const params = url.searchParams;
+
+  assert.equal(`${url.origin}${url.pathname}`, `http://localhost:${PORT}/authorize`);
+  assert.equal(params.get('redirect_uri'), `${SERVER_URL}/api/auth/oidc/mock/callback`);
+  assert.equal(params.get('code_challenge_method'), 'S256');
+
+  const attempt = await db.get('SELECT nonce, codeVerifier FROM oidc_login_attempts WHERE state = ?', [params.get('state')]);
+  assert.ok(attempt, 'the attempt is stored under its state');
+  assert.equal(params.get('nonce'), attempt.nonce);
+  assert.notEqual(params.get('code_challenge'), attempt.codeVerifier, 'the verifier itself never leaves the server');
+});
+
+test('a full round trip signs in, and each code works once', async () => {
+  const params = await signInAtProvider(await beginOidcLogin(provider), 'round.trip@example.com');
+  const loginCode = await completeOidcLogin(provider, params);
+
+  const userId = await consumeOidcLoginCode(loginCode);
+  const user = await db.get('SELECT email, emailVerifiedAt FROM users WHERE id = ?', [userId]);
+  assert.equal(user.email, 'round.trip@example.com');
+  assert.ok(user.emailVerifiedAt);
+
+  await rejectsWith(completeOidcLogin(provider, params), 'INVALID_STATE');
+  await rejectsWith(consumeOidcLoginCode(loginCode), 'INVALID_LOGIN_CODE');
+});
+
+test('a callback with an unknown state is refused', async () => {
+  const params = await signInAtProvider(await beginOidcLogin(provider), 'forged.state@example.com');
+  const stateCookie = crypto.createHash('sha256').update('not-the-state').digest('hex');
+  await rejectsWith(completeOidcLogin(provider, { ...params, state: 'not-the-state', stateCookie }), 'INVALID_STATE');
+});
+
+test("a callback in a browser that didn't start the sign-in is refused", async () => {
+  // Someone signs in as themselves and hands the callback to another browser
+  const forged = await signInAtProvider(await beginOidcLogin(provider), 'login.csrf@example.com');
+  const { stateCookie } = await beginOidcLogin(provider);
+
+  await rejectsWith(completeOidcLogin(provider, { ...forged, stateCookie }), 'STATE_MISMATCH');
+  await rejectsWith(completeOidcLogin(provider, { ...forged, stateCookie: null }), 'STATE_MISMATCH');
+  assert.equal(await db.get("SELECT id FROM users WHERE email = 'login.csrf@example.com'"), undefined);
+});
+
+test('the authorize route sets the state cookie that the callback needs', async () => {
+  const authorize = await api.request('GET', '/auth/oidc/mock/authorize');
+  const setCookie = authorize.headers.get('set-cookie')!;
+  assert.match(setCookie, /^oidc_state=\w+;/);
+  assert.match(setCookie, /Path=\/api\/auth\/oidc\/mock\/callback/);
+  assert.match(setCookie, /HttpOnly/);
+  assert.match(setCookie, /SameSite=Lax/);
+
+  const stateCookie = setCookie.split(';')[0].split('=')[1];
+  const { code, state } = await signInAtProvider({ url: authorize.headers.get('location')!, stateCookie }, 'cookie.route@example.com');
+  const callback = (cookie?: string) => api.request('GET', `/auth/oidc/mock/callback?${new URLSearchParams({ code, state })}`, {
+    headers: cookie ? { Cookie: `${OIDC_STATE_COOKIE}=${cookie}` } : {}
+  });
+
+  const withoutCookie = await callback();
+  assert.match(withoutCookie.headers.get('location')!, /#oidc_error=/);
+  assert.match(withoutCookie.headers.get('set-cookie')!, /^oidc_state=;/, 'the cookie is cleared');
+
+  const withCookie = await callback(stateCookie);
+  assert.match(withCookie.headers.get('location')!, /#oidc_code=/);
+});
+
+test('a code exchanged without the matching PKCE verifier is refused', async () => {
+  const params = await signInAtProvider(await beginOidcLogin(provider), 'pkce@example.com');
+  await db.run("UPDATE oidc_login_attempts SET codeVerifier = 'someone-elses-verifier' WHERE state = ?", [params.state]);
+
+  await assert.rejects(completeOidcLogin(provider, params), (error: unknown) => error instanceof OidcError && error.status === 502);
+  assert.equal(await db.get("SELECT id FROM users WHERE email = 'pkce@example.com'"), undefined);
+});
+
+test('an identity seen before signs in to the same account', async () => {
+  const first = await signIn('returning@example.com', { sub: 'returning-subject' });
+  const second = await signIn('changed.address@example.com', { sub: 'returning-subject' });
+  assert.equal(second, first);
+});
+
+test('an address the provider has not verified is refused', async () => {
+  await rejectsWith(signIn('unverified.there@example.com', { emailVerified: false }), 'EMAIL_NOT_VERIFIED');
+  assert.equal(await db.get("SELECT id FROM users WHERE email = 'unverified.there@example.com'"), undefined);
+});
+
+test('an account that has verified its address is linked', async () => {
+  const userId = await createUser('verified.here@example.com', { verified: true });
+
+  assert.equal(await signIn('Verified.Here@example.com'), userId);
+  assert.equal((await identitiesOf(userId)).length, 1);
+});
+
+test('an account that has not verified its address is not linked', async () => {
+  const userId = await createUser('unverified.here@example.com', { verified: false });
+
+  await rejectsWith(signIn('unverified.here@example.com'), 'ACCOUNT_NOT_VERIFIED');
+
+  const user = await db.get('SELECT password, emailVerifiedAt FROM users WHERE id = ?', [userId]);
+  assert.equal(user.password, 'password-hash');
+  assert.equal(user.emailVerifiedAt, null);
+  assert.deepEqual(await identitiesOf(userId), []);
+});
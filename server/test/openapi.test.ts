@@ -0,0 +1,37 @@
+import './setup.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Router } from 'express';
+import { apiRoutes } from '../src/routes/index.js';
+import { operations } from '../src/openapi/operations.js';
+import { compareWithOperations } from '../src/openapi/coverage.js';
+import { openApiDocument } from '../src/openapi/document.js';
+
+test('every registered route has an entry in the OpenAPI document', () => {
+  const { undocumented } = compareWithOperations(apiRoutes, operations);
+  assert.deepEqual(undocumented, [], 'add these routes to src/openapi/operations.ts');
+});
+
+test('every documented route is still served', () => {
+  const { unserved } = compareWithOperations(apiRoutes, operations);
+  assert.deepEqual(unserved, [], 'remove these entries from src/openapi/operations.ts');
+});
+
+test('a route registered without a spec entry is reported', () => {
+  const router = Router();
+  router.get('/', (req, res) => res.end());
+  router.post('/:id/undocumented', (req, res) => res.end());
+
+  const { undocumented } = compareWithOperations([{ path: '/api/reports', router }], operations);
+  assert.deepEqual(undocumented, ['GET /api/reports', 'POST /api/reports/:id/undocumented']);
+});
+
+test('the document converts every schema and has unique operation ids', () => {
+  const { paths } = openApiDocument();
+  const ids = Object.values(paths).flatMap(methods =>
+    Object.values(methods).map(operation => (operation as { operationId: string }).operationId)
+  );
+
+  assert.equal(ids.length, operations.length);
+  assert.equal(new Set(ids).size, ids.length);
+});
@@ -0,0 +1,41 @@
+import './setup.js';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import bcrypt from 'bcryptjs';
+import { migratedDatabase } from './database.js';
+import { startApi } from './api.js';
+import { createAuthToken } from '../src/services/authTokens.js';
+
+const db = await migratedDatabase();
+let api: Awaited<ReturnType<typeof startApi>>;
+
+before(async () => {
+  api = await startApi();
+});
+
+after(() => api.close());
+
+const result = await db.run(
+  `INSERT INTO users (username, email, password, fullName) VALUES ('bart', 'bart.quist@example.com', 'password-hash', 'Bartholomew Quist')`
+);
+const userId = result.lastID!;
+
+const resetPassword = (token: string, password: string) =>
+  api.request('POST', '/auth/reset-password', { body: { token, password } });
+
+test("a new password made from the account's name is refused, and the link still works", async () => {
+  const token = await createAuthToken(userId, 'password_reset');
+
+  const weak = await resetPassword(token, 'Quist-Bartholomew#29');
+  assert.equal(weak.status, 400);
+  const { error, details } = await weak.json() as { error: string; details: { field: string }[] };
+  assert.equal(error, 'Validation failed');
+  assert.ok(details.length > 0 && details.every(detail => detail.field === 'password'));
+
+  const strong = await resetPassword(token, 'Velvet-Harbor-Lantern-41');
+  assert.equal(strong.status, 200);
+  const user = await db.get<{ password: string }>('SELECT password FROM users WHERE id = ?', [userId]);
+  assert.ok(await bcrypt.compare('Velvet-Harbor-Lantern-41', user!.password));
+
+  assert.equal((await resetPassword(token, 'Another-Strong-Phrase-58')).status, 400, 'the link works once');
+});
@@ -0,0 +1,61 @@
+import './setup.js';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import bcrypt from 'bcryptjs';
+import { migratedDatabase } from './database.js';
+import { startApi } from './api.js';
+
+const PASSWORD = 'Correct-Horse-Battery-9';
+
+const db = await migratedDatabase();
+let api: Awaited<ReturnType<typeof startApi>>;
+
+before(async () => {
+  api = await startApi();
+});
+
+after(() => api.close());
+
+async function createUser(username: string, role: string) {
+  const result = await db.run(
+    `INSERT INTO users (username, email, password, fullName, role, isAdmin, emailVerifiedAt)
+     VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+    [username, `${username}@example.com`, await bcrypt.hash(PASSWORD, 4), username, role, role === 'admin' || role === 'superadmin' ? 1 : 0]
+  );
+  return result.lastID!;
+}
+
+const signIn = (username: string) => api.signIn(`${username}@example.com`, PASSWORD);
+
+const memberId = await createUser('member', 'user');
+
+for (const role of ['admin', 'superadmin']) {
+  test(`${role} signed in with a password only can't use any staff permission`, async () => {
+    await createUser(role, role);
+    const token = await signIn(role);
+
+    for (const [method, path, body] of [
+      ['GET', '/admin/users'],
+      ['PUT', `/admin/users/${memberId}/ban`, { isBanned: true, reason: 'Spam' }],
+      ['GET', '/admin/reports'],
+      ['GET', '/admin/stats']
+    ] as const) {
+      const response = await api.request(method, path, { token, body });
+      assert.equal(response.status, 403, `${method} ${path}`);
+      assert.equal((await response.json() as { code: string }).code, 'TWO_FACTOR_REQUIRED');
+    }
+
+    await api.enableTwoFactor(token);
+    assert.equal((await api.request('GET', '/admin/users', { token })).status, 200);
+  });
+}
+
+test('a moderator can handle reports before setting up 2FA, but nothing else', async () => {
+  await createUser('moderator', 'moderator');
+  const token = await signIn('moderator');
+
+  assert.equal((await api.request('GET', '/admin/reports', { token })).status, 200);
+  const users = await api.request('GET', '/admin/users', { token });
+  assert.equal(users.status, 403);
+  assert.equal((await users.json() as { code: string }).code, 'TWO_FACTOR_REQUIRED');
+});
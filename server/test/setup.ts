@@ -0,0 +1,10 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Imported first by every test file. The server opens skillswap.db in the
+// working directory as soon as a module that uses it loads, so each test
+// process moves to a fresh directory before that can happen.
+const dir = mkdtempSync(join(tmpdir(), 'skillswap-test-'));
+process.chdir(dir);
+process.on('exit', () => rmSync(dir, { recursive: true, force: true }));
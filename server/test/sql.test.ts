@@ -0,0 +1,42 @@
+import './setup.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { relative } from 'path';
+import {
+  SERVER_ROOT,
+  SOURCE_PATHS,
+  checkStatements,
+  collectStatements,
+  compilerOptions,
+  listSourceFiles,
+  openMigratedDatabase
+} from '../src/database/sqlCheck.js';
+
+test('every query in the server matches the migrated schema', async () => {
+  const files = await listSourceFiles(SOURCE_PATHS);
+  const statements = collectStatements(files, compilerOptions());
+  assert.ok(statements.length > 0, 'no statements were found');
+
+  const db = await openMigratedDatabase();
+  try {
+    const problems = await checkStatements(db, statements);
+    const errors = problems
+      .filter(({ kind }) => kind !== 'unchecked')
+      .map(({ statement, message }) => `${relative(SERVER_ROOT, statement.file)}:${statement.line} ${message}`);
+    assert.deepEqual(errors, [], 'run npm run db:check-sql for the statements');
+  } finally {
+    await db.close();
+  }
+});
+
+test('a query naming a missing column is reported', async () => {
+  const db = await openMigratedDatabase();
+  try {
+    const statement = { file: 'example.ts', line: 1, method: 'get', sql: 'SELECT nickname FROM users', exact: true };
+    const [problem] = await checkStatements(db, [statement]);
+    assert.equal(problem?.kind, 'column');
+    assert.equal(problem?.name, 'nickname');
+  } finally {
+    await db.close();
+  }
+});
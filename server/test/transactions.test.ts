@@ -0,0 +1,53 @@
+import './setup.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { migratedDatabase } from './database.js';
+import { runInTransaction } from '../src/database/db.js';
+
+const db = await migratedDatabase();
+
+const insertUser = (connection: typeof db, username: string) =>
+  connection.run(
+    `INSERT INTO users (username, email, password, fullName) VALUES (?, ?, 'password-hash', ?)`,
+    [username, `${username}@example.com`, username]
+  );
+
+const userExists = async (username: string) =>
+  Boolean(await db.get('SELECT id FROM users WHERE username = ?', [username]));
+
+test('a committed transaction is visible on the shared connection', async () => {
+  await runInTransaction(transaction => insertUser(transaction, 'committed'));
+  assert.ok(await userExists('committed'));
+});
+
+test('a rolled back transaction leaves nothing behind', async () => {
+  await assert.rejects(runInTransaction(async (transaction) => {
+    await insertUser(transaction, 'rolled-back');
+    throw new Error('changed my mind');
+  }), /changed my mind/);
+  assert.equal(await userExists('rolled-back'), false);
+});
+
+test("a write made while another request's transaction is open is not rolled back with it", async () => {
+  let inserted!: () => void;
+  const insertDone = new Promise<void>(resolve => { inserted = resolve; });
+  let finish!: () => void;
+  const finished = new Promise<void>(resolve => { finish = resolve; });
+
+  const transaction = runInTransaction(async (transaction) => {
+    await insertUser(transaction, 'inside');
+    inserted();
+    await finished;
+    throw new Error('rolled back');
+  });
+
+  await insertDone;
+  // Another request writing through the shared connection meanwhile
+  const outside = insertUser(db, 'outside');
+  finish();
+
+  await assert.rejects(transaction, /rolled back/);
+  await outside;
+  assert.equal(await userExists('inside'), false);
+  assert.ok(await userExists('outside'));
+});
@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import { paginationSchema, roleNameSchema } from './common.js';
+import { ratingSummaryDtoSchema } from './ratings.js';
+import { reportReasonSchema } from './reports.js';
+import { swapStatusSchema } from './swaps.js';
+
+// Bans without an expiry are permanent until lifted
+export const banSchema = z.object({
+  isBanned: z.boolean(),
+  reason: z.string().trim().max(500, 'Reason must be at most 500 characters').nullish(),
+  until: z.string().datetime({ offset: true, message: 'Ban expiry must be an ISO 8601 date-time' }).nullish()
+}).refine(data => !data.until || new Date(data.until).getTime() > Date.now(), {
+  message: 'Ban expiry must be in the future',
+  path: ['until']
+});
+export type BanInput = z.input<typeof banSchema>;
+
+export const roleAssignmentSchema = z.object({
+  role: roleNameSchema
+});
+
+export const adminMessageTypeSchema = z.enum(['announcement', 'maintenance', 'update']);
+export type AdminMessageType = z.infer<typeof adminMessageTypeSchema>;
+
+// Platform-wide announcement shown to every member
+export const adminMessageSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title must be at most 200 characters'),
+  content: z.string().trim().min(1, 'Content is required').max(5000, 'Content must be at most 5000 characters'),
+  type: adminMessageTypeSchema.default('announcement')
+});
+export type AdminMessageInput = z.input<typeof adminMessageSchema>;
+
+export const adminListParamsSchema = z.object({
+  page: z.number().int().positive().optional(),
+  limit: z.number().int().positive().optional()
+});
+export type AdminListParams = z.infer<typeof adminListParamsSchema>;
+
+export const adminUserDtoSchema = ratingSummaryDtoSchema.extend({
+  id: z.number(),
+  email: z.string(),
+  name: z.string(),
+  location: z.string().nullable(),
+  role: roleNameSchema,
+  is_public: z.boolean(),
+  created_at: z.string(),
+  is_banned: z.boolean(),
+  ban_reason: z.string().nullable(),
+  banned_until: z.string().nullable(), // UTC; null while banned means permanent
+  banned_at: z.string().nullable(),
+  skills_count: z.number(),
+  swap_requests_count: z.number()
+});
+export type AdminUserDTO = z.infer<typeof adminUserDtoSchema>;
+
+export const adminUsersResponseSchema = z.object({
+  users: z.array(adminUserDtoSchema),
+  pagination: paginationSchema
+});
+export type AdminUsersResponse = z.infer<typeof adminUsersResponseSchema>;
+
+export const adminSwapDtoSchema = z.object({
+  id: z.number(),
+  status: swapStatusSchema,
+  created_at: z.string(),
+  requester_name: z.string(),
+  requester_email: z.string(),
+  provider_name: z.string(),
+  provider_email: z.string(),
+  offered_skill_name: z.string(),
+  wanted_skill_name: z.string()
+});
+export type AdminSwapDTO = z.infer<typeof adminSwapDtoSchema>;
+
+export const adminSwapsResponseSchema = z.object({
+  swaps: z.array(adminSwapDtoSchema),
+  pagination: paginationSchema
+});
+export type AdminSwapsResponse = z.infer<typeof adminSwapsResponseSchema>;
+
+// Accounts waiting out the grace period before their data is erased
+export const pendingDeletionDtoSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  name: z.string(),
+  role: roleNameSchema,
+  created_at: z.string(),
+  deletion_requested_at: z.string(),
+  deletion_scheduled_for: z.string()
+});
+export type PendingDeletionDTO = z.infer<typeof pendingDeletionDtoSchema>;
+
+export const pendingDeletionsResponseSchema = z.object({
+  users: z.array(pendingDeletionDtoSchema),
+  pagination: paginationSchema
+});
+export type PendingDeletionsResponse = z.infer<typeof pendingDeletionsResponseSchema>;
+
+// A report with the names of everyone involved. camelCase, as the dashboard
+// has always read it.
+export const adminReportDtoSchema = z.object({
+  id: z.number(),
+  reporterId: z.number(),
+  reportedUserId: z.number(),
+  reason: reportReasonSchema,
+  details: z.string().nullable(),
+  status: z.enum(['open', 'resolved', 'dismissed']),
+  resolution: z.string().nullable(),
+  resolvedById: z.number().nullable(),
+  resolvedAt: z.string().nullable(),
+  createdAt: z.string(),
+  reporterName: z.string(),
+  reportedUserName: z.string(),
+  reportedUserEmail: z.string(),
+  reportedUserBanned: z.boolean(),
+  resolvedByName: z.string().nullable()
+});
+export type AdminReportDTO = z.infer<typeof adminReportDtoSchema>;
+
+export const adminReportsResponseSchema = z.object({
+  reports: z.array(adminReportDtoSchema),
+  pagination: paginationSchema
+});
+export type AdminReportsResponse = z.infer<typeof adminReportsResponseSchema>;
+
+// An audit log entry and who made it; the actor is null for system events
+export const auditLogEntryDtoSchema = z.object({
+  id: z.number(),
+  actorId: z.number().nullable(),
+  action: z.string(),
+  targetType: z.string().nullable(),
+  targetId: z.string().nullable(),
+  metadata: z.record(z.unknown()).nullable(),
+  changes: z.record(z.object({ before: z.unknown(), after: z.unknown() })).nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: z.string(),
+  actorName: z.string().nullable(),
+  actorEmail: z.string().nullable()
+});
+export type AuditLogEntryDTO = z.infer<typeof auditLogEntryDtoSchema>;
+
+export const auditLogResponseSchema = z.object({
+  entries: z.array(auditLogEntryDtoSchema),
+  pagination: paginationSchema
+});
+export type AuditLogResponse = z.infer<typeof auditLogResponseSchema>;
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { messageResponseSchema, roleNameSchema } from './common.js';
+
+// The server also holds new passwords to its password policy, which the
+// strength check endpoint reports on while they are typed
+export const registrationSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  password: z.string(),
+  name: z.string().optional(),
+  location: z.string().optional()
+});
+export type RegistrationInput = z.input<typeof registrationSchema>;
+
+export const loginSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  password: z.string().min(1, 'Password is required')
+});
+export type LoginInput = z.input<typeof loginSchema>;
+
+// Live strength feedback while a new password is typed
+export const passwordStrengthSchema = z.object({
+  password: z.string().max(200),
+  email: z.string().max(255).optional(),
+  name: z.string().max(255).optional()
+});
+export type PasswordStrengthInput = z.input<typeof passwordStrengthSchema>;
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format')
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: z.string()
+});
+export type PasswordResetInput = z.input<typeof passwordResetSchema>;
+
+export const emailVerificationSchema = z.object({
+  token: z.string().min(1, 'Token is required')
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required')
+});
+
+export const oidcLoginSchema = z.object({
+  code: z.string().min(1, 'Code is required')
+});
+
+// An authenticator app code, or a recovery code where the route accepts one
+const twoFactorCode = z.string().trim().min(6, 'Code must be at least 6 characters').max(20, 'Code is too long');
+
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCode
+});
+
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: twoFactorCode
+});
+export type TwoFactorLoginInput = z.input<typeof twoFactorLoginSchema>;
+
+// The signed-in user, as returned at login and by GET /users/profile
+export const accountDtoSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  location: z.string().nullable(),
+  profile_photo: z.string().nullable(),
+  email: z.string(),
+  role: roleNameSchema,
+  is_admin: z.boolean(),
+  is_public: z.boolean(),
+  email_verified: z.boolean(),
+  two_factor_enabled: z.boolean(),
+  // Set while a requested account deletion waits out its grace period
+  deletion_scheduled_for: z.string().nullable(),
+  permissions: z.array(z.string())
+});
+export type AccountDTO = z.infer<typeof accountDtoSchema>;
+
+export const tokenPairSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string()
+});
+export type TokenPair = z.infer<typeof tokenPairSchema>;
+
+export const sessionResponseSchema = tokenPairSchema.extend({
+  message: z.string(),
+  user: accountDtoSchema
+});
+export type SessionResponse = z.infer<typeof sessionResponseSchema>;
+
+// Accounts with two-factor authentication finish signing in with a code
+export const twoFactorChallengeSchema = z.object({
+  message: z.string(),
+  twoFactorRequired: z.literal(true),
+  challengeToken: z.string()
+});
+export type TwoFactorChallenge = z.infer<typeof twoFactorChallengeSchema>;
+
+export const loginResponseSchema = z.union([sessionResponseSchema, twoFactorChallengeSchema]);
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  recoveryCodesRemaining: z.number()
+});
+export type TwoFactorStatus = z.infer<typeof twoFactorStatusSchema>;
+
+// A new secret for the authenticator app, with a QR code as a data URL
+export const twoFactorSetupSchema = z.object({
+  secret: z.string(),
+  otpauthUri: z.string(),
+  qrCode: z.string()
+});
+export type TwoFactorSetup = z.infer<typeof twoFactorSetupSchema>;
+
+// Only shown once; the server keeps hashes
+export const recoveryCodesResponseSchema = messageResponseSchema.extend({
+  recoveryCodes: z.array(z.string())
+});
+export type RecoveryCodesResponse = z.infer<typeof recoveryCodesResponseSchema>;
+
+// How a new password measures up against the server's password policy
+export const passwordCheckSchema = z.object({
+  valid: z.boolean(),
+  score: z.number(), // 0-4
+  label: z.string(),
+  errors: z.array(z.string()),
+  suggestions: z.array(z.string()),
+  minLength: z.number()
+});
+export type PasswordCheck = z.infer<typeof passwordCheckSchema>;
+
+// An external OpenID Connect sign-in provider configured on the server
+export const oidcProviderSchema = z.object({
+  id: z.string(),
+  name: z.string()
+});
+export type OidcProvider = z.infer<typeof oidcProviderSchema>;
+
+// Signed-in device, as listed by /api/auth/sessions
+export const authSessionSchema = z.object({
+  id: z.number(),
+  userAgent: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: z.string(),
+  lastUsedAt: z.string(),
+  expiresAt: z.string(),
+  current: z.boolean()
+});
+export type AuthSession = z.infer<typeof authSessionSchema>;
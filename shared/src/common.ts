@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+export const roleNameSchema = z.enum(['user', 'moderator', 'admin', 'superadmin']);
+export type RoleName = z.infer<typeof roleNameSchema>;
+
+export const paginationSchema = z.object({
+  page: z.number(),
+  limit: z.number(),
+  total: z.number(),
+  totalPages: z.number()
+});
+export type Pagination = z.infer<typeof paginationSchema>;
+
+// Responses that only confirm what happened
+export const messageResponseSchema = z.object({
+  message: z.string()
+});
+export type MessageResponse = z.infer<typeof messageResponseSchema>;
+
+// Body of every 400 from validateBody; details name the fields that failed
+export const validationErrorSchema = z.object({
+  error: z.string(),
+  details: z.array(z.object({
+    field: z.string(),
+    message: z.string(),
+    code: z.string()
+  }))
+});
+export type ValidationError = z.infer<typeof validationErrorSchema>;
+
+// Body of every other error response; `code` marks the ones a client handles
+// differently, e.g. TOKEN_EXPIRED or RATE_LIMITED
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  code: z.string().optional(),
+  // Seconds to wait before trying again, sent with a 429
+  retryAfter: z.number().optional()
+});
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
@@ -0,0 +1,12 @@
+// Request and response shapes shared by the server and the web client. The
+// server validates request bodies against these schemas and builds responses
+// of these types; the client's API functions take and return the same types.
+export * from './common.js';
+export * from './auth.js';
+export * from './users.js';
+export * from './skills.js';
+export * from './swaps.js';
+export * from './ratings.js';
+export * from './reports.js';
+export * from './notifications.js';
+export * from './admin.js';
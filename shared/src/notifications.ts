@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { paginationSchema } from './common.js';
+
+// An inbox entry. Like swaps it is camelCase; `data` holds the rest of the
+// event that caused it, such as the swap or circle it is about.
+export const notificationDtoSchema = z.object({
+  id: z.number(),
+  type: z.string(),
+  title: z.string(),
+  message: z.string(),
+  data: z.record(z.unknown()).nullable(),
+  read: z.boolean(),
+  readAt: z.string().nullable(),
+  createdAt: z.string()
+});
+export type NotificationDTO = z.infer<typeof notificationDtoSchema>;
+
+export const notificationListResponseSchema = z.object({
+  notifications: z.array(notificationDtoSchema),
+  unreadCount: z.number(),
+  pagination: paginationSchema
+});
+export type NotificationListResponse = z.infer<typeof notificationListResponseSchema>;
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+export const ratingSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  feedback: z.string().optional()
+});
+export type RatingInput = z.input<typeof ratingSchema>;
+
+export const ratingDtoSchema = z.object({
+  rating: z.number(),
+  feedback: z.string().nullable(),
+  created_at: z.string(), // ISO 8601
+  rater_name: z.string(),
+  rater_photo: z.string().nullable()
+});
+export type RatingDTO = z.infer<typeof ratingDtoSchema>;
+
+// avg_rating is null until the first rating
+export const ratingSummaryDtoSchema = z.object({
+  avg_rating: z.number().nullable(),
+  total_ratings: z.number()
+});
+export type RatingSummaryDTO = z.infer<typeof ratingSummaryDtoSchema>;
+
+// GET /ratings/user/:id
+export const userRatingsSchema = ratingSummaryDtoSchema.extend({
+  ratings: z.array(ratingDtoSchema)
+});
+export type UserRatings = z.infer<typeof userRatingsSchema>;
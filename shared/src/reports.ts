@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+export const reportReasonSchema = z.enum(['spam', 'harassment', 'inappropriate', 'no_show', 'other']);
+export type ReportReason = z.infer<typeof reportReasonSchema>;
+
+export const reportSchema = z.object({
+  userId: z.number().int().positive(),
+  reason: reportReasonSchema,
+  details: z.string().trim().max(2000, 'Details must be at most 2000 characters').optional()
+});
+export type ReportInput = z.input<typeof reportSchema>;
+
+export const reportResolutionSchema = z.object({
+  status: z.enum(['resolved', 'dismissed']),
+  resolution: z.string().trim().max(1000, 'Resolution must be at most 1000 characters').optional()
+});
+export type ReportResolutionInput = z.input<typeof reportResolutionSchema>;
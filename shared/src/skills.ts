@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+export const skillTypeSchema = z.enum(['offered', 'wanted']);
+export type SkillType = z.infer<typeof skillTypeSchema>;
+
+export const proficiencyLevelSchema = z.enum(['beginner', 'intermediate', 'advanced', 'expert']);
+export type ProficiencyLevel = z.infer<typeof proficiencyLevelSchema>;
+
+export const skillSchema = z.object({
+  name: z.string().min(2, 'Skill name must be at least 2 characters'),
+  type: skillTypeSchema,
+  description: z.string().optional(),
+  proficiency_level: proficiencyLevelSchema.default('intermediate')
+});
+export type SkillInput = z.input<typeof skillSchema>;
+
+export const skillDtoSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: skillTypeSchema,
+  description: z.string().nullable(),
+  proficiency_level: proficiencyLevelSchema,
+  category: z.string(),
+  created_at: z.string()
+});
+export type SkillDTO = z.infer<typeof skillDtoSchema>;
+
+// Skill names listed by the most members
+export const popularSkillSchema = z.object({
+  name: z.string(),
+  count: z.number()
+});
+export type PopularSkill = z.infer<typeof popularSkillSchema>;
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+
+export const swapStatusSchema = z.enum(['pending', 'accepted', 'rejected', 'completed', 'cancelled']);
+export type SwapStatus = z.infer<typeof swapStatusSchema>;
+
+export const swapRequestSchema = z.object({
+  providerId: z.number().int().positive(),
+  offeredSkillId: z.number().int().positive(),
+  wantedSkillId: z.number().int().positive(),
+  message: z.string().optional()
+});
+export type SwapRequestInput = z.input<typeof swapRequestSchema>;
+
+export const swapRequestCreatedSchema = z.object({
+  message: z.string(),
+  swap_request_id: z.number()
+});
+export type SwapRequestCreated = z.infer<typeof swapRequestCreatedSchema>;
+
+// Only the provider accepts or rejects; either side completes or cancels
+export const swapStatusUpdateSchema = z.object({
+  status: z.enum(['accepted', 'rejected', 'completed', 'cancelled'], { errorMap: () => ({ message: 'Invalid status' }) })
+});
+export type SwapStatusUpdate = z.infer<typeof swapStatusUpdateSchema>;
+
+// `sent` are the swaps the user asked for, `received` the ones asking for
+// their skills
+export const swapListParamsSchema = z.object({
+  type: z.enum(['sent', 'received', 'all']).optional(),
+  status: swapStatusSchema.optional()
+});
+export type SwapListParams = z.infer<typeof swapListParamsSchema>;
+
+// A swap with both participants and skill names. Unlike the rest of the API
+// it is camelCase: it is the same row the swap websocket events carry. The
+// provider is whoever owns the requested skill.
+export const swapDetailsSchema = z.object({
+  id: z.number(),
+  requesterId: z.number(),
+  providerId: z.number(),
+  skillOfferedId: z.number(),
+  skillRequestedId: z.number(),
+  status: swapStatusSchema,
+  message: z.string().nullable(),
+  proposedTime: z.string().nullable(),
+  proposedLocation: z.string().nullable(),
+  completedAt: z.string().nullable(),
+  ratingByRequester: z.number().nullable(),
+  ratingByReceiver: z.number().nullable(),
+  feedbackByRequester: z.string().nullable(),
+  feedbackByReceiver: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  requesterName: z.string(),
+  requesterPhoto: z.string().nullable(),
+  providerName: z.string(),
+  providerPhoto: z.string().nullable(),
+  offeredSkillName: z.string(),
+  wantedSkillName: z.string()
+});
+export type SwapDetails = z.infer<typeof swapDetailsSchema>;
+
+export const sessionProposalSchema = z.object({
+  startTime: z.string().datetime({ offset: true, message: 'Start time must be an ISO 8601 date-time' }),
+  endTime: z.string().datetime({ offset: true, message: 'End time must be an ISO 8601 date-time' }).optional(),
+  durationMinutes: z.number().int().min(15).max(480).default(60),
+  location: z.string().trim().max(200).optional()
+}).refine(data => new Date(data.startTime).getTime() > Date.now(), {
+  message: 'Start time must be in the future',
+  path: ['startTime']
+}).refine(data => !data.endTime || new Date(data.endTime) > new Date(data.startTime), {
+  message: 'End time must be after the start time',
+  path: ['endTime']
+});
+export type SessionProposal = z.input<typeof sessionProposalSchema>;
+
+export const messageSchema = z.object({
+  content: z.string().trim().min(1, 'Message cannot be empty').max(2000, 'Message must be at most 2000 characters')
+});
+export type MessageInput = z.input<typeof messageSchema>;
+
+// Members in teaching order: each teaches the next, the last teaches the first
+export const circleProposalSchema = z.object({
+  members: z.array(z.object({
+    userId: z.number().int().positive(),
+    teachesSkillId: z.number().int().positive()
+  })).min(3, 'A circle swap needs at least 3 people').max(4, 'A circle swap can have at most 4 people')
+});
+export type CircleProposal = z.input<typeof circleProposalSchema>;
+
+// A proposed or scheduled session of a swap. A counter-proposal names the
+// proposal it answers in counterOf.
+export const swapSessionSchema = z.object({
+  id: z.number(),
+  swapId: z.number(),
+  proposedBy: z.number(),
+  proposedByName: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  location: z.string().nullable(),
+  status: z.enum(['proposed', 'confirmed', 'declined', 'countered', 'cancelled']),
+  counterOf: z.number().nullable(),
+  respondedBy: z.number().nullable(),
+  respondedAt: z.string().nullable(),
+  confirmedAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+export type SwapSession = z.infer<typeof swapSessionSchema>;
+
+export const chatMessageSchema = z.object({
+  id: z.number(),
+  swapId: z.number(),
+  senderId: z.number(),
+  receiverId: z.number(),
+  senderName: z.string(),
+  content: z.string(),
+  readAt: z.string().nullable(),
+  createdAt: z.string()
+});
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+
+// Each member teaches the one at the next position, the last the first
+export const circleParticipantSchema = z.object({
+  id: z.number(),
+  circleId: z.number(),
+  userId: z.number(),
+  userName: z.string(),
+  position: z.number(),
+  teachesSkillId: z.number(),
+  teachesSkillName: z.string(),
+  learnsSkillId: z.number(),
+  learnsSkillName: z.string(),
+  status: z.enum(['pending', 'accepted', 'declined']),
+  respondedAt: z.string().nullable(),
+  completedAt: z.string().nullable()
+});
+export type CircleParticipant = z.infer<typeof circleParticipantSchema>;
+
+// Exchange ring of 3 or 4 people
+export const circleSwapSchema = z.object({
+  id: z.number(),
+  proposedBy: z.number(),
+  proposedByName: z.string(),
+  status: z.enum(['proposed', 'active', 'declined', 'cancelled', 'completed']),
+  activatedAt: z.string().nullable(),
+  completedAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  participants: z.array(circleParticipantSchema)
+});
+export type CircleSwap = z.infer<typeof circleSwapSchema>;
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { accountDtoSchema } from './auth.js';
+import { paginationSchema } from './common.js';
+import { ratingSummaryDtoSchema } from './ratings.js';
+import { skillDtoSchema } from './skills.js';
+
+export const profileUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255, 'Name must be at most 255 characters'),
+  location: z.string().trim().max(255, 'Location must be at most 255 characters').optional(),
+  is_public: z.boolean().optional()
+});
+export type ProfileUpdateInput = z.input<typeof profileUpdateSchema>;
+
+// Re-entering the password confirms it is really the owner asking
+export const accountDeletionSchema = z.object({
+  password: z.string().min(1, 'Password is required')
+});
+
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, 'Times must be in HH:MM format');
+
+// Weekly slot in the owner's timezone; dayOfWeek 0 is Sunday
+export const availabilitySlotSchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: timeOfDay,
+  endTime: timeOfDay
+}).refine(slot => slot.endTime > slot.startTime, {
+  message: 'End time must be after the start time',
+  path: ['endTime']
+});
+export type AvailabilitySlot = z.infer<typeof availabilitySlotSchema>;
+
+export const availabilitySchema = z.object({
+  timezone: z.string().refine(isTimeZone, 'Unknown timezone'),
+  slots: z.array(availabilitySlotSchema).max(50)
+});
+export type Availability = z.infer<typeof availabilitySchema>;
+
+// What other members see of someone
+export const userSummaryDtoSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  location: z.string().nullable(),
+  profile_photo: z.string().nullable()
+});
+export type UserSummaryDTO = z.infer<typeof userSummaryDtoSchema>;
+
+const profileDetails = {
+  skills: z.array(skillDtoSchema),
+  timezone: z.string(),
+  availability: z.array(availabilitySlotSchema)
+};
+
+// GET /users/profile
+export const profileSchema = accountDtoSchema.extend(profileDetails).merge(ratingSummaryDtoSchema);
+export type Profile = z.infer<typeof profileSchema>;
+
+// GET /users/:id
+export const publicProfileSchema = userSummaryDtoSchema.extend(profileDetails).merge(ratingSummaryDtoSchema);
+export type PublicProfile = z.infer<typeof publicProfileSchema>;
+
+// availableAt is an ISO date-time; overlapsWithMe ranks people by how much
+// their weekly availability overlaps the searcher's
+export const userSearchParamsSchema = z.object({
+  skill: z.string().optional(),
+  availableAt: z.string().optional(),
+  overlapsWithMe: z.boolean().optional(),
+  page: z.number().int().positive().optional(),
+  limit: z.number().int().positive().optional()
+});
+export type UserSearchParams = z.infer<typeof userSearchParamsSchema>;
+
+export const searchUserDtoSchema = userSummaryDtoSchema.merge(ratingSummaryDtoSchema).extend({
+  timezone: z.string(),
+  offered_skills: z.array(z.string()),
+  wanted_skills: z.array(z.string()),
+  // Only when searching by availability
+  overlap_minutes: z.number().optional()
+});
+export type SearchUserDTO = z.infer<typeof searchUserDtoSchema>;
+
+export const userSearchResponseSchema = z.object({
+  users: z.array(searchUserDtoSchema),
+  pagination: paginationSchema
+});
+export type UserSearchResponse = z.infer<typeof userSearchResponseSchema>;
@@ -11,6 +11,7 @@ import SwapRequestsPage from './pages/SwapRequestsPage';
 import AdminDashboard from './pages/AdminDashboard';
 import UserProfilePage from './pages/UserProfilePage';
 import NotificationBanner from './components/notifications/NotificationBanner';
+import EmailVerificationBanner from './components/notifications/EmailVerificationBanner';
 import LoadingSpinner from './components/ui/LoadingSpinner';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -34,7 +35,8 @@ function AdminRoute({ children }: { children: React.ReactNode }) {
     return <LoadingSpinner />;
   }
   
-  if (!user || !user.is_admin) {
+  // Any staff role; the dashboard shows what the role may use
+  if (!user || !user.permissions?.length) {
     return <Navigate to="/" replace />;
   }
   
@@ -52,6 +54,7 @@ function AppContent() {
     <div className="min-h-screen bg-gray-50">
       <Navbar />
       <NotificationBanner />
+      <EmailVerificationBanner />
       <main className="container mx-auto px-4 py-8">
         <Routes>
           <Route path="/login" element={
@@ -60,6 +63,9 @@ function AppContent() {
           <Route path="/register" element={
             user ? <Navigate to="/" replace /> : <RegisterPage />
           } />
+          {/* Links from account emails; they work signed in or out */}
+          <Route path="/reset-password" element={<LoginPage />} />
+          <Route path="/verify-email" element={<LoginPage />} />
           <Route path="/" element={
             <ProtectedRoute>
               <HomePage />
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { LogIn } from 'lucide-react';
+import { authAPI, type OidcProvider } from '../../services/api';
+import Button from '../ui/Button';
+
+// "Continue with …" buttons for the sign-in providers the server has configured.
+// Renders nothing when there are none.
+export default function OidcProviderButtons() {
+  const [providers, setProviders] = useState<OidcProvider[]>([]);
+
+  useEffect(() => {
+    authAPI.getOidcProviders()
+      .then((response) => setProviders(response.data.providers))
+      .catch((error) => console.error('Failed to load sign-in providers:', error));
+  }, []);
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center">
+          <div className="w-full border-t border-gray-300" />
+        </div>
+        <div className="relative flex justify-center text-sm">
+          <span className="px-2 bg-gray-50 text-gray-500">or continue with</span>
+        </div>
+      </div>
+
+      {providers.map(({ id, name }) => (
+        <Button
+          key={id}
+          type="button"
+          variant="outline"
+          size="lg"
+          icon={LogIn}
+          className="w-full"
+          onClick={() => window.location.assign(authAPI.oidcAuthorizeUrl(id))}
+        >
+          {name}
+        </Button>
+      ))}
+    </div>
+  );
+}
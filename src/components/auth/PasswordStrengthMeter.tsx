@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { authAPI, type PasswordCheck } from '../../services/api';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  email?: string;
+  name?: string;
+  onChange?: (check: PasswordCheck | null) => void;
+}
+
+const BAR_COLORS = ['bg-red-500', 'bg-orange-500', 'bg-yellow-500', 'bg-green-500', 'bg-green-600'];
+
+// Wait for a pause in typing before asking the server
+const CHECK_DELAY_MS = 300;
+
+// Live feedback from the server's password policy while a new password is typed
+export default function PasswordStrengthMeter({ password, email, name, onChange }: PasswordStrengthMeterProps) {
+  const [check, setCheck] = useState<PasswordCheck | null>(null);
+
+  useEffect(() => {
+    if (!password) {
+      setCheck(null);
+      onChange?.(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      authAPI.checkPasswordStrength(password, { email, name })
+        .then((response) => {
+          if (!cancelled) {
+            setCheck(response.data);
+            onChange?.(response.data);
+          }
+        })
+        .catch((error) => console.error('Password strength check failed:', error));
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [password, email, name, onChange]);
+
+  if (!check) {
+    return null;
+  }
+
+  const hint = check.errors[0] || check.suggestions[0];
+
+  return (
+    <div className="space-y-1" aria-live="polite">
+      <div className="flex gap-1">
+        {BAR_COLORS.map((color, index) => (
+          <div
+            key={color}
+            className={`h-1.5 flex-1 rounded-full ${index <= check.score ? BAR_COLORS[check.score] : 'bg-gray-200'}`}
+          />
+        ))}
+      </div>
+      <p className={`text-xs ${check.valid ? 'text-gray-600' : 'text-red-600'}`}>
+        <span className="font-medium">{check.label}</span>
+        {hint && ` · ${hint}`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { ChatMessage } from '@skill-swap/contracts';
+import { Send } from 'lucide-react';
+import { messagesAPI } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/NotificationContext';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+interface ChatPanelProps {
+  swapId: number;
+  partnerName: string;
+  onRead?: () => void;
+}
+
+// How long a typing indicator stays up without a fresh event
+const TYPING_TIMEOUT = 5000;
+// Minimum gap between our own typing events
+const TYPING_THROTTLE = 3000;
+
+export default function ChatPanel({ swapId, partnerName, onRead }: ChatPanelProps) {
+  const { user } = useAuth();
+  const { addNotification, subscribeToChatEvents, sendTyping } = useNotifications();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [canSend, setCanSend] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [partnerTyping, setPartnerTyping] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const partnerTypingTimeout = useRef<number | null>(null);
+  const lastTypingSent = useRef(0);
+  const stopTypingTimeout = useRef<number | null>(null);
+
+  const appendMessage = (message: ChatMessage) => {
+    setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+  };
+
+  const markAsRead = useCallback(async () => {
+    try {
+      await messagesAPI.markAsRead(swapId);
+      onRead?.();
+    } catch (error) {
+      console.error('Error marking messages as read:', error);
+    }
+  }, [swapId, onRead]);
+
+  useEffect(() => {
+    const fetchMessages = async () => {
+      try {
+        setLoading(true);
+        const response = await messagesAPI.getMessages(swapId);
+        setMessages(response.data.messages);
+        setHasMore(response.data.hasMore);
+        setCanSend(response.data.canSend);
+        markAsRead();
+      } catch (error) {
+        console.error('Error fetching messages:', error);
+        addNotification({
+          type: 'error',
+          title: 'Error',
+          message: 'Failed to load messages'
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMessages();
+  }, [swapId]);
+
+  // Live messages, typing indicators and read receipts for this conversation
+  useEffect(() => {
+    return subscribeToChatEvents((event) => {
+      if (event.swapId !== swapId) return;
+
+      switch (event.type) {
+        case 'message.created':
+          appendMessage(event.message);
+          if (event.message.senderId !== user?.id) {
+            setPartnerTyping(false);
+            markAsRead();
+          }
+          break;
+        case 'message.typing':
+          if (event.userId === user?.id) break;
+          setPartnerTyping(event.isTyping);
+          if (partnerTypingTimeout.current) {
+            window.clearTimeout(partnerTypingTimeout.current);
+          }
+          if (event.isTyping) {
+            partnerTypingTimeout.current = window.setTimeout(() => setPartnerTyping(false), TYPING_TIMEOUT);
+          }
+          break;
+        case 'message.read':
+          if (event.readerId === user?.id) break;
+          setMessages(prev => prev.map(m => (m.senderId === user?.id && !m.readAt ? { ...m, readAt: event.readAt } : m)));
+          break;
+      }
+    });
+  }, [subscribeToChatEvents, swapId, user?.id, markAsRead]);
+
+  // Stop announcing that we're typing when the panel closes
+  useEffect(() => {
+    return () => {
+      if (partnerTypingTimeout.current) window.clearTimeout(partnerTypingTimeout.current);
+      if (stopTypingTimeout.current) {
+        window.clearTimeout(stopTypingTimeout.current);
+        sendTyping(swapId, false);
+      }
+    };
+  }, [swapId, sendTyping]);
+
+  // Keep the newest message in view; loading older pages leaves the scroll alone
+  const newestMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [newestMessageId, partnerTyping]);
+
+  const loadOlder = async () => {
+    if (messages.length === 0) return;
+
+    try {
+      setLoadingOlder(true);
+      const response = await messagesAPI.getMessages(swapId, { before: messages[0].id });
+      setMessages(prev => [...response.data.messages, ...prev]);
+      setHasMore(response.data.hasMore);
+    } catch (error) {
+      console.error('Error fetching older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const stopTyping = () => {
+    if (stopTypingTimeout.current) {
+      window.clearTimeout(stopTypingTimeout.current);
+      stopTypingTimeout.current = null;
+    }
+    lastTypingSent.current = 0;
+    sendTyping(swapId, false);
+  };
+
+  const handleDraftChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setDraft(e.target.value);
+
+    const now = Date.now();
+    if (now - lastTypingSent.current > TYPING_THROTTLE) {
+      lastTypingSent.current = now;
+      sendTyping(swapId, true);
+    }
+    if (stopTypingTimeout.current) {
+      window.clearTimeout(stopTypingTimeout.current);
+    }
+    stopTypingTimeout.current = window.setTimeout(stopTyping, TYPING_THROTTLE);
+  };
+
+  const handleSend = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const content = draft.trim();
+    if (!content || sending) return;
+
+    try {
+      setSending(true);
+      const response = await messagesAPI.sendMessage(swapId, content);
+      appendMessage(response.data);
+      setDraft('');
+      stopTyping();
+    } catch (error: any) {
+      console.error('Error sending message:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.error || 'Failed to send message'
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner className="h-64" />;
+  }
+
+  const lastOwnMessage = [...messages].reverse().find(m => m.senderId === user?.id);
+
+  return (
+    <div className="flex flex-col h-96">
+      <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+        {hasMore && (
+          <div className="text-center">
+            <button
+              onClick={loadOlder}
+              disabled={loadingOlder}
+              className="text-xs text-primary-600 hover:text-primary-700 disabled:opacity-50"
+            >
+              {loadingOlder ? 'Loading...' : 'Load earlier messages'}
+            </button>
+          </div>
+        )}
+
+        {messages.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 py-12">
+            No messages yet. Say hello to {partnerName}!
+          </p>
+        ) : (
+          messages.map((message) => {
+            const isOwn = message.senderId === user?.id;
+            return (
+              <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                <div className="max-w-[75%]">
+                  <div
+                    className={`px-3 py-2 rounded-lg text-sm whitespace-pre-wrap break-words ${
+                      isOwn ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-900'
+                    }`}
+                  >
+                    {message.content}
+                  </div>
+                  <p className={`text-xs text-gray-400 mt-1 ${isOwn ? 'text-right' : ''}`}>
+                    {new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {isOwn && message.id === lastOwnMessage?.id && message.readAt && ' · Seen'}
+                  </p>
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {partnerTyping && (
+          <p className="text-xs text-gray-500 italic">{partnerName} is typing...</p>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {canSend ? (
+        <form onSubmit={handleSend} className="flex items-end gap-2 pt-3 border-t border-gray-200 mt-3">
+          <textarea
+            value={draft}
+            onChange={handleDraftChange}
+            onKeyDown={handleKeyDown}
+            onBlur={() => stopTypingTimeout.current && stopTyping()}
+            placeholder={`Message ${partnerName}...`}
+            rows={2}
+            maxLength={2000}
+            className="flex-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm resize-none focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+          />
+          <Button type="submit" icon={Send} loading={sending} disabled={!draft.trim()}>
+            Send
+          </Button>
+        </form>
+      ) : (
+        <p className="text-xs text-gray-500 text-center pt-3 border-t border-gray-200 mt-3">
+          Messaging opens once the swap has been accepted.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { CircleSwap } from '@skill-swap/contracts';
+import { RefreshCcw, ArrowRight, Check, X, CheckCircle, Clock } from 'lucide-react';
+import { circlesAPI } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/NotificationContext';
+import Button from '../ui/Button';
+
+// Member of a suggested ring, as returned by /api/circles/suggestions
+interface CircleMember {
+  userId: number;
+  userName: string;
+  teachesSkillId: number;
+  teachesSkillName: string;
+  learnsSkillId: number;
+  learnsSkillName: string;
+}
+
+const getStatusColor = (status: CircleSwap['status']) => {
+  switch (status) {
+    case 'proposed':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'active':
+      return 'bg-blue-100 text-blue-800';
+    case 'completed':
+      return 'bg-green-100 text-green-800';
+    default:
+      return 'bg-gray-100 text-gray-600';
+  }
+};
+
+// "Alice teaches Guitar → Bob" for each link of the ring
+function RingLinks({ members }: { members: Pick<CircleMember, 'userId' | 'userName' | 'teachesSkillName'>[] }) {
+  return (
+    <ul className="space-y-1 text-sm text-gray-700">
+      {members.map((member, index) => (
+        <li key={member.userId} className="flex items-center gap-1 flex-wrap">
+          <span className="font-medium">{member.userName}</span>
+          <span className="text-gray-500">teaches {member.teachesSkillName}</span>
+          <ArrowRight className="w-3.5 h-3.5 text-gray-400" />
+          <span className="font-medium">{members[(index + 1) % members.length].userName}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function CircleSwapsPanel() {
+  const { user } = useAuth();
+  const { addNotification, subscribeToCircleEvents } = useNotifications();
+  const [circles, setCircles] = useState<CircleSwap[]>([]);
+  const [suggestions, setSuggestions] = useState<CircleMember[][]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchCircles = useCallback(async () => {
+    try {
+      const [circlesResponse, suggestionsResponse] = await Promise.all([
+        circlesAPI.getCircles(),
+        circlesAPI.getSuggestions()
+      ]);
+      setCircles(circlesResponse.data.circles);
+      setSuggestions(suggestionsResponse.data.suggestions.map((s: { members: CircleMember[] }) => s.members));
+    } catch (error) {
+      console.error('Error fetching circle swaps:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCircles();
+  }, [fetchCircles]);
+
+  useEffect(() => {
+    return subscribeToCircleEvents(() => {
+      fetchCircles();
+    });
+  }, [subscribeToCircleEvents, fetchCircles]);
+
+  const runAction = async (action: () => Promise<unknown>, success: string, fallback: string) => {
+    try {
+      setSubmitting(true);
+      await action();
+      await fetchCircles();
+      addNotification({ type: 'success', title: 'Success', message: success });
+    } catch (error: any) {
+      console.error('Circle swap action failed:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.error || fallback
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const proposeCircle = (members: CircleMember[]) => runAction(
+    () => circlesAPI.proposeCircle({
+      members: members.map(member => ({ userId: member.userId, teachesSkillId: member.teachesSkillId }))
+    }),
+    'Circle swap proposed',
+    'Failed to propose circle swap'
+  );
+
+  if (circles.length === 0 && suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <RefreshCcw className="w-5 h-5 mr-2 text-primary-600" />
+          Circle Swaps
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          No direct partner? Three or four people can swap in a ring, each teaching the next.
+        </p>
+      </div>
+
+      {circles.length > 0 && (
+        <div className="space-y-3">
+          {circles.map((circle) => {
+            const me = circle.participants.find(p => p.userId === user?.id);
+            const waitingOn = circle.participants.filter(p => p.status === 'pending').map(p => p.userName);
+            return (
+              <div key={circle.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-500">
+                    Proposed by {circle.proposedBy === user?.id ? 'you' : circle.proposedByName}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusColor(circle.status)}`}>
+                    {circle.status}
+                  </span>
+                </div>
+
+                <RingLinks members={circle.participants} />
+
+                {circle.status === 'proposed' && waitingOn.length > 0 && (
+                  <p className="text-xs text-gray-500 flex items-center">
+                    <Clock className="w-3.5 h-3.5 mr-1" />
+                    Waiting for {waitingOn.join(', ')}
+                  </p>
+                )}
+                {circle.status === 'active' && (
+                  <p className="text-xs text-gray-500">
+                    {circle.participants.filter(p => p.completedAt).length} of {circle.participants.length} finished their part
+                  </p>
+                )}
+
+                {me && (
+                  <div className="flex flex-wrap gap-2">
+                    {circle.status === 'proposed' && me.status === 'pending' && (
+                      <>
+                        <Button
+                          size="sm"
+                          icon={Check}
+                          disabled={submitting}
+                          onClick={() => runAction(() => circlesAPI.acceptCircle(circle.id), 'Circle swap accepted', 'Failed to accept circle swap')}
+                        >
+                          Accept
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          icon={X}
+                          disabled={submitting}
+                          onClick={() => runAction(() => circlesAPI.declineCircle(circle.id), 'Circle swap declined', 'Failed to decline circle swap')}
+                        >
+                          Decline
+                        </Button>
+                      </>
+                    )}
+                    {circle.status === 'active' && !me.completedAt && (
+                      <Button
+                        size="sm"
+                        icon={CheckCircle}
+                        disabled={submitting}
+                        onClick={() => runAction(() => circlesAPI.completeCircle(circle.id), 'Marked your part as done', 'Failed to complete circle swap')}
+                      >
+                        I've taught {me.teachesSkillName}
+                      </Button>
+                    )}
+                    {(circle.status === 'proposed' || circle.status === 'active') && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={submitting}
+                        onClick={() => runAction(() => circlesAPI.cancelCircle(circle.id), 'Circle swap cancelled', 'Failed to cancel circle swap')}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-900">Suggested circles</h3>
+          {suggestions.map((members) => (
+            <div
+              key={members.map(member => member.teachesSkillId).join('-')}
+              className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 border border-dashed border-gray-300 rounded-lg p-4"
+            >
+              <RingLinks members={members} />
+              <Button size="sm" variant="outline" disabled={submitting} onClick={() => proposeCircle(members)}>
+                Propose circle
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
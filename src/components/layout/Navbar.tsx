@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import NotificationInbox from '../notifications/NotificationInbox';
 import { 
   Home, 
   User, 
@@ -28,7 +29,7 @@ export default function Navbar() {
     { path: '/swaps', label: 'Swaps', icon: RefreshCw },
   ];
 
-  if (user?.is_admin) {
+  if (user?.permissions?.length) {
     navItems.push({ path: '/admin', label: 'Admin', icon: Shield });
   }
 
@@ -66,6 +67,7 @@ export default function Navbar() {
 
                 {/* User Menu */}
                 <div className="flex items-center space-x-3">
+                  <NotificationInbox />
                   <span className="text-sm text-gray-700">
                     Welcome, {user.name}
                   </span>
@@ -83,7 +85,8 @@ export default function Navbar() {
 
           {/* Mobile menu button */}
           {user && (
-            <div className="md:hidden">
+            <div className="md:hidden flex items-center space-x-1">
+              <NotificationInbox />
               <button
                 onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
                 className="p-2 text-gray-600 hover:text-primary-600 transition-colors"
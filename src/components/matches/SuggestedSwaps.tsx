@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Sparkles, ArrowLeftRight, MessageCircle, MapPin } from 'lucide-react';
+import { matchesAPI, type Match } from '../../services/api';
+import SkillTag from '../profile/SkillTag';
+import Button from '../ui/Button';
+
+const MATCH_LIMIT = 6;
+
+export default function SuggestedSwaps() {
+  const [matches, setMatches] = useState<Match[]>([]);
+
+  useEffect(() => {
+    const fetchMatches = async () => {
+      try {
+        const response = await matchesAPI.getMatches({ limit: MATCH_LIMIT });
+        setMatches(response.data.matches);
+      } catch (error) {
+        console.error('Failed to fetch matches:', error);
+      }
+    };
+
+    fetchMatches();
+  }, []);
+
+  // Nothing to suggest until the user lists skills both ways
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Sparkles className="w-5 h-5 text-primary-600" />
+        <h2 className="text-2xl font-semibold text-gray-900">Suggested Swaps</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {matches.map((match) => (
+          <div key={match.user.id} className="border border-gray-200 rounded-lg p-4 flex flex-col">
+            <div className="flex items-center justify-between mb-3">
+              <div className="min-w-0">
+                <Link to={`/user/${match.user.id}`} className="font-semibold text-gray-900 hover:text-primary-600 truncate block">
+                  {match.user.name}
+                </Link>
+                {match.user.location && (
+                  <p className="text-xs text-gray-500 flex items-center">
+                    <MapPin className="w-3 h-3 mr-1" />
+                    {match.user.location}
+                  </p>
+                )}
+              </div>
+              <span className="px-2 py-1 rounded-full text-xs font-medium bg-primary-100 text-primary-700">
+                {match.score}% match
+              </span>
+            </div>
+
+            <div className="flex items-center gap-2 mb-3">
+              <SkillTag skill={match.offeredSkill.name} type="offered" size="sm" />
+              <ArrowLeftRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+              <SkillTag skill={match.wantedSkill.name} type="wanted" size="sm" />
+            </div>
+
+            <ul className="text-xs text-gray-600 space-y-1 mb-4 flex-1">
+              {match.reasons.map((reason) => (
+                <li key={reason}>• {reason}</li>
+              ))}
+            </ul>
+
+            <Link to={`/user/${match.user.id}?action=swap&offered=${match.offeredSkill.id}&wanted=${match.wantedSkill.id}`}>
+              <Button className="w-full" size="sm" icon={MessageCircle}>
+                Request Swap
+              </Button>
+            </Link>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
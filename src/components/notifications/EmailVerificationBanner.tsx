@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/NotificationContext';
+import { authAPI } from '../../services/api';
+import Button from '../ui/Button';
+
+// Reminds signed-in users who haven't confirmed their email address yet
+export default function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const { addNotification } = useNotifications();
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  if (!user || user.email_verified !== false) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    try {
+      setSending(true);
+      await authAPI.resendVerification();
+      setSent(true);
+    } catch (error: any) {
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.error || 'Failed to send verification email'
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200 px-4 py-2">
+      <div className="container mx-auto flex items-center justify-between gap-4 text-sm text-yellow-800">
+        <span className="flex items-center">
+          <MailWarning className="w-4 h-4 mr-2 flex-shrink-0" />
+          {sent
+            ? `We sent a new confirmation link to ${user.email}.`
+            : `Please confirm your email address. Check ${user.email} for the link we sent.`}
+        </span>
+        {!sent && (
+          <Button size="sm" variant="outline" loading={sending} onClick={handleResend}>
+            Resend link
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,10 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect } from 'react';
 import { useNotifications } from '../../contexts/NotificationContext';
-import { X, AlertCircle, CheckCircle, Info, AlertTriangle, Bell } from 'lucide-react';
+import { X, AlertCircle, CheckCircle, Info, AlertTriangle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 export default function NotificationBanner() {
   const { notifications, adminMessages, removeNotification } = useNotifications();
-  const [showNotifications, setShowNotifications] = React.useState(false);
-  const notificationRef = useRef<HTMLDivElement>(null);
 
   // Auto-dismiss notifications after 5 seconds
   useEffect(() => {
@@ -21,18 +19,6 @@ export default function NotificationBanner() {
     return () => clearTimeout(timer);
   }, [notifications, removeNotification]);
 
-  // Close notifications when clicking outside
-  useEffect(() => {
-    function handleClickOutside(event: MouseEvent) {
-      if (notificationRef.current && !notificationRef.current.contains(event.target as Node)) {
-        setShowNotifications(false);
-      }
-    }
-
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, []);
-
   const getIcon = (type: string) => {
     switch (type) {
       case 'success':
@@ -90,84 +76,38 @@ export default function NotificationBanner() {
         )}
       </AnimatePresence>
 
-      {/* Notification Bell */}
-      <div className="fixed top-4 right-4 z-50" ref={notificationRef}>
-        <button
-          onClick={() => setShowNotifications(!showNotifications)}
-          className="relative p-2 bg-white rounded-full shadow-md hover:bg-gray-100 transition-colors"
-          aria-label="Notifications"
-        >
-          <Bell className="w-6 h-6 text-gray-700" />
-          {notifications.length > 0 && (
-            <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
-              {notifications.length}
-            </span>
-          )}
-        </button>
-
-        {/* Notification Dropdown */}
+      {/* Live notifications; the stored history lives in the Navbar inbox */}
+      <div className="fixed top-20 right-4 z-50 w-80 space-y-2">
         <AnimatePresence>
-          {showNotifications && (
+          {notifications.map((notification) => (
             <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: 20 }}
-              className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-xl overflow-hidden"
+              key={notification.id}
+              initial={{ opacity: 0, x: 50 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 50 }}
+              className={`p-3 border rounded-lg shadow-lg ${getBackgroundColor(notification.type)}`}
             >
-              <div className="p-3 border-b border-gray-200">
-                <div className="flex justify-between items-center">
-                  <h3 className="font-medium text-gray-900">Notifications</h3>
-                  <button
-                    onClick={() => setShowNotifications(false)}
-                    className="text-gray-400 hover:text-gray-600"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
+              <div className="flex items-start space-x-3">
+                <div className="mt-0.5">
+                  {getIcon(notification.type)}
                 </div>
-              </div>
-
-              <div className="max-h-96 overflow-y-auto">
-                {notifications.length === 0 ? (
-                  <div className="p-4 text-center text-gray-500 text-sm">
-                    No new notifications
-                  </div>
-                ) : (
-                  notifications.map((notification) => (
-                    <div
-                      key={notification.id}
-                      className={`p-3 border-b border-gray-100 last:border-0 hover:bg-gray-50 transition-colors ${getBackgroundColor(notification.type)}`}
-                    >
-                      <div className="flex items-start space-x-3">
-                        <div className="mt-0.5">
-                          {getIcon(notification.type)}
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm font-medium text-gray-900">
-                            {notification.title}
-                          </p>
-                          <p className="text-sm text-gray-600">
-                            {notification.message}
-                          </p>
-                          <p className="text-xs text-gray-400 mt-1">
-                            {new Date(notification.timestamp).toLocaleTimeString()}
-                          </p>
-                        </div>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            removeNotification(notification.id);
-                          }}
-                          className="text-gray-300 hover:text-gray-500 transition-colors"
-                        >
-                          <X className="w-4 h-4" />
-                        </button>
-                      </div>
-                    </div>
-                  ))
-                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {notification.title}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {notification.message}
+                  </p>
+                </div>
+                <button
+                  onClick={() => removeNotification(notification.id)}
+                  className="text-gray-300 hover:text-gray-500 transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                </button>
               </div>
             </motion.div>
-          )}
+          ))}
         </AnimatePresence>
       </div>
     </>
@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useNotifications, type InboxNotification } from '../../contexts/NotificationContext';
+import { Bell, Check, CheckCheck, Trash2, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+export default function NotificationInbox() {
+  const {
+    inbox,
+    unreadCount,
+    inboxLoading,
+    inboxHasMore,
+    loadInbox,
+    markAsRead,
+    markAllAsRead,
+    deleteInboxNotification
+  } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+  const [page, setPage] = useState(1);
+  const inboxRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+
+  // Refresh from the server whenever the dropdown is opened
+  useEffect(() => {
+    if (isOpen) {
+      setPage(1);
+      loadInbox(1);
+    }
+  }, [isOpen, loadInbox]);
+
+  // Close the dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (inboxRef.current && !inboxRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleLoadMore = () => {
+    const nextPage = page + 1;
+    setPage(nextPage);
+    loadInbox(nextPage);
+  };
+
+  // Swap notifications link through to the swaps page
+  const handleOpen = (notification: InboxNotification) => {
+    if (!notification.read) {
+      markAsRead(notification.id);
+    }
+    if (notification.data?.swapId) {
+      setIsOpen(false);
+      navigate('/swaps');
+    }
+  };
+
+  return (
+    <div className="relative" ref={inboxRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-gray-600 hover:text-primary-600 hover:bg-gray-100 rounded-full transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 bg-red-500 text-white text-xs rounded-full min-w-[1.25rem] h-5 px-1 flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-xl overflow-hidden z-50"
+          >
+            <div className="p-3 border-b border-gray-200">
+              <div className="flex justify-between items-center">
+                <h3 className="font-medium text-gray-900">Notifications</h3>
+                <div className="flex items-center space-x-2">
+                  {unreadCount > 0 && (
+                    <button
+                      onClick={markAllAsRead}
+                      className="flex items-center space-x-1 text-xs text-primary-600 hover:text-primary-700"
+                    >
+                      <CheckCheck className="w-4 h-4" />
+                      <span>Mark all read</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setIsOpen(false)}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto">
+              {inbox.length === 0 ? (
+                <div className="p-4 text-center text-gray-500 text-sm">
+                  {inboxLoading ? 'Loading...' : 'No notifications yet'}
+                </div>
+              ) : (
+                <>
+                  {inbox.map((notification) => (
+                    <div
+                      key={notification.id}
+                      onClick={() => handleOpen(notification)}
+                      className={`p-3 border-b border-gray-100 last:border-0 cursor-pointer hover:bg-gray-50 transition-colors ${
+                        notification.read ? '' : 'bg-blue-50'
+                      }`}
+                    >
+                      <div className="flex items-start space-x-3">
+                        <span
+                          className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${
+                            notification.read ? 'bg-transparent' : 'bg-primary-500'
+                          }`}
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className={`text-sm text-gray-900 ${notification.read ? '' : 'font-medium'}`}>
+                            {notification.title}
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            {notification.message}
+                          </p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {new Date(notification.createdAt).toLocaleString()}
+                          </p>
+                        </div>
+                        <div className="flex flex-col space-y-1">
+                          {!notification.read && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                markAsRead(notification.id);
+                              }}
+                              className="text-gray-300 hover:text-green-600 transition-colors"
+                              aria-label="Mark as read"
+                            >
+                              <Check className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              deleteInboxNotification(notification.id);
+                            }}
+                            className="text-gray-300 hover:text-red-500 transition-colors"
+                            aria-label="Delete notification"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                  {inboxHasMore && (
+                    <button
+                      onClick={handleLoadMore}
+                      disabled={inboxLoading}
+                      className="w-full p-2 text-sm text-primary-600 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {inboxLoading ? 'Loading...' : 'Load more'}
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Download, Trash2, AlertTriangle } from 'lucide-react';
+import { usersAPI } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/NotificationContext';
+import Input from '../ui/Input';
+import Button from '../ui/Button';
+import Modal from '../ui/Modal';
+
+const formatDate = (value: string) =>
+  new Date(`${value.replace(' ', 'T')}Z`).toLocaleDateString(undefined, { dateStyle: 'long' });
+
+export default function AccountDataPanel() {
+  const { user, updateUser } = useAuth();
+  const { addNotification } = useNotifications();
+  const [exporting, setExporting] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const scheduledFor = user?.deletion_scheduled_for;
+  // Staff have to hand their role back first
+  const isStaff = Boolean(user?.permissions?.length);
+
+  const notifyError = (error: any, fallback: string) => {
+    addNotification({
+      type: 'error',
+      title: 'Error',
+      message: error.response?.data?.error || fallback
+    });
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const response = await usersAPI.exportData();
+      const filename = /filename="([^"]+)"/.exec(response.headers['content-disposition'] ?? '')?.[1]
+        ?? 'skillswap-export.json';
+
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Error exporting data:', error);
+      // With a blob response type the JSON error body arrives as a Blob too
+      const data = error.response?.data;
+      const body = data instanceof Blob ? await data.text().then(JSON.parse).catch(() => null) : data;
+      notifyError({ response: { data: body } }, 'Failed to export your data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const closeDeleteModal = () => {
+    setConfirmingDelete(false);
+    setPassword('');
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSubmitting(true);
+      const response = await usersAPI.deleteAccount(password);
+      updateUser({ deletion_scheduled_for: response.data.deletionScheduledFor });
+      closeDeleteModal();
+      addNotification({ type: 'success', title: 'Account deletion scheduled', message: response.data.message });
+    } catch (error: any) {
+      notifyError(error, 'Failed to delete your account');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    try {
+      setSubmitting(true);
+      await usersAPI.cancelDeletion();
+      updateUser({ deletion_scheduled_for: null });
+      addNotification({ type: 'success', title: 'Success', message: 'Your account will not be deleted' });
+    } catch (error: any) {
+      notifyError(error, 'Failed to cancel account deletion');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Download a copy of your profile, skills, swaps, ratings, messages and notifications as a JSON file.
+        </p>
+        <Button variant="outline" icon={Download} loading={exporting} onClick={handleExport}>
+          Download my data
+        </Button>
+      </div>
+
+      <div className="border-t border-gray-200 pt-6 space-y-3">
+        {scheduledFor ? (
+          <>
+            <p className="flex items-start text-sm text-red-800 bg-red-50 rounded-md p-3">
+              <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              Your account will be deleted on {formatDate(scheduledFor)}. Until then you can keep using it
+              and change your mind.
+            </p>
+            <Button variant="outline" loading={submitting} onClick={handleCancelDeletion}>
+              Keep my account
+            </Button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Deleting your account removes your profile, skills and messages after a grace period. People
+              you swapped with keep their swap history and ratings, shown as from a deleted user.
+            </p>
+            {isStaff && (
+              <p className="text-sm text-yellow-800 bg-yellow-50 rounded-md p-3">
+                Staff accounts can't be deleted. Ask an admin to change your role to user first.
+              </p>
+            )}
+            <Button variant="danger" icon={Trash2} disabled={isStaff} onClick={() => setConfirmingDelete(true)}>
+              Delete my account
+            </Button>
+          </>
+        )}
+      </div>
+
+      <Modal isOpen={confirmingDelete} onClose={closeDeleteModal} title="Delete your account">
+        <form onSubmit={handleDelete} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Enter your password to confirm. If you signed up with another provider and have no password, set
+            one with "Forgot password" first.
+          </p>
+          <Input
+            label="Password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+          <div className="flex space-x-3 pt-4">
+            <Button type="submit" variant="danger" loading={submitting} disabled={!password} className="flex-1">
+              Delete account
+            </Button>
+            <Button type="button" variant="outline" onClick={closeDeleteModal} className="flex-1">
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Save } from 'lucide-react';
+import { usersAPI, type AvailabilitySlot } from '../../services/api';
+import { useNotifications } from '../../contexts/NotificationContext';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import { DAYS } from './WeeklyAvailability';
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const timezones: string[] = (Intl as any).supportedValuesOf?.('timeZone') ?? [browserTimezone, 'UTC'];
+
+const selectClass = 'block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500';
+
+// Time inputs can't show 24:00, so end of day is edited as 00:00
+const fromServer = (slot: AvailabilitySlot): AvailabilitySlot => ({
+  ...slot,
+  endTime: slot.endTime === '24:00' ? '00:00' : slot.endTime
+});
+
+const toServer = (slot: AvailabilitySlot): AvailabilitySlot => ({
+  ...slot,
+  endTime: slot.endTime === '00:00' ? '24:00' : slot.endTime
+});
+
+export default function AvailabilityEditor() {
+  const { addNotification } = useNotifications();
+  const [timezone, setTimezone] = useState(browserTimezone);
+  const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchAvailability = async () => {
+      try {
+        const response = await usersAPI.getAvailability();
+        // Users who never saved keep the UTC default; suggest their own zone instead
+        if (response.data.slots.length > 0) {
+          setTimezone(response.data.timezone);
+        }
+        setSlots(response.data.slots.map(fromServer));
+      } catch (error) {
+        console.error('Error fetching availability:', error);
+        addNotification({
+          type: 'error',
+          title: 'Error',
+          message: 'Failed to load availability'
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAvailability();
+  }, [addNotification]);
+
+  const updateSlot = (index: number, changes: Partial<AvailabilitySlot>) => {
+    setSlots(prev => prev.map((slot, i) => i === index ? { ...slot, ...changes } : slot));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const response = await usersAPI.updateAvailability({ timezone, slots: slots.map(toServer) });
+      // Overlapping slots come back merged
+      setSlots(response.data.slots.map(fromServer));
+      addNotification({
+        type: 'success',
+        title: 'Success',
+        message: 'Availability updated successfully'
+      });
+    } catch (error: any) {
+      const data = error.response?.data;
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: data?.details?.[0]?.message || data?.error || 'Failed to update availability'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner className="h-32" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Timezone</label>
+        <select value={timezone} onChange={(e) => setTimezone(e.target.value)} className={selectClass}>
+          {!timezones.includes(timezone) && <option value={timezone}>{timezone}</option>}
+          {timezones.map(zone => (
+            <option key={zone} value={zone}>{zone}</option>
+          ))}
+        </select>
+      </div>
+
+      {slots.length === 0 ? (
+        <p className="text-gray-500 italic text-sm">
+          Add the times you are usually free so others can find a time that suits you both.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {slots.map((slot, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <select
+                value={slot.dayOfWeek}
+                onChange={(e) => updateSlot(index, { dayOfWeek: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {DAYS.map((day, dayOfWeek) => (
+                  <option key={day} value={dayOfWeek}>{day}</option>
+                ))}
+              </select>
+              <input
+                type="time"
+                value={slot.startTime}
+                onChange={(e) => updateSlot(index, { startTime: e.target.value })}
+                className={selectClass}
+                required
+              />
+              <span className="text-gray-500">–</span>
+              <input
+                type="time"
+                value={slot.endTime}
+                onChange={(e) => updateSlot(index, { endTime: e.target.value })}
+                className={selectClass}
+                required
+              />
+              <button
+                type="button"
+                onClick={() => setSlots(prev => prev.filter((_, i) => i !== index))}
+                className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex space-x-3">
+        <Button
+          type="button"
+          variant="outline"
+          icon={Plus}
+          onClick={() => setSlots(prev => [...prev, { dayOfWeek: 1, startTime: '18:00', endTime: '20:00' }])}
+        >
+          Add Time Slot
+        </Button>
+        <Button type="button" icon={Save} loading={saving} onClick={handleSave}>
+          Save Availability
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,33 +1,15 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { MapPin, Clock, Star, MessageCircle } from 'lucide-react';
+import type { SearchUserDTO } from '@skill-swap/contracts';
 import SkillTag from './SkillTag';
 import Button from '../ui/Button';
 
-interface User {
-  id: number;
-  name: string;
-  location?: string;
-  profile_photo?: string;
-  availability: string;
-  offered_skills: string[];
-  wanted_skills: string[];
-  avg_rating: number | null;
-  total_ratings: number;
-}
-
 interface ProfileCardProps {
-  user: User;
+  user: SearchUserDTO;
 }
 
 export default function ProfileCard({ user }: ProfileCardProps) {
-  const availabilityLabels: Record<string, string> = {
-    weekdays: 'Weekdays',
-    weekends: 'Weekends',
-    evenings: 'Evenings',
-    flexible: 'Flexible'
-  };
-
   return (
     <div className="bg-white rounded-lg shadow-md hover:shadow-lg transition-shadow duration-300 overflow-hidden">
       {/* Profile Header */}
@@ -59,7 +41,11 @@ export default function ProfileCard({ user }: ProfileCardProps) {
               )}
               <div className="flex items-center space-x-1">
                 <Clock className="w-4 h-4" />
-                <span>{availabilityLabels[user.availability] || user.availability}</span>
+                <span className="truncate">
+                  {user.overlap_minutes !== undefined
+                    ? `${Math.round(user.overlap_minutes / 6) / 10}h/week in common`
+                    : user.timezone}
+                </span>
               </div>
             </div>
           </div>
@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Monitor, Smartphone, LogOut } from 'lucide-react';
+import { authAPI, type AuthSession } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/NotificationContext';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+// "Chrome on Windows" from a user agent string; good enough to tell devices apart
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = [['Edg/', 'Edge'], ['OPR/', 'Opera'], ['Firefox/', 'Firefox'], ['Chrome/', 'Chrome'], ['Safari/', 'Safari']]
+    .find(([token]) => userAgent.includes(token))?.[1];
+  const os = [['Android', 'Android'], ['iPhone', 'iPhone'], ['iPad', 'iPad'], ['Windows', 'Windows'], ['Mac OS', 'macOS'], ['Linux', 'Linux']]
+    .find(([token]) => userAgent.includes(token))?.[1];
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+  return browser || os || userAgent.slice(0, 60);
+}
+
+const isMobile = (userAgent: string | null) => /Android|iPhone|iPad|Mobile/.test(userAgent ?? '');
+
+// Session timestamps are UTC without a zone marker
+const formatTimestamp = (value: string) => new Date(`${value.replace(' ', 'T')}Z`).toLocaleString();
+
+export default function SessionsPanel() {
+  const { logout } = useAuth();
+  const { addNotification } = useNotifications();
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await authAPI.getSessions();
+      setSessions(response.data.sessions);
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const runAction = async (action: () => Promise<unknown>, success: string, fallback: string) => {
+    try {
+      setSubmitting(true);
+      await action();
+      await fetchSessions();
+      addNotification({ type: 'success', title: 'Success', message: success });
+    } catch (error: any) {
+      console.error('Session action failed:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.error || fallback
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  const others = sessions.filter(session => !session.current);
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y divide-gray-200">
+        {sessions.map((session) => {
+          const Icon = isMobile(session.userAgent) ? Smartphone : Monitor;
+          return (
+            <li key={session.id} className="flex items-center justify-between py-3 gap-4">
+              <div className="flex items-center min-w-0">
+                <Icon className="w-5 h-5 text-gray-400 mr-3 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {describeDevice(session.userAgent)}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {session.ipAddress && `${session.ipAddress} · `}
+                    Signed in {formatTimestamp(session.createdAt)} · Last active {formatTimestamp(session.lastUsedAt)}
+                  </p>
+                </div>
+              </div>
+              {session.current ? (
+                <Button size="sm" variant="ghost" icon={LogOut} onClick={logout}>
+                  Sign out
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={submitting}
+                  onClick={() => runAction(() => authAPI.revokeSession(session.id), 'Device signed out', 'Failed to sign out device')}
+                >
+                  Sign out
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {others.length > 0 && (
+        <Button
+          variant="outline"
+          disabled={submitting}
+          onClick={() => runAction(() => authAPI.revokeOtherSessions(), 'Signed out of all other devices', 'Failed to sign out other devices')}
+        >
+          Sign out all other devices
+        </Button>
+      )}
+    </div>
+  );
+}
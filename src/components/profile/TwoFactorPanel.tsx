@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ShieldCheck, ShieldAlert, KeyRound } from 'lucide-react';
+import type { TwoFactorSetup, TwoFactorStatus } from '@skill-swap/contracts';
+import { twoFactorAPI } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/NotificationContext';
+import Input from '../ui/Input';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+export default function TwoFactorPanel() {
+  const { user, updateUser } = useAuth();
+  const { addNotification } = useNotifications();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  // Shown once right after they are generated; the server only keeps hashes
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  // Staff need two-factor authentication for the admin dashboard and can't turn it off
+  const isStaff = Boolean(user?.permissions?.length);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await twoFactorAPI.getStatus();
+      setStatus(response.data);
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const runAction = async (action: () => Promise<void>, fallback: string) => {
+    try {
+      setSubmitting(true);
+      await action();
+      setCode('');
+      await fetchStatus();
+    } catch (error: any) {
+      console.error('Two-factor action failed:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.error || fallback
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSetup = () => runAction(async () => {
+    const response = await twoFactorAPI.setup();
+    setSetup(response.data);
+  }, 'Failed to start two-factor setup');
+
+  const handleEnable = () => runAction(async () => {
+    const response = await twoFactorAPI.enable(code.trim());
+    setSetup(null);
+    setRecoveryCodes(response.data.recoveryCodes);
+    updateUser({ two_factor_enabled: true });
+    addNotification({ type: 'success', title: 'Success', message: 'Two-factor authentication is on' });
+  }, 'Failed to enable two-factor authentication');
+
+  const handleRegenerate = () => runAction(async () => {
+    const response = await twoFactorAPI.regenerateRecoveryCodes(code.trim());
+    setRecoveryCodes(response.data.recoveryCodes);
+  }, 'Failed to generate recovery codes');
+
+  const handleDisable = () => runAction(async () => {
+    await twoFactorAPI.disable(code.trim());
+    updateUser({ two_factor_enabled: false });
+    addNotification({ type: 'success', title: 'Success', message: 'Two-factor authentication is off' });
+  }, 'Failed to disable two-factor authentication');
+
+  if (!status) {
+    return <LoadingSpinner />;
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+          your authenticator app. They won't be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 rounded-md p-4">
+          {recoveryCodes.map(recoveryCode => <li key={recoveryCode}>{recoveryCode}</li>)}
+        </ul>
+        <Button onClick={() => setRecoveryCodes(null)}>I've saved my codes</Button>
+      </div>
+    );
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Scan this QR code with an authenticator app, then enter the 6-digit code it shows.
+        </p>
+        <img src={setup.qrCode} alt="Authenticator QR code" className="w-48 h-48 border border-gray-200 rounded-md" />
+        <p className="text-xs text-gray-500">
+          Can't scan it? Enter this key instead: <span className="font-mono break-all">{setup.secret}</span>
+        </p>
+        <div className="max-w-xs">
+          <Input
+            label="Authentication code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button icon={ShieldCheck} loading={submitting} disabled={!code.trim()} onClick={handleEnable}>
+            Turn on
+          </Button>
+          <Button variant="ghost" onClick={() => { setSetup(null); setCode(''); }}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!status.enabled) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Protect your account with a code from an authenticator app each time you sign in.
+        </p>
+        {isStaff && (
+          <p className="flex items-center text-sm text-yellow-800 bg-yellow-50 rounded-md p-3">
+            <ShieldAlert className="w-4 h-4 mr-2 flex-shrink-0" />
+            Admin tools stay locked until two-factor authentication is on.
+          </p>
+        )}
+        <Button icon={ShieldCheck} loading={submitting} onClick={handleSetup}>
+          Set up authenticator app
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="flex items-center text-sm text-gray-700">
+        <ShieldCheck className="w-4 h-4 mr-2 text-green-600" />
+        Two-factor authentication is on · {status.recoveryCodesRemaining} recovery codes left
+      </p>
+      <div className="max-w-xs">
+        <Input
+          label="Code from your app or a recovery code"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="123456"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" icon={KeyRound} disabled={submitting || !code.trim()} onClick={handleRegenerate}>
+          New recovery codes
+        </Button>
+        {!isStaff && (
+          <Button variant="ghost" disabled={submitting || !code.trim()} onClick={handleDisable}>
+            Turn off
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import type { AvailabilitySlot } from '../../services/api';
+
+export const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Monday first, the way most people read a week
+const DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface WeeklyAvailabilityProps {
+  timezone: string;
+  slots: AvailabilitySlot[];
+}
+
+export default function WeeklyAvailability({ timezone, slots }: WeeklyAvailabilityProps) {
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const days = DISPLAY_ORDER
+    .map(day => ({ day, slots: slots.filter(slot => slot.dayOfWeek === day) }))
+    .filter(entry => entry.slots.length > 0);
+
+  if (days.length === 0) {
+    return <p className="text-gray-500 italic">No availability shared yet</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {days.map(({ day, slots: daySlots }) => (
+          <div key={day} className="flex items-start justify-between bg-gray-50 rounded-md px-3 py-2 text-sm">
+            <span className="font-medium text-gray-900">{DAYS[day]}</span>
+            <span className="text-gray-600 text-right">
+              {daySlots.map(slot => `${slot.startTime}–${slot.endTime}`).join(', ')}
+            </span>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 flex items-center">
+        <Clock className="w-3.5 h-3.5 mr-1" />
+        Times in {timezone}
+        {timezone !== browserTimezone && ` (you are in ${browserTimezone})`}
+      </p>
+    </div>
+  );
+}
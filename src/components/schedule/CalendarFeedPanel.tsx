@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { Copy, RefreshCw } from 'lucide-react';
+import { calendarAPI } from '../../services/api';
+import { useNotifications } from '../../contexts/NotificationContext';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+export default function CalendarFeedPanel() {
+  const { addNotification } = useNotifications();
+  const [url, setUrl] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [rotating, setRotating] = useState(false);
+
+  useEffect(() => {
+    const fetchFeed = async () => {
+      try {
+        const response = await calendarAPI.getFeed();
+        setUrl(response.data.url);
+      } catch (error) {
+        console.error('Error fetching calendar feed:', error);
+        addNotification({
+          type: 'error',
+          title: 'Error',
+          message: 'Failed to load your calendar feed'
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFeed();
+  }, [addNotification]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      addNotification({ type: 'success', title: 'Copied', message: 'Calendar feed URL copied' });
+    } catch (error) {
+      console.error('Error copying feed URL:', error);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!confirm('Calendars subscribed to the current link will stop updating. Generate a new link?')) return;
+
+    try {
+      setRotating(true);
+      const response = await calendarAPI.rotateFeed();
+      setUrl(response.data.url);
+      addNotification({ type: 'success', title: 'Success', message: 'New calendar link generated' });
+    } catch (error) {
+      console.error('Error rotating calendar feed:', error);
+      addNotification({ type: 'error', title: 'Error', message: 'Failed to generate a new link' });
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner className="h-32" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Subscribe to this link in Google Calendar, Outlook or Apple Calendar to see your confirmed
+        sessions. Cancelled sessions are removed automatically.
+      </p>
+      <div className="flex gap-2">
+        <input
+          readOnly
+          value={url}
+          onFocus={(e) => e.target.select()}
+          className="flex-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm bg-gray-50"
+        />
+        <Button variant="outline" icon={Copy} onClick={handleCopy}>
+          Copy
+        </Button>
+      </div>
+      <div className="border-t border-gray-200 pt-4">
+        <p className="text-xs text-gray-500 mb-2">
+          Anyone with this link can see your sessions. If it has been shared by mistake, replace it.
+        </p>
+        <Button variant="danger" size="sm" icon={RefreshCw} loading={rotating} onClick={handleRotate}>
+          Generate new link
+        </Button>
+      </div>
+    </div>
+  );
+}
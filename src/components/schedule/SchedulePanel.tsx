@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { SwapSession } from '@skill-swap/contracts';
+import { CalendarPlus, Check, X, MapPin, RotateCcw, Download } from 'lucide-react';
+import { swapsAPI, calendarAPI } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/NotificationContext';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+interface SchedulePanelProps {
+  swapId: number;
+  partnerName: string;
+  onChange?: () => void;
+}
+
+const DURATIONS = [30, 60, 90, 120];
+
+const emptyForm = { startTime: '', durationMinutes: 60, location: '' };
+
+export function formatSessionRange(session: Pick<SwapSession, 'startTime' | 'endTime'>) {
+  const start = new Date(session.startTime);
+  const end = new Date(session.endTime);
+  const day = start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (date: Date) => date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  return `${day}, ${time(start)} – ${time(end)}`;
+}
+
+// Value for a datetime-local input, in the browser's timezone
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const getStatusColor = (status: SwapSession['status']) => {
+  switch (status) {
+    case 'confirmed':
+      return 'bg-green-100 text-green-800';
+    case 'proposed':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-gray-100 text-gray-600';
+  }
+};
+
+export default function SchedulePanel({ swapId, partnerName, onChange }: SchedulePanelProps) {
+  const { user } = useAuth();
+  const { addNotification, subscribeToSwapEvents } = useNotifications();
+  const [sessions, setSessions] = useState<SwapSession[]>([]);
+  const [canSchedule, setCanSchedule] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  // Proposal being answered with a different time, if any
+  const [counterTo, setCounterTo] = useState<SwapSession | null>(null);
+
+  const fetchSchedule = useCallback(async () => {
+    try {
+      const response = await swapsAPI.getSchedule(swapId);
+      setSessions(response.data.sessions);
+      setCanSchedule(response.data.canSchedule);
+    } catch (error) {
+      console.error('Error fetching schedule:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load sessions'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [swapId, addNotification]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  // Pick up the partner's proposals and answers as they happen
+  useEffect(() => {
+    return subscribeToSwapEvents((event) => {
+      if (event.swapId === swapId && event.type.startsWith('session.')) {
+        fetchSchedule();
+      }
+    });
+  }, [subscribeToSwapEvents, swapId, fetchSchedule]);
+
+  const showError = (error: any, fallback: string) => {
+    const data = error.response?.data;
+    const conflicts = data?.conflicts as { startTime: string; endTime: string }[] | undefined;
+    addNotification({
+      type: 'error',
+      title: 'Error',
+      message: conflicts?.length
+        ? `${data.error}: ${conflicts.map(formatSessionRange).join(', ')}`
+        : data?.details?.[0]?.message || data?.error || fallback
+    });
+  };
+
+  const runAction = async (action: () => Promise<unknown>, success: string, fallback: string) => {
+    try {
+      setSubmitting(true);
+      await action();
+      await fetchSchedule();
+      onChange?.();
+      addNotification({ type: 'success', title: 'Success', message: success });
+      return true;
+    } catch (error: any) {
+      console.error('Schedule action failed:', error);
+      showError(error, fallback);
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.startTime) return;
+
+    const proposal = {
+      startTime: new Date(form.startTime).toISOString(),
+      durationMinutes: form.durationMinutes,
+      location: form.location.trim() || undefined
+    };
+
+    const done = await runAction(
+      () => counterTo
+        ? swapsAPI.counterSession(swapId, counterTo.id, proposal)
+        : swapsAPI.proposeSession(swapId, proposal),
+      counterTo ? 'New time suggested' : 'Session proposed',
+      'Failed to propose session'
+    );
+    if (done) {
+      setForm(emptyForm);
+      setCounterTo(null);
+    }
+  };
+
+  // Save the swap's confirmed sessions as an .ics file
+  const handleDownload = async () => {
+    try {
+      const response = await calendarAPI.downloadSwap(swapId);
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `swap-${swapId}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading calendar:', error);
+      addNotification({ type: 'error', title: 'Error', message: 'Failed to download calendar file' });
+    }
+  };
+
+  const startCounter = (session: SwapSession) => {
+    setCounterTo(session);
+    setForm({
+      startTime: toLocalInput(session.startTime),
+      durationMinutes: Math.round((new Date(session.endTime).getTime() - new Date(session.startTime).getTime()) / 60000),
+      location: session.location || ''
+    });
+  };
+
+  if (loading) {
+    return <LoadingSpinner className="h-48" />;
+  }
+
+  // Answered and withdrawn proposals are history, not worth listing
+  const visibleSessions = sessions.filter(s => s.status === 'proposed' || s.status === 'confirmed');
+
+  return (
+    <div className="space-y-6">
+      {sessions.some(s => s.confirmedAt) && (
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" icon={Download} onClick={handleDownload}>
+            Add to calendar
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {visibleSessions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No sessions yet. Propose a time that works for you and {partnerName}.
+          </p>
+        ) : (
+          visibleSessions.map((session) => {
+            const isOwnProposal = session.proposedBy === user?.id;
+            return (
+              <div key={session.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-3 border border-gray-200 rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">{formatSessionRange(session)}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(session.status)}`}>
+                      {session.status === 'proposed' ? (isOwnProposal ? 'Awaiting reply' : 'Needs your reply') : 'Confirmed'}
+                    </span>
+                  </div>
+                  {session.location && (
+                    <p className="text-xs text-gray-600 flex items-center">
+                      <MapPin className="w-3.5 h-3.5 mr-1" />
+                      {session.location}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-400">Proposed by {isOwnProposal ? 'you' : session.proposedByName}</p>
+                </div>
+
+                {canSchedule && (
+                  <div className="flex flex-wrap gap-2">
+                    {session.status === 'proposed' && !isOwnProposal && (
+                      <>
+                        <Button
+                          size="sm"
+                          icon={Check}
+                          disabled={submitting}
+                          onClick={() => runAction(() => swapsAPI.confirmSession(swapId, session.id), 'Session confirmed', 'Failed to confirm session')}
+                        >
+                          Confirm
+                        </Button>
+                        <Button size="sm" variant="outline" icon={RotateCcw} disabled={submitting} onClick={() => startCounter(session)}>
+                          Suggest another time
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={submitting}
+                          onClick={() => runAction(() => swapsAPI.declineSession(swapId, session.id), 'Proposal declined', 'Failed to decline proposal')}
+                        >
+                          Decline
+                        </Button>
+                      </>
+                    )}
+                    {(session.status === 'confirmed' || isOwnProposal) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        icon={X}
+                        disabled={submitting}
+                        onClick={() => runAction(
+                          () => swapsAPI.cancelSession(swapId, session.id),
+                          session.status === 'confirmed' ? 'Session cancelled' : 'Proposal withdrawn',
+                          'Failed to cancel session'
+                        )}
+                      >
+                        {session.status === 'confirmed' ? 'Cancel' : 'Withdraw'}
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {canSchedule ? (
+        <form onSubmit={handleSubmit} className="space-y-4 border-t border-gray-200 pt-4">
+          <h4 className="text-sm font-medium text-gray-900">
+            {counterTo ? `Suggest another time instead of ${formatSessionRange(counterTo)}` : 'Propose a session'}
+          </h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Input
+              label="Start time"
+              type="datetime-local"
+              value={form.startTime}
+              min={toLocalInput(new Date().toISOString())}
+              onChange={(e) => setForm(prev => ({ ...prev, startTime: e.target.value }))}
+              required
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Duration</label>
+              <select
+                value={form.durationMinutes}
+                onChange={(e) => setForm(prev => ({ ...prev, durationMinutes: Number(e.target.value) }))}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+              >
+                {DURATIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} minutes</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <Input
+            label="Location (optional)"
+            placeholder="Video call link or meeting place"
+            value={form.location}
+            onChange={(e) => setForm(prev => ({ ...prev, location: e.target.value }))}
+            maxLength={200}
+          />
+          <div className="flex gap-2">
+            <Button type="submit" icon={CalendarPlus} loading={submitting}>
+              {counterTo ? 'Send new time' : 'Propose'}
+            </Button>
+            {counterTo && (
+              <Button type="button" variant="outline" onClick={() => { setCounterTo(null); setForm(emptyForm); }}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      ) : (
+        <p className="text-xs text-gray-500 text-center border-t border-gray-200 pt-3">
+          Sessions can only be scheduled while the swap is accepted.
+        </p>
+      )}
+    </div>
+  );
+}
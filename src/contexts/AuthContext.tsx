@@ -1,33 +1,35 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { api } from '../services/api';
-
-interface User {
-  id: number;
-  email: string;
-  name: string;
-  location?: string;
-  profile_photo?: string;
-  availability: string;
-  is_public: boolean;
-  is_admin: boolean;
-}
+import type { AccountDTO, LoginResponse, RegistrationInput, SessionResponse } from '@skill-swap/contracts';
+import { authAPI, usersAPI, storeTokens, clearTokens } from '../services/api';
+
+type User = AccountDTO;
+
+// Accounts with two-factor authentication finish signing in with a code
+export type LoginResult =
+  | { status: 'ok' }
+  | { status: 'two_factor'; challengeToken: string };
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
-  register: (userData: RegisterData) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  loginWithOidc: (code: string) => Promise<LoginResult>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<void>;
+  register: (userData: RegistrationInput) => Promise<void>;
   logout: () => void;
   updateUser: (userData: Partial<User>) => void;
+  hasPermission: (permission: string) => boolean;
 }
 
-interface RegisterData {
-  email: string;
-  password: string;
-  name: string;
-  location?: string;
-  availability: string;
-  is_public: boolean;
+// Rate limits and lockouts say how long to wait in Retry-After; validation
+// failures name the first problem
+function authErrorMessage(error: any, fallback: string): string {
+  const retryAfter = Number(error.response?.headers?.['retry-after']);
+  if (error.response?.status === 429 && retryAfter > 0) {
+    const minutes = Math.ceil(retryAfter / 60);
+    return `Too many attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+  }
+  return error.response?.data?.details?.[0]?.message || error.response?.data?.error || fallback;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -47,7 +49,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     const token = localStorage.getItem('token');
     if (token) {
-      api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
       fetchUserProfile();
     } else {
       setLoading(false);
@@ -56,46 +57,75 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const fetchUserProfile = async () => {
     try {
-      const response = await api.get('/users/profile');
+      const response = await usersAPI.getProfile();
       setUser(response.data);
     } catch (error) {
       console.error('Failed to fetch user profile:', error);
-      localStorage.removeItem('token');
-      delete api.defaults.headers.common['Authorization'];
+      clearTokens();
     } finally {
       setLoading(false);
     }
   };
 
-  const login = async (email: string, password: string) => {
+  const startSession = ({ token, refreshToken, user: userData }: SessionResponse) => {
+    storeTokens({ token, refreshToken });
+    setUser(userData);
+  };
+
+  const finishLogin = (response: LoginResponse): LoginResult => {
+    if ('twoFactorRequired' in response) {
+      return { status: 'two_factor', challengeToken: response.challengeToken };
+    }
+
+    startSession(response);
+    return { status: 'ok' };
+  };
+
+  const login = async (email: string, password: string): Promise<LoginResult> => {
+    try {
+      const response = await authAPI.login(email, password);
+      return finishLogin(response.data);
+    } catch (error: any) {
+      throw new Error(authErrorMessage(error, 'Login failed'));
+    }
+  };
+
+  const loginWithOidc = async (code: string): Promise<LoginResult> => {
     try {
-      const response = await api.post('/auth/login', { email, password });
-      const { token, user: userData } = response.data;
-      
-      localStorage.setItem('token', token);
-      api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
-      setUser(userData);
+      const response = await authAPI.loginOidc(code);
+      return finishLogin(response.data);
     } catch (error: any) {
-      throw new Error(error.response?.data?.error || 'Login failed');
+      throw new Error(authErrorMessage(error, 'Login failed'));
     }
   };
 
-  const register = async (userData: RegisterData) => {
+  const completeTwoFactorLogin = async (challengeToken: string, code: string) => {
     try {
-      const response = await api.post('/auth/register', userData);
-      const { token, user: newUser } = response.data;
-      
-      localStorage.setItem('token', token);
-      api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
-      setUser(newUser);
+      const response = await authAPI.loginTwoFactor(challengeToken, code);
+      startSession(response.data);
     } catch (error: any) {
-      throw new Error(error.response?.data?.error || 'Registration failed');
+      throw new Error(authErrorMessage(error, 'Verification failed'));
+    }
+  };
+
+  const register = async (userData: RegistrationInput) => {
+    try {
+      const response = await authAPI.register(userData);
+      startSession(response.data);
+    } catch (error: any) {
+      throw new Error(authErrorMessage(error, 'Registration failed'));
     }
   };
 
   const logout = () => {
-    localStorage.removeItem('token');
-    delete api.defaults.headers.common['Authorization'];
+    // Revoke the session server-side; signing out locally doesn't wait for it
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      authAPI.logout(refreshToken).catch((error) => {
+        console.error('Failed to end session:', error);
+      });
+    }
+    clearTokens();
     setUser(null);
   };
 
@@ -103,13 +133,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setUser(prev => prev ? { ...prev, ...userData } : null);
   };
 
+  const hasPermission = (permission: string) => Boolean(user?.permissions?.includes(permission));
+
   const value = {
     user,
     loading,
     login,
+    loginWithOidc,
+    completeTwoFactorLogin,
     register,
     logout,
-    updateUser
+    updateUser,
+    hasPermission
   };
 
   return (
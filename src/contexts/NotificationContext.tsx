@@ -1,5 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import type { ChatMessage, CircleSwap, SwapDetails, SwapSession, SwapStatus } from '@skill-swap/contracts';
 import { useAuth } from './AuthContext';
+import { notificationsAPI, refreshAccessToken } from '../services/api';
 
 interface Notification {
   id: string;
@@ -19,6 +21,76 @@ interface AdminMessage {
   admin_name: string;
 }
 
+export interface SwapEvent {
+  type:
+    | 'swap.created'
+    | 'swap.status_changed'
+    | 'swap.deleted'
+    | 'swap.auto_cancelled'
+    | 'rating.received'
+    | 'session.proposed'
+    | 'session.countered'
+    | 'session.confirmed'
+    | 'session.declined'
+    | 'session.cancelled';
+  swapId: number;
+  actorId: number;
+  swap: SwapDetails;
+  status?: SwapStatus;
+  previousStatus?: SwapStatus;
+  rating?: {
+    rating: number;
+    feedback?: string | null;
+  };
+  session?: SwapSession;
+  title: string;
+  message: string;
+  timestamp: string;
+  notificationId?: number;
+}
+
+// Stored notification as returned by GET /api/notifications
+export interface InboxNotification {
+  id: number;
+  type: string;
+  title: string;
+  message: string;
+  data: Record<string, any> | null;
+  read: boolean;
+  readAt: string | null;
+  createdAt: string;
+}
+
+type SwapEventListener = (event: SwapEvent) => void;
+
+// Live conversation events; these aren't stored in the inbox
+export type ChatEvent =
+  | { type: 'message.created'; swapId: number; message: ChatMessage }
+  | { type: 'message.typing'; swapId: number; userId: number; isTyping: boolean }
+  | { type: 'message.read'; swapId: number; readerId: number; readAt: string };
+
+type ChatEventListener = (event: ChatEvent) => void;
+
+export interface CircleEvent {
+  type:
+    | 'circle.proposed'
+    | 'circle.accepted'
+    | 'circle.declined'
+    | 'circle.activated'
+    | 'circle.part_completed'
+    | 'circle.completed'
+    | 'circle.cancelled';
+  circleId: number;
+  actorId: number;
+  circle: CircleSwap;
+  title: string;
+  message: string;
+  timestamp: string;
+  notificationId?: number;
+}
+
+type CircleEventListener = (event: CircleEvent) => void;
+
 interface NotificationContextType {
   notifications: Notification[];
   adminMessages: AdminMessage[];
@@ -26,6 +98,106 @@ interface NotificationContextType {
   addNotification: (notification: Omit<Notification, 'id' | 'timestamp'>) => void;
   removeNotification: (id: string) => void;
   clearNotifications: () => void;
+  subscribeToSwapEvents: (listener: SwapEventListener) => () => void;
+  subscribeToChatEvents: (listener: ChatEventListener) => () => void;
+  subscribeToCircleEvents: (listener: CircleEventListener) => () => void;
+  sendTyping: (swapId: number, isTyping: boolean) => void;
+  inbox: InboxNotification[];
+  unreadCount: number;
+  inboxLoading: boolean;
+  inboxHasMore: boolean;
+  loadInbox: (page?: number) => Promise<void>;
+  markAsRead: (id: number) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+  deleteInboxNotification: (id: number) => Promise<void>;
+}
+
+const INBOX_PAGE_SIZE = 20;
+
+const SWAP_EVENT_TYPES: SwapEvent['type'][] = [
+  'swap.created',
+  'swap.status_changed',
+  'swap.deleted',
+  'swap.auto_cancelled',
+  'rating.received',
+  'session.proposed',
+  'session.countered',
+  'session.confirmed',
+  'session.declined',
+  'session.cancelled'
+];
+
+function isSwapEvent(data: any): data is SwapEvent {
+  return data && SWAP_EVENT_TYPES.includes(data.type);
+}
+
+const CHAT_EVENT_TYPES: ChatEvent['type'][] = ['message.created', 'message.typing', 'message.read'];
+
+function isChatEvent(data: any): data is ChatEvent {
+  return data && CHAT_EVENT_TYPES.includes(data.type);
+}
+
+const CIRCLE_EVENT_TYPES: CircleEvent['type'][] = [
+  'circle.proposed',
+  'circle.accepted',
+  'circle.declined',
+  'circle.activated',
+  'circle.part_completed',
+  'circle.completed',
+  'circle.cancelled'
+];
+
+function isCircleEvent(data: any): data is CircleEvent {
+  return data && CIRCLE_EVENT_TYPES.includes(data.type);
+}
+
+function circleEventTone(event: CircleEvent): Notification['type'] {
+  switch (event.type) {
+    case 'circle.declined':
+    case 'circle.cancelled':
+      return 'warning';
+    case 'circle.activated':
+    case 'circle.completed':
+      return 'success';
+    default:
+      return 'info';
+  }
+}
+
+// Toast style for a swap event; the title and message come from the server
+function swapEventTone(event: SwapEvent): Notification['type'] {
+  switch (event.type) {
+    case 'swap.created':
+      return 'info';
+    case 'swap.status_changed':
+      return event.status === 'rejected' || event.status === 'cancelled' ? 'warning' : 'success';
+    case 'swap.deleted':
+    case 'swap.auto_cancelled':
+    case 'session.declined':
+    case 'session.cancelled':
+      return 'warning';
+    case 'rating.received':
+    case 'session.confirmed':
+      return 'success';
+    case 'session.proposed':
+    case 'session.countered':
+      return 'info';
+  }
+}
+
+// Rebuild the stored row from a pushed payload so the inbox doesn't need a refetch
+function toInboxNotification(data: any): InboxNotification {
+  const { notificationId, createdAt, type, title, message, ...rest } = data;
+  return {
+    id: notificationId,
+    type,
+    title,
+    message,
+    data: rest,
+    read: false,
+    readAt: null,
+    createdAt
+  };
 }
 
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
@@ -47,6 +219,14 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
   const reconnectAttempts = useRef(0);
   const maxReconnectAttempts = 5;
   const reconnectTimeout = useRef<number | null>(null);
+  const swapEventListeners = useRef(new Set<SwapEventListener>());
+  const chatEventListeners = useRef(new Set<ChatEventListener>());
+  const circleEventListeners = useRef(new Set<CircleEventListener>());
+  const [inbox, setInbox] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [inboxLoading, setInboxLoading] = useState(false);
+  const [inboxPage, setInboxPage] = useState(0);
+  const [inboxTotalPages, setInboxTotalPages] = useState(0);
 
   const addNotification = useCallback((notification: Omit<Notification, 'id' | 'timestamp'>) => {
     const newNotification: Notification = {
@@ -65,6 +245,86 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
     setNotifications([]);
   }, []);
 
+  const subscribeToSwapEvents = useCallback((listener: SwapEventListener) => {
+    swapEventListeners.current.add(listener);
+    return () => {
+      swapEventListeners.current.delete(listener);
+    };
+  }, []);
+
+  const subscribeToChatEvents = useCallback((listener: ChatEventListener) => {
+    chatEventListeners.current.add(listener);
+    return () => {
+      chatEventListeners.current.delete(listener);
+    };
+  }, []);
+
+  const subscribeToCircleEvents = useCallback((listener: CircleEventListener) => {
+    circleEventListeners.current.add(listener);
+    return () => {
+      circleEventListeners.current.delete(listener);
+    };
+  }, []);
+
+  const sendTyping = useCallback((swapId: number, isTyping: boolean) => {
+    if (ws.current?.readyState === WebSocket.OPEN) {
+      ws.current.send(JSON.stringify({ type: 'typing', swapId, isTyping }));
+    }
+  }, []);
+
+  // Load a page of the stored inbox; page 1 replaces what's loaded
+  const loadInbox = useCallback(async (page = 1) => {
+    setInboxLoading(true);
+    try {
+      const response = await notificationsAPI.getNotifications({ page, limit: INBOX_PAGE_SIZE });
+      const { notifications: items, unreadCount: unread, pagination } = response.data;
+      setInbox(prev => {
+        if (page === 1) return items;
+        const loaded = new Set(prev.map(n => n.id));
+        return [...prev, ...items.filter((n: InboxNotification) => !loaded.has(n.id))];
+      });
+      setUnreadCount(unread);
+      setInboxPage(pagination.page);
+      setInboxTotalPages(pagination.totalPages);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setInboxLoading(false);
+    }
+  }, []);
+
+  const markAsRead = useCallback(async (id: number) => {
+    try {
+      const response = await notificationsAPI.markAsRead(id);
+      const { notification, unreadCount: unread } = response.data;
+      setInbox(prev => prev.map(n => (n.id === id ? notification : n)));
+      setUnreadCount(unread);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  }, []);
+
+  const markAllAsRead = useCallback(async () => {
+    try {
+      await notificationsAPI.markAllAsRead();
+      const readAt = new Date().toISOString();
+      setInbox(prev => prev.map(n => (n.read ? n : { ...n, read: true, readAt })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  }, []);
+
+  const deleteInboxNotification = useCallback(async (id: number) => {
+    try {
+      const response = await notificationsAPI.deleteNotification(id);
+      setInbox(prev => prev.filter(n => n.id !== id));
+      setUnreadCount(response.data.unreadCount);
+    } catch (error) {
+      console.error('Error deleting notification:', error);
+    }
+  }, []);
+
   const fetchAdminMessages = useCallback(async () => {
     const token = localStorage.getItem('token');
     if (!token) return;
@@ -114,11 +374,13 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       reconnectTimeout.current = null;
     }
 
+    // The server verifies the JWT during the handshake; send it as a
+    // subprotocol so it doesn't end up in URLs and access logs
     const token = localStorage.getItem('token');
-    const wsUrl = `ws://localhost:3001/ws?userId=${user.id}${token ? `&token=${token}` : ''}`;
+    if (!token) return;
     
     try {
-      ws.current = new WebSocket(wsUrl);
+      ws.current = new WebSocket('ws://localhost:3001/ws', ['bearer', token]);
       
       // Connection opened
       ws.current.onopen = () => {
@@ -131,6 +393,12 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       ws.current.onmessage = (event) => {
         try {
           const data = JSON.parse(event.data);
+
+          // Pushed copy of something that was just saved to the inbox
+          if (data.notificationId) {
+            setInbox(prev => [toInboxNotification(data), ...prev.filter(n => n.id !== data.notificationId)]);
+            setUnreadCount(prev => prev + 1);
+          }
           
           if (data.type === 'notification') {
             addNotification({
@@ -139,6 +407,14 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
               message: data.message,
               details: data.details
             });
+          } else if (isSwapEvent(data)) {
+            addNotification({ type: swapEventTone(data), title: data.title, message: data.message });
+            swapEventListeners.current.forEach(listener => listener(data));
+          } else if (isChatEvent(data)) {
+            chatEventListeners.current.forEach(listener => listener(data));
+          } else if (isCircleEvent(data)) {
+            addNotification({ type: circleEventTone(data), title: data.title, message: data.message });
+            circleEventListeners.current.forEach(listener => listener(data));
           }
         } catch (error) {
           console.error('Error processing WebSocket message:', error);
@@ -156,8 +432,18 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         console.log(`WebSocket closed with code ${event.code}: ${event.reason}`);
         setWsConnected(false);
         
-        // Don't attempt to reconnect if it was a normal closure or unauthorized
-        if (event.code === 1000 || event.code === 4000) {
+        // The access token the socket was opened with expired; renew it and
+        // reconnect. If the session can't be renewed the API client signs out.
+        if (event.code === 4001) {
+          refreshAccessToken()
+            .then(() => setupWebSocket())
+            .catch((error) => console.error('Failed to renew token for WebSocket:', error));
+          return;
+        }
+
+        // Don't attempt to reconnect if it was a normal closure, unauthorized,
+        // the session was revoked or the account was banned
+        if (event.code === 1000 || event.code === 4000 || event.code === 4002 || event.code === 4003) {
           console.log('WebSocket closed normally, not reconnecting');
           return;
         }
@@ -196,6 +482,7 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
     if (user?.id && token) {
       setupWebSocket();
       fetchAdminMessages();
+      loadInbox();
       
       // Set up interval to check connection and reconnect if needed
       const connectionCheckInterval = setInterval(() => {
@@ -228,7 +515,17 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         window.clearTimeout(reconnectTimeout.current);
       }
     };
-  }, [user?.id, setupWebSocket, fetchAdminMessages]);
+  }, [user?.id, setupWebSocket, fetchAdminMessages, loadInbox]);
+
+  // Drop the previous user's inbox on logout
+  useEffect(() => {
+    if (!user?.id) {
+      setInbox([]);
+      setUnreadCount(0);
+      setInboxPage(0);
+      setInboxTotalPages(0);
+    }
+  }, [user?.id]);
 
   const value = {
     notifications,
@@ -236,7 +533,19 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
     wsConnected,
     addNotification,
     removeNotification,
-    clearNotifications
+    clearNotifications,
+    subscribeToSwapEvents,
+    subscribeToChatEvents,
+    subscribeToCircleEvents,
+    sendTyping,
+    inbox,
+    unreadCount,
+    inboxLoading,
+    inboxHasMore: inboxPage < inboxTotalPages,
+    loadInbox,
+    markAsRead,
+    markAllAsRead,
+    deleteInboxNotification
   };
 
   return (
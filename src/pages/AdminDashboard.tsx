@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import type { AdminSwapDTO, AdminUserDTO, PendingDeletionDTO, RoleName } from '@skill-swap/contracts';
 import { adminAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
 import { useNotifications } from '../contexts/NotificationContext';
 import { 
   Users, 
@@ -9,59 +12,116 @@ import {
   BarChart3, 
   MessageSquare,
   Search,
-  Download
+  Download,
+  ShieldAlert,
+  Flag,
+  XCircle,
+  History,
+  UserX
 } from 'lucide-react';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Modal from '../components/ui/Modal';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
 
-interface AdminUser {
+// Shape of GET /api/admin/reports
+interface AdminReport {
   id: number;
-  email: string;
-  name: string;
-  location?: string;
-  is_public: boolean;
-  is_banned: boolean;
-  created_at: string;
-  skills_count: number;
-  swap_requests_count: number;
-  avg_rating: number | null;
+  reporterId: number;
+  reportedUserId: number;
+  reason: string;
+  details: string | null;
+  status: 'open' | 'resolved' | 'dismissed';
+  resolution: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+  reporterName: string;
+  reportedUserName: string;
+  reportedUserEmail: string;
+  reportedUserBanned: boolean;
+  resolvedByName: string | null;
 }
 
-interface AdminSwap {
+// Shape of GET /api/admin/audit
+interface AuditEntry {
   id: number;
-  requester_name: string;
-  requester_email: string;
-  provider_name: string;
-  provider_email: string;
-  offered_skill_name: string;
-  wanted_skill_name: string;
-  status: string;
-  created_at: string;
+  actorId: number | null;
+  actorName: string | null;
+  actorEmail: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  metadata: Record<string, unknown> | null;
+  changes: Record<string, { before: unknown; after: unknown }> | null;
+  ipAddress: string | null;
+  createdAt: string;
 }
 
+type AdminTab = 'users' | 'swaps' | 'stats' | 'messages' | 'reports' | 'deletions' | 'audit';
+
+// Each tab is shown only to staff whose role grants its permission
+const TABS = [
+  { id: 'stats', label: 'Statistics', icon: BarChart3, permission: 'stats.view' },
+  { id: 'users', label: 'Users', icon: Users, permission: 'users.view' },
+  { id: 'reports', label: 'Reports', icon: Flag, permission: 'reports.view' },
+  { id: 'deletions', label: 'Deletions', icon: UserX, permission: 'users.view' },
+  { id: 'swaps', label: 'Swaps', icon: RefreshCw, permission: 'swaps.view_all' },
+  { id: 'messages', label: 'Messages', icon: MessageSquare, permission: 'messages.view_all' },
+  { id: 'audit', label: 'Audit', icon: History, permission: 'audit.view' },
+] as const;
+
+const AUDIT_ACTION_FILTERS = [
+  { value: '', label: 'All actions' },
+  { value: 'user.*', label: 'User changes' },
+  { value: 'report.*', label: 'Reports' },
+  { value: 'message.broadcast', label: 'Announcements' },
+  { value: 'auth.*', label: 'Sign-in security' },
+];
+
+const formatAuditValue = (value: unknown) => value === null || value === undefined ? '—' : String(value);
+
+const ROLE_OPTIONS: RoleName[] = ['user', 'moderator', 'admin', 'superadmin'];
+
+const REPORT_REASON_LABELS: Record<string, string> = {
+  spam: 'Spam',
+  harassment: 'Harassment',
+  inappropriate: 'Inappropriate content',
+  no_show: 'No-show',
+  other: 'Other'
+};
+
+// Shape of GET /api/admin/stats
 interface PlatformStats {
-  total_users: { count: number };
-  active_users: { count: number };
-  total_skills: { count: number };
-  total_swaps: { count: number };
-  pending_swaps: { count: number };
-  completed_swaps: { count: number };
-  total_ratings: { count: number };
-  avg_platform_rating: { avg: number | null };
+  totalUsers: number;
+  activeUsers: number;
+  totalSkills: number;
+  totalSwaps: number;
+  pendingSwaps: number;
+  completedSwaps: number;
+  proposedCircleSwaps: number;
+  activeCircleSwaps: number;
+  completedCircleSwaps: number;
 }
 
 export default function AdminDashboard() {
-  const [activeTab, setActiveTab] = useState<'users' | 'swaps' | 'stats' | 'messages'>('stats');
-  const [users, setUsers] = useState<AdminUser[]>([]);
-  const [swaps, setSwaps] = useState<AdminSwap[]>([]);
+  const { user: currentUser, hasPermission } = useAuth();
+  const tabs = TABS.filter(tab => hasPermission(tab.permission));
+  const [activeTab, setActiveTab] = useState<AdminTab>(tabs[0]?.id ?? 'stats');
+  const [users, setUsers] = useState<AdminUserDTO[]>([]);
+  const [reports, setReports] = useState<AdminReport[]>([]);
+  const [pendingDeletions, setPendingDeletions] = useState<PendingDeletionDTO[]>([]);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditFilters, setAuditFilters] = useState({ action: '', targetId: '' });
+  const [swaps, setSwaps] = useState<AdminSwapDTO[]>([]);
   const [stats, setStats] = useState<PlatformStats | null>(null);
   const [loading, setLoading] = useState(true);
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [isMessageModalOpen, setIsMessageModalOpen] = useState(false);
+  const [banTarget, setBanTarget] = useState<Pick<AdminUserDTO, 'id' | 'name'> | null>(null);
+  const [banForm, setBanForm] = useState({ reason: '', until: '' });
   const [messageForm, setMessageForm] = useState({
     title: '',
     content: '',
@@ -71,10 +131,11 @@ export default function AdminDashboard() {
 
   useEffect(() => {
     fetchData();
-  }, [activeTab, currentPage, searchTerm]);
+  }, [activeTab, currentPage, searchTerm, auditFilters]);
 
   const fetchData = async () => {
     setLoading(true);
+    setTwoFactorRequired(false);
     try {
       switch (activeTab) {
         case 'users':
@@ -86,12 +147,27 @@ export default function AdminDashboard() {
         case 'stats':
           await fetchStats();
           break;
+        case 'reports':
+          await fetchReports();
+          break;
+        case 'deletions':
+          await fetchPendingDeletions();
+          break;
+        case 'audit':
+          await fetchAuditLog();
+          break;
+      }
+    } catch (error: any) {
+      if (error.response?.data?.code === 'TWO_FACTOR_REQUIRED') {
+        setTwoFactorRequired(true);
+        return;
       }
-    } catch (error) {
       addNotification({
         type: 'error',
         title: 'Error',
-        message: 'Failed to fetch data'
+        message: error.response?.data?.code === 'PERMISSION_DENIED'
+          ? 'Your role does not allow this'
+          : 'Failed to fetch data'
       });
     } finally {
       setLoading(false);
@@ -122,22 +198,120 @@ export default function AdminDashboard() {
     setStats(response.data);
   };
 
-  const handleBanUser = async (userId: number, isBanned: boolean) => {
+  const fetchReports = async () => {
+    const response = await adminAPI.getReports({
+      page: currentPage,
+      limit: 20
+    });
+    setReports(response.data.reports);
+    setTotalPages(response.data.pagination.totalPages);
+  };
+
+  const fetchPendingDeletions = async () => {
+    const response = await adminAPI.getPendingDeletions({
+      page: currentPage,
+      limit: 20
+    });
+    setPendingDeletions(response.data.users);
+    setTotalPages(response.data.pagination.totalPages);
+  };
+
+  const fetchAuditLog = async () => {
+    const response = await adminAPI.getAuditLog({
+      page: currentPage,
+      limit: 50,
+      ...(auditFilters.action && { action: auditFilters.action }),
+      ...(auditFilters.targetId.trim() && { targetType: 'user', targetId: auditFilters.targetId.trim() })
+    });
+    setAuditEntries(response.data.entries);
+    setTotalPages(response.data.pagination.totalPages);
+  };
+
+  const openBanModal = (user: Pick<AdminUserDTO, 'id' | 'name'>) => {
+    setBanForm({ reason: '', until: '' });
+    setBanTarget(user);
+  };
+
+  const handleBanUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!banTarget) return;
+
     try {
-      await adminAPI.banUser(userId, isBanned);
-      setUsers(prev => prev.map(user => 
-        user.id === userId ? { ...user, is_banned: isBanned } : user
+      // datetime-local values are in the admin's own timezone
+      const until = banForm.until ? new Date(banForm.until).toISOString() : undefined;
+      await adminAPI.banUser(banTarget.id, {
+        isBanned: true,
+        ...(banForm.reason.trim() && { reason: banForm.reason.trim() }),
+        ...(until && { until })
+      });
+      setBanTarget(null);
+      await (activeTab === 'reports' ? fetchReports() : fetchUsers());
+      addNotification({
+        type: 'success',
+        title: 'Success',
+        message: 'User banned successfully'
+      });
+    } catch (error: any) {
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.details?.[0]?.message || error.response?.data?.error || 'Failed to ban user'
+      });
+    }
+  };
+
+  const handleUnbanUser = async (userId: number) => {
+    try {
+      await adminAPI.banUser(userId, { isBanned: false });
+      setUsers(prev => prev.map(user =>
+        user.id === userId ? { ...user, is_banned: false, ban_reason: null, banned_until: null } : user
       ));
       addNotification({
         type: 'success',
         title: 'Success',
-        message: `User ${isBanned ? 'banned' : 'unbanned'} successfully`
+        message: 'User unbanned successfully'
       });
     } catch (error) {
       addNotification({
         type: 'error',
         title: 'Error',
-        message: `Failed to ${isBanned ? 'ban' : 'unban'} user`
+        message: 'Failed to unban user'
+      });
+    }
+  };
+
+  const handleRoleChange = async (userId: number, role: RoleName) => {
+    try {
+      await adminAPI.assignRole(userId, role);
+      setUsers(prev => prev.map(user => user.id === userId ? { ...user, role } : user));
+      addNotification({
+        type: 'success',
+        title: 'Success',
+        message: 'Role updated'
+      });
+    } catch (error: any) {
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.error || 'Failed to update role'
+      });
+    }
+  };
+
+  const handleResolveReport = async (reportId: number, status: 'resolved' | 'dismissed') => {
+    try {
+      await adminAPI.resolveReport(reportId, { status });
+      await fetchReports();
+      addNotification({
+        type: 'success',
+        title: 'Success',
+        message: status === 'resolved' ? 'Report resolved' : 'Report dismissed'
+      });
+    } catch (error: any) {
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.error || 'Failed to update report'
       });
     }
   };
@@ -178,26 +352,22 @@ export default function AdminDashboard() {
     window.URL.revokeObjectURL(url);
   };
 
-  const tabs = [
-    { id: 'stats', label: 'Statistics', icon: BarChart3 },
-    { id: 'users', label: 'Users', icon: Users },
-    { id: 'swaps', label: 'Swaps', icon: RefreshCw },
-    { id: 'messages', label: 'Messages', icon: MessageSquare },
-  ];
-
+  // Admin routes refuse sessions that haven't passed two-factor authentication
   return (
     <div className="max-w-7xl mx-auto space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold text-gray-900">Admin Dashboard</h1>
         <div className="flex space-x-2">
-          <Button
-            onClick={() => setIsMessageModalOpen(true)}
-            icon={MessageSquare}
-            variant="outline"
-          >
-            Send Message
-          </Button>
+          {hasPermission('messages.broadcast') && (
+            <Button
+              onClick={() => setIsMessageModalOpen(true)}
+              icon={MessageSquare}
+              variant="outline"
+            >
+              Send Message
+            </Button>
+          )}
           {(activeTab === 'users' || activeTab === 'swaps') && (
             <Button
               onClick={exportData}
@@ -218,7 +388,7 @@ export default function AdminDashboard() {
               <button
                 key={id}
                 onClick={() => {
-                  setActiveTab(id as any);
+                  setActiveTab(id);
                   setCurrentPage(1);
                 }}
                 className={`flex items-center space-x-2 py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
@@ -237,6 +407,18 @@ export default function AdminDashboard() {
         <div className="p-6">
           {loading ? (
             <LoadingSpinner className="py-12" />
+          ) : twoFactorRequired ? (
+            <div className="max-w-xl mx-auto py-8 text-center space-y-4">
+              <ShieldAlert className="w-12 h-12 mx-auto text-yellow-500" />
+              <h2 className="text-2xl font-bold text-gray-900">Two-factor authentication required</h2>
+              <p className="text-gray-600">
+                This tab is only available after signing in with an authenticator app code.
+                Turn on two-factor authentication from your profile, or sign in again with your code if it is already on.
+              </p>
+              <Link to="/profile">
+                <Button>Go to profile</Button>
+              </Link>
+            </div>
           ) : (
             <>
               {/* Statistics Tab */}
@@ -248,7 +430,7 @@ export default function AdminDashboard() {
                       <div className="ml-4">
                         <p className="text-sm font-medium text-blue-600">Total Users</p>
                         <p className="text-2xl font-semibold text-gray-900">
-                          {stats.total_users.count}
+                          {stats.totalUsers}
                         </p>
                       </div>
                     </div>
@@ -260,7 +442,7 @@ export default function AdminDashboard() {
                       <div className="ml-4">
                         <p className="text-sm font-medium text-green-600">Active Users</p>
                         <p className="text-2xl font-semibold text-gray-900">
-                          {stats.active_users.count}
+                          {stats.activeUsers}
                         </p>
                       </div>
                     </div>
@@ -272,7 +454,7 @@ export default function AdminDashboard() {
                       <div className="ml-4">
                         <p className="text-sm font-medium text-purple-600">Total Skills</p>
                         <p className="text-2xl font-semibold text-gray-900">
-                          {stats.total_skills.count}
+                          {stats.totalSkills}
                         </p>
                       </div>
                     </div>
@@ -284,7 +466,7 @@ export default function AdminDashboard() {
                       <div className="ml-4">
                         <p className="text-sm font-medium text-yellow-600">Total Swaps</p>
                         <p className="text-2xl font-semibold text-gray-900">
-                          {stats.total_swaps.count}
+                          {stats.totalSwaps}
                         </p>
                       </div>
                     </div>
@@ -295,7 +477,7 @@ export default function AdminDashboard() {
                       <div className="ml-4">
                         <p className="text-sm font-medium text-orange-600">Pending Swaps</p>
                         <p className="text-2xl font-semibold text-gray-900">
-                          {stats.pending_swaps.count}
+                          {stats.pendingSwaps}
                         </p>
                       </div>
                     </div>
@@ -306,7 +488,7 @@ export default function AdminDashboard() {
                       <div className="ml-4">
                         <p className="text-sm font-medium text-indigo-600">Completed Swaps</p>
                         <p className="text-2xl font-semibold text-gray-900">
-                          {stats.completed_swaps.count}
+                          {stats.completedSwaps}
                         </p>
                       </div>
                     </div>
@@ -315,9 +497,9 @@ export default function AdminDashboard() {
                   <div className="bg-pink-50 rounded-lg p-6">
                     <div className="flex items-center">
                       <div className="ml-4">
-                        <p className="text-sm font-medium text-pink-600">Total Ratings</p>
+                        <p className="text-sm font-medium text-pink-600">Circle Swaps Proposed</p>
                         <p className="text-2xl font-semibold text-gray-900">
-                          {stats.total_ratings.count}
+                          {stats.proposedCircleSwaps}
                         </p>
                       </div>
                     </div>
@@ -326,13 +508,11 @@ export default function AdminDashboard() {
                   <div className="bg-teal-50 rounded-lg p-6">
                     <div className="flex items-center">
                       <div className="ml-4">
-                        <p className="text-sm font-medium text-teal-600">Avg Rating</p>
+                        <p className="text-sm font-medium text-teal-600">Circle Swaps Completed</p>
                         <p className="text-2xl font-semibold text-gray-900">
-                          {stats.avg_platform_rating.avg 
-                            ? stats.avg_platform_rating.avg.toFixed(1)
-                            : 'N/A'
-                          }
+                          {stats.completedCircleSwaps}
                         </p>
+                        <p className="text-xs text-gray-500">{stats.activeCircleSwaps} in progress</p>
                       </div>
                     </div>
                   </div>
@@ -383,6 +563,22 @@ export default function AdminDashboard() {
                                 {user.location && (
                                   <div className="text-sm text-gray-500">{user.location}</div>
                                 )}
+                                {hasPermission('roles.assign') && user.id !== currentUser?.id ? (
+                                  <select
+                                    value={user.role}
+                                    onChange={(e) => handleRoleChange(user.id, e.target.value as RoleName)}
+                                    aria-label={`Role for ${user.name}`}
+                                    className="mt-1 text-xs px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                                  >
+                                    {ROLE_OPTIONS.map(role => (
+                                      <option key={role} value={role}>{role}</option>
+                                    ))}
+                                  </select>
+                                ) : user.role !== 'user' && (
+                                  <span className="mt-1 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-800">
+                                    {user.role}
+                                  </span>
+                                )}
                               </div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -401,6 +597,16 @@ export default function AdminDashboard() {
                                 }`}>
                                   {user.is_banned ? 'Banned' : 'Active'}
                                 </span>
+                                {user.is_banned && (
+                                  <div className="text-xs text-gray-500 whitespace-normal max-w-xs">
+                                    <div>
+                                      {user.banned_until
+                                        ? `Until ${new Date(`${user.banned_until.replace(' ', 'T')}Z`).toLocaleString()}`
+                                        : 'Permanent'}
+                                    </div>
+                                    {user.ban_reason && <div>Reason: {user.ban_reason}</div>}
+                                  </div>
+                                )}
                                 <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
                                   user.is_public 
                                     ? 'bg-blue-100 text-blue-800' 
@@ -411,19 +617,236 @@ export default function AdminDashboard() {
                               </div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                              {/* Staff can't be banned; change their role first */}
+                              {hasPermission('users.ban') && user.role === 'user' && (
+                                <Button
+                                  onClick={() => user.is_banned ? handleUnbanUser(user.id) : openBanModal(user)}
+                                  size="sm"
+                                  variant={user.is_banned ? "outline" : "danger"}
+                                  icon={user.is_banned ? CheckCircle : Ban}
+                                >
+                                  {user.is_banned ? 'Unban' : 'Ban'}
+                                </Button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {/* Reports Tab */}
+              {activeTab === 'reports' && (
+                <div className="space-y-4">
+                  {reports.length === 0 && (
+                    <p className="text-center text-gray-500 py-8">No reports</p>
+                  )}
+                  {reports.map((report) => (
+                    <div key={report.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="space-y-1">
+                          <div className="flex items-center space-x-2">
+                            <span className="text-sm font-medium text-gray-900">
+                              {report.reportedUserName}
+                            </span>
+                            <span className="text-sm text-gray-500">{report.reportedUserEmail}</span>
+                            {report.reportedUserBanned && (
+                              <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                                Banned
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-sm text-gray-700">
+                            {REPORT_REASON_LABELS[report.reason] ?? report.reason}
+                            {report.details && ` · ${report.details}`}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            Reported by {report.reporterName} on{' '}
+                            {new Date(`${report.createdAt.replace(' ', 'T')}Z`).toLocaleString()}
+                          </div>
+                          {report.status !== 'open' && (
+                            <div className="text-xs text-gray-500">
+                              {report.status === 'resolved' ? 'Resolved' : 'Dismissed'}
+                              {report.resolvedByName && ` by ${report.resolvedByName}`}
+                              {report.resolution && ` · ${report.resolution}`}
+                            </div>
+                          )}
+                        </div>
+                        {report.status === 'open' && hasPermission('reports.resolve') && (
+                          <div className="flex space-x-2 flex-shrink-0">
+                            {hasPermission('users.ban') && !report.reportedUserBanned && (
                               <Button
-                                onClick={() => handleBanUser(user.id, !user.is_banned)}
                                 size="sm"
-                                variant={user.is_banned ? "outline" : "danger"}
-                                icon={user.is_banned ? CheckCircle : Ban}
+                                variant="danger"
+                                icon={Ban}
+                                onClick={() => openBanModal({ id: report.reportedUserId, name: report.reportedUserName })}
                               >
-                                {user.is_banned ? 'Unban' : 'Ban'}
+                                Ban
                               </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              icon={CheckCircle}
+                              onClick={() => handleResolveReport(report.id, 'resolved')}
+                            >
+                              Resolve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              icon={XCircle}
+                              onClick={() => handleResolveReport(report.id, 'dismissed')}
+                            >
+                              Dismiss
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Deletions Tab */}
+              {activeTab === 'deletions' && (
+                <div className="overflow-x-auto">
+                  <p className="text-sm text-gray-600 mb-4">
+                    These accounts asked to be deleted. Each is erased on its date unless the user cancels first.
+                  </p>
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          User
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Member since
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Requested
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Deleted on
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {pendingDeletions.map((pending) => (
+                        <tr key={pending.id}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm font-medium text-gray-900">{pending.name}</div>
+                            <div className="text-sm text-gray-500">{pending.email}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {new Date(`${pending.created_at.replace(' ', 'T')}Z`).toLocaleDateString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {new Date(`${pending.deletion_requested_at.replace(' ', 'T')}Z`).toLocaleString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {new Date(`${pending.deletion_scheduled_for.replace(' ', 'T')}Z`).toLocaleString()}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {pendingDeletions.length === 0 && (
+                    <p className="text-center text-gray-500 py-8">No pending account deletions</p>
+                  )}
+                </div>
+              )}
+
+              {/* Audit Tab */}
+              {activeTab === 'audit' && (
+                <div className="space-y-4">
+                  <div className="flex items-center space-x-4">
+                    <select
+                      value={auditFilters.action}
+                      onChange={(e) => {
+                        setAuditFilters(prev => ({ ...prev, action: e.target.value }));
+                        setCurrentPage(1);
+                      }}
+                      aria-label="Filter by action"
+                      className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    >
+                      {AUDIT_ACTION_FILTERS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <div className="w-48">
+                      <Input
+                        placeholder="User ID"
+                        inputMode="numeric"
+                        value={auditFilters.targetId}
+                        onChange={(e) => {
+                          setAuditFilters(prev => ({ ...prev, targetId: e.target.value }));
+                          setCurrentPage(1);
+                        }}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            When
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Actor
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Action
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Changes
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {auditEntries.map((entry) => (
+                          <tr key={entry.id}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {new Date(`${entry.createdAt.replace(' ', 'T')}Z`).toLocaleString()}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="text-sm text-gray-900">
+                                {entry.actorName ?? (entry.metadata?.source === 'cli' ? 'Command line' : 'System')}
+                              </div>
+                              {entry.ipAddress && (
+                                <div className="text-xs text-gray-500">{entry.ipAddress}</div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="text-sm font-mono text-gray-900">{entry.action}</div>
+                              {entry.targetType && (
+                                <div className="text-xs text-gray-500">
+                                  {entry.targetType} #{entry.targetId}
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-700">
+                              {entry.changes && Object.entries(entry.changes).map(([field, { before, after }]) => (
+                                <div key={field}>
+                                  <span className="font-medium">{field}</span>: {formatAuditValue(before)} → {formatAuditValue(after)}
+                                </div>
+                              ))}
+                              {entry.metadata && (
+                                <div className="text-xs text-gray-500 whitespace-normal max-w-md break-words">
+                                  {Object.entries(entry.metadata).map(([key, value]) => `${key}: ${formatAuditValue(value)}`).join(' · ')}
+                                </div>
+                              )}
                             </td>
                           </tr>
                         ))}
                       </tbody>
                     </table>
+                    {auditEntries.length === 0 && (
+                      <p className="text-center text-gray-500 py-8">No audit entries</p>
+                    )}
                   </div>
                 </div>
               )}
@@ -483,7 +906,7 @@ export default function AdminDashboard() {
               )}
 
               {/* Pagination */}
-              {(activeTab === 'users' || activeTab === 'swaps') && totalPages > 1 && (
+              {activeTab !== 'stats' && activeTab !== 'messages' && totalPages > 1 && (
                 <div className="flex justify-center space-x-2 mt-6">
                   <Button
                     variant="outline"
@@ -520,6 +943,54 @@ export default function AdminDashboard() {
         </div>
       </div>
 
+      {/* Ban User Modal */}
+      <Modal
+        isOpen={banTarget !== null}
+        onClose={() => setBanTarget(null)}
+        title={`Ban ${banTarget?.name ?? 'user'}`}
+      >
+        <form onSubmit={handleBanUser} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            The user is signed out everywhere, hidden from search and matches, and their pending swaps are cancelled.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <textarea
+              value={banForm.reason}
+              onChange={(e) => setBanForm(prev => ({ ...prev, reason: e.target.value }))}
+              rows={3}
+              maxLength={500}
+              placeholder="Shown to the user when they try to sign in"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+
+          <Input
+            label="Banned until (leave empty for a permanent ban)"
+            type="datetime-local"
+            value={banForm.until}
+            onChange={(e) => setBanForm(prev => ({ ...prev, until: e.target.value }))}
+          />
+
+          <div className="flex space-x-3 pt-4">
+            <Button type="submit" variant="danger" icon={Ban} className="flex-1">
+              Ban User
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setBanTarget(null)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
       {/* Send Message Modal */}
       <Modal
         isOpen={isMessageModalOpen}
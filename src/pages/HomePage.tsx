@@ -1,37 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { Search, Filter, Users, TrendingUp } from 'lucide-react';
+import type { PopularSkill, SearchUserDTO } from '@skill-swap/contracts';
 import { usersAPI, skillsAPI } from '../services/api';
 import { useNotifications } from '../contexts/NotificationContext';
 import ProfileCard from '../components/profile/ProfileCard';
+import SuggestedSwaps from '../components/matches/SuggestedSwaps';
 import Input from '../components/ui/Input';
 import Button from '../components/ui/Button';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
 
-interface User {
-  id: number;
-  name: string;
-  location?: string;
-  profile_photo?: string;
-  availability: string;
-  offered_skills: string[];
-  wanted_skills: string[];
-  avg_rating: number | null;
-  total_ratings: number;
-}
-
-interface PopularSkill {
-  name: string;
-  count: number;
-}
-
 export default function HomePage() {
-  const [users, setUsers] = useState<User[]>([]);
+  const [users, setUsers] = useState<SearchUserDTO[]>([]);
   const [popularSkills, setPopularSkills] = useState<PopularSkill[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [searchLoading, setSearchLoading] = useState(false);
+  // Only show people whose weekly availability overlaps mine, best match first
+  const [overlapsWithMe, setOverlapsWithMe] = useState(false);
   const { addNotification } = useNotifications();
 
   const USERS_PER_PAGE = 12;
@@ -51,7 +38,7 @@ export default function HomePage() {
     }, 500);
 
     return () => clearTimeout(delayedSearch);
-  }, [searchTerm]);
+  }, [searchTerm, overlapsWithMe]);
 
   const fetchUsers = async () => {
     try {
@@ -59,7 +46,8 @@ export default function HomePage() {
       const response = await usersAPI.searchUsers({
         page: currentPage,
         limit: USERS_PER_PAGE,
-        ...(searchTerm && { skill: searchTerm })
+        ...(searchTerm && { skill: searchTerm }),
+        ...(overlapsWithMe && { overlapsWithMe: true })
       });
 
       setUsers(response.data.users);
@@ -142,6 +130,16 @@ export default function HomePage() {
           </Button>
         </div>
 
+        <label className="mt-4 flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={overlapsWithMe}
+            onChange={(e) => setOverlapsWithMe(e.target.checked)}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          />
+          <span>Only people free when I am</span>
+        </label>
+
         {/* Popular Skills */}
         {popularSkills.length > 0 && (
           <div className="mt-6">
@@ -164,6 +162,9 @@ export default function HomePage() {
         )}
       </div>
 
+      {/* Two-way matches for the current user */}
+      <SuggestedSwaps />
+
       {/* Results Header */}
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-2">
@@ -193,7 +194,9 @@ export default function HomePage() {
             No users found
           </h3>
           <p className="text-gray-600">
-            {searchTerm 
+            {overlapsWithMe
+              ? 'No one shares your availability yet. Check your weekly availability on your profile.'
+              : searchTerm 
               ? `No users found with skills matching "${searchTerm}"`
               : 'No users available at the moment'
             }
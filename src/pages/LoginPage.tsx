@@ -1,23 +1,123 @@
-import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotifications } from '../contexts/NotificationContext';
-import { RefreshCw, Mail, Lock } from 'lucide-react';
+import { authAPI } from '../services/api';
+import { RefreshCw, MailCheck, KeyRound, AlertCircle, ShieldCheck } from 'lucide-react';
 import Input from '../components/ui/Input';
 import Button from '../components/ui/Button';
+import LoadingSpinner from '../components/ui/LoadingSpinner';
+import PasswordStrengthMeter from '../components/auth/PasswordStrengthMeter';
+import OidcProviderButtons from '../components/auth/OidcProviderButtons';
+
+// Besides signing in, this screen handles the links sent by email and the
+// return from an external sign-in provider
+type Mode = 'login' | 'oidc' | 'two-factor' | 'forgot' | 'forgot-sent' | 'reset' | 'verifying' | 'verified' | 'link-invalid';
+
+const HEADINGS: Record<Mode, { title: string; subtitle: string }> = {
+  login: { title: 'Welcome back', subtitle: 'Sign in to your SkillSwap account' },
+  oidc: { title: 'Signing you in', subtitle: 'Just a moment…' },
+  'two-factor': { title: 'Two-factor authentication', subtitle: 'Enter the 6-digit code from your authenticator app' },
+  forgot: { title: 'Forgot your password?', subtitle: "Enter your email and we'll send you a reset link" },
+  'forgot-sent': { title: 'Check your inbox', subtitle: 'If an account exists for that email, a reset link is on its way' },
+  reset: { title: 'Choose a new password', subtitle: 'You will be signed out of all your devices' },
+  verifying: { title: 'Confirming your email', subtitle: 'Just a moment…' },
+  verified: { title: 'Email confirmed', subtitle: 'Thanks! Your email address is verified.' },
+  'link-invalid': { title: 'Link not valid', subtitle: 'This link is invalid or has expired' }
+};
+
+function initialMode(pathname: string, token: string, oidcCode: string): Mode {
+  if (oidcCode) return 'oidc';
+  if (pathname === '/reset-password') return token ? 'reset' : 'link-invalid';
+  if (pathname === '/verify-email') return token ? 'verifying' : 'link-invalid';
+  return 'login';
+}
 
 export default function LoginPage() {
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const linkToken = searchParams.get('token') || '';
+  // The server puts the outcome of a provider sign-in in the URL fragment
+  const [oidcResult] = useState(() => new URLSearchParams(location.hash.slice(1)));
+  const [mode, setMode] = useState<Mode>(() => initialMode(location.pathname, linkToken, oidcResult.get('oidc_code') || ''));
   const [formData, setFormData] = useState({
     email: '',
-    password: ''
+    password: '',
+    confirmPassword: '',
+    code: ''
   });
+  const [challengeToken, setChallengeToken] = useState('');
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
-  const { login } = useAuth();
+  const { user, login, loginWithOidc, completeTwoFactorLogin, updateUser } = useAuth();
   const { addNotification } = useNotifications();
   const navigate = useNavigate();
 
+  // Verification links are confirmed as soon as the page opens, once
+  const verifyStarted = useRef(false);
+  useEffect(() => {
+    if (mode !== 'verifying' || verifyStarted.current) return;
+    verifyStarted.current = true;
+
+    authAPI.verifyEmail(linkToken)
+      .then(() => {
+        setMode('verified');
+        updateUser({ email_verified: true });
+      })
+      .catch(() => setMode('link-invalid'));
+  }, [mode, linkToken, updateUser]);
+
+  // Provider sign-ins are finished once, and the code is dropped from the address bar
+  const oidcStarted = useRef(false);
+  useEffect(() => {
+    if (oidcStarted.current) return;
+    oidcStarted.current = true;
+
+    const code = oidcResult.get('oidc_code');
+    const error = oidcResult.get('oidc_error');
+    if (!code && !error) return;
+    navigate('/login', { replace: true });
+
+    if (error) {
+      addNotification({ type: 'error', title: 'Login Failed', message: error });
+      return;
+    }
+
+    loginWithOidc(code!)
+      .then((result) => {
+        if (result.status === 'two_factor') {
+          setChallengeToken(result.challengeToken);
+          setMode('two-factor');
+          return;
+        }
+        addNotification({
+          type: 'success',
+          title: 'Welcome back!',
+          message: 'You have successfully logged in.'
+        });
+        navigate('/');
+      })
+      .catch((loginError: Error) => {
+        addNotification({ type: 'error', title: 'Login Failed', message: loginError.message });
+        setMode('login');
+      });
+  }, [oidcResult, loginWithOidc, navigate, addNotification]);
+
+  const switchMode = (next: Mode) => {
+    setErrors({});
+    setMode(next);
+  };
+
+  const backToLogin = () => {
+    setChallengeToken('');
+    setFormData(prev => ({ ...prev, code: '' }));
+    if (location.pathname !== '/login') {
+      navigate('/login', { replace: true });
+    }
+    switchMode('login');
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -43,6 +143,69 @@ export default function LoginPage() {
     return Object.keys(newErrors).length === 0;
   };
 
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/\S+@\S+\.\S+/.test(formData.email)) {
+      setErrors({ email: 'Please enter a valid email' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await authAPI.forgotPassword(formData.email);
+      switchMode('forgot-sent');
+    } catch (error: any) {
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.error || 'Failed to send reset link'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: Record<string, string> = {};
+    if (!formData.password) {
+      newErrors.password = 'Password is required';
+    }
+    if (formData.password !== formData.confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setLoading(true);
+    try {
+      await authAPI.resetPassword(linkToken, formData.password);
+      addNotification({
+        type: 'success',
+        title: 'Password updated',
+        message: 'Please sign in with your new password.'
+      });
+      navigate('/login', { replace: true });
+    } catch (error: any) {
+      const details = error.response?.data?.details;
+      if (details?.length) {
+        setErrors({ password: details[0].message });
+      } else if (error.response?.status === 400) {
+        switchMode('link-invalid');
+      } else {
+        addNotification({
+          type: 'error',
+          title: 'Error',
+          message: error.response?.data?.error || 'Failed to reset password'
+        });
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -50,7 +213,12 @@ export default function LoginPage() {
 
     setLoading(true);
     try {
-      await login(formData.email, formData.password);
+      const result = await login(formData.email, formData.password);
+      if (result.status === 'two_factor') {
+        setChallengeToken(result.challengeToken);
+        switchMode('two-factor');
+        return;
+      }
       addNotification({
         type: 'success',
         title: 'Welcome back!',
@@ -68,6 +236,31 @@ export default function LoginPage() {
     }
   };
 
+  const handleTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.code.trim()) {
+      setErrors({ code: 'Code is required' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await completeTwoFactorLogin(challengeToken, formData.code.trim());
+      addNotification({
+        type: 'success',
+        title: 'Welcome back!',
+        message: 'You have successfully logged in.'
+      });
+      navigate('/');
+    } catch (error: any) {
+      setFormData(prev => ({ ...prev, code: '' }));
+      setErrors({ code: error.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -77,16 +270,46 @@ export default function LoginPage() {
             <RefreshCw className="w-12 h-12 text-primary-600" />
           </div>
           <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
-            Welcome back
+            {HEADINGS[mode].title}
           </h2>
           <p className="mt-2 text-sm text-gray-600">
-            Sign in to your SkillSwap account
+            {HEADINGS[mode].subtitle}
           </p>
         </div>
 
-{/* Form */}
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
-          <div className="space-y-4">
+        {(mode === 'verifying' || mode === 'oidc') && <LoadingSpinner />}
+
+        {(mode === 'forgot-sent' || mode === 'verified' || mode === 'link-invalid') && (
+          <div className="space-y-6 text-center">
+            {mode === 'link-invalid'
+              ? <AlertCircle className="w-10 h-10 mx-auto text-red-500" />
+              : <MailCheck className="w-10 h-10 mx-auto text-green-500" />}
+            {mode === 'verified' && user ? (
+              <Button className="w-full" size="lg" onClick={() => navigate('/')}>
+                Continue to SkillSwap
+              </Button>
+            ) : (
+              <Button className="w-full" size="lg" variant="outline" onClick={backToLogin}>
+                Back to sign in
+              </Button>
+            )}
+            {mode === 'link-invalid' && location.pathname === '/reset-password' && (
+              <p className="text-sm text-gray-600">
+                Need a new reset link?{' '}
+                <button
+                  type="button"
+                  onClick={() => switchMode('forgot')}
+                  className="font-medium text-primary-600 hover:text-primary-500 transition-colors"
+                >
+                  Request one
+                </button>
+              </p>
+            )}
+          </div>
+        )}
+
+        {mode === 'forgot' && (
+          <form className="mt-8 space-y-6" onSubmit={handleForgotPassword}>
             <Input
               label="Email address"
               name="email"
@@ -98,39 +321,146 @@ export default function LoginPage() {
               placeholder="Enter your email"
             />
 
+            <Button type="submit" loading={loading} className="w-full" size="lg">
+              Send reset link
+            </Button>
+
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={backToLogin}
+                className="text-sm font-medium text-primary-600 hover:text-primary-500 transition-colors"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </form>
+        )}
+
+        {mode === 'reset' && (
+          <form className="mt-8 space-y-6" onSubmit={handleResetPassword}>
+            <div className="space-y-4">
+              <Input
+                label="New password"
+                name="password"
+                type="password"
+                autoComplete="new-password"
+                value={formData.password}
+                onChange={handleChange}
+                error={errors.password}
+                placeholder="Enter a new password"
+              />
+              <PasswordStrengthMeter password={formData.password} />
+
+              <Input
+                label="Confirm new password"
+                name="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                value={formData.confirmPassword}
+                onChange={handleChange}
+                error={errors.confirmPassword}
+                placeholder="Enter it again"
+              />
+            </div>
+
+            <Button type="submit" loading={loading} className="w-full" size="lg" icon={KeyRound}>
+              Update password
+            </Button>
+          </form>
+        )}
+
+        {mode === 'two-factor' && (
+          <form className="mt-8 space-y-6" onSubmit={handleTwoFactor}>
             <Input
-              label="Password"
-              name="password"
-              type="password"
-              autoComplete="current-password"
-              value={formData.password}
+              label="Authentication code"
+              name="code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              value={formData.code}
               onChange={handleChange}
-              error={errors.password}
-              placeholder="Enter your password"
+              error={errors.code}
+              placeholder="123456"
+              helperText="Lost your device? Enter one of your recovery codes instead."
             />
-          </div>
 
-          <Button
-            type="submit"
-            loading={loading}
-            className="w-full"
-            size="lg"
-          >
-            Sign in
-          </Button>
-
-          <div className="text-center">
-            <p className="text-sm text-gray-600">
-              Don't have an account?{' '}
-              <Link
-                to="/register"
-                className="font-medium text-primary-600 hover:text-primary-500 transition-colors"
+            <Button type="submit" loading={loading} className="w-full" size="lg" icon={ShieldCheck}>
+              Verify
+            </Button>
+
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={backToLogin}
+                className="text-sm font-medium text-primary-600 hover:text-primary-500 transition-colors"
               >
-                Sign up here
-              </Link>
-            </p>
-          </div>
-        </form>
+                Back to sign in
+              </button>
+            </div>
+          </form>
+        )}
+
+        {mode === 'login' && (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            <div className="space-y-4">
+              <Input
+                label="Email address"
+                name="email"
+                type="email"
+                autoComplete="email"
+                value={formData.email}
+                onChange={handleChange}
+                error={errors.email}
+                placeholder="Enter your email"
+              />
+
+              <Input
+                label="Password"
+                name="password"
+                type="password"
+                autoComplete="current-password"
+                value={formData.password}
+                onChange={handleChange}
+                error={errors.password}
+                placeholder="Enter your password"
+              />
+
+              <div className="text-right">
+                <button
+                  type="button"
+                  onClick={() => switchMode('forgot')}
+                  className="text-sm font-medium text-primary-600 hover:text-primary-500 transition-colors"
+                >
+                  Forgot your password?
+                </button>
+              </div>
+            </div>
+
+            <Button
+              type="submit"
+              loading={loading}
+              className="w-full"
+              size="lg"
+            >
+              Sign in
+            </Button>
+
+            <OidcProviderButtons />
+
+            <div className="text-center">
+              <p className="text-sm text-gray-600">
+                Don't have an account?{' '}
+                <Link
+                  to="/register"
+                  className="font-medium text-primary-600 hover:text-primary-500 transition-colors"
+                >
+                  Sign up here
+                </Link>
+              </p>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
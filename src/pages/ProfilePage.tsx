@@ -1,44 +1,40 @@
 import React, { useState, useEffect } from 'react';
+import type { ProficiencyLevel, ProfileUpdateInput, SkillDTO, SkillType, UserRatings } from '@skill-swap/contracts';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotifications } from '../contexts/NotificationContext';
-import { skillsAPI, usersAPI } from '../services/api';
-import { Plus, Edit2, Trash2, MapPin, Clock, Star } from 'lucide-react';
+import { ratingsAPI, skillsAPI, usersAPI } from '../services/api';
+import { Plus, Edit2, Trash2, MapPin, Clock, Star, Shield, Smartphone, Database } from 'lucide-react';
 import Input from '../components/ui/Input';
 import Button from '../components/ui/Button';
 import Modal from '../components/ui/Modal';
 import SkillTag from '../components/profile/SkillTag';
+import AvailabilityEditor from '../components/profile/AvailabilityEditor';
+import SessionsPanel from '../components/profile/SessionsPanel';
+import TwoFactorPanel from '../components/profile/TwoFactorPanel';
+import AccountDataPanel from '../components/profile/AccountDataPanel';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
 
-interface Skill {
-  id: number;
-  name: string;
-  type: 'offered' | 'wanted';
-  description?: string;
-  proficiency_level: 'beginner' | 'intermediate' | 'advanced' | 'expert';
-}
-
 export default function ProfilePage() {
   const { user, updateUser } = useAuth();
   const { addNotification } = useNotifications();
-  const [skills, setSkills] = useState<Skill[]>([]);
+  const [skills, setSkills] = useState<SkillDTO[]>([]);
   const [loading, setLoading] = useState(true);
   const [isEditingProfile, setIsEditingProfile] = useState(false);
   const [isAddingSkill, setIsAddingSkill] = useState(false);
-  const [editingSkill, setEditingSkill] = useState<Skill | null>(null);
-  const [userRatings, setUserRatings] = useState<any>(null);
+  const [editingSkill, setEditingSkill] = useState<SkillDTO | null>(null);
+  const [userRatings, setUserRatings] = useState<UserRatings | null>(null);
 
-  const [profileForm, setProfileForm] = useState({
+  const [profileForm, setProfileForm] = useState<Required<ProfileUpdateInput>>({
     name: user?.name || '',
     location: user?.location || '',
-    availability: user?.availability || 'weekends',
-    is_public: user?.is_public || true
+    is_public: user?.is_public ?? true
   });
 
   const [skillForm, setSkillForm] = useState({
     name: '',
-    type: 'offered' as 'offered' | 'wanted',
+    type: 'offered' as SkillType,
     description: '',
-    proficiency_level: 'intermediate' as 'beginner' | 'intermediate' | 'advanced' | 'expert'
+    proficiency_level: 'intermediate' as ProficiencyLevel
   });
 
   useEffect(() => {
@@ -49,9 +45,7 @@ export default function ProfilePage() {
     try {
       const [skillsResponse, ratingsResponse] = await Promise.all([
         skillsAPI.getSkills(),
-        user ? fetch(`/api/ratings/user/${user.id}`, {
-          headers: { 'Authorization': `Bearer ${localStorage.getItem('token')}` }
-        }).then(res => res.json()) : Promise.resolve(null)
+        user ? ratingsAPI.getUserRatings(user.id).then(response => response.data) : Promise.resolve(null)
       ]);
 
       setSkills(skillsResponse.data);
@@ -147,7 +141,7 @@ export default function ProfilePage() {
     }
   };
 
-  const openEditSkill = (skill: Skill) => {
+  const openEditSkill = (skill: SkillDTO) => {
     setSkillForm({
       name: skill.name,
       type: skill.type,
@@ -201,10 +195,6 @@ export default function ProfilePage() {
                   <span>{user.location}</span>
                 </div>
               )}
-              <div className="flex items-center space-x-2">
-                <Clock className="w-4 h-4" />
-                <span>Available: {user?.availability}</span>
-              </div>
               <div className="flex items-center space-x-2">
                 <span className={`w-2 h-2 rounded-full ${user?.is_public ? 'bg-green-500' : 'bg-gray-400'}`} />
                 <span>{user?.is_public ? 'Public Profile' : 'Private Profile'}</span>
@@ -235,6 +225,42 @@ export default function ProfilePage() {
         </div>
       </div>
 
+      {/* Availability Section */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center space-x-2 mb-6">
+          <Clock className="w-6 h-6 text-primary-600" />
+          <h2 className="text-2xl font-semibold text-gray-900">Weekly Availability</h2>
+        </div>
+        <AvailabilityEditor />
+      </div>
+
+      {/* Two-Factor Section */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center space-x-2 mb-6">
+          <Smartphone className="w-6 h-6 text-primary-600" />
+          <h2 className="text-2xl font-semibold text-gray-900">Two-Factor Authentication</h2>
+        </div>
+        <TwoFactorPanel />
+      </div>
+
+      {/* Devices Section */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center space-x-2 mb-6">
+          <Shield className="w-6 h-6 text-primary-600" />
+          <h2 className="text-2xl font-semibold text-gray-900">Signed-in Devices</h2>
+        </div>
+        <SessionsPanel />
+      </div>
+
+      {/* Your Data Section */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center space-x-2 mb-6">
+          <Database className="w-6 h-6 text-primary-600" />
+          <h2 className="text-2xl font-semibold text-gray-900">Your Data</h2>
+        </div>
+        <AccountDataPanel />
+      </div>
+
       {/* Skills Section */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="flex items-center justify-between mb-6">
@@ -351,22 +377,6 @@ export default function ProfilePage() {
             placeholder="City, Country"
           />
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Availability
-            </label>
-            <select
-              value={profileForm.availability}
-              onChange={(e) => setProfileForm(prev => ({ ...prev, availability: e.target.value }))}
-              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-            >
-              <option value="weekdays">Weekdays</option>
-              <option value="weekends">Weekends</option>
-              <option value="evenings">Evenings</option>
-              <option value="flexible">Flexible</option>
-            </select>
-          </div>
-
           <div className="flex items-center">
             <input
               type="checkbox"
@@ -425,7 +435,7 @@ export default function ProfilePage() {
             </label>
             <select
               value={skillForm.type}
-              onChange={(e) => setSkillForm(prev => ({ ...prev, type: e.target.value as 'offered' | 'wanted' }))}
+              onChange={(e) => setSkillForm(prev => ({ ...prev, type: e.target.value as SkillType }))}
               className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
             >
               <option value="offered">I can teach this</option>
@@ -439,7 +449,7 @@ export default function ProfilePage() {
             </label>
             <select
               value={skillForm.proficiency_level}
-              onChange={(e) => setSkillForm(prev => ({ ...prev, proficiency_level: e.target.value as any }))}
+              onChange={(e) => setSkillForm(prev => ({ ...prev, proficiency_level: e.target.value as ProficiencyLevel }))}
               className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
             >
               <option value="beginner">Beginner</option>
@@ -5,6 +5,9 @@ import { useNotifications } from '../contexts/NotificationContext';
 import { RefreshCw } from 'lucide-react';
 import Input from '../components/ui/Input';
 import Button from '../components/ui/Button';
+import PasswordStrengthMeter from '../components/auth/PasswordStrengthMeter';
+import OidcProviderButtons from '../components/auth/OidcProviderButtons';
+import type { PasswordCheck } from '../services/api';
 
 export default function RegisterPage() {
   const [formData, setFormData] = useState({
@@ -18,6 +21,7 @@ export default function RegisterPage() {
   });
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [passwordCheck, setPasswordCheck] = useState<PasswordCheck | null>(null);
 
   const { register } = useAuth();
   const { addNotification } = useNotifications();
@@ -54,8 +58,8 @@ export default function RegisterPage() {
 
     if (!formData.password) {
       newErrors.password = 'Password is required';
-    } else if (formData.password.length < 6) {
-      newErrors.password = 'Password must be at least 6 characters';
+    } else if (passwordCheck && !passwordCheck.valid) {
+      newErrors.password = passwordCheck.errors[0];
     }
 
     if (formData.password !== formData.confirmPassword) {
@@ -79,7 +83,7 @@ export default function RegisterPage() {
       addNotification({
         type: 'success',
         title: 'Welcome to SkillSwap!',
-        message: 'Your account has been created successfully.'
+        message: `Your account has been created. We sent a confirmation link to ${formData.email}.`
       });
       navigate('/');
     } catch (error: any) {
@@ -142,7 +146,13 @@ export default function RegisterPage() {
               value={formData.password}
               onChange={handleChange}
               error={errors.password}
-              placeholder="Create a password (min. 6 characters)"
+              placeholder="Create a strong password"
+            />
+            <PasswordStrengthMeter
+              password={formData.password}
+              email={formData.email}
+              name={formData.name}
+              onChange={setPasswordCheck}
             />
 
             <Input
@@ -207,6 +217,8 @@ export default function RegisterPage() {
             Create Account
           </Button>
 
+          <OidcProviderButtons />
+
           <div className="text-center">
             <p className="text-sm text-gray-600">
               Already have an account?{' '}
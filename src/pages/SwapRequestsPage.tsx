@@ -1,10 +1,23 @@
-import React, { useState, useEffect } from 'react';
-import { swapsAPI, ratingsAPI } from '../services/api';
+import React, { useState, useEffect, useCallback } from 'react';
+import type { SwapDetails, SwapListParams, SwapSession, SwapStatus, SwapStatusUpdate } from '@skill-swap/contracts';
+import { swapsAPI, ratingsAPI, messagesAPI } from '../services/api';
 import { useNotifications } from '../contexts/NotificationContext';
-import { RefreshCw, Clock, CheckCircle, XCircle, Star, MessageCircle, Calendar } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { RefreshCw, Clock, CheckCircle, XCircle, Star, MessageCircle, Calendar, CalendarClock, MapPin, CalendarDays } from 'lucide-react';
 import Button from '../components/ui/Button';
 import Modal from '../components/ui/Modal';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
+import ChatPanel from '../components/chat/ChatPanel';
+import SchedulePanel, { formatSessionRange } from '../components/schedule/SchedulePanel';
+import CalendarFeedPanel from '../components/schedule/CalendarFeedPanel';
+import CircleSwapsPanel from '../components/circles/CircleSwapsPanel';
+
+interface UpcomingSession extends SwapSession {
+  partnerName: string;
+  offeredSkillName: string;
+  wantedSkillName: string;
+  awaitingResponse: boolean;
+}
 
 interface SwapRequest {
   id: number;
@@ -14,8 +27,8 @@ interface SwapRequest {
   wanted_skill_name: string;
   requester_name: string;
   provider_name: string;
-  status: 'pending' | 'accepted' | 'rejected' | 'completed' | 'cancelled';
-  message?: string;
+  status: SwapStatus;
+  message: string | null;
   created_at: string;
   updated_at: string;
   is_requester: boolean; // Whether the current user is the requester
@@ -25,22 +38,83 @@ export default function SwapRequestsPage() {
   const [swapRequests, setSwapRequests] = useState<SwapRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'sent' | 'received'>('sent');
-  const [statusFilter, setStatusFilter] = useState<string>('');
+  const [statusFilter, setStatusFilter] = useState<SwapStatus | ''>('');
   const [ratingModal, setRatingModal] = useState<{ isOpen: boolean; swapId: number | null }>({
     isOpen: false,
     swapId: null
   });
   const [ratingForm, setRatingForm] = useState({ rating: 5, feedback: '' });
-  const { addNotification } = useNotifications();
+  const [chat, setChat] = useState<{ swapId: number; partnerName: string } | null>(null);
+  const [unreadMessages, setUnreadMessages] = useState<Record<number, number>>({});
+  const [schedule, setSchedule] = useState<{ swapId: number; partnerName: string } | null>(null);
+  const [upcomingSessions, setUpcomingSessions] = useState<UpcomingSession[]>([]);
+  const [showCalendarFeed, setShowCalendarFeed] = useState(false);
+  const { addNotification, subscribeToSwapEvents, subscribeToChatEvents } = useNotifications();
+  const { user } = useAuth();
 
   useEffect(() => {
     fetchSwapRequests();
   }, [filter, statusFilter]);
 
+  useEffect(() => {
+    fetchUnreadMessages();
+    fetchUpcomingSessions();
+  }, []);
+
+  // Count incoming messages for conversations that aren't open
+  useEffect(() => {
+    return subscribeToChatEvents((event) => {
+      if (event.type !== 'message.created' || event.swapId === chat?.swapId) return;
+      if (event.message.senderId === user?.id) return;
+
+      setUnreadMessages(prev => ({ ...prev, [event.swapId]: (prev[event.swapId] || 0) + 1 }));
+    });
+  }, [subscribeToChatEvents, chat?.swapId, user?.id]);
+
+  // Patch rows in place as the other side acts on a swap
+  useEffect(() => {
+    return subscribeToSwapEvents((event) => {
+      if (event.type.startsWith('session.') || event.type === 'swap.status_changed' || event.type === 'swap.auto_cancelled') {
+        fetchUpcomingSessions();
+      }
+
+      if (event.type === 'swap.deleted') {
+        setSwapRequests(prev => prev.filter(swap => swap.id !== event.swapId));
+        return;
+      }
+
+      const updated = mapSwap(event.swap);
+      setSwapRequests(prev => {
+        if (prev.some(swap => swap.id === event.swapId)) {
+          return prev.map(swap => swap.id === event.swapId ? updated : swap);
+        }
+
+        // New requests only belong on the "received" list
+        const matchesFilters = filter === 'received' && (!statusFilter || statusFilter === updated.status);
+        return event.type === 'swap.created' && matchesFilters ? [updated, ...prev] : prev;
+      });
+    });
+  }, [subscribeToSwapEvents, filter, statusFilter]);
+
+  // Map the API response to match our frontend interface
+  const mapSwap = (swap: SwapDetails): SwapRequest => ({
+    ...swap,
+    requester_name: swap.requesterName,
+    provider_name: swap.providerName,
+    requester_id: swap.requesterId,
+    provider_id: swap.providerId,
+    offered_skill_name: swap.offeredSkillName,
+    wanted_skill_name: swap.wantedSkillName,
+    created_at: swap.createdAt,
+    updated_at: swap.updatedAt,
+    // Add a field to identify if the current user is the requester
+    is_requester: swap.requesterId === parseInt(localStorage.getItem('userId') || '0')
+  });
+
   const fetchSwapRequests = async () => {
     try {
       setLoading(true);
-      const params: any = {};
+      const params: SwapListParams = {};
       
       // Always filter by the selected type (sent or received)
       params.type = filter;
@@ -52,20 +126,7 @@ export default function SwapRequestsPage() {
 
       const response = await swapsAPI.getSwapRequests(params);
       
-      // Map the API response to match our frontend interface
-      const mappedSwaps = response.data.map((swap: any) => ({
-        ...swap,
-        requester_name: swap.requesterName,
-        provider_name: swap.providerName,
-        requester_id: swap.requesterId,
-        provider_id: swap.providerId,
-        offered_skill_name: swap.offeredSkillName,
-        wanted_skill_name: swap.wantedSkillName,
-        created_at: swap.createdAt,
-        updated_at: swap.updatedAt,
-        // Add a field to identify if the current user is the requester
-        is_requester: swap.requesterId === parseInt(localStorage.getItem('userId') || '0')
-      }));
+      const mappedSwaps: SwapRequest[] = response.data.map(mapSwap);
       
       // If 'all' is selected, we need to ensure we're showing both sent and received requests
       // The backend should handle this with the type parameter, but we'll double-check here
@@ -97,14 +158,55 @@ export default function SwapRequestsPage() {
     }
   };
 
-  const handleStatusUpdate = async (swapId: number, status: string) => {
+  const fetchUnreadMessages = async () => {
+    try {
+      const response = await messagesAPI.getThreads();
+      const counts: Record<number, number> = {};
+      response.data.forEach((thread: { swapId: number; unreadCount: number }) => {
+        counts[thread.swapId] = thread.unreadCount;
+      });
+      setUnreadMessages(counts);
+    } catch (error) {
+      console.error('Error fetching message threads:', error);
+    }
+  };
+
+  const fetchUpcomingSessions = async () => {
+    try {
+      const response = await swapsAPI.getUpcomingSessions();
+      setUpcomingSessions(response.data);
+    } catch (error) {
+      console.error('Error fetching upcoming sessions:', error);
+    }
+  };
+
+  const openSchedule = (swap: SwapRequest) => {
+    setSchedule({
+      swapId: swap.id,
+      partnerName: swap.requester_id === user?.id ? swap.provider_name : swap.requester_name
+    });
+  };
+
+  const openChat = (swap: SwapRequest) => {
+    setChat({
+      swapId: swap.id,
+      partnerName: swap.requester_id === user?.id ? swap.provider_name : swap.requester_name
+    });
+  };
+
+  const handleChatRead = useCallback(() => {
+    if (!chat) return;
+    setUnreadMessages(prev => ({ ...prev, [chat.swapId]: 0 }));
+  }, [chat?.swapId]);
+
+  const handleStatusUpdate = async (swapId: number, status: SwapStatusUpdate['status']) => {
     try {
       await swapsAPI.updateSwapStatus(swapId, { status });
       
       setSwapRequests(prev => prev.map(swap => 
         swap.id === swapId ? { 
           ...swap, 
-          status: status as any, 
+          status, 
           updated_at: new Date().toISOString() 
         } : swap
       ));
@@ -258,9 +360,14 @@ export default function SwapRequestsPage() {
       {/* Header */}
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold text-gray-900">Swap Requests</h1>
-        <Button onClick={fetchSwapRequests} icon={RefreshCw} variant="outline">
-          Refresh
-        </Button>
+        <div className="flex gap-2">
+          <Button onClick={() => setShowCalendarFeed(true)} icon={CalendarDays} variant="outline">
+            Calendar Feed
+          </Button>
+          <Button onClick={fetchSwapRequests} icon={RefreshCw} variant="outline">
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -286,7 +393,7 @@ export default function SwapRequestsPage() {
             </label>
             <select
               value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value)}
+              onChange={(e) => setStatusFilter(e.target.value as SwapStatus | '')}
               className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
             >
               <option value="">All Statuses</option>
@@ -300,6 +407,56 @@ export default function SwapRequestsPage() {
         </div>
       </div>
 
+      {/* Upcoming Sessions */}
+      {upcomingSessions.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <CalendarClock className="w-5 h-5 mr-2 text-primary-600" />
+            Upcoming Sessions
+          </h2>
+          <div className="divide-y divide-gray-100">
+            {upcomingSessions.map((session) => (
+              <div key={session.id} className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {formatSessionRange(session)}
+                    <span className="font-normal text-gray-600"> with {session.partnerName}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {session.offeredSkillName} ↔ {session.wantedSkillName}
+                    {session.location && (
+                      <span className="inline-flex items-center ml-2">
+                        <MapPin className="w-3 h-3 mr-0.5" />
+                        {session.location}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                    session.status === 'confirmed'
+                      ? 'bg-green-100 text-green-800'
+                      : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {session.status === 'confirmed' ? 'Confirmed' : session.awaitingResponse ? 'Needs your reply' : 'Awaiting reply'}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setSchedule({ swapId: session.swapId, partnerName: session.partnerName })}
+                  >
+                    Details
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Multi-party rings */}
+      <CircleSwapsPanel />
+
       {/* Swap Requests */}
       {swapRequests.length > 0 ? (
         <div className="space-y-4">
@@ -413,13 +570,23 @@ export default function SwapRequestsPage() {
                 )}
 
                 {swap.status === 'accepted' && (
-                  <Button
-                    onClick={() => handleStatusUpdate(swap.id, 'completed')}
-                    size="sm"
-                    className="bg-blue-600 hover:bg-blue-700"
-                  >
-                    Mark as Completed
-                  </Button>
+                  <>
+                    <Button
+                      onClick={() => handleStatusUpdate(swap.id, 'completed')}
+                      size="sm"
+                      className="bg-blue-600 hover:bg-blue-700"
+                    >
+                      Mark as Completed
+                    </Button>
+                    <Button
+                      onClick={() => openSchedule(swap)}
+                      size="sm"
+                      icon={CalendarClock}
+                      variant="outline"
+                    >
+                      Schedule
+                    </Button>
+                  </>
                 )}
 
                 {swap.status === 'completed' && (
@@ -432,6 +599,22 @@ export default function SwapRequestsPage() {
                     Rate Experience
                   </Button>
                 )}
+
+                {(swap.status === 'accepted' || swap.status === 'completed') && (
+                  <Button
+                    onClick={() => openChat(swap)}
+                    size="sm"
+                    icon={MessageCircle}
+                    variant="outline"
+                  >
+                    Message
+                    {unreadMessages[swap.id] > 0 && (
+                      <span className="ml-2 bg-red-500 text-white text-xs rounded-full min-w-[1.25rem] h-5 px-1 flex items-center justify-center">
+                        {unreadMessages[swap.id]}
+                      </span>
+                    )}
+                  </Button>
+                )}
               </div>
             </div>
           ))}
@@ -453,6 +636,49 @@ export default function SwapRequestsPage() {
         </div>
       )}
 
+      {/* Schedule Modal */}
+      <Modal
+        isOpen={schedule !== null}
+        onClose={() => setSchedule(null)}
+        title={schedule ? `Sessions with ${schedule.partnerName}` : ''}
+        size="lg"
+      >
+        {schedule && (
+          <SchedulePanel
+            key={schedule.swapId}
+            swapId={schedule.swapId}
+            partnerName={schedule.partnerName}
+            onChange={fetchUpcomingSessions}
+          />
+        )}
+      </Modal>
+
+      {/* Calendar Feed Modal */}
+      <Modal
+        isOpen={showCalendarFeed}
+        onClose={() => setShowCalendarFeed(false)}
+        title="Calendar Feed"
+      >
+        <CalendarFeedPanel />
+      </Modal>
+
+      {/* Chat Modal */}
+      <Modal
+        isOpen={chat !== null}
+        onClose={() => setChat(null)}
+        title={chat ? `Chat with ${chat.partnerName}` : ''}
+        size="lg"
+      >
+        {chat && (
+          <ChatPanel
+            key={chat.swapId}
+            swapId={chat.swapId}
+            partnerName={chat.partnerName}
+            onRead={handleChatRead}
+          />
+        )}
+      </Modal>
+
       {/* Rating Modal */}
       <Modal
         isOpen={ratingModal.isOpen}
@@ -1,51 +1,25 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useSearchParams } from 'react-router-dom';
-import { usersAPI, swapsAPI, ratingsAPI, skillsAPI } from '../services/api';
+import type { PublicProfile, SkillDTO, UserRatings } from '@skill-swap/contracts';
+import { usersAPI, swapsAPI, ratingsAPI, skillsAPI, reportsAPI, type ReportReason } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotifications } from '../contexts/NotificationContext';
-import { MapPin, Clock, Star, MessageCircle, ArrowLeft } from 'lucide-react';
+import { MapPin, Clock, Star, MessageCircle, ArrowLeft, Flag } from 'lucide-react';
 import Button from '../components/ui/Button';
 import Modal from '../components/ui/Modal';
 import SkillTag from '../components/profile/SkillTag';
+import WeeklyAvailability from '../components/profile/WeeklyAvailability';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
 
-interface UserProfile {
-  id: number;
-  name: string;
-  location?: string;
-  profile_photo?: string;
-  availability: string;
-  skills: Array<{
-    id: number;
-    name: string;
-    type: 'offered' | 'wanted';
-    description?: string;
-    proficiency_level: string;
-  }>;
-  avg_rating: number | null;
-  total_ratings: number;
-}
-
-interface UserRatings {
-  ratings: Array<{
-    rating: number;
-    feedback?: string;
-    created_at: string;
-    rater_name: string;
-  }>;
-  avg_rating: number | null;
-  total_ratings: number;
-}
-
 export default function UserProfilePage() {
   const { id } = useParams<{ id: string }>();
   const [searchParams] = useSearchParams();
   const { user } = useAuth();
   const { addNotification } = useNotifications();
   
-  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
   const [userRatings, setUserRatings] = useState<UserRatings | null>(null);
-  const [mySkills, setMySkills] = useState<any[]>([]);
+  const [mySkills, setMySkills] = useState<SkillDTO[]>([]);
   const [loading, setLoading] = useState(true);
   const [isSwapModalOpen, setIsSwapModalOpen] = useState(false);
   const [swapForm, setSwapForm] = useState({
@@ -53,6 +27,8 @@ export default function UserProfilePage() {
     wanted_skill_id: '',
     message: ''
   });
+  const [isReportModalOpen, setIsReportModalOpen] = useState(false);
+  const [reportForm, setReportForm] = useState({ reason: 'spam' as ReportReason, details: '' });
 
   useEffect(() => {
     if (id) {
@@ -61,8 +37,13 @@ export default function UserProfilePage() {
       fetchMySkills();
     }
 
-    // Auto-open swap modal if action=swap in URL
+    // Auto-open swap modal if action=swap in URL, with any suggested skills filled in
     if (searchParams.get('action') === 'swap') {
+      setSwapForm(prev => ({
+        ...prev,
+        offered_skill_id: searchParams.get('offered') || prev.offered_skill_id,
+        wanted_skill_id: searchParams.get('wanted') || prev.wanted_skill_id
+      }));
       setIsSwapModalOpen(true);
     }
   }, [id, searchParams]);
@@ -139,6 +120,30 @@ export default function UserProfilePage() {
     }
   };
 
+  const handleReport = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await reportsAPI.reportUser(parseInt(id!), reportForm.reason, reportForm.details.trim() || undefined);
+
+      setIsReportModalOpen(false);
+      setReportForm({ reason: 'spam', details: '' });
+
+      addNotification({
+        type: 'success',
+        title: 'Report sent',
+        message: 'Thanks for letting us know. A moderator will review it.'
+      });
+    } catch (error: any) {
+      console.error('Error reporting user:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.error || 'Failed to send report'
+      });
+    }
+  };
+
   if (loading) {
     return <LoadingSpinner className="min-h-screen" />;
   }
@@ -195,19 +200,28 @@ export default function UserProfilePage() {
                 )}
                 <div className="flex items-center space-x-1">
                   <Clock className="w-4 h-4" />
-                  <span>Available: {profile.availability}</span>
+                  <span>{profile.timezone}</span>
                 </div>
               </div>
             </div>
           </div>
 
           {user?.id !== profile.id && (
-            <Button
-              onClick={() => setIsSwapModalOpen(true)}
-              icon={MessageCircle}
-            >
-              Request Swap
-            </Button>
+            <div className="flex space-x-2">
+              <Button
+                onClick={() => setIsSwapModalOpen(true)}
+                icon={MessageCircle}
+              >
+                Request Swap
+              </Button>
+              <Button
+                onClick={() => setIsReportModalOpen(true)}
+                icon={Flag}
+                variant="ghost"
+              >
+                Report
+              </Button>
+            </div>
           )}
         </div>
 
@@ -282,6 +296,12 @@ export default function UserProfilePage() {
         </div>
       </div>
 
+      {/* Availability */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Weekly Availability</h2>
+        <WeeklyAvailability timezone={profile.timezone} slots={profile.availability} />
+      </div>
+
       {/* Reviews */}
       {userRatings && userRatings.ratings.length > 0 && (
         <div className="bg-white rounded-lg shadow-md p-6">
@@ -394,6 +414,64 @@ export default function UserProfilePage() {
           </div>
         </form>
       </Modal>
+
+      {/* Report User Modal */}
+      <Modal
+        isOpen={isReportModalOpen}
+        onClose={() => setIsReportModalOpen(false)}
+        title={`Report ${profile.name}`}
+      >
+        <form onSubmit={handleReport} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Reports are only seen by moderators. {profile.name} won't be told who sent it.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+            </label>
+            <select
+              value={reportForm.reason}
+              onChange={(e) => setReportForm(prev => ({ ...prev, reason: e.target.value as ReportReason }))}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="spam">Spam</option>
+              <option value="harassment">Harassment</option>
+              <option value="inappropriate">Inappropriate content</option>
+              <option value="no_show">Didn't show up for a swap</option>
+              <option value="other">Other</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Details (Optional)
+            </label>
+            <textarea
+              value={reportForm.details}
+              onChange={(e) => setReportForm(prev => ({ ...prev, details: e.target.value }))}
+              rows={4}
+              maxLength={2000}
+              placeholder="What happened?"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+
+          <div className="flex space-x-3 pt-4">
+            <Button type="submit" variant="danger" className="flex-1">
+              Send Report
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsReportModalOpen(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </Modal>
     </div>
   );
 }
\ No newline at end of file
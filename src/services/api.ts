@@ -1,4 +1,59 @@
 import axios from 'axios';
+import type {
+  AdminListParams,
+  AdminMessageInput,
+  AdminSwapsResponse,
+  AdminUsersResponse,
+  AuthSession,
+  Availability,
+  BanInput,
+  CircleProposal,
+  LoginResponse,
+  MessageResponse,
+  OidcProvider,
+  PasswordCheck,
+  PasswordStrengthInput,
+  PendingDeletionsResponse,
+  PopularSkill,
+  Profile,
+  ProfileUpdateInput,
+  PublicProfile,
+  RatingInput,
+  RecoveryCodesResponse,
+  RegistrationInput,
+  ReportReason,
+  ReportResolutionInput,
+  RoleName,
+  SessionProposal,
+  SessionResponse,
+  SkillDTO,
+  SkillInput,
+  SwapDetails,
+  SwapListParams,
+  SwapRequestCreated,
+  SwapRequestInput,
+  SwapStatus,
+  SwapStatusUpdate,
+  TokenPair,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  UserRatings,
+  UserSearchParams,
+  UserSearchResponse
+} from '@skill-swap/contracts';
+
+// Request and response shapes come from @skill-swap/contracts, the package the
+// server validates against, so a mismatch with the API fails to compile
+export type {
+  AuthSession,
+  Availability,
+  AvailabilitySlot,
+  CircleProposal,
+  OidcProvider,
+  PasswordCheck,
+  ReportReason,
+  SessionProposal
+} from '@skill-swap/contracts';
 
 export const api = axios.create({
   baseURL: 'http://localhost:3001/api',
@@ -19,12 +74,71 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor for handling errors
+export function storeTokens({ token, refreshToken }: TokenPair) {
+  localStorage.setItem('token', token);
+  localStorage.setItem('refreshToken', refreshToken);
+}
+
+export function clearTokens() {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+}
+
+// Requests that must not trigger a refresh when they come back 401
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
+// Every 401 that arrives while a refresh is in flight waits for the same one
+let refreshRequest: Promise<string> | null = null;
+
+// Trade the stored refresh token for a new access token. Refresh tokens are
+// single-use, so if another tab rotated ours first, pick up what it stored.
+export function refreshAccessToken(): Promise<string> {
+  if (!refreshRequest) {
+    const refreshToken = localStorage.getItem('refreshToken');
+    refreshRequest = (refreshToken
+      ? axios.post<TokenPair>(`${api.defaults.baseURL}/auth/refresh`, { refreshToken }, { timeout: api.defaults.timeout })
+          .then((response) => {
+            storeTokens(response.data);
+            return response.data.token;
+          })
+          .catch((error) => {
+            const current = localStorage.getItem('refreshToken');
+            if (current && current !== refreshToken) {
+              return localStorage.getItem('token') as string;
+            }
+            throw error;
+          })
+      : Promise.reject(new Error('No refresh token'))
+    ).finally(() => {
+      refreshRequest = null;
+    });
+  }
+  return refreshRequest;
+}
+
+// Response interceptor: refresh an expired access token once and retry,
+// and only send the user to /login when the session can't be renewed
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
+  async (error) => {
+    const original = error.config;
+    const isAuthRequest = AUTH_ENDPOINTS.some(endpoint => original?.url?.startsWith(endpoint));
+
+    if (error.response?.status === 401 && original && !isAuthRequest && !original._retried) {
+      original._retried = true;
+      try {
+        const token = await refreshAccessToken();
+        original.headers.Authorization = `Bearer ${token}`;
+        return api(original);
+      } catch {
+        clearTokens();
+        window.location.href = '/login';
+      }
+    }
+
+    // Banned mid-session; the login page explains why
+    if (error.response?.status === 403 && error.response.data?.code === 'ACCOUNT_BANNED' && !isAuthRequest) {
+      clearTokens();
       window.location.href = '/login';
     }
     return Promise.reject(error);
@@ -34,63 +148,250 @@ api.interceptors.response.use(
 // API service functions
 export const authAPI = {
   login: (email: string, password: string) =>
-    api.post('/auth/login', { email, password }),
+    api.post<LoginResponse>('/auth/login', { email, password }),
+  
+  register: (userData: RegistrationInput) =>
+    api.post<SessionResponse>('/auth/register', userData),
+  
+  logout: (refreshToken: string) => api.post<MessageResponse>('/auth/logout', { refreshToken }),
+  
+  forgotPassword: (email: string) => api.post<MessageResponse>('/auth/forgot-password', { email }),
+  
+  resetPassword: (token: string, password: string) =>
+    api.post<MessageResponse>('/auth/reset-password', { token, password }),
+  
+  verifyEmail: (token: string) => api.post<MessageResponse>('/auth/verify-email', { token }),
+  
+  resendVerification: () => api.post<MessageResponse>('/auth/resend-verification'),
+  
+  getSessions: () => api.get<{ sessions: AuthSession[] }>('/auth/sessions'),
+  
+  revokeSession: (id: number) => api.delete<MessageResponse>(`/auth/sessions/${id}`),
+  
+  revokeOtherSessions: () => api.delete<MessageResponse & { revoked: number }>('/auth/sessions'),
   
-  register: (userData: any) =>
-    api.post('/auth/register', userData),
+  loginTwoFactor: (challengeToken: string, code: string) =>
+    api.post<SessionResponse>('/auth/login/2fa', { challengeToken, code }),
+  
+  checkPasswordStrength: (password: string, context: Omit<PasswordStrengthInput, 'password'> = {}) =>
+    api.post<PasswordCheck>('/auth/password-strength', { password, ...context }),
+  
+  getOidcProviders: () => api.get<{ providers: OidcProvider[] }>('/auth/oidc/providers'),
+  
+  // The browser goes here itself; the server redirects on to the provider
+  oidcAuthorizeUrl: (providerId: string) =>
+    `${api.defaults.baseURL}/auth/oidc/${encodeURIComponent(providerId)}/authorize`,
+  
+  // Swap the code the server hands back after the provider for a session
+  loginOidc: (code: string) => api.post<LoginResponse>('/auth/login/oidc', { code }),
+};
+
+// Authenticator app enrollment for the signed-in user
+export const twoFactorAPI = {
+  getStatus: () => api.get<TwoFactorStatus>('/auth/2fa'),
+  
+  setup: () => api.post<TwoFactorSetup>('/auth/2fa/setup'),
+  
+  enable: (code: string) => api.post<RecoveryCodesResponse>('/auth/2fa/enable', { code }),
+  
+  disable: (code: string) => api.post<MessageResponse>('/auth/2fa/disable', { code }),
+  
+  regenerateRecoveryCodes: (code: string) =>
+    api.post<RecoveryCodesResponse>('/auth/2fa/recovery-codes', { code }),
 };
 
 export const usersAPI = {
-  getProfile: () => api.get('/users/profile'),
+  getProfile: () => api.get<Profile>('/users/profile'),
   
-  updateProfile: (data: any) => api.put('/users/profile', data),
+  updateProfile: (data: ProfileUpdateInput) => api.put<MessageResponse>('/users/profile', data),
   
-  searchUsers: (params: any) => api.get('/users/search', { params }),
+  getAvailability: () => api.get<Availability>('/users/profile/availability'),
   
-  getUserById: (id: number) => api.get(`/users/${id}`),
+  updateAvailability: (availability: Availability) =>
+    api.put<MessageResponse & Availability>('/users/profile/availability', availability),
+  
+  searchUsers: (params: UserSearchParams) => api.get<UserSearchResponse>('/users/search', { params }),
+  
+  getUserById: (id: number) => api.get<PublicProfile>(`/users/${id}`),
+
+  exportData: () => api.get<Blob>('/users/me/export', { responseType: 'blob' }),
+
+  // Asks for the account to be deleted once the grace period is over
+  deleteAccount: (password: string) =>
+    api.delete<{ message: string; deletionScheduledFor: string }>('/users/me', { data: { password } }),
+
+  cancelDeletion: () => api.delete<MessageResponse>('/users/me/deletion'),
 };
 
 export const skillsAPI = {
-  getSkills: () => api.get('/skills'),
+  getSkills: () => api.get<SkillDTO[]>('/skills'),
   
-  addSkill: (skill: any) => api.post('/skills', skill),
+  addSkill: (skill: SkillInput) => api.post<MessageResponse & { skill: SkillDTO }>('/skills', skill),
   
-  updateSkill: (id: number, skill: any) => api.put(`/skills/${id}`, skill),
+  updateSkill: (id: number, skill: SkillInput) => api.put<MessageResponse>(`/skills/${id}`, skill),
   
-  deleteSkill: (id: number) => api.delete(`/skills/${id}`),
+  deleteSkill: (id: number) => api.delete<MessageResponse>(`/skills/${id}`),
   
-  getPopularSkills: () => api.get('/skills/popular'),
+  getPopularSkills: () => api.get<PopularSkill[]>('/skills/popular'),
+};
+
+export interface MatchSkill {
+  id: number;
+  name: string;
+  proficiency_level: string;
+}
+
+export interface Match {
+  user: {
+    id: number;
+    name: string;
+    location: string | null;
+    profile_photo: string | null;
+    avg_rating: number | null;
+    lastActiveAt: string | null;
+  };
+  offeredSkill: MatchSkill;
+  wantedSkill: MatchSkill;
+  score: number;
+  breakdown: Record<'proficiency' | 'rating' | 'location' | 'activity', number>;
+  reasons: string[];
+}
+
+export const matchesAPI = {
+  getMatches: (params?: { page?: number; limit?: number }) => api.get('/matches', { params }),
+};
+
+export const circlesAPI = {
+  getSuggestions: () => api.get('/circles/suggestions'),
+  
+  getCircles: () => api.get('/circles'),
+  
+  proposeCircle: (proposal: CircleProposal) => api.post('/circles', proposal),
+  
+  acceptCircle: (id: number) => api.post(`/circles/${id}/accept`),
+  
+  declineCircle: (id: number) => api.post(`/circles/${id}/decline`),
+  
+  completeCircle: (id: number) => api.post(`/circles/${id}/complete`),
+  
+  cancelCircle: (id: number) => api.post(`/circles/${id}/cancel`),
 };
 
 export const swapsAPI = {
-  getSwapRequests: (params?: any) => api.get('/swaps', { params }),
+  getSwapRequests: (params?: SwapListParams) => api.get<SwapDetails[]>('/swaps', { params }),
+  
+  createSwapRequest: (data: SwapRequestInput) => api.post<SwapRequestCreated>('/swaps', data),
+  
+  updateSwapStatus: (id: number, data: SwapStatusUpdate) =>
+    api.put<MessageResponse>(`/swaps/${id}/status`, data),
   
-  createSwapRequest: (data: any) => api.post('/swaps', data),
+  deleteSwapRequest: (id: number) => api.delete<MessageResponse>(`/swaps/${id}`),
   
-  updateSwapStatus: (id: number, data: { status: string }) =>
-    api.put(`/swaps/${id}/status`, data),
+  getUpcomingSessions: () => api.get('/swaps/sessions/upcoming'),
   
-  deleteSwapRequest: (id: number) => api.delete(`/swaps/${id}`),
+  getSchedule: (id: number) => api.get(`/swaps/${id}/schedule`),
+  
+  proposeSession: (id: number, data: SessionProposal) =>
+    api.post(`/swaps/${id}/schedule`, data),
+  
+  counterSession: (id: number, sessionId: number, data: SessionProposal) =>
+    api.post(`/swaps/${id}/schedule/${sessionId}/counter`, data),
+  
+  confirmSession: (id: number, sessionId: number) =>
+    api.post(`/swaps/${id}/schedule/${sessionId}/confirm`),
+  
+  declineSession: (id: number, sessionId: number) =>
+    api.post(`/swaps/${id}/schedule/${sessionId}/decline`),
+  
+  cancelSession: (id: number, sessionId: number) =>
+    api.delete(`/swaps/${id}/schedule/${sessionId}`),
 };
 
 export const ratingsAPI = {
-  addRating: (swapId: number, data: any) =>
-    api.post(`/ratings/swap/${swapId}`, data),
+  addRating: (swapId: number, data: RatingInput) =>
+    api.post<MessageResponse>(`/ratings/swap/${swapId}`, data),
   
-  getUserRatings: (userId: number) => api.get(`/ratings/user/${userId}`),
+  getUserRatings: (userId: number) => api.get<UserRatings>(`/ratings/user/${userId}`),
 };
 
 export const adminAPI = {
-  getUsers: (params?: any) => api.get('/admin/users', { params }),
+  getUsers: (params?: AdminListParams & { search?: string }) =>
+    api.get<AdminUsersResponse>('/admin/users', { params }),
   
-  banUser: (id: number, is_banned: boolean) =>
-    api.put(`/admin/users/${id}/ban`, { is_banned }),
+  // until is an ISO date-time; leave it out for a permanent ban
+  banUser: (id: number, ban: BanInput) =>
+    api.put(`/admin/users/${id}/ban`, ban),
   
-  getSwaps: (params?: any) => api.get('/admin/swaps', { params }),
+  getSwaps: (params?: AdminListParams & { status?: SwapStatus }) =>
+    api.get<AdminSwapsResponse>('/admin/swaps', { params }),
   
   getStats: () => api.get('/admin/stats'),
   
-  sendMessage: (data: any) => api.post('/admin/messages', data),
+  sendMessage: (data: AdminMessageInput) => api.post<MessageResponse>('/admin/messages', data),
   
   getMessages: () => api.get('/admin/messages'),
+  
+  getRoles: () => api.get('/admin/roles'),
+  
+  assignRole: (id: number, role: RoleName) => api.put(`/admin/users/${id}/role`, { role }),
+  
+  getReports: (params?: AdminListParams & { status?: string }) =>
+    api.get('/admin/reports', { params }),
+  
+  resolveReport: (id: number, data: ReportResolutionInput) =>
+    api.put(`/admin/reports/${id}`, data),
+  
+  // action may end in * to match a prefix; from and to are ISO date-times
+  getAuditLog: (params?: {
+    action?: string;
+    actorId?: number;
+    targetType?: string;
+    targetId?: string;
+    from?: string;
+    to?: string;
+    page?: number;
+    limit?: number;
+  }) => api.get('/admin/audit', { params }),
+
+  getPendingDeletions: (params?: AdminListParams) =>
+    api.get<PendingDeletionsResponse>('/admin/deletions', { params }),
+};
+
+export const reportsAPI = {
+  reportUser: (userId: number, reason: ReportReason, details?: string) =>
+    api.post<MessageResponse>('/reports', { userId, reason, details }),
+};
+
+export const notificationsAPI = {
+  getNotifications: (params?: { page?: number; limit?: number; unread?: boolean }) =>
+    api.get('/notifications', { params }),
+  
+  getUnreadCount: () => api.get('/notifications/unread-count'),
+  
+  markAsRead: (id: number) => api.put(`/notifications/${id}/read`),
+  
+  markAllAsRead: () => api.put('/notifications/read-all'),
+  
+  deleteNotification: (id: number) => api.delete(`/notifications/${id}`),
+};
+
+export const messagesAPI = {
+  getThreads: () => api.get('/messages/threads'),
+  
+  getMessages: (swapId: number, params?: { before?: number; limit?: number }) =>
+    api.get(`/messages/swap/${swapId}`, { params }),
+  
+  sendMessage: (swapId: number, content: string) =>
+    api.post(`/messages/swap/${swapId}`, { content }),
+  
+  markAsRead: (swapId: number) => api.put(`/messages/swap/${swapId}/read`),
+};
+
+export const calendarAPI = {
+  getFeed: () => api.get('/calendar/token'),
+  
+  rotateFeed: () => api.post('/calendar/token/rotate'),
+  
+  downloadSwap: (swapId: number) =>
+    api.get(`/calendar/swap/${swapId}.ics`, { responseType: 'blob' }),
 };
\ No newline at end of file